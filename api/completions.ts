@@ -0,0 +1,287 @@
+import { z } from 'zod';
+import {
+    GraphQLSchema,
+    GraphQLNamedType,
+    GraphQLField,
+    getNamedType,
+    isObjectType,
+    isInterfaceType,
+    isAbstractType,
+    isCompositeType,
+    isEnumType,
+    isIntrospectionType
+} from 'graphql';
+import {
+    CompleteRequestSchema,
+    CompleteResult,
+    PromptReferenceSchema,
+    ResourceReferenceSchema,
+    McpError,
+    ErrorCode
+} from '@modelcontextprotocol/sdk/types.js';
+import { McpServer, RegisteredPrompt, RegisteredResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import {
+    QueryState,
+    loadEndpointRegistry,
+    resolveEndpointAndHeaders,
+    fetchAndCacheSchema,
+    loadQueryState
+} from '../tools/shared-utils.js';
+import { getAllTools } from '../tools/index.js';
+
+// Same cap the SDK applies to prompt and resource completions
+const MAX_COMPLETION_VALUES = 100;
+
+// Non-standard tool argument reference; the arguments the client has already filled in arrive as context.arguments
+const ToolReferenceSchema = z.object({ type: z.literal('ref/tool'), name: z.string() }).passthrough();
+
+const ToolCompleteRequestSchema = CompleteRequestSchema.extend({
+    params: CompleteRequestSchema.shape.params.extend({
+        ref: z.union([PromptReferenceSchema, ResourceReferenceSchema, ToolReferenceSchema]),
+        context: z.object({ arguments: z.record(z.string()).optional() }).passthrough().optional()
+    })
+});
+
+interface CompletionScope {
+    schema: GraphQLSchema;
+    queryState: QueryState | null;
+}
+
+interface ResolvedPath {
+    node: any;
+    type: GraphQLNamedType;
+    field?: GraphQLField<any, any>;
+}
+
+// Schema of the session when one is given, else of the endpoint argument (or the default endpoint)
+async function loadCompletionScope(args: Record<string, string>): Promise<CompletionScope | null> {
+    const queryState = args.sessionId ? await loadQueryState(args.sessionId) : null;
+    if (queryState) {
+        return { queryState, schema: await fetchAndCacheSchema(queryState.headers, queryState.endpoint) };
+    }
+    if (args.sessionId) return null;
+
+    const { url, headers } = resolveEndpointAndHeaders(args.endpoint);
+    if (!url) return null;
+    return { queryState: null, schema: await fetchAndCacheSchema(headers, args.endpoint) };
+}
+
+// Query node, schema type and field definition at a dot-separated path of the session's query
+function resolvePath(schema: GraphQLSchema, queryState: QueryState, path: string): ResolvedPath | null {
+    const rootType = schema.getType(queryState.operationTypeName);
+    if (!rootType) return null;
+
+    let resolved: ResolvedPath = { node: queryState.queryStructure, type: rootType };
+    for (const part of path ? path.split('.') : []) {
+        const child = resolved.node.fields?.[part];
+        if (!child || !(isObjectType(resolved.type) || isInterfaceType(resolved.type))) return null;
+
+        const field = resolved.type.getFields()[child.fieldName || part];
+        if (!field) return null;
+        resolved = { node: child, type: getNamedType(field.type), field };
+    }
+    return resolved;
+}
+
+function fieldNamesOf(type: GraphQLNamedType | null | undefined): string[] {
+    if (isObjectType(type) || isInterfaceType(type)) return Object.keys(type.getFields());
+    return isCompositeType(type) ? ['__typename'] : [];
+}
+
+function enumValuesOf(type: GraphQLNamedType | null | undefined): string[] {
+    return isEnumType(type) ? type.getValues().map(value => value.name) : [];
+}
+
+function typeNamesOf(schema: GraphQLSchema, filter: (type: GraphQLNamedType) => boolean = () => true): string[] {
+    return Object.values(schema.getTypeMap())
+        .filter(type => !isIntrospectionType(type) && filter(type))
+        .map(type => type.name)
+        .sort();
+}
+
+// Existing paths one segment below the part of the value before its last dot
+function nextPathSegments(scope: CompletionScope, value: string, compositeOnly: boolean): string[] {
+    if (!scope.queryState) return [];
+    const queryState = scope.queryState;
+    const parentPath = value.includes('.') ? value.slice(0, value.lastIndexOf('.')) : '';
+    const parent = resolvePath(scope.schema, queryState, parentPath);
+    if (!parent) return [];
+
+    return Object.keys(parent.node.fields || {})
+        .map(key => parentPath ? `${parentPath}.${key}` : key)
+        .filter(path => !compositeOnly || isCompositeType(resolvePath(scope.schema, queryState, path)?.type));
+}
+
+// Type whose fields may be selected: typeName/onType when given, else the type at parentPath
+function selectionType(scope: CompletionScope, args: Record<string, string>): GraphQLNamedType | null | undefined {
+    const explicitType = args.onType || args.typeName;
+    if (explicitType) return scope.schema.getType(explicitType);
+    if (scope.queryState) return resolvePath(scope.schema, scope.queryState, args.parentPath || '')?.type;
+    return scope.schema.getQueryType();
+}
+
+// Named type of the variable, from a declared type such as "[Color!]!"
+function variableType(scope: CompletionScope, variableName: string): GraphQLNamedType | null | undefined {
+    const name = variableName.startsWith('$') ? variableName : `$${variableName}`;
+    const typeString = scope.queryState?.variablesSchema[name];
+    return typeString ? scope.schema.getType(typeString.replace(/[[\]!]/g, '')) : null;
+}
+
+function argumentCandidates(scope: CompletionScope, toolName: string, args: Record<string, string>): string[] {
+    if (args.directiveName) {
+        return (scope.schema.getDirective(args.directiveName.replace(/^@/, ''))?.args || []).map(arg => arg.name);
+    }
+    if (!scope.queryState || !args.fieldPath) return [];
+
+    const target = resolvePath(scope.schema, scope.queryState, args.fieldPath);
+    if (!target) return [];
+    // remove-argument can only remove what is set
+    if (toolName === 'remove-argument') return Object.keys(target.node.args || {});
+    return (target.field?.args || []).map(arg => arg.name);
+}
+
+function valueCandidates(scope: CompletionScope, args: Record<string, string>): string[] {
+    if (args.variableName) return enumValuesOf(variableType(scope, args.variableName));
+    if (!scope.queryState || !args.fieldPath || !args.argumentName) return [];
+
+    const target = resolvePath(scope.schema, scope.queryState, args.fieldPath);
+    const argument = target?.field?.args.find(arg => arg.name === args.argumentName);
+    return argument ? enumValuesOf(getNamedType(argument.type)) : [];
+}
+
+function fragmentTypeCandidates(scope: CompletionScope, args: Record<string, string>): string[] {
+    const parentType = scope.queryState ? resolvePath(scope.schema, scope.queryState, args.parentPath || '')?.type : null;
+    if (parentType && isAbstractType(parentType)) {
+        return scope.schema.getPossibleTypes(parentType).map(type => type.name);
+    }
+    return typeNamesOf(scope.schema, isCompositeType);
+}
+
+async function completionCandidates(toolName: string, argumentName: string, value: string, args: Record<string, string>): Promise<string[]> {
+    if (argumentName === 'endpoint') return Array.from(loadEndpointRegistry().keys());
+
+    const scope = await loadCompletionScope(args);
+    if (!scope) return [];
+
+    switch (argumentName) {
+        case 'parentPath':
+            return nextPathSegments(scope, value, true);
+        case 'fieldPath':
+        case 'currentPath':
+            return nextPathSegments(scope, value, false);
+        case 'fieldName':
+        case 'fieldNames':
+            return fieldNamesOf(selectionType(scope, args));
+        case 'argumentName':
+            return argumentCandidates(scope, toolName, args);
+        case 'variableName':
+            return Object.keys(scope.queryState?.variablesSchema || {});
+        case 'value':
+            return valueCandidates(scope, args);
+        case 'onType':
+            return fragmentTypeCandidates(scope, args);
+        case 'typeName':
+            return toolName === 'apply-inline-frag' ? fragmentTypeCandidates(scope, args) : typeNamesOf(scope.schema);
+        case 'target':
+            return typeNamesOf(scope.schema);
+        default:
+            return [];
+    }
+}
+
+/**
+ * Suggested values for one argument of a tool, matching the typed prefix
+ * (case-insensitively). `args` are the arguments already filled in: the
+ * sessionId, parentPath, fieldPath and so on that the suggestions depend on.
+ * Returns no suggestions rather than failing when the session or schema
+ * cannot be loaded.
+ */
+export async function completeToolArgument(
+    toolName: string,
+    argumentName: string,
+    value: string,
+    args: Record<string, string> = {}
+): Promise<string[]> {
+    let candidates: string[];
+    try {
+        candidates = await completionCandidates(toolName, argumentName, value, args);
+    } catch (error) {
+        console.warn(`Completion of ${toolName}.${argumentName} failed:`, error);
+        return [];
+    }
+
+    const prefix = value.toLowerCase();
+    return Array.from(new Set(candidates)).filter(candidate => candidate.toLowerCase().startsWith(prefix));
+}
+
+// Completers for prompt arguments and resource template variables, which only receive the typed value
+export function completeEndpoint(value: string): Promise<string[]> {
+    return completeToolArgument('start-query-session', 'endpoint', value);
+}
+
+// Type names of the default endpoint's schema
+export function completeTypeName(value: string): Promise<string[]> {
+    return completeToolArgument('get-type-info', 'typeName', value);
+}
+
+function completionResult(values: string[]): CompleteResult {
+    return {
+        completion: {
+            values: values.slice(0, MAX_COMPLETION_VALUES),
+            total: values.length,
+            hasMore: values.length > MAX_COMPLETION_VALUES
+        }
+    };
+}
+
+/**
+ * Extend completion/complete with the non-standard tool reference
+ * ({ type: 'ref/tool', name }) for field names, paths, types, arguments and
+ * enum values of tool calls. The MCP specification only defines prompt and
+ * resource references, so only clients that know this extension send it.
+ * Prompt and resource template references are still answered from the
+ * completable() arguments and template complete callbacks they were
+ * registered with. Call this after registering the prompts and resource
+ * templates, as registering them installs the SDK's own handler, which this
+ * one replaces.
+ * The SDK offers no public way to wrap its handler, so prompt completions
+ * read the callback Completable keeps in _def.complete. The SDK version is
+ * pinned in package.json for that; tests/completions.test.ts fails if it moves.
+ */
+export function registerCompletions(
+    server: McpServer,
+    registered: { prompts: Record<string, RegisteredPrompt>; resourceTemplates: RegisteredResourceTemplate[] }
+): void {
+    const toolNames = new Set(getAllTools().map(tool => tool.name));
+
+    server.server.registerCapabilities({ completions: {} });
+    server.server.removeRequestHandler(CompleteRequestSchema.shape.method.value);
+    server.server.setRequestHandler(ToolCompleteRequestSchema, async (request): Promise<CompleteResult> => {
+        const { ref, argument, context } = request.params;
+
+        if (ref.type === 'ref/prompt') {
+            const prompt = registered.prompts[ref.name];
+            if (!prompt) {
+                throw new McpError(ErrorCode.InvalidParams, `Prompt ${ref.name} not found`);
+            }
+            const field = prompt.argsSchema?.shape[argument.name];
+            return completionResult(field instanceof Completable ? await field._def.complete(argument.value) : []);
+        }
+
+        if (ref.type === 'ref/resource') {
+            const template = registered.resourceTemplates
+                .find(entry => entry.resourceTemplate.uriTemplate.toString() === ref.uri);
+            if (!template) {
+                throw new McpError(ErrorCode.InvalidParams, `Resource template ${ref.uri} not found`);
+            }
+            const complete = template.resourceTemplate.completeCallback(argument.name);
+            return completionResult(complete ? await complete(argument.value) : []);
+        }
+
+        if (!toolNames.has(ref.name)) {
+            throw new McpError(ErrorCode.InvalidParams, `Tool ${ref.name} not found`);
+        }
+        return completionResult(await completeToolArgument(ref.name, argument.name, argument.value, context?.arguments || {}));
+    });
+}
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { RateLimitMiddleware } from './rate-limit-middleware.js';
+import { getAllTools } from '../tools/index.js';
+import { toolResponse, toolErrorResponse, toolErrorShape } from '../tools/tool-output.js';
+import { registerResources } from './resources.js';
+import { registerPrompts } from './prompts.js';
+import { registerCompletions } from './completions.js';
+
+/**
+ * Register every tool of the catalog on an MCP server, each handler wrapped
+ * with rate limiting, plus get-rate-limit-status, the schema and session
+ * resources, the workflow prompts and argument completions. Shared by the HTTP (server.ts) and stdio (stdio.ts) entrypoints.
+ * Tools declare an outputSchema, so failures that escape a handler (such as
+ * RATE_LIMIT_EXCEEDED) are turned into the same structured error result.
+ */
+export function configureServer(server: any, rateLimitMiddleware: RateLimitMiddleware): void {
+    for (const tool of getAllTools()) {
+        try {
+            // Validate tool schema before registration
+            if (!tool.schema || typeof tool.schema !== 'object') {
+                console.warn(`Tool ${tool.name} has invalid schema:`, tool.schema);
+                continue;
+            }
+
+            // Wrap each tool handler with rate limiting
+            const rateLimitedHandler = rateLimitMiddleware.wrapToolHandler(
+                tool.name,
+                tool.handler
+            );
+
+            server.registerTool(
+                tool.name,
+                {
+                    description: (tool as any).description || `${tool.name} tool`,
+                    inputSchema: tool.schema,
+                    outputSchema: tool.outputSchema
+                },
+                async (...args: any[]) => {
+                    try {
+                        return await rateLimitedHandler(...args);
+                    } catch (error) {
+                        return toolErrorResponse(error);
+                    }
+                }
+            );
+            console.log(`Registered tool: ${tool.name}`);
+        } catch (error) {
+            console.error(`Failed to register tool ${tool.name}:`, error);
+            // Continue with other tools even if one fails
+        }
+    }
+
+    // Add a special tool to check rate limit status
+    const limitStatus = z.object({ remaining: z.number(), limit: z.number(), resetTime: z.number() });
+    server.registerTool(
+        'get-rate-limit-status',
+        {
+            description: 'Get current rate limit status for the client',
+            // No required parameters - all data comes from request context
+            inputSchema: {},
+            outputSchema: {
+                clientId: z.string().optional(),
+                complexityTier: z.string().optional(),
+                limits: z.object({
+                    global: limitStatus,
+                    client: limitStatus,
+                    expensive: limitStatus,
+                    schema: limitStatus,
+                    complexity: limitStatus.extend({ tier: z.string() }),
+                }).optional(),
+                ...toolErrorShape,
+            }
+        },
+        async (...args: any[]) => {
+            const request = args[args.length - 1];
+            try {
+                return toolResponse(await rateLimitMiddleware.getRateLimitStatus(request));
+            } catch (error) {
+                return toolErrorResponse(error);
+            }
+        }
+    );
+
+    const resourceTemplates = registerResources(server);
+    const prompts = registerPrompts(server);
+    registerCompletions(server, { prompts, resourceTemplates });
+}
@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import { RegisteredPrompt } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { summarizeSchema } from '../tools/summarize-schema.js';
+import { searchSchema } from '../tools/search-schema.js';
+import { getRootOperationTypes } from '../tools/get-root-operation-types.js';
+import { getCurrentQuery } from '../tools/get-current-query.js';
+import { loadQueryState, fetchAndCacheSchema, GraphQLValidationUtils } from '../tools/shared-utils.js';
+import { getSessionSchemaDrift } from '../tools/schema-drift.js';
+import { completeEndpoint } from './completions.js';
+
+// Budget of the schema overview embedded in each prompt
+const OVERVIEW_MAX_TOKENS = 800;
+const ENTRY_POINT_LIMIT = 5;
+
+// Root field summary of the live schema, or a note telling the agent how to get it
+async function schemaOverview(endpoint?: string): Promise<string> {
+    const overview = await summarizeSchema({ endpoint, maxTokens: OVERVIEW_MAX_TOKENS });
+    if (overview.error) {
+        return `The schema could not be loaded (${overview.error}). Check list-endpoints, then run summarize-schema yourself.`;
+    }
+    return ['Live schema overview (from summarize-schema):', '```', overview.summary, '```'].join('\n');
+}
+
+// Root fields of one operation type that best match the goal, as "- Query.repository: Repository" lines
+async function entryPoints(goal: string, operation: 'query' | 'mutation', endpoint?: string): Promise<string[]> {
+    const roots = await getRootOperationTypes(endpoint);
+    const rootTypeName = operation === 'mutation' ? roots.mutation_type : roots.query_type;
+    if (!rootTypeName) return [];
+
+    const search = await searchSchema(goal, { endpoint, kinds: ['field'], limit: 50 });
+    return (search.matches || [])
+        .filter(match => match.coordinate.startsWith(`${rootTypeName}.`))
+        .slice(0, ENTRY_POINT_LIMIT)
+        .map(match => `- ${match.coordinate}: ${match.type}${match.description ? ` - ${match.description}` : ''}`);
+}
+
+function endpointHint(endpoint?: string): string {
+    return endpoint ? ` with endpoint "${endpoint}"` : '';
+}
+
+// Plan for building a read-only query towards a goal
+export async function buildQueryForGoalPrompt(args: { goal: string; endpoint?: string }): Promise<string> {
+    const [overview, candidates] = await Promise.all([
+        schemaOverview(args.endpoint),
+        entryPoints(args.goal, 'query', args.endpoint)
+    ]);
+
+    return [
+        `Build a GraphQL query with the QuerySculptor tools for this goal: ${args.goal}`,
+        '',
+        overview,
+        '',
+        candidates.length > 0
+            ? ['Root fields that look most relevant to the goal:', ...candidates].join('\n')
+            : 'No root field matched the goal directly; use search-schema with other words, or find-paths-to-type once you know the type you need.',
+        '',
+        'Plan:',
+        `1. start-query-session${endpointHint(args.endpoint)} (operationType "query") and keep the exact sessionId for every call.`,
+        '2. Pick the entry point: confirm it with get-field-info, and use find-paths-to-type when the data you need is not directly on a root field.',
+        '3. Select fields with select-field or select-multi-fields (or several steps at once with apply-operations); use select-connection for Relay connections.',
+        '4. Pass inputs as variables: set-query-variable, set-var-arg, then set-variable-value. Set required arguments first.',
+        '5. Use get-selections at a path to see valid fields, and apply-inline-frag for unions and interfaces.',
+        '6. validate-query and fix every error; check analyze-query-complexity when the query is large.',
+        '7. execute-query (with paginate: true to read every page of a connection) and answer the goal from the result.',
+    ].join('\n');
+}
+
+// Validation errors and warnings for a session, without the side effects of the validate-query tool
+async function validationFindings(sessionId: string): Promise<string[]> {
+    try {
+        const queryState = await loadQueryState(sessionId);
+        if (!queryState) return ['- Validation could not run: Session not found.'];
+
+        const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
+        const validation = GraphQLValidationUtils.validateQueryStructure(schema, queryState);
+        const schemaDrift = getSessionSchemaDrift(queryState, schema);
+        return [
+            ...validation.errors.map(error => `- Validation error: ${error}`),
+            ...validation.warnings.map(warning => `- Warning: ${warning}`),
+            ...(schemaDrift?.issues || []).map(issue => `- Schema drift at ${issue.path}: ${issue.message}`),
+        ];
+    } catch (error) {
+        return [`- Validation could not run: ${error instanceof Error ? error.message : String(error)}`];
+    }
+}
+
+// Plan for repairing a session's query, seeded with its text and validation findings
+export async function debugFailingQueryPrompt(args: { sessionId: string; error?: string }): Promise<string> {
+    const current = await getCurrentQuery(args.sessionId, true);
+    if (current.error) {
+        return [
+            `Session ${args.sessionId} could not be loaded: ${current.error}`,
+            'Check that the sessionId is copied exactly. If the session expired, rebuild the query in a new session, or import its text with import-query.',
+        ].join('\n');
+    }
+
+    const findings = [
+        ...(args.error ? [`- Reported error: ${args.error}`] : []),
+        ...await validationFindings(args.sessionId),
+    ];
+
+    return [
+        `Debug the failing GraphQL query in session ${args.sessionId}.`,
+        '',
+        'Current query:',
+        '```graphql',
+        current.queryString,
+        '```',
+        `Variables: ${JSON.stringify(current.variablesSchema || {})}`,
+        '',
+        findings.length > 0 ? ['Findings:', ...findings].join('\n') : 'validate-query reports no errors, so the failure comes from execution (arguments, variable values, permissions or upstream errors).',
+        '',
+        'Plan:',
+        '1. For each unknown field or type, use search-schema or get-type-info to find the right name; schema drift warnings mean the upstream schema changed since the session was built.',
+        '2. Fix the structure with remove-field, rename-alias, remove-argument and select-field rather than starting over; undo reverts a bad step.',
+        '3. For missing or mistyped arguments, check get-field-info and get-input-help, then set them as variables.',
+        '4. Fields on unions or interfaces need apply-inline-frag at the parent path.',
+        '5. Run validate-query until it passes, try mock-execute to check the result shape offline, then execute-query again.',
+    ].join('\n');
+}
+
+// Plan for a mutation that is checked offline and confirmed before it runs
+export async function writeMutationSafelyPrompt(args: { goal: string; endpoint?: string }): Promise<string> {
+    const [overview, candidates] = await Promise.all([
+        schemaOverview(args.endpoint),
+        entryPoints(args.goal, 'mutation', args.endpoint)
+    ]);
+
+    return [
+        `Write a GraphQL mutation with the QuerySculptor tools for this goal: ${args.goal}`,
+        'Mutations change real data, so nothing is executed against the endpoint until the user has confirmed it.',
+        '',
+        overview,
+        '',
+        candidates.length > 0
+            ? ['Mutation fields that look most relevant to the goal:', ...candidates].join('\n')
+            : 'No mutation field matched the goal directly; use search-schema with kinds ["field"] to look further, and tell the user if the schema offers no such mutation.',
+        '',
+        'Plan:',
+        `1. start-query-session${endpointHint(args.endpoint)} with operationType "mutation".`,
+        '2. Select the mutation field and inspect its arguments with get-field-info; use get-input-help for input objects.',
+        '3. Pass every input through variables (set-query-variable, set-var-arg, set-variable-value), never inline user data.',
+        '4. Select the fields of the payload that show the change succeeded, such as IDs and updated values.',
+        '5. validate-query, then mock-execute to check the shape of the result without side effects.',
+        '6. Show the user the mutation text from get-current-query and the variable values, and wait for their confirmation.',
+        '7. Only then execute-query, and verify the change with a follow-up query.',
+    ].join('\n');
+}
+
+const userMessage = (text: string) => ({
+    messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }]
+});
+
+// Endpoint argument of the prompts, completed from the configured endpoint names
+const endpointArgument = () => completable(
+    z.string().optional().describe('Optional: Name of the configured GraphQL endpoint (see list-endpoints).'),
+    value => completeEndpoint(value || '')
+);
+
+/**
+ * Register prompts that turn the workflow of AGENT_SYSTEM_PROMPT.md into step
+ * plans grounded in the live schema, returning them by name for
+ * registerCompletions.
+ */
+export function registerPrompts(server: any): Record<string, RegisteredPrompt> {
+    const prompts: Record<string, RegisteredPrompt> = {};
+
+    prompts['build-query-for-goal'] = server.prompt(
+        'build-query-for-goal',
+        'Step plan for building and running a query that answers a goal, with the schema root fields most relevant to it',
+        {
+            goal: z.string().describe('What the query should find out, in plain words.'),
+            endpoint: endpointArgument(),
+        },
+        async (args: { goal: string; endpoint?: string }) => userMessage(await buildQueryForGoalPrompt(args))
+    );
+
+    prompts['debug-failing-query'] = server.prompt(
+        'debug-failing-query',
+        'Step plan for fixing the query of a session, starting from its current text and validation errors',
+        {
+            sessionId: z.string().describe('The session ID from start-query-session.'),
+            error: z.string().optional().describe('Optional: The error message the query failed with.'),
+        },
+        async (args: { sessionId: string; error?: string }) => userMessage(await debugFailingQueryPrompt(args))
+    );
+
+    prompts['write-mutation-safely'] = server.prompt(
+        'write-mutation-safely',
+        'Step plan for writing a mutation with variables, checking it offline and confirming with the user before executing it',
+        {
+            goal: z.string().describe('What the mutation should change, in plain words.'),
+            endpoint: endpointArgument(),
+        },
+        async (args: { goal: string; endpoint?: string }) => userMessage(await writeMutationSafelyPrompt(args))
+    );
+
+    return prompts;
+}
@@ -127,8 +127,7 @@ export class RateLimitMiddleware {
     /**
      * Check rate limits for a tool call
      */
-    async checkRateLimit(toolName: string, request: any): Promise<void> {
-        const clientId = this.getClientIdentifier(request);
+    async checkRateLimit(toolName: string, request: any, clientId: string = this.getClientIdentifier(request)): Promise<void> {
         const complexityTier = this.calculateComplexityTier(request);
         const checks: Promise<void>[] = [];
 
@@ -234,8 +233,21 @@ export class RateLimitMiddleware {
                 // Extract request context with proper error handling
                 const request = args[args.length - 1]; // Assume request is last argument
 
+                // Identify the client once: requests without identifying headers get a new fallback ID each time
+                const clientId = this.getClientIdentifier(request);
+
                 // Check rate limits
-                await this.checkRateLimit(toolName, request);
+                await this.checkRateLimit(toolName, request, clientId);
+
+                // Expensive tools that make further upstream calls within one call
+                // (execute-query pagination) charge each one through chargeExpensiveCall
+                if (EXPENSIVE_TOOLS.has(toolName) && args.length > 1 && request && typeof request === 'object') {
+                    const extra = {
+                        ...request,
+                        chargeExpensiveCall: () => this.checkExpensiveLimit(clientId)
+                    };
+                    return await originalHandler(...args.slice(0, -1), extra);
+                }
 
                 // Call original handler if rate limits pass
                 return await originalHandler(...args);
@@ -250,7 +262,7 @@ export class RateLimitMiddleware {
                             toolName: toolName
                         });
                         const errorMessage = (error as any).message || 'Invalid input type';
-                        throw new Error(`Parameter validation failed for tool ${toolName}: ${errorMessage}`);
+                        throw Object.assign(new Error(`Parameter validation failed for tool ${toolName}: ${errorMessage}`), { code: 'VALIDATION_FAILED' });
                     }
 
                     // Check for keyValidator._parse errors
@@ -262,7 +274,7 @@ export class RateLimitMiddleware {
                             args: args,
                             toolName: toolName
                         });
-                        throw new Error(`Schema validation failed for tool ${toolName}. Please check parameter types and format.`);
+                        throw Object.assign(new Error(`Schema validation failed for tool ${toolName}. Please check parameter types and format.`), { code: 'VALIDATION_FAILED' });
                     }
 
                     // Check for rate limit errors
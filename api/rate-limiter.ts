@@ -186,12 +186,18 @@ export const RATE_LIMIT_CONFIGS = {
 // Tools that should have stricter rate limits
 export const EXPENSIVE_TOOLS = new Set([
     'introspect-schema',
+    'refresh-schema',
+    'diff-schema',
+    'search-schema',
+    'summarize-schema',
     'execute-query',
+    'mock-execute',
     'get-type-info',
     'validate-query'
 ]);
 
 // Schema-related tools that should have very strict limits
 export const SCHEMA_TOOLS = new Set([
-    'introspect-schema'
+    'introspect-schema',
+    'refresh-schema'
 ]); 
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { printSchema } from 'graphql';
+import { ResourceTemplate, RegisteredResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+    loadEndpointRegistry,
+    resolveEndpointAndHeaders,
+    fetchAndCacheSchema,
+    loadQueryState,
+    buildQueryFromStructure,
+    onQueryStateChange,
+    isSameSession
+} from '../tools/shared-utils.js';
+import { getTypeInfo } from '../tools/get-type-info.js';
+import { completeEndpoint, completeTypeName } from './completions.js';
+
+// Template variables arrive as string | string[]
+function single(value: string | string[] | undefined): string {
+    return decodeURIComponent(Array.isArray(value) ? value[0] : value || '');
+}
+
+// Full SDL of an endpoint's schema
+export async function readSchemaSdl(endpoint: string): Promise<string> {
+    const { url, headers, error } = resolveEndpointAndHeaders(endpoint);
+    if (!url) {
+        throw new Error(error || `Unknown GraphQL endpoint '${endpoint}'.`);
+    }
+    return printSchema(await fetchAndCacheSchema(headers, endpoint));
+}
+
+// get-type-info result for one type, as JSON
+export async function readTypeResource(endpoint: string, typeName: string): Promise<string> {
+    const typeInfo = await getTypeInfo(typeName, endpoint);
+    if (typeInfo.error) {
+        throw new Error(typeInfo.error);
+    }
+    return JSON.stringify(typeInfo, null, 2);
+}
+
+// Current GraphQL text of a query session
+export async function readSessionQuery(sessionId: string): Promise<string> {
+    const queryState = await loadQueryState(sessionId);
+    if (!queryState) {
+        throw new Error('Session not found.');
+    }
+    return buildQueryFromStructure(
+        queryState.queryStructure,
+        queryState.operationType,
+        queryState.variablesSchema,
+        queryState.operationName,
+        queryState.fragments || {},
+        queryState.operationDirectives || [],
+        queryState.variablesDefaults || {}
+    );
+}
+
+/**
+ * Register schema://{endpoint}/sdl, schema://{endpoint}/type/{name} and
+ * session://{id}/query, returning the templates for registerCompletions.
+ * Clients may subscribe to session resources and are sent
+ * notifications/resources/updated whenever the session is saved. Type names
+ * complete from the default endpoint's schema, since template completions
+ * only receive the typed value.
+ */
+export function registerResources(server: any): RegisteredResourceTemplate[] {
+    const endpointNames = () => Array.from(loadEndpointRegistry().keys());
+
+    const schemaSdl = server.resource(
+        'schema-sdl',
+        new ResourceTemplate('schema://{endpoint}/sdl', {
+            list: async () => ({
+                resources: endpointNames().map(name => ({
+                    uri: `schema://${name}/sdl`,
+                    name: `${name} schema`,
+                    mimeType: 'application/graphql'
+                }))
+            }),
+            complete: { endpoint: completeEndpoint }
+        }),
+        { description: 'SDL of a configured endpoint\'s schema', mimeType: 'application/graphql' },
+        async (uri: URL, variables: Record<string, string | string[]>) => ({
+            contents: [{ uri: uri.href, mimeType: 'application/graphql', text: await readSchemaSdl(single(variables.endpoint)) }]
+        })
+    );
+
+    const schemaType = server.resource(
+        'schema-type',
+        new ResourceTemplate('schema://{endpoint}/type/{name}', {
+            list: undefined,
+            complete: { endpoint: completeEndpoint, name: completeTypeName }
+        }),
+        { description: 'Fields, arguments and values of one schema type (as get-type-info returns them)', mimeType: 'application/json' },
+        async (uri: URL, variables: Record<string, string | string[]>) => ({
+            contents: [{
+                uri: uri.href,
+                mimeType: 'application/json',
+                text: await readTypeResource(single(variables.endpoint), single(variables.name))
+            }]
+        })
+    );
+
+    const sessionQuery = server.resource(
+        'session-query',
+        new ResourceTemplate('session://{id}/query', { list: undefined }),
+        { description: 'Current GraphQL text of a query session; subscribe to be notified of changes', mimeType: 'application/graphql' },
+        async (uri: URL, variables: Record<string, string | string[]>) => ({
+            contents: [{ uri: uri.href, mimeType: 'application/graphql', text: await readSessionQuery(single(variables.id)) }]
+        })
+    );
+
+    // Session IDs by subscribed URI; the state listener only exists while there are subscriptions
+    const subscriptions = new Map<string, string>();
+    let stopListening: (() => void) | null = null;
+    const unsubscribeAll = () => {
+        subscriptions.clear();
+        stopListening?.();
+        stopListening = null;
+    };
+
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request: { params: { uri: string } }) => {
+        const match = /^session:\/\/([^/]+)\/query$/.exec(request.params.uri);
+        if (match) {
+            subscriptions.set(request.params.uri, decodeURIComponent(match[1]));
+            stopListening = stopListening || onQueryStateChange(changedSessionId => {
+                for (const [uri, sessionId] of subscriptions) {
+                    if (isSameSession(sessionId, changedSessionId)) {
+                        server.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+                            console.warn(`Failed to notify resource update for ${uri}:`, error);
+                        });
+                    }
+                }
+            });
+        }
+        return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request: { params: { uri: string } }) => {
+        subscriptions.delete(request.params.uri);
+        if (subscriptions.size === 0) unsubscribeAll();
+        return {};
+    });
+
+    const previousOnClose = server.server.onclose;
+    server.server.onclose = () => {
+        unsubscribeAll();
+        previousOnClose?.();
+    };
+
+    return [schemaSdl, schemaType, sessionQuery];
+}
@@ -0,0 +1,42 @@
+// MCP server over stdin/stdout for local clients such as Claude Desktop and
+// Cursor. stdout carries the protocol stream, so all console output goes to
+// stderr; modules are imported only after that, since some log while loading.
+console.log = console.error;
+console.info = console.error;
+console.debug = console.error;
+
+async function main() {
+    const { readFileSync } = await import('node:fs');
+    const { fileURLToPath } = await import('node:url');
+    const { config } = await import('dotenv');
+    const { McpServer } = await import('@modelcontextprotocol/sdk/server/mcp.js');
+    const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
+    const { RateLimitMiddleware } = await import('./rate-limit-middleware.js');
+    const { configureServer } = await import('./configure-server.js');
+
+    // Clients start the process from their own working directory, so .env is looked up next to the project
+    config({ path: fileURLToPath(new URL('../.env', import.meta.url)) });
+
+    const { name, version } = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf8'));
+    const rateLimitMiddleware = new RateLimitMiddleware(process.env.REDIS_URL);
+    const server = new McpServer({ name, version });
+    configureServer(server, rateLimitMiddleware);
+
+    const shutdown = async () => {
+        await server.close();
+        await rateLimitMiddleware.disconnect();
+        process.exit(0);
+    };
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
+    // The client closing stdin ends the session
+    process.stdin.on('end', shutdown);
+
+    await server.connect(new StdioServerTransport());
+    console.error(`QuerySculptor MCP server ${version} running on stdio`);
+}
+
+main().catch(error => {
+    console.error('Failed to start stdio server:', error);
+    process.exit(1);
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildSchema } from 'graphql';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CompleteResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { completable, Completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { z } from 'zod';
+import { registerCompletions } from '../api/completions.js';
+import { registerResources } from '../api/resources.js';
+import { registerPrompts } from '../api/prompts.js';
+import { createQuerySession } from '../tools/start-query-session.js';
+import { selectGraphQLField } from '../tools/select-field.js';
+import { setQueryVariable } from '../tools/set-query-variable.js';
+import { MemorySessionStore, setSessionStore } from '../tools/session-store.js';
+
+const COMPLETION_SCHEMA = buildSchema(`
+    type Query {
+        user(id: ID!): User
+        users(role: Role, first: Int): [User!]!
+        search(term: String!): [SearchResult!]!
+    }
+    enum Role { ADMIN EDITOR VIEWER }
+    type User { id: ID! name: String role: Role posts(status: PostStatus): [Post!]! }
+    enum PostStatus { DRAFT PUBLISHED }
+    type Post { id: ID! title: String author: User }
+    union SearchResult = User | Post
+`);
+
+vi.mock('../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../tools/shared-utils.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockImplementation(async () => COMPLETION_SCHEMA),
+    };
+});
+
+describe('MCP argument completions', () => {
+    let client: Client;
+    let sessionId: string;
+
+    // Client.complete only accepts the standard prompt and resource references, so tool references go through request()
+    const complete = async (tool: string, name: string, value: string, args: Record<string, string> = {}) => {
+        const result = await client.request({
+            method: 'completion/complete',
+            params: { ref: { type: 'ref/tool', name: tool }, argument: { name, value }, context: { arguments: args } }
+        }, CompleteResultSchema);
+        return result.completion.values;
+    };
+
+    beforeEach(async () => {
+        setSessionStore(new MemorySessionStore());
+        const server = new McpServer({ name: 'querysculptor-test', version: '0.0.0' });
+        const resourceTemplates = registerResources(server);
+        const prompts = registerPrompts(server);
+        registerCompletions(server, { prompts, resourceTemplates });
+        client = new Client({ name: 'test-client', version: '0.0.0' });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+        sessionId = (await createQuerySession('query', 'GetUsers')).sessionId!;
+        await selectGraphQLField(sessionId, '', 'users');
+        await selectGraphQLField(sessionId, 'users', 'name');
+        await selectGraphQLField(sessionId, 'users', 'posts');
+        await selectGraphQLField(sessionId, '', 'search');
+    });
+
+    afterEach(async () => {
+        await client.close();
+        setSessionStore(null);
+    });
+
+    it('should suggest field names at the parent path', async () => {
+        expect(await complete('select-field', 'fieldName', '', { sessionId })).toEqual(['user', 'users', 'search']);
+        expect(await complete('select-field', 'fieldName', 'p', { sessionId, parentPath: 'users' })).toEqual(['posts']);
+        expect(await complete('select-multi-fields', 'fieldNames', 'T', { sessionId, parentPath: 'users.posts' })).toEqual(['title']);
+        expect(await complete('get-field-info', 'fieldName', '', { typeName: 'Post' })).toEqual(['id', 'title', 'author']);
+    });
+
+    it('should suggest the next segment of existing paths', async () => {
+        expect(await complete('select-field', 'parentPath', '', { sessionId })).toEqual(['users', 'search']);
+        expect(await complete('select-field', 'parentPath', 'users.', { sessionId })).toEqual(['users.posts']);
+        expect(await complete('remove-field', 'fieldPath', 'users.', { sessionId })).toEqual(['users.name', 'users.posts']);
+        expect(await complete('remove-field', 'fieldPath', 'missing.', { sessionId })).toEqual([]);
+    });
+
+    it('should suggest argument names and enum values of an argument', async () => {
+        expect(await complete('set-typed-argument', 'argumentName', '', { sessionId, fieldPath: 'users' })).toEqual(['role', 'first']);
+        expect(await complete('set-typed-argument', 'value', '', { sessionId, fieldPath: 'users', argumentName: 'role' }))
+            .toEqual(['ADMIN', 'EDITOR', 'VIEWER']);
+        expect(await complete('set-string-argument', 'value', 'd', { sessionId, fieldPath: 'users.posts', argumentName: 'status' }))
+            .toEqual(['DRAFT']);
+        expect(await complete('remove-argument', 'argumentName', '', { sessionId, fieldPath: 'users' })).toEqual([]);
+        expect(await complete('set-field-directive', 'argumentName', '', { sessionId, directiveName: 'include' })).toEqual(['if']);
+
+        await setQueryVariable(sessionId, '$role', 'Role!');
+        expect(await complete('set-var-arg', 'variableName', '$', { sessionId })).toEqual(['$role']);
+        expect(await complete('set-variable-value', 'value', 'E', { sessionId, variableName: '$role' })).toEqual(['EDITOR']);
+    });
+
+    it('should suggest type names and the possible types of unions', async () => {
+        expect(await complete('get-type-info', 'typeName', 'Po')).toEqual(['Post', 'PostStatus']);
+        expect(await complete('apply-inline-frag', 'onType', '', { sessionId, parentPath: 'search' })).toEqual(['User', 'Post']);
+    });
+
+    it('should return no suggestions for unknown sessions and reject unknown tools', async () => {
+        expect(await complete('select-field', 'fieldName', '', { sessionId: 'deadbeef' })).toEqual([]);
+        await expect(complete('no-such-tool', 'fieldName', '')).rejects.toThrow('Tool no-such-tool not found');
+    });
+
+    it('should complete resource template variables', async () => {
+        const endpoint = await client.complete({
+            ref: { type: 'ref/resource', uri: 'schema://{endpoint}/sdl' },
+            argument: { name: 'endpoint', value: 'def' }
+        });
+        expect(endpoint.completion.values).toEqual(['default']);
+
+        const typeName = await client.complete({
+            ref: { type: 'ref/resource', uri: 'schema://{endpoint}/type/{name}' },
+            argument: { name: 'name', value: 'Po' }
+        });
+        expect(typeName.completion.values).toEqual(['Post', 'PostStatus']);
+
+        const sessionId = await client.complete({
+            ref: { type: 'ref/resource', uri: 'session://{id}/query' },
+            argument: { name: 'id', value: '' }
+        });
+        expect(sessionId.completion.values).toEqual([]);
+    });
+
+    it('should complete completable prompt arguments', async () => {
+        const endpoint = await client.complete({
+            ref: { type: 'ref/prompt', name: 'build-query-for-goal' },
+            argument: { name: 'endpoint', value: 'D' }
+        });
+        expect(endpoint.completion.values).toEqual(['default']);
+
+        const goal = await client.complete({
+            ref: { type: 'ref/prompt', name: 'build-query-for-goal' },
+            argument: { name: 'goal', value: 'list' }
+        });
+        expect(goal.completion.values).toEqual([]);
+
+        await expect(client.complete({
+            ref: { type: 'ref/prompt', name: 'no-such-prompt' },
+            argument: { name: 'endpoint', value: '' }
+        })).rejects.toThrow('Prompt no-such-prompt not found');
+    });
+
+    it('should list the endpoint prompt argument as optional', async () => {
+        const { prompts } = await client.listPrompts();
+        const buildQuery = prompts.find(prompt => prompt.name === 'build-query-for-goal');
+        expect(buildQuery?.arguments).toContainEqual(expect.objectContaining({ name: 'endpoint', required: false }));
+    });
+});
+
+// registerCompletions replaces the SDK's completion handler and relies on these internals
+describe('SDK completion internals', () => {
+    it('should keep the completion callback of completable() in _def.complete', () => {
+        const complete = (value: string) => [value];
+        const field = completable(z.string(), complete);
+
+        expect(field).toBeInstanceOf(Completable);
+        expect(field._def.complete).toBe(complete);
+    });
+});
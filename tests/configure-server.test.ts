@@ -0,0 +1,69 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { buildSchema } from 'graphql';
+import { configureServer } from '../api/configure-server.js';
+import { RateLimitMiddleware } from '../api/rate-limit-middleware.js';
+import { getAllTools } from '../tools/index.js';
+
+vi.mock('../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../tools/shared-utils.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockImplementation(async () => buildSchema('type Query { ping: String }')),
+    };
+});
+
+describe('configureServer', () => {
+    const middleware = new RateLimitMiddleware();
+
+    afterEach(async () => {
+        await middleware.disconnect();
+    });
+
+    it('should register the whole catalog with rate-limited handlers and the status tool', async () => {
+        const registered = new Map<string, { description: string; outputSchema: any; handler: Function }>();
+        const server = {
+            registerTool: (name: string, config: { description: string; outputSchema: any }, handler: Function) => {
+                registered.set(name, { description: config.description, outputSchema: config.outputSchema, handler });
+            },
+            resource: () => {},
+            prompt: () => {},
+            server: { registerCapabilities: () => {}, setRequestHandler: () => {}, removeRequestHandler: () => {} }
+        };
+
+        configureServer(server, middleware);
+
+        expect([...registered.keys()]).toEqual([...getAllTools().map(tool => tool.name), 'get-rate-limit-status']);
+
+        const listEndpoints = await registered.get('list-endpoints')!.handler({}, { headers: { 'x-client-id': 'configure-test' } });
+        expect(JSON.parse(listEndpoints.content[0].text).endpoints).toBeDefined();
+
+        const status = await registered.get('get-rate-limit-status')!.handler({}, { headers: { 'x-client-id': 'configure-test' } });
+        expect(JSON.parse(status.content[0].text).clientId).toBe('configure-test');
+    });
+
+    it('should return rate limit errors as structured results', async () => {
+        const handlers = new Map<string, Function>();
+        const server = {
+            registerTool: (name: string, _config: any, handler: Function) => handlers.set(name, handler),
+            resource: () => {},
+            prompt: () => {},
+            server: { registerCapabilities: () => {}, setRequestHandler: () => {}, removeRequestHandler: () => {} }
+        };
+        configureServer(server, middleware);
+
+        const introspect = handlers.get('introspect-schema')!;
+        const request = { headers: { 'x-client-id': 'structured-limit-test' } };
+        // The schema tool limit allows 5 calls per window
+        for (let i = 0; i < 5; i++) {
+            expect((await introspect({ format: 'sdl' }, request)).isError).toBeFalsy();
+        }
+
+        const limited = await introspect({ format: 'sdl' }, request);
+        expect(limited.isError).toBe(true);
+        expect(limited.structuredContent).toMatchObject({
+            code: 'RATE_LIMIT_EXCEEDED',
+            details: { limit: 5, remainingRequests: 0 }
+        });
+        expect(JSON.parse(limited.content[0].text).error).toContain('Rate limit exceeded');
+    });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { buildQueryFromStructure, GraphQLValidationUtils } from '../../tools/shared-utils';
+import { buildSchema, GraphQLList, GraphQLNonNull, GraphQLString } from 'graphql';
+import { buildQueryFromStructure, generateExampleValue, GraphQLValidationUtils } from '../../tools/shared-utils';
 
 describe('buildQueryFromStructure', () => {
     it('should build a simple query correctly', () => {
@@ -140,4 +141,31 @@ describe('GraphQLValidationUtils', () => {
         expect(GraphQLValidationUtils.serializeGraphQLValue({ a: 1, b: "test" })).toBe('{a: 1, b: "test"}');
         expect(GraphQLValidationUtils.serializeGraphQLValue([1, "test"])).toBe('[1, "test"]');
     });
-}); 
\ No newline at end of file
+}); 
+
+describe('generateExampleValue', () => {
+    const schema = buildSchema(`
+        type Query { item: Item }
+        type Book { title: String }
+        type Film { length: Int }
+        union Item = Book | Film
+    `);
+
+    it('should fill lists with the requested number of items', () => {
+        const type = new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(GraphQLString)));
+        expect(generateExampleValue(type, { listLength: 3 })).toEqual(['example_string', 'example_string', 'example_string']);
+        expect(generateExampleValue(type)).toEqual(['example_string']);
+    });
+
+    it('should resolve abstract types to a possible type name', () => {
+        const value = generateExampleValue(schema.getType('Item'), { schema, random: () => 0.9 });
+        expect(value).toEqual({ __typename: 'Film' });
+        expect(generateExampleValue(schema.getType('Item'))).toBeNull();
+        expect(generateExampleValue(schema.getType('Book'))).toEqual({});
+    });
+
+    it('should throw once more values than maxValues are generated', () => {
+        const type = new GraphQLList(new GraphQLList(GraphQLString));
+        expect(() => generateExampleValue(type, { listLength: 5, maxValues: 20 })).toThrow('Example value limit of 20 values exceeded.');
+    });
+});
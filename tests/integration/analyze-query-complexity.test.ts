@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { analyzeSessionComplexity } from '../../tools/analyze-query-complexity.js';
+import { importGraphQLQuery } from '../../tools/import-query.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+
+vi.mock('../../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../../tools/shared-utils.js');
+    const { TEST_SCHEMA } = await import('../setup.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockResolvedValue(TEST_SCHEMA),
+    };
+});
+
+describe('analyze-query-complexity', () => {
+    beforeEach(() => {
+        setSessionStore(new MemorySessionStore());
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+    });
+
+    it('should break the score down per field and name the top offenders', async () => {
+        const imported = await importGraphQLQuery(`
+            query {
+                users { id }
+                characters(page: 1) {
+                    results {
+                        ...CharacterFields
+                        episode { id name characters { id name } }
+                    }
+                }
+            }
+
+            fragment CharacterFields on Character {
+                id
+                name
+                status
+            }
+        `);
+
+        const result = await analyzeSessionComplexity(imported.sessionId!, 2);
+        expect(result.success).toBe(true);
+
+        const analysis = result.analysis!;
+        const paths = analysis.breakdown.map((entry: any) => entry.path);
+        expect(paths).toContain('characters.results.episode.characters.name');
+        expect(paths).toContain('characters.results.status');
+
+        const status = analysis.breakdown.find((entry: any) => entry.path === 'characters.results.status');
+        expect(status.fragment).toBe('CharacterFields');
+        expect(status.depth).toBe(3);
+
+        expect(analysis.topOffenders).toHaveLength(2);
+        expect(analysis.topOffenders[0].path).toBe('characters');
+        expect(analysis.topOffenders[0].share).toBeGreaterThan(80);
+        expect(analysis.maxDepth).toBe(12);
+        expect(analysis.cost.totalCost).toBeGreaterThan(0);
+        expect(analysis.recommendations).toEqual([]);
+    });
+
+    it('should report missing sessions', async () => {
+        const result = await analyzeSessionComplexity('deadbeef');
+        expect(result.error).toBe('Session not found.');
+    });
+});
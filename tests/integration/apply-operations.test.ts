@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { applyOperations } from '../../tools/apply-operations.js';
+import { createQuerySession } from '../../tools/start-query-session.js';
+import { getSessionHistory, undoQueryChange } from '../../tools/session-history.js';
+import { loadQueryState } from '../../tools/shared-utils.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+
+vi.mock('../../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../../tools/shared-utils.js');
+    const { TEST_SCHEMA } = await import('../setup.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockResolvedValue(TEST_SCHEMA),
+    };
+});
+
+describe('apply-operations', () => {
+    let sessionId: string;
+
+    beforeEach(async () => {
+        setSessionStore(new MemorySessionStore());
+        const session = await createQuerySession('query', 'Batch');
+        sessionId = session.sessionId!;
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+    });
+
+    it('should apply every step and save once', async () => {
+        const result = await applyOperations(sessionId, [
+            { tool: 'set-query-variable', args: { variableName: '$id', variableType: 'ID!' } },
+            { tool: 'select-field', args: { fieldName: 'character' } },
+            { tool: 'set-var-arg', args: { fieldPath: 'character', argumentName: 'id', variableName: '$id' } },
+            { tool: 'select-multi-fields', args: { parentPath: 'character', fieldNames: ['id', 'name'] } },
+            { tool: 'select-field', args: { fieldName: 'users' } },
+            { tool: 'select-field', args: { parentPath: 'users', fieldName: 'id' } },
+        ]);
+
+        expect(result.success).toBe(true);
+        expect(result.appliedSteps).toBe(6);
+        expect(result.steps!.every(step => step.success)).toBe(true);
+        expect(result.query).toContain('query Batch($id: ID!)');
+        expect(result.query).toContain('character(id: $id)');
+
+        const history = await getSessionHistory(sessionId);
+        expect(history.revisions).toHaveLength(2);
+
+        await undoQueryChange(sessionId);
+        const state = await loadQueryState(sessionId);
+        expect(state!.queryStructure.fields).toEqual({});
+    });
+
+    it('should roll back every step when one fails', async () => {
+        const result = await applyOperations(sessionId, [
+            { tool: 'select-field', args: { fieldName: 'users' } },
+            { tool: 'select-field', args: { parentPath: 'users', fieldName: 'doesNotExist' } },
+            { tool: 'select-field', args: { fieldName: 'episodes' } },
+        ]);
+
+        expect(result.success).toBeUndefined();
+        expect(result.error).toMatch(/^Step 2 \(select-field\) failed: .* No changes were saved\.$/);
+        expect(result.steps).toHaveLength(2);
+        expect(result.steps![0].success).toBe(true);
+        expect(result.steps![1].success).toBe(false);
+
+        const state = await loadQueryState(sessionId);
+        expect(state!.queryStructure.fields).toEqual({});
+        expect((await getSessionHistory(sessionId)).revisions).toHaveLength(1);
+    });
+
+    it('should validate step arguments with the tool schema', async () => {
+        const result = await applyOperations(sessionId, [
+            { tool: 'select-field', args: { parentPath: 'users' } },
+        ]);
+
+        expect(result.error).toContain('Invalid arguments: fieldName');
+    });
+
+    it('should reject tools that cannot be batched', async () => {
+        const result = await applyOperations(sessionId, [
+            { tool: 'execute-query', args: {} },
+        ]);
+
+        expect(result.error).toContain("Tool 'execute-query' cannot be used in a batch");
+    });
+
+    it('should report unused variables left by removal steps', async () => {
+        const result = await applyOperations(sessionId, [
+            { tool: 'set-query-variable', args: { variableName: '$id', variableType: 'ID!' } },
+            { tool: 'select-field', args: { fieldName: 'user' } },
+            { tool: 'set-var-arg', args: { fieldPath: 'user', argumentName: 'id', variableName: '$id' } },
+            { tool: 'select-field', args: { parentPath: 'user', fieldName: 'name' } },
+            { tool: 'remove-argument', args: { fieldPath: 'user', argumentName: 'id' } },
+        ]);
+
+        expect(result.success).toBe(true);
+        expect(result.unusedVariables).toEqual(['$id']);
+    });
+
+    it('should report missing sessions and empty batches', async () => {
+        expect((await applyOperations('deadbeef', [{ tool: 'select-field', args: { fieldName: 'users' } }])).error).toBe('Session not found.');
+        expect((await applyOperations(sessionId, [])).error).toBe('At least one step is required.');
+    });
+});
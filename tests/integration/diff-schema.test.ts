@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join, relative } from 'path';
+import { buildSchema, introspectionFromSchema, GraphQLSchema } from 'graphql';
+import { diffSchema, diffSchemas } from '../../tools/diff-schema.js';
+import { refreshSchema } from '../../tools/refresh-schema.js';
+import { importGraphQLQuery } from '../../tools/import-query.js';
+import { getSchemaFingerprint } from '../../tools/schema-drift.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+
+const SDL_V1 = `
+    enum Role { ADMIN USER GUEST }
+    scalar Date
+    type Query { user(id: ID): User search(term: String): [User] }
+    type User { id: ID! name: String role: Role legacy: String }
+`;
+
+const SCHEMA_V1 = buildSchema(SDL_V1);
+
+const SCHEMA_V2 = buildSchema(`
+    enum Role { ADMIN USER MODERATOR }
+    type Date { value: String }
+    type Query { user(id: ID!): User search(term: String, limit: Int): [User] me: User }
+    type User { id: ID! name: String role: Role legacy: String @deprecated(reason: "Use name") email: String }
+`);
+
+function serveSchema(schema: GraphQLSchema) {
+    global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ data: introspectionFromSchema(schema) })
+    }) as any;
+}
+
+describe('diffSchemas', () => {
+    it('should classify breaking, dangerous and safe changes', () => {
+        const changes = diffSchemas(SCHEMA_V1, SCHEMA_V2);
+
+        expect(changes.breaking.map(change => change.type).sort()).toEqual([
+            'ARG_CHANGED_KIND',
+            'TYPE_CHANGED_KIND',
+            'VALUE_REMOVED_FROM_ENUM',
+        ]);
+        expect(changes.dangerous.map(change => change.type).sort()).toEqual([
+            'OPTIONAL_ARG_ADDED',
+            'VALUE_ADDED_TO_ENUM',
+        ]);
+        expect(changes.safe.map(change => change.description)).toEqual([
+            'Query.me was added.',
+            'User.legacy was deprecated: Use name',
+            'User.email was added.',
+        ]);
+    });
+
+    it('should report nothing for identical schemas', () => {
+        expect(diffSchemas(SCHEMA_V1, buildSchema(SDL_V1))).toEqual({ breaking: [], dangerous: [], safe: [] });
+    });
+});
+
+describe('diff-schema tool', () => {
+    const originalFetch = global.fetch;
+    let schemaDir: string;
+
+    beforeAll(async () => {
+        // Baseline files must live inside the working directory; .temp is git-ignored
+        await fs.mkdir(join(process.cwd(), '.temp'), { recursive: true });
+        schemaDir = await fs.mkdtemp(join(process.cwd(), '.temp', 'diff-schema-'));
+        await fs.writeFile(join(schemaDir, 'v1.graphql'), SDL_V1);
+    });
+
+    afterAll(async () => {
+        await fs.rm(schemaDir, { recursive: true, force: true });
+    });
+
+    beforeEach(async () => {
+        setSessionStore(new MemorySessionStore());
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        serveSchema(SCHEMA_V1);
+        await refreshSchema();
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+        setSessionStore(null);
+        vi.restoreAllMocks();
+    });
+
+    it('should compare with the previous snapshot after a refresh', async () => {
+        serveSchema(SCHEMA_V2);
+        await refreshSchema();
+
+        const result = await diffSchema();
+
+        expect(result.error).toBeUndefined();
+        expect(result.endpoint).toBe('default');
+        expect(result.baseline).toEqual({ source: 'snapshot', fingerprint: getSchemaFingerprint(SCHEMA_V1) });
+        expect(result.current!.fingerprint).toBe(getSchemaFingerprint(SCHEMA_V2));
+        expect(result.identical).toBe(false);
+        expect(result.summary).toEqual({ breaking: 3, dangerous: 2, safe: 3 });
+        expect(result.sessionIssues).toBeUndefined();
+    });
+
+    it('should use the session schema as baseline and list affected selections', async () => {
+        const imported = await importGraphQLQuery('query Profile($id: ID) { user(id: $id) { id role } }');
+        expect(imported.success).toBe(true);
+
+        serveSchema(SCHEMA_V2);
+        await refreshSchema();
+
+        const result = await diffSchema({ sessionId: imported.sessionId });
+
+        expect(result.baseline!.source).toBe('session');
+        expect(result.sessionIssues!.map(issue => [issue.kind, issue.path])).toEqual([
+            ['argument-changed', 'user'],
+        ]);
+    });
+
+    it('should compare with a schema file inside the working directory', async () => {
+        serveSchema(SCHEMA_V2);
+        await refreshSchema();
+
+        const schemaFile = relative(process.cwd(), join(schemaDir, 'v1.graphql'));
+        const result = await diffSchema({ schemaFile });
+
+        expect(result.baseline).toEqual({ source: 'file', fingerprint: getSchemaFingerprint(SCHEMA_V1), schemaFile });
+        expect(result.summary!.breaking).toBe(3);
+    });
+
+    it('should refuse schema files outside the working directory', async () => {
+        const result = await diffSchema({ schemaFile: '../../etc/schema.graphql' });
+
+        expect(result.error).toBe("Schema file '../../etc/schema.graphql' must be inside the server's working directory.");
+        expect((await diffSchema({ schemaFile: '/etc/schema.graphql' })).error).toContain('must be inside');
+    });
+
+    it('should report unknown snapshots, sessions and endpoints', async () => {
+        expect((await diffSchema({ fingerprint: 'deadbeefdeadbeef' })).error).toContain("Schema snapshot 'deadbeefdeadbeef' is no longer available");
+        expect((await diffSchema({ sessionId: 'missing' })).error).toBe('Session not found.');
+        expect((await diffSchema({ endpoint: 'unknown' })).error).toContain("Unknown GraphQL endpoint 'unknown'");
+    });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { buildSchema, introspectionFromSchema } from 'graphql';
+import {
+    loadEndpointRegistry,
+    resolveEndpointAndHeaders,
+    fetchAndCacheSchema,
+    getEndpointLimits,
+    analyzeQueryComplexity,
+    loadQueryState,
+    MAX_QUERY_COMPLEXITY
+} from '../../tools/shared-utils.js';
+import { createQuerySession } from '../../tools/start-query-session.js';
+import { selectGraphQLField } from '../../tools/select-field.js';
+import { executeGraphQLQuery } from '../../tools/execute-query.js';
+import { listGraphQLEndpoints } from '../../tools/list-endpoints.js';
+import { getTypeInfo } from '../../tools/get-type-info.js';
+import { setTypedArgument } from '../../tools/set-typed-argument.js';
+import { analyzeQueryCost } from '../../tools/cost-analysis.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+
+const BILLING_SCHEMA = buildSchema(`
+    type Query { invoices(first: Int): [Invoice] }
+    type Invoice { id: ID! total: Float }
+`);
+
+// Applies the cost directives without declaring them
+const OFFLINE_SDL = `
+    type Query { reports(first: Int): [Report] @listSize(slicingArguments: ["first"], requireOneSlicingArgument: false) }
+    type Report { id: ID! title: String @cost(weight: "4") }
+`;
+
+const ENDPOINTS: Record<string, any> = {
+    billing: {
+        url: 'https://billing.example.com/graphql',
+        headers: { Authorization: 'Bearer secret' },
+        limits: { maxDepth: 3, maxCost: 100, timeoutMs: 5000 }
+    },
+    'bad name!': { url: 'https://other.example.com/graphql' },
+    ftp: { url: 'ftp://files.example.com/graphql' }
+};
+
+describe('GraphQL endpoint registry', () => {
+    const originalEndpoints = process.env.GRAPHQL_ENDPOINTS;
+    const originalFetch = global.fetch;
+    let schemaDir: string;
+
+    beforeAll(async () => {
+        schemaDir = await fs.mkdtemp(join(tmpdir(), 'endpoints-'));
+        await fs.writeFile(join(schemaDir, 'reports.graphql'), OFFLINE_SDL);
+    });
+
+    afterAll(async () => {
+        await fs.rm(schemaDir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        process.env.GRAPHQL_ENDPOINTS = JSON.stringify({
+            ...ENDPOINTS,
+            reports: { url: 'https://reports.example.com/graphql', schemaFile: join(schemaDir, 'reports.graphql') }
+        });
+        setSessionStore(new MemorySessionStore());
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        global.fetch = vi.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({ data: introspectionFromSchema(BILLING_SCHEMA) })
+        }) as any;
+    });
+
+    afterEach(() => {
+        if (originalEndpoints === undefined) {
+            delete process.env.GRAPHQL_ENDPOINTS;
+        } else {
+            process.env.GRAPHQL_ENDPOINTS = originalEndpoints;
+        }
+        global.fetch = originalFetch;
+        setSessionStore(null);
+        vi.restoreAllMocks();
+    });
+
+    it('should register the default endpoint and valid named endpoints only', () => {
+        const registry = loadEndpointRegistry();
+
+        expect(Array.from(registry.keys())).toEqual(['default', 'billing', 'reports']);
+        expect(registry.get('default')!.url).toBe('http://localhost:4000/graphql');
+        expect(registry.get('billing')!.limits).toEqual({
+            ...MAX_QUERY_COMPLEXITY,
+            DEPTH: 3,
+            TOTAL_COST: 100
+        });
+        expect(registry.get('billing')!.timeoutMs).toBe(5000);
+    });
+
+    it('should parse the registry again only when the environment changes', () => {
+        process.env.GRAPHQL_ENDPOINTS = JSON.stringify({ ftp: ENDPOINTS.ftp });
+        const warn = vi.mocked(console.warn);
+        warn.mockClear();
+
+        const registry = loadEndpointRegistry();
+        expect(loadEndpointRegistry()).toBe(registry);
+        resolveEndpointAndHeaders('default');
+        expect(warn).toHaveBeenCalledTimes(1);
+
+        process.env.GRAPHQL_ENDPOINTS = JSON.stringify({ billing: ENDPOINTS.billing });
+        expect(Array.from(loadEndpointRegistry().keys())).toEqual(['default', 'billing']);
+    });
+
+    it('should reject endpoints outside the allowlist', () => {
+        const resolved = resolveEndpointAndHeaders('https://evil.example.com/graphql');
+
+        expect(resolved.url).toBeNull();
+        expect(resolved.error).toBe("Unknown GraphQL endpoint 'https://evil.example.com/graphql'. Allowed endpoints: default, billing, reports.");
+    });
+
+    it('should start sessions against a named endpoint and cache its schema separately', async () => {
+        const session = await createQuerySession('query', 'Invoices', undefined, 'billing');
+        expect(session.error).toBeUndefined();
+        expect(session.endpoint).toBe('billing');
+
+        const state = await loadQueryState(session.sessionId!);
+        expect(state!.endpoint).toBe('billing');
+        expect(state!.headers.Authorization).toBe('Bearer secret');
+
+        expect(global.fetch).toHaveBeenCalledWith('https://billing.example.com/graphql', expect.anything());
+        const schema = await fetchAndCacheSchema(state!.headers, 'billing');
+        expect(schema.getType('Invoice')).toBeDefined();
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+
+        const typeInfo = await getTypeInfo('Invoice', 'billing');
+        expect(typeInfo.fields!.map(field => field.name)).toEqual(['id', 'total']);
+    });
+
+    it('should refuse to start sessions for unknown endpoints', async () => {
+        const session = await createQuerySession('query', undefined, undefined, 'ftp');
+
+        expect(session.sessionId).toBeUndefined();
+        expect(session.error).toContain("Unknown GraphQL endpoint 'ftp'");
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should apply per-endpoint limits to complexity analysis', () => {
+        const structure = {
+            fields: {
+                a: { fieldName: 'a', fields: { b: { fieldName: 'b', fields: { c: { fieldName: 'c', fields: { d: { fieldName: 'd', fields: {} } } } } } } }
+            }
+        };
+
+        expect(analyzeQueryComplexity(structure, 'query', {}, getEndpointLimits('billing')).valid).toBe(false);
+        expect(analyzeQueryComplexity(structure, 'query', {}, getEndpointLimits()).valid).toBe(true);
+    });
+
+    it('should list endpoints without exposing header values', async () => {
+        const result = await listGraphQLEndpoints();
+        const billing = result.endpoints!.find(endpoint => endpoint.name === 'billing')!;
+
+        expect(result.endpoints!.map(endpoint => endpoint.name)).toEqual(['default', 'billing', 'reports']);
+        expect(billing.isDefault).toBe(false);
+        expect(billing.headerNames).toEqual(['Authorization']);
+        expect(billing.limits.maxDepth).toBe(3);
+        expect(billing.limits.timeoutMs).toBe(5000);
+        expect(JSON.stringify(result)).not.toContain('Bearer secret');
+    });
+
+    it('should build against a schema file and still execute against the live URL', async () => {
+        const session = await createQuerySession('query', 'Reports', undefined, 'reports');
+        expect(session.error).toBeUndefined();
+        expect(global.fetch).not.toHaveBeenCalled();
+
+        await selectGraphQLField(session.sessionId!, '', 'reports');
+        const selected = await selectGraphQLField(session.sessionId!, 'reports', 'title');
+        expect(selected.error).toBeUndefined();
+
+        (global.fetch as any).mockResolvedValue({
+            ok: true,
+            json: async () => ({ data: { reports: [{ title: 'Q1' }] } })
+        });
+        const result = await executeGraphQLQuery(session.sessionId!);
+
+        expect(result.data).toEqual({ reports: [{ title: 'Q1' }] });
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        expect(global.fetch).toHaveBeenCalledWith('https://reports.example.com/graphql', expect.anything());
+        expect((await listGraphQLEndpoints()).endpoints!.find(endpoint => endpoint.name === 'reports')!.schemaSource).toBe('file');
+    });
+
+    it('should cost queries with directives from a schema file that does not declare them', async () => {
+        const session = await createQuerySession('query', 'Reports', undefined, 'reports');
+        await selectGraphQLField(session.sessionId!, '', 'reports');
+        await setTypedArgument({ sessionId: session.sessionId!, fieldPath: 'reports', argumentName: 'first', value: 10 });
+        await selectGraphQLField(session.sessionId!, 'reports', 'title');
+
+        const schema = await fetchAndCacheSchema(undefined, 'reports');
+        const cost = analyzeQueryCost(schema, (await loadQueryState(session.sessionId!))!);
+
+        expect(cost.usesCostDirectives).toBe(true);
+        expect(cost.totalCost).toBe(50);
+    });
+});
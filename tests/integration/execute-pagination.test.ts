@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildSchema } from 'graphql';
+import { executeGraphQLQuery } from '../../tools/execute-query.js';
+import { selectConnection } from '../../tools/select-connection.js';
+import { selectGraphQLField } from '../../tools/select-field.js';
+import { createQuerySession } from '../../tools/start-query-session.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+
+const PAGED_SCHEMA = buildSchema(`
+    type Query {
+        viewer: User
+        users: [User]
+    }
+
+    type User { login: String! repositories(first: Int, after: String): RepositoryConnection! }
+    type RepositoryConnection { edges: [RepositoryEdge] pageInfo: PageInfo! }
+    type RepositoryEdge { node: Repository }
+    type Repository { id: ID! name: String! }
+    type PageInfo { hasNextPage: Boolean! endCursor: String }
+`);
+
+vi.mock('../../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../../tools/shared-utils.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockImplementation(async () => PAGED_SCHEMA),
+    };
+});
+
+// Serves `total` repositories in pages of `pageSize`, using the item index as the cursor
+function mockPagedEndpoint(total: number, pageSize: number) {
+    const requests: any[] = [];
+    global.fetch = vi.fn().mockImplementation(async (_url: string, init: any) => {
+        const body = JSON.parse(init.body);
+        requests.push(body);
+        const start = body.variables.after ? Number(body.variables.after) : 0;
+        const end = Math.min(start + pageSize, total);
+        const edges = Array.from({ length: end - start }, (_, index) => ({ node: { id: String(start + index) } }));
+        return {
+            ok: true,
+            json: async () => ({
+                data: {
+                    viewer: {
+                        repositories: {
+                            edges,
+                            pageInfo: { hasNextPage: end < total, endCursor: String(end) }
+                        }
+                    }
+                }
+            })
+        } as Response;
+    });
+    return requests;
+}
+
+describe('execute-query pagination', () => {
+    let sessionId: string;
+
+    beforeEach(async () => {
+        setSessionStore(new MemorySessionStore());
+        sessionId = (await createQuerySession('query', 'Repositories')).sessionId!;
+        await selectGraphQLField(sessionId, '', 'viewer');
+        await selectConnection(sessionId, 'viewer', 'repositories', { pageSize: 2 });
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+    });
+
+    it('should follow endCursor until the last page and merge edges', async () => {
+        const requests = mockPagedEndpoint(5, 2);
+
+        const result = await executeGraphQLQuery(sessionId, { paginate: {} });
+
+        expect(result.error).toBeUndefined();
+        expect(result.data.viewer.repositories.edges.map((edge: any) => edge.node.id)).toEqual(['0', '1', '2', '3', '4']);
+        expect(result.data.viewer.repositories.pageInfo).toEqual({ hasNextPage: false, endCursor: '5' });
+        expect(result.pagination).toEqual({
+            path: 'viewer.repositories',
+            pages: 3,
+            items: 5,
+            complete: true,
+            stoppedReason: 'completed'
+        });
+        expect(requests.map(request => request.variables.after)).toEqual([undefined, '2', '4']);
+        // Variables are sent by bare name, as servers read them
+        expect(requests.flatMap(request => Object.keys(request.variables)).filter(name => name.startsWith('$'))).toEqual([]);
+    });
+
+    it('should stop at the page and item caps and report the cursor to resume from', async () => {
+        mockPagedEndpoint(20, 2);
+
+        const byPages = await executeGraphQLQuery(sessionId, { paginate: { maxPages: 2 } });
+        expect(byPages.pagination).toMatchObject({ pages: 2, items: 4, complete: false, stoppedReason: 'max_pages', endCursor: '4' });
+
+        const byItems = await executeGraphQLQuery(sessionId, { paginate: { maxItems: 4 } });
+        expect(byItems.pagination).toMatchObject({ pages: 2, items: 4, stoppedReason: 'max_items', endCursor: '4' });
+        expect(byItems.pagination!.truncated).toBeUndefined();
+    });
+
+    it('should cut the last page to maxItems and resume after the last item kept', async () => {
+        mockPagedEndpoint(20, 2);
+
+        const result = await executeGraphQLQuery(sessionId, { paginate: { maxItems: 5 } });
+
+        expect(result.data.viewer.repositories.edges.map((edge: any) => edge.node.id)).toEqual(['0', '1', '2', '3', '4']);
+        expect(result.pagination).toMatchObject({ pages: 3, items: 5, complete: false, stoppedReason: 'max_items', truncated: true });
+        // The edges select no cursor, so there is no cursor right after the last item kept
+        expect(result.pagination!.endCursor).toBeNull();
+        expect(result.data.viewer.repositories.pageInfo).toEqual({ hasNextPage: true, endCursor: null });
+    });
+
+    it('should stop when the rate limiter refuses another page', async () => {
+        const requests = mockPagedEndpoint(20, 2);
+        let charged = 0;
+
+        const result = await executeGraphQLQuery(sessionId, {
+            paginate: {},
+            beforeNextPage: async () => {
+                if (++charged > 2) throw new Error('Rate limit exceeded for expensive operations.');
+            }
+        });
+
+        expect(requests).toHaveLength(3);
+        expect(result.pagination).toMatchObject({ pages: 3, items: 6, stoppedReason: 'rate_limited' });
+        expect(result.data.viewer.repositories.edges).toHaveLength(6);
+    });
+
+    it('should keep merged pages and stop when a later page has errors', async () => {
+        mockPagedEndpoint(20, 2);
+        const pagedFetch = global.fetch as any;
+        global.fetch = vi.fn()
+            .mockImplementationOnce(pagedFetch)
+            .mockResolvedValueOnce({ ok: true, json: async () => ({ errors: [{ message: 'Something went wrong' }] }) });
+
+        const result = await executeGraphQLQuery(sessionId, { paginate: {} });
+
+        expect(result.pagination).toMatchObject({ pages: 1, items: 2, stoppedReason: 'errors' });
+        expect(result.errors).toEqual([{ message: 'Something went wrong' }]);
+        expect(result.data.viewer.repositories.edges).toHaveLength(2);
+    });
+
+    it('should reject queries without a paginated connection before sending anything', async () => {
+        const requests = mockPagedEndpoint(5, 2);
+        const otherSession = (await createQuerySession('query', 'Users')).sessionId!;
+        await selectGraphQLField(otherSession, '', 'users');
+        await selectConnection(otherSession, 'users', 'repositories');
+
+        expect((await executeGraphQLQuery(otherSession, { paginate: {} })).error)
+            .toBe('Query has no connection field with an $after variable to paginate. Use select-connection to scaffold one.');
+        expect((await executeGraphQLQuery(otherSession, { paginate: { path: 'users.repositories' } })).error)
+            .toBe("Connection at path 'users.repositories' is inside a list, so its pages cannot be followed with a single cursor.");
+        expect((await executeGraphQLQuery(sessionId, { paginate: { path: 'viewer' } })).error)
+            .toContain("No connection with an $after variable at path 'viewer'");
+        expect(requests).toHaveLength(0);
+    });
+});
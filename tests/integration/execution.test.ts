@@ -511,7 +511,7 @@ describe('Enhanced Execution and Validation Tests', () => {
                 expect.objectContaining({
                     body: JSON.stringify({
                         query: 'query($userId: ID!) { user(id: $userId) { name } }',
-                        variables: { '$userId': 'user123' }
+                        variables: { userId: 'user123' }
                     })
                 })
             );
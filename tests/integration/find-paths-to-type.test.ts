@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildSchema } from 'graphql';
+import { findPathsToType, findPathsToTargetType } from '../../tools/find-paths-to-type.js';
+import { createQuerySession } from '../../tools/start-query-session.js';
+import { selectGraphQLField } from '../../tools/select-field.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+
+const PATH_SCHEMA = buildSchema(`
+    interface Node { id: ID! }
+
+    type Query {
+        viewer: User
+        repository(owner: String!, name: String!, followRenames: Boolean = true): Repository
+        node(id: ID!): Node
+        search(query: String!): [SearchResult]
+    }
+
+    type User implements Node {
+        id: ID!
+        login: String!
+        repositories(first: Int): [Repository]
+    }
+
+    type Repository implements Node {
+        id: ID!
+        name: String!
+        owner: User
+        pullRequest(number: Int!): PullRequest
+        pullRequests(first: Int): PullRequestConnection
+    }
+
+    type PullRequestConnection { nodes: [PullRequest] }
+
+    type PullRequest implements Node {
+        id: ID!
+        title: String
+        author: User
+    }
+
+    type Orphan { id: ID! }
+
+    union SearchResult = User | Repository | PullRequest
+`);
+
+vi.mock('../../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../../tools/shared-utils.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockImplementation(async () => PATH_SCHEMA),
+    };
+});
+
+describe('findPathsToType', () => {
+    it('should return the shortest paths first, expanding each type once', () => {
+        const paths = findPathsToType(PATH_SCHEMA, 'Query', 'PullRequest');
+
+        expect(paths.map(path => [path.path, path.inlineFragmentOn])).toEqual([
+            ['node', 'PullRequest'],
+            ['search', 'PullRequest'],
+            ['repository.pullRequest', undefined],
+            ['repository.pullRequests.nodes', undefined],
+        ]);
+
+        const direct = paths[2];
+        expect(direct.depth).toBe(2);
+        expect(direct.steps).toEqual([
+            {
+                parentType: 'Query',
+                field: 'repository',
+                type: 'Repository',
+                requiredArguments: [{ name: 'owner', type: 'String!' }, { name: 'name', type: 'String!' }]
+            },
+            {
+                parentType: 'Repository',
+                field: 'pullRequest',
+                type: 'PullRequest',
+                requiredArguments: [{ name: 'number', type: 'Int!' }]
+            }
+        ]);
+    });
+
+    it('should list the select-field calls for a target field', () => {
+        const [path] = findPathsToType(PATH_SCHEMA, 'Query', 'PullRequest', 'title', { maxPaths: 1, maxDepth: 2 });
+
+        expect(path.path).toBe('node');
+        expect(path.selectFieldCalls).toEqual([{ parentPath: '', fieldName: 'node' }]);
+
+        const [concrete] = findPathsToType(PATH_SCHEMA, 'Query', 'Repository', 'name');
+        expect(concrete.selectFieldCalls).toEqual([
+            { parentPath: '', fieldName: 'repository' },
+            { parentPath: 'repository', fieldName: 'name' }
+        ]);
+    });
+
+    it('should respect maxDepth and maxPaths', () => {
+        expect(findPathsToType(PATH_SCHEMA, 'Query', 'PullRequest', null, { maxDepth: 1 }).map(path => path.path))
+            .toEqual(['node', 'search']);
+        expect(findPathsToType(PATH_SCHEMA, 'Query', 'PullRequest', null, { maxPaths: 3 })).toHaveLength(3);
+    });
+
+    it('should return no paths to unreachable types', () => {
+        expect(findPathsToType(PATH_SCHEMA, 'Query', 'Orphan')).toEqual([]);
+    });
+});
+
+describe('find-paths-to-type tool', () => {
+    beforeEach(() => {
+        setSessionStore(new MemorySessionStore());
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+    });
+
+    it('should produce paths that select-field accepts', async () => {
+        const session = await createQuerySession('query');
+        const result = await findPathsToTargetType(session.sessionId!, 'User.login');
+
+        expect(result.rootType).toBe('Query');
+        const [viewerPath] = result.paths!;
+        expect(viewerPath.path).toBe('viewer');
+
+        for (const call of viewerPath.selectFieldCalls) {
+            const selected = await selectGraphQLField(session.sessionId!, call.parentPath, call.fieldName);
+            expect(selected.error).toBeUndefined();
+        }
+    });
+
+    it('should report unknown targets and unreachable types', async () => {
+        const session = await createQuerySession('query');
+
+        expect((await findPathsToTargetType(session.sessionId!, 'Missing')).error).toContain("Target 'Missing' not found in schema");
+        expect((await findPathsToTargetType(session.sessionId!, 'User.email')).error).toBe("Field 'email' not found on type 'User'.");
+
+        const unreachable = await findPathsToTargetType(session.sessionId!, 'Orphan');
+        expect(unreachable.paths).toEqual([]);
+        expect(unreachable.message).toBe('No path from Query to Orphan within 5 levels.');
+
+        expect((await findPathsToTargetType('missing', 'User')).error).toBe('Session not found.');
+    });
+});
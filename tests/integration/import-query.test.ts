@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { importGraphQLQuery } from '../../tools/import-query.js';
+import { createQuerySession } from '../../tools/start-query-session.js';
+import { selectGraphQLField } from '../../tools/select-field.js';
+import { undoQueryChange } from '../../tools/session-history.js';
+import { loadQueryState } from '../../tools/shared-utils.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+
+vi.mock('../../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../../tools/shared-utils.js');
+    const { TEST_SCHEMA } = await import('../setup.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockResolvedValue(TEST_SCHEMA),
+    };
+});
+
+describe('import-query', () => {
+    beforeEach(() => {
+        setSessionStore(new MemorySessionStore());
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+    });
+
+    it('should import fields, aliases, arguments and variables', async () => {
+        const result = await importGraphQLQuery(`
+            query GetCharacter($id: ID!, $page: Int = 2) {
+                hero: character(id: $id) {
+                    id
+                    name
+                }
+                characters(page: $page, filter: { name: "Rick", status: "$alive" }) {
+                    results { name }
+                }
+                complexField(enumArg: OPTION_B, stringArg: "hi", intArg: 3, inputArg: { name: "x", value: 1 })
+            }
+        `);
+
+        expect(result.success).toBe(true);
+        expect(result.operationName).toBe('GetCharacter');
+        expect(result.variablesSchema).toEqual({ $id: 'ID!', $page: 'Int' });
+        expect(result).not.toHaveProperty('variables_schema');
+
+        const state = await loadQueryState(result.sessionId!);
+        const hero = state!.queryStructure.fields.hero;
+        expect(hero.fieldName).toBe('character');
+        expect(hero.alias).toBe('hero');
+        expect(hero.args.id).toBe('$id');
+        expect(Object.keys(hero.fields)).toEqual(['id', 'name']);
+        expect(state!.variablesDefaults).toEqual({ $page: 2 });
+
+        const complexField = state!.queryStructure.fields.complexField;
+        expect(complexField.args.enumArg).toEqual({ value: 'OPTION_B', is_enum: true });
+        expect(complexField.args.stringArg).toEqual({ __graphqlString: 'hi' });
+        expect(complexField.args.intArg).toEqual({ value: 3, is_typed: true });
+
+        expect(result.query).toContain('query GetCharacter($id: ID!, $page: Int = 2)');
+        expect(result.query).toContain('hero: character(id: $id)');
+        expect(result.query).toContain('filter: {name: "Rick", status: "$alive"}');
+        expect(result.query).toContain('complexField(enumArg: OPTION_B, stringArg: "hi", intArg: 3, inputArg: {name: "x", value: 1})');
+    });
+
+    it('should import directives, named fragments and inline fragments', async () => {
+        const result = await importGraphQLQuery(`
+            query Characters($withOrigin: Boolean!) {
+                ...Everything
+                character(id: "1") {
+                    ...CharacterFields
+                    origin @include(if: $withOrigin) { name }
+                    ... on Character { status }
+                }
+            }
+
+            fragment CharacterFields on Character {
+                id
+                ...NameOnly
+            }
+
+            fragment NameOnly on Character {
+                name
+            }
+
+            fragment Everything on Query {
+                users { id }
+            }
+
+            fragment Unused on Character {
+                gender
+            }
+        `);
+
+        expect(result.success).toBe(true);
+        expect(result.fragments!.sort()).toEqual(['CharacterFields', 'Everything', 'NameOnly']);
+
+        const state = await loadQueryState(result.sessionId!);
+        expect(state!.queryStructure.fragmentSpreads).toEqual(['Everything']);
+
+        const character = state!.queryStructure.fields.character;
+        expect(character.fragmentSpreads).toEqual(['CharacterFields']);
+        expect(character.fields.origin.directives).toEqual([
+            { name: 'include', arguments: [{ name: 'if', value: '$withOrigin' }] }
+        ]);
+        expect(character.inlineFragments[0].on_type).toBe('Character');
+        expect(state!.fragments.CharacterFields.fragmentSpreads).toEqual(['NameOnly']);
+
+        expect(result.query).toContain('...Everything');
+        expect(result.query).toContain('... on Character {');
+        expect(result.query).toContain('fragment CharacterFields on Character {\n  id\n  ...NameOnly\n}');
+    });
+
+    it('should merge repeated selections of the same field', async () => {
+        const result = await importGraphQLQuery('{ user(id: "1") { id } user(id: "1") { name } }');
+
+        expect(result.success).toBe(true);
+        const state = await loadQueryState(result.sessionId!);
+        expect(Object.keys(state!.queryStructure.fields.user.fields)).toEqual(['id', 'name']);
+    });
+
+    it('should require operationName when the document has several operations', async () => {
+        const document = 'query A { users { id } } mutation B { deleteUser(id: "1") }';
+
+        const ambiguous = await importGraphQLQuery(document);
+        expect(ambiguous.error).toContain('Specify operationName');
+
+        const result = await importGraphQLQuery(document, 'B');
+        expect(result.success).toBe(true);
+        expect(result.operationType).toBe('mutation');
+    });
+
+    it('should report syntax and validation errors', async () => {
+        const syntax = await importGraphQLQuery('query {');
+        expect(syntax.error).toContain('Failed to parse GraphQL document');
+
+        const invalid = await importGraphQLQuery('{ user(id: "1") { nope } }');
+        expect(invalid.error).toBe('The GraphQL document is not valid against the schema.');
+        expect(invalid.errors![0]).toContain('nope');
+    });
+
+    it('should reject constructs a session cannot represent', async () => {
+        const result = await importGraphQLQuery(`
+            query ($flag: Boolean!) {
+                character(id: "1") { ...F @include(if: $flag) }
+            }
+            fragment F on Character { id }
+        `);
+
+        expect(result.error).toContain('directives on fragment spread');
+    });
+
+    it('should replace the operation of an existing session undoably', async () => {
+        const session = await createQuerySession('query', 'Original');
+        await selectGraphQLField(session.sessionId!, '', 'users');
+
+        const result = await importGraphQLQuery('query Imported { episodes { results { id } } }', undefined, session.sessionId);
+        expect(result.success).toBe(true);
+        expect(result.sessionId).toBe(session.sessionId);
+
+        let state = await loadQueryState(session.sessionId!);
+        expect(state!.operationName).toBe('Imported');
+        expect(state!.queryStructure.fields.users).toBeUndefined();
+
+        await undoQueryChange(session.sessionId!);
+        state = await loadQueryState(session.sessionId!);
+        expect(state!.operationName).toBe('Original');
+        expect(state!.queryStructure.fields.users).toBeDefined();
+    });
+
+    it('should report missing sessions', async () => {
+        const result = await importGraphQLQuery('{ users { id } }', undefined, 'deadbeef');
+        expect(result.error).toBe('Session not found.');
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildSchema, introspectionFromSchema, printSchema } from 'graphql';
+import { introspectGraphQLSchema } from '../../tools/introspect-schema.js';
+import { refreshSchema } from '../../tools/refresh-schema.js';
+
+const CHUNK_SCHEMA = buildSchema(`
+    directive @cost(weight: Int!) on FIELD_DEFINITION
+
+    type Query {
+        repository(owner: String!, name: String!): Repository @cost(weight: 2)
+        viewer: User
+    }
+
+    type Mutation { addStar(input: AddStarInput!): Repository }
+
+    type Repository { name: String! owner: User issues(states: [IssueState!]): [Issue] }
+    type User { login: String! }
+    type Issue { title: String state: IssueState }
+    enum IssueState { OPEN CLOSED }
+    input AddStarInput { starrableId: ID! }
+    type Billing { plan: String }
+`);
+
+describe('introspect-schema formats and chunks', () => {
+    const originalFetch = global.fetch;
+
+    beforeEach(async () => {
+        global.fetch = vi.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({ data: introspectionFromSchema(CHUNK_SCHEMA) })
+        }) as any;
+        await refreshSchema();
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('should honor the requested format', async () => {
+        const sdlOnly = await introspectGraphQLSchema(undefined, { format: 'sdl' });
+        expect(sdlOnly.schemaSdl).toBe(printSchema(CHUNK_SCHEMA));
+        expect(sdlOnly.fullSchemaJson).toBeUndefined();
+
+        const jsonOnly = await introspectGraphQLSchema(undefined, { format: 'json' });
+        expect(jsonOnly.schemaSdl).toBeUndefined();
+        expect(jsonOnly.fullSchemaJson.__schema.queryType.name).toBe('Query');
+
+        const both = await introspectGraphQLSchema();
+        expect(both.schemaSdl).toBeDefined();
+        expect(both.fullSchemaJson).toBeDefined();
+    });
+
+    it('should page through the SDL in chunks of whole types', async () => {
+        const chunks: string[] = [];
+        let cursor: string | undefined;
+        let chunkCount = 0;
+
+        do {
+            const result = await introspectGraphQLSchema(undefined, { format: 'sdl', maxBytes: 100, cursor });
+            expect(result.error).toBeUndefined();
+            chunks.push(result.schemaSdl!);
+            cursor = result.chunk!.nextCursor || undefined;
+            chunkCount++;
+        } while (cursor && chunkCount < 20);
+
+        expect(chunkCount).toBeGreaterThan(1);
+        expect(chunks.join('\n\n')).toBe(printSchema(CHUNK_SCHEMA));
+    });
+
+    it('should report the type range of each chunk', async () => {
+        const first = await introspectGraphQLSchema(undefined, { format: 'both', maxBytes: 800 * 1024 });
+
+        expect(first.chunk).toEqual({
+            cursor: null,
+            nextCursor: null,
+            firstType: 'Query',
+            lastType: 'Billing',
+            typeCount: 8,
+            totalTypes: 8
+        });
+        expect(first.fullSchemaJson.__schema.types.map((type: any) => type.name)).toContain('IssueState');
+    });
+
+    it('should only return types reachable from a root field', async () => {
+        const result = await introspectGraphQLSchema(undefined, { format: 'both', rootField: 'repository' });
+
+        expect(result.schemaSdl).toContain('type Query {\n  repository(owner: String!, name: String!): Repository\n}');
+        expect(result.schemaSdl).not.toContain('viewer');
+        expect(result.schemaSdl).not.toContain('Billing');
+        expect(result.schemaSdl).not.toContain('AddStarInput');
+        expect(result.fullSchemaJson.__schema.types.map((type: any) => type.name)).toEqual([
+            'Query', 'Repository', 'User', 'Issue', 'IssueState'
+        ]);
+        expect(result.fullSchemaJson.__schema.types[0].fields.map((field: any) => field.name)).toEqual(['repository']);
+
+        const mutation = await introspectGraphQLSchema(undefined, { format: 'sdl', rootField: 'Mutation.addStar' });
+        expect(mutation.schemaSdl).toContain('input AddStarInput');
+    });
+
+    it('should reject unknown root fields and stale cursors', async () => {
+        expect((await introspectGraphQLSchema(undefined, { rootField: 'Billing.plan' })).error)
+            .toContain("Root field 'Billing.plan' not found");
+        expect((await introspectGraphQLSchema(undefined, { cursor: 'deadbeef:2' })).error)
+            .toContain("Invalid or expired cursor 'deadbeef:2'");
+    });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildSchema } from 'graphql';
+import { mockExecuteQuery } from '../../tools/mock-execute.js';
+import { createQuerySession } from '../../tools/start-query-session.js';
+import { selectGraphQLField } from '../../tools/select-field.js';
+import { selectMultipleFields } from '../../tools/select-multiple-fields.js';
+import { setQueryVariable } from '../../tools/set-query-variable.js';
+import { setVariableArgument } from '../../tools/set-variable-argument.js';
+import { setVariableValue } from '../../tools/set-variable-value.js';
+import { applyInlineFragment } from '../../tools/apply-inline-fragment.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+
+const MOCK_SCHEMA = buildSchema(`
+    type Query {
+        user(id: ID!): User
+        search(term: String!): [SearchResult!]!
+    }
+
+    type Mutation { deleteUser(id: ID!): Boolean! }
+
+    type User {
+        id: ID!
+        name: String!
+        age: Int
+        role: Role!
+        tags: [String!]!
+        friends: [User]
+    }
+
+    type Post { title: String! }
+    union SearchResult = User | Post
+    enum Role { ADMIN EDITOR VIEWER }
+`);
+
+vi.mock('../../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../../tools/shared-utils.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockImplementation(async () => MOCK_SCHEMA),
+    };
+});
+
+describe('mock-execute', () => {
+    beforeEach(() => {
+        setSessionStore(new MemorySessionStore());
+        global.fetch = vi.fn().mockRejectedValue(new Error('mock-execute must not call the network'));
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+    });
+
+    async function buildUserQuery(): Promise<string> {
+        const sessionId = (await createQuerySession('query', 'User')).sessionId!;
+        await setQueryVariable(sessionId, '$id', 'ID!');
+        await selectGraphQLField(sessionId, '', 'user');
+        await setVariableArgument(sessionId, 'user', 'id', '$id');
+        await selectMultipleFields(sessionId, 'user', ['id', 'name', 'age', 'role', 'tags']);
+        await selectGraphQLField(sessionId, 'user', 'friends');
+        await selectGraphQLField(sessionId, 'user.friends', 'name');
+        return sessionId;
+    }
+
+    it('should run the built query offline with values shaped like the schema', async () => {
+        const sessionId = await buildUserQuery();
+        await setVariableValue(sessionId, '$id', 'u1');
+
+        const result = await mockExecuteQuery(sessionId, { listLength: 3 });
+
+        expect(result.error).toBeUndefined();
+        expect(result.errors).toBeUndefined();
+        expect(result.generatedVariables).toBeUndefined();
+        const user = result.data.user;
+        expect(user.id).toMatch(/^id_\d+$/);
+        expect(user.name).toMatch(/^name_\d+$/);
+        expect(Number.isInteger(user.age)).toBe(true);
+        expect(['ADMIN', 'EDITOR', 'VIEWER']).toContain(user.role);
+        expect(user.tags).toHaveLength(3);
+        expect(user.friends).toHaveLength(3);
+        expect(Object.keys(user.friends[0])).toEqual(['name']);
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should be deterministic for a seed and vary between seeds', async () => {
+        const sessionId = await buildUserQuery();
+
+        const first = await mockExecuteQuery(sessionId, { seed: 7 });
+        const again = await mockExecuteQuery(sessionId, { seed: 7 });
+        const other = await mockExecuteQuery(sessionId, { seed: 8 });
+
+        expect(first.data).toEqual(again.data);
+        expect(first.data).not.toEqual(other.data);
+        expect(first.generatedVariables).toEqual({ $id: 'example_id' });
+    });
+
+    it('should resolve unions to their member types', async () => {
+        const sessionId = (await createQuerySession('query', 'Search')).sessionId!;
+        await selectGraphQLField(sessionId, '', 'search');
+        await setQueryVariable(sessionId, '$term', 'String!');
+        await setVariableArgument(sessionId, 'search', 'term', '$term');
+        await applyInlineFragment(sessionId, 'search', 'User', ['name']);
+        await applyInlineFragment(sessionId, 'search', 'Post', ['title']);
+
+        const result = await mockExecuteQuery(sessionId, { listLength: 6 });
+
+        expect(result.errors).toBeUndefined();
+        const keys = result.data.search.map((item: any) => Object.keys(item).join());
+        expect(keys).toHaveLength(6);
+        expect(new Set(keys)).toEqual(new Set(['name', 'title']));
+    });
+
+    it('should execute mutations without side effects', async () => {
+        const sessionId = (await createQuerySession('mutation', 'DeleteUser')).sessionId!;
+        await selectGraphQLField(sessionId, '', 'deleteUser');
+        await setQueryVariable(sessionId, '$id', 'ID!');
+        await setVariableArgument(sessionId, 'deleteUser', 'id', '$id');
+
+        const result = await mockExecuteQuery(sessionId);
+
+        expect(typeof result.data.deleteUser).toBe('boolean');
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should stop when nested lists would generate too many values', async () => {
+        const sessionId = (await createQuerySession('query', 'Friends')).sessionId!;
+        await setQueryVariable(sessionId, '$id', 'ID!');
+        await selectGraphQLField(sessionId, '', 'user');
+        await setVariableArgument(sessionId, 'user', 'id', '$id');
+        let path = 'user';
+        for (let level = 0; level < 4; level++) {
+            await selectGraphQLField(sessionId, path, 'friends');
+            path += '.friends';
+        }
+        await selectGraphQLField(sessionId, path, 'name');
+
+        const result = await mockExecuteQuery(sessionId, { listLength: 10 });
+
+        expect(result.code).toBe('LIMIT_EXCEEDED');
+        expect(result.error).toContain('more than 10000 values');
+        expect(result.data).toBeUndefined();
+    });
+
+    it('should reject queries deeper than the endpoint allows', async () => {
+        const sessionId = (await createQuerySession('query', 'Deep')).sessionId!;
+        await setQueryVariable(sessionId, '$id', 'ID!');
+        await selectGraphQLField(sessionId, '', 'user');
+        await setVariableArgument(sessionId, 'user', 'id', '$id');
+        let path = 'user';
+        for (let level = 0; level < 12; level++) {
+            await selectGraphQLField(sessionId, path, 'friends');
+            path += '.friends';
+        }
+        await selectGraphQLField(sessionId, path, 'name');
+
+        const result = await mockExecuteQuery(sessionId);
+
+        expect(result.code).toBe('LIMIT_EXCEEDED');
+        expect(result.error).toContain('Query complexity too high');
+    });
+
+    it('should report invalid queries and unknown sessions', async () => {
+        const sessionId = (await createQuerySession('query', 'Missing')).sessionId!;
+        await selectGraphQLField(sessionId, '', 'user');
+
+        expect((await mockExecuteQuery(sessionId)).error).toContain('Query does not validate against the schema');
+        expect((await mockExecuteQuery('missing-session')).error).toBe('Session not found.');
+    });
+});
@@ -59,6 +59,141 @@ describe('Query Complexity Analysis', () => {
             expect(result.complexityScore).toBe(0);
             expect(result.errors).toHaveLength(0);
         });
+
+        it('should report each field path with its depth, multiplier and contribution', () => {
+            const result = analyzeQueryComplexity({
+                fields: {
+                    user: {
+                        fieldName: 'user',
+                        fields: {
+                            name: { fieldName: 'name' }
+                        }
+                    }
+                }
+            });
+
+            expect(result.breakdown.map(entry => entry.path)).toEqual(['user', 'user.name']);
+            const [user, name] = result.breakdown;
+            expect(user.depth).toBe(1);
+            expect(user.multiplier).toBe(1.2);
+            expect(name.depth).toBe(2);
+            expect(name.multiplier).toBe(1.44);
+            expect(user.contribution).toBeCloseTo(user.score + name.score);
+            expect(user.contribution).toBeCloseTo(result.complexityScore);
+        });
+
+        it('should expand fragment spreads to the fields they select', () => {
+            const queryStructure = {
+                fields: {
+                    user: {
+                        fieldName: 'user',
+                        fields: {},
+                        fragmentSpreads: ['UserFields']
+                    }
+                }
+            };
+            const fragments = {
+                UserFields: {
+                    onType: 'User',
+                    fields: {
+                        id: { fieldName: 'id' },
+                        name: { fieldName: 'name' },
+                        email: { fieldName: 'email' }
+                    }
+                }
+            };
+
+            const flat = analyzeQueryComplexity(queryStructure);
+            const expanded = analyzeQueryComplexity(queryStructure, 'query', fragments);
+
+            expect(flat.fieldCount).toBe(2);
+            expect(expanded.fieldCount).toBe(4);
+            expect(expanded.breakdown.filter(entry => entry.fragment === 'UserFields').map(entry => entry.path))
+                .toEqual(['user.id', 'user.name', 'user.email']);
+            expect(expanded.complexityScore).toBeGreaterThan(flat.complexityScore);
+        });
+
+        it('should expand fragments nested inside fragments and inline fragments', () => {
+            const queryStructure = {
+                fields: {
+                    node: {
+                        fieldName: 'node',
+                        fields: {},
+                        inlineFragments: [{ on_type: 'User', selections: {}, fragmentSpreads: ['Outer'] }]
+                    }
+                }
+            };
+            const fragments = {
+                Outer: { onType: 'User', fields: { id: { fieldName: 'id' } }, fragmentSpreads: ['Inner'] },
+                Inner: { onType: 'User', fields: { friends: { fieldName: 'friends', fields: { name: { fieldName: 'name' } } } } }
+            };
+
+            const result = analyzeQueryComplexity(queryStructure, 'query', fragments);
+
+            expect(result.valid).toBe(true);
+            expect(result.fieldCount).toBe(4);
+            // Inline fragments do not add a nesting level
+            expect(result.depth).toBe(3);
+            const name = result.breakdown.find(entry => entry.path.endsWith('friends.name'));
+            expect(name!.fragment).toBe('Inner');
+            expect(name!.depth).toBe(3);
+        });
+
+        it('should count depth through fragments against the limit', () => {
+            let fields: any = { leaf: { fieldName: 'leaf' } };
+            for (let i = MAX_QUERY_COMPLEXITY.DEPTH; i > 0; i--) {
+                fields = { [`level${i}`]: { fieldName: `level${i}`, fields } };
+            }
+
+            const result = analyzeQueryComplexity(
+                { fields: { root: { fieldName: 'root', fields: {}, fragmentSpreads: ['Deep'] } } },
+                'query',
+                { Deep: { onType: 'Root', fields } }
+            );
+
+            expect(result.valid).toBe(false);
+            expect(result.errors[0]).toContain('exceeds maximum allowed depth');
+        });
+
+        it('should report fragment cycles', () => {
+            const result = analyzeQueryComplexity(
+                { fields: { user: { fieldName: 'user', fields: {}, fragmentSpreads: ['A'] } } },
+                'query',
+                {
+                    A: { onType: 'User', fields: { id: { fieldName: 'id' } }, fragmentSpreads: ['B'] },
+                    B: { onType: 'User', fields: { name: { fieldName: 'name' } }, fragmentSpreads: ['A'] }
+                }
+            );
+
+            expect(result.valid).toBe(false);
+            expect(result.errors).toContain('Fragment cycle detected: A -> B -> A');
+        });
+
+        it('should stop expanding fragments that multiply beyond the field limit', () => {
+            // Each level spreads the next one twice: 2^20 leaf selections if fully expanded
+            const fragments: Record<string, any> = {
+                F20: { onType: 'T', fields: { id: { fieldName: 'id' } } }
+            };
+            for (let i = 0; i < 20; i++) {
+                fragments[`F${i}`] = {
+                    onType: 'T',
+                    fields: {
+                        a: { fieldName: 'a', fields: {}, fragmentSpreads: [`F${i + 1}`] },
+                        b: { fieldName: 'b', fields: {}, fragmentSpreads: [`F${i + 1}`] }
+                    }
+                };
+            }
+
+            const result = analyzeQueryComplexity(
+                { fields: {}, fragmentSpreads: ['F0'] },
+                'query',
+                fragments
+            );
+
+            expect(result.valid).toBe(false);
+            expect(result.fieldCount).toBeLessThan(MAX_QUERY_COMPLEXITY.FIELD_COUNT * 2);
+            expect(result.errors.join(' ')).toContain('analysis stopped early');
+        });
     });
 
     describe('executeWithTimeout', () => {
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { importGraphQLQuery } from '../../tools/import-query.js';
+import { removeGraphQLField } from '../../tools/remove-field.js';
+import { removeFieldArgument } from '../../tools/remove-argument.js';
+import { removeDirective } from '../../tools/remove-directive.js';
+import { removeNamedFragment } from '../../tools/remove-fragment.js';
+import { renameFieldAlias } from '../../tools/rename-alias.js';
+import { loadQueryState, buildQueryFromStructure, QueryState } from '../../tools/shared-utils.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+
+vi.mock('../../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../../tools/shared-utils.js');
+    const { TEST_SCHEMA } = await import('../setup.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockResolvedValue(TEST_SCHEMA),
+    };
+});
+
+const DOCUMENT = `
+    query Characters($id: ID!, $withOrigin: Boolean!) {
+        hero: character(id: $id) {
+            id
+            name
+            origin @include(if: $withOrigin) { name }
+            ...CharacterFields
+        }
+        users(limit: 5) { id }
+    }
+
+    fragment CharacterFields on Character {
+        status
+        ... on Character { ...CharacterFields2 }
+    }
+
+    fragment CharacterFields2 on Character {
+        gender
+    }
+`;
+
+function render(state: QueryState): string {
+    return buildQueryFromStructure(
+        state.queryStructure,
+        state.operationType,
+        state.variablesSchema,
+        state.operationName,
+        state.fragments,
+        state.operationDirectives,
+        state.variablesDefaults
+    );
+}
+
+describe('remove and rename operations', () => {
+    let sessionId: string;
+
+    beforeEach(async () => {
+        setSessionStore(new MemorySessionStore());
+        const result = await importGraphQLQuery(DOCUMENT);
+        sessionId = result.sessionId!;
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+    });
+
+    describe('remove-field', () => {
+        it('should remove a nested field', async () => {
+            const result = await removeGraphQLField(sessionId, 'hero.name');
+            expect(result.success).toBe(true);
+            expect(result.unusedVariables).toBeUndefined();
+
+            const state = await loadQueryState(sessionId);
+            expect(state!.queryStructure.fields.hero.fields.name).toBeUndefined();
+            expect(state!.queryStructure.fields.hero.fields.id).toBeDefined();
+        });
+
+        it('should flag variables whose last use was removed', async () => {
+            const result = await removeGraphQLField(sessionId, 'hero');
+            expect(result.success).toBe(true);
+            expect(result.unusedVariables).toEqual(['$id', '$withOrigin']);
+            expect(result.warning).toContain('rm-var');
+        });
+
+        it('should report unknown paths', async () => {
+            expect((await removeGraphQLField(sessionId, 'hero.nope')).error).toBe("Field at path 'hero.nope' not found.");
+            expect((await removeGraphQLField('deadbeef', 'hero')).error).toBe('Session not found.');
+        });
+    });
+
+    describe('remove-argument', () => {
+        it('should remove an argument and flag the unused variable', async () => {
+            const result = await removeFieldArgument(sessionId, 'hero', 'id');
+            expect(result.success).toBe(true);
+            expect(result.unusedVariables).toEqual(['$id']);
+
+            const state = await loadQueryState(sessionId);
+            expect(state!.queryStructure.fields.hero.args).toEqual({});
+        });
+
+        it('should report arguments that are not set', async () => {
+            const result = await removeFieldArgument(sessionId, 'users', 'offset');
+            expect(result.error).toBe("Argument 'offset' is not set on field 'users'.");
+        });
+    });
+
+    describe('remove-directive', () => {
+        it('should remove a field directive', async () => {
+            const result = await removeDirective(sessionId, '@include', 'hero.origin');
+            expect(result.success).toBe(true);
+            expect(result.unusedVariables).toEqual(['$withOrigin']);
+
+            const state = await loadQueryState(sessionId);
+            expect(state!.queryStructure.fields.hero.fields.origin.directives).toEqual([]);
+        });
+
+        it('should target the operation when no field path is given', async () => {
+            const result = await removeDirective(sessionId, 'cached');
+            expect(result.error).toBe("Directive '@cached' is not set on the operation.");
+        });
+
+        it('should report directives that are not set', async () => {
+            const result = await removeDirective(sessionId, 'skip', 'hero.origin');
+            expect(result.error).toBe("Directive '@skip' is not set on field 'hero.origin'.");
+        });
+    });
+
+    describe('remove-fragment', () => {
+        it('should remove the fragment and every spread of it', async () => {
+            const result = await removeNamedFragment(sessionId, 'CharacterFields2');
+            expect(result.success).toBe(true);
+            expect(result.removedSpreads).toBe(1);
+
+            const state = await loadQueryState(sessionId);
+            expect(state!.fragments.CharacterFields2).toBeUndefined();
+            expect(state!.fragments.CharacterFields.inlineFragments[0].fragmentSpreads).toEqual([]);
+            expect(render(state!)).not.toContain('CharacterFields2');
+        });
+
+        it('should remove spreads from the operation', async () => {
+            await removeNamedFragment(sessionId, 'CharacterFields');
+
+            const state = await loadQueryState(sessionId);
+            expect(state!.queryStructure.fields.hero.fragmentSpreads).toEqual([]);
+            expect(render(state!)).not.toContain('...CharacterFields\n');
+        });
+
+        it('should report unknown fragments', async () => {
+            expect((await removeNamedFragment(sessionId, 'Nope')).error).toBe("Fragment 'Nope' not defined.");
+        });
+    });
+
+    describe('rename-alias', () => {
+        it('should rename an alias and keep the field position', async () => {
+            const result = await renameFieldAlias(sessionId, 'hero', 'mainCharacter');
+            expect(result.success).toBe(true);
+            expect(result.fieldPath).toBe('mainCharacter');
+
+            const state = await loadQueryState(sessionId);
+            expect(Object.keys(state!.queryStructure.fields)).toEqual(['mainCharacter', 'users']);
+            expect(render(state!)).toContain('mainCharacter: character(id: $id)');
+        });
+
+        it('should clear an alias', async () => {
+            const result = await renameFieldAlias(sessionId, 'hero');
+            expect(result.fieldPath).toBe('character');
+
+            const state = await loadQueryState(sessionId);
+            expect(state!.queryStructure.fields.character.alias).toBeNull();
+        });
+
+        it('should reject clashing and invalid aliases', async () => {
+            expect((await renameFieldAlias(sessionId, 'hero', 'users')).error).toContain("'users' already exists");
+            expect((await renameFieldAlias(sessionId, 'hero', '1bad')).error).toContain('Invalid alias');
+        });
+    });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildSchema, introspectionFromSchema, GraphQLSchema } from 'graphql';
+import { fetchAndCacheSchema, getSchemaCacheInfo, loadQueryState, SCHEMA_CACHE_TTL_SECONDS } from '../../tools/shared-utils.js';
+import { refreshSchema } from '../../tools/refresh-schema.js';
+import { importGraphQLQuery } from '../../tools/import-query.js';
+import { validateGraphQLQuery } from '../../tools/validate-query.js';
+import { executeGraphQLQuery } from '../../tools/execute-query.js';
+import { detectSchemaDrift, getSchemaFingerprint } from '../../tools/schema-drift.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+
+const SCHEMA_V1 = buildSchema(`
+    type Query { user(id: ID!): User }
+    type User { id: ID! name: String age: Int }
+`);
+
+const SCHEMA_V1_EXTENDED = buildSchema(`
+    type Query { user(id: ID!): User }
+    type User { id: ID! name: String age: Int email: String }
+`);
+
+const SCHEMA_V2 = buildSchema(`
+    type Query { user(id: String!): User }
+    type User { id: ID! age: String }
+`);
+
+function serveSchema(schema: GraphQLSchema) {
+    global.fetch = vi.fn().mockImplementation(async (_url: string, init: any) => {
+        const body = JSON.parse(init.body);
+        const data = body.query.includes('__schema') ? introspectionFromSchema(schema) : { user: null };
+        return { ok: true, json: async () => ({ data }) };
+    }) as any;
+}
+
+describe('schema cache refresh and drift detection', () => {
+    const originalFetch = global.fetch;
+
+    beforeEach(async () => {
+        setSessionStore(new MemorySessionStore());
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        serveSchema(SCHEMA_V1);
+        await refreshSchema();
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+        setSessionStore(null);
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('should report whether a refresh changed the schema', async () => {
+        const unchanged = await refreshSchema();
+        expect(unchanged.success).toBe(true);
+        expect(unchanged.changed).toBe(false);
+
+        serveSchema(SCHEMA_V2);
+        const changed = await refreshSchema();
+        expect(changed.changed).toBe(true);
+        expect(changed.previousFingerprint).toBe(unchanged.fingerprint);
+        expect(changed.fingerprint).not.toBe(unchanged.fingerprint);
+    });
+
+    it('should keep the cached schema when a refresh fails', async () => {
+        const before = getSchemaCacheInfo()!;
+        global.fetch = vi.fn().mockRejectedValue(new Error('connection refused')) as any;
+
+        const result = await refreshSchema();
+
+        expect(result.error).toContain('connection refused');
+        expect(getSchemaCacheInfo()!.fingerprint).toBe(before.fingerprint);
+    });
+
+    it('should reload the schema once the cache TTL has passed', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        serveSchema(SCHEMA_V2);
+
+        expect((await fetchAndCacheSchema()).getType('User')!.toString()).toBe('User');
+        expect(global.fetch).not.toHaveBeenCalled();
+
+        vi.setSystemTime(Date.now() + (SCHEMA_CACHE_TTL_SECONDS + 1) * 1000);
+        const reloaded = await fetchAndCacheSchema();
+
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        expect(getSchemaFingerprint(reloaded)).toBe(getSchemaFingerprint(SCHEMA_V2));
+    });
+
+    it('should serve an expired schema while the endpoint is unavailable', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        global.fetch = vi.fn().mockRejectedValue(new Error('connection refused')) as any;
+        vi.setSystemTime(Date.now() + (SCHEMA_CACHE_TTL_SECONDS + 1) * 1000);
+
+        const schema = await fetchAndCacheSchema();
+
+        expect(getSchemaFingerprint(schema)).toBe(getSchemaFingerprint(SCHEMA_V1));
+    });
+
+    it('should report selections affected by schema drift in validate-query and execute-query', async () => {
+        const imported = await importGraphQLQuery('query Profile($id: ID!) { user(id: $id) { id name age } }');
+        expect(imported.success).toBe(true);
+        const state = await loadQueryState(imported.sessionId!);
+        expect(state!.schemaFingerprint).toBe(getSchemaFingerprint(SCHEMA_V1));
+
+        serveSchema(SCHEMA_V2);
+        await refreshSchema();
+
+        const validation = await validateGraphQLQuery(imported.sessionId!);
+        expect(validation.valid).toBe(false);
+        expect(validation.schemaDrift!.comparedWithPreviousSchema).toBe(true);
+        expect(validation.schemaDrift!.issues.map(issue => [issue.kind, issue.path])).toEqual([
+            ['argument-changed', 'user'],
+            ['field-removed', 'user.name'],
+            ['field-changed', 'user.age'],
+        ]);
+        expect(validation.warnings!.some(warning => warning.includes('The schema changed since this session was built'))).toBe(true);
+
+        const execution = await executeGraphQLQuery(imported.sessionId!);
+        expect(execution.schemaDrift!.issues).toHaveLength(3);
+    });
+
+    it('should measure drift from the schema the query was last accepted against', async () => {
+        const imported = await importGraphQLQuery('query Profile($id: ID!) { user(id: $id) { id age } }');
+
+        // Adding a field does not affect the session's selections
+        serveSchema(SCHEMA_V1_EXTENDED);
+        await refreshSchema();
+        const validation = await validateGraphQLQuery(imported.sessionId!);
+        expect(validation.valid).toBe(true);
+        expect(validation.schemaDrift).toBeUndefined();
+        expect(validation.schemaAccepted).toBeUndefined();
+        expect((await loadQueryState(imported.sessionId!))!.schemaFingerprint).toBe(getSchemaFingerprint(SCHEMA_V1));
+
+        const accepted = await validateGraphQLQuery(imported.sessionId!, { acceptSchema: true });
+        expect(accepted.schemaAccepted).toBe(true);
+        expect((await loadQueryState(imported.sessionId!))!.schemaFingerprint).toBe(getSchemaFingerprint(SCHEMA_V1_EXTENDED));
+
+        serveSchema(SCHEMA_V2);
+        await refreshSchema();
+        const drifted = await validateGraphQLQuery(imported.sessionId!);
+        expect(drifted.schemaDrift!.previousFingerprint).toBe(getSchemaFingerprint(SCHEMA_V1_EXTENDED));
+        expect(drifted.schemaDrift!.issues.map(issue => issue.kind)).toEqual(['argument-changed', 'field-changed']);
+    });
+});
+
+describe('detectSchemaDrift', () => {
+    it('should find removed types, fields and arguments without the previous schema', () => {
+        const queryState: any = {
+            operationType: 'query',
+            queryStructure: {
+                fields: {
+                    user: {
+                        fieldName: 'user',
+                        args: { id: '$id', locale: { __graphqlString: 'en' } },
+                        fields: { id: { fieldName: 'id' }, name: { fieldName: 'name' } },
+                        inlineFragments: [{ on_type: 'Admin', selections: {} }]
+                    }
+                },
+                fragmentSpreads: [],
+                inlineFragments: []
+            },
+            fragments: { UserBits: { onType: 'Member', fields: {} } },
+            variablesSchema: { $id: 'ID!', $filter: 'UserFilter' }
+        };
+
+        const issues = detectSchemaDrift(queryState, SCHEMA_V2);
+
+        expect(issues.map(issue => issue.message)).toEqual([
+            "Argument 'locale' of 'Query.user' no longer exists.",
+            "Field 'User.name' no longer exists.",
+            "Type 'Admin' used by inline fragment at 'user' no longer exists.",
+            "Type 'Member' used by fragment 'UserBits' no longer exists.",
+            "Type 'UserFilter' used by variable '$filter' no longer exists.",
+        ]);
+    });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildSchema } from 'graphql';
+import { searchSchema, rankSchemaMatches } from '../../tools/search-schema';
+import * as sharedUtils from '../../tools/shared-utils';
+
+vi.mock('../../tools/shared-utils', async () => {
+    const originalModule = await vi.importActual('../../tools/shared-utils');
+    return {
+        ...originalModule,
+        fetchAndCacheSchema: vi.fn(),
+    };
+});
+
+const SEARCH_SCHEMA = buildSchema(`
+    type Query {
+        repository(owner: String!, name: String!): Repository
+        viewer: User
+    }
+
+    """A person using the service"""
+    type User {
+        login: String!
+        repositories(first: Int, after: String, orderBy: RepositoryOrder): [Repository]
+        createdAt: String
+        avatarUrl: String @deprecated(reason: "Use avatar")
+    }
+
+    """A code repository"""
+    type Repository {
+        name: String!
+        owner: User
+        stargazerCount: Int
+        "Number of open issues"
+        openIssues: Int
+    }
+
+    input RepositoryOrder { field: RepositoryOrderField! direction: OrderDirection! }
+    enum RepositoryOrderField { CREATED_AT STARGAZERS }
+    enum OrderDirection { ASC DESC }
+`);
+
+const mockedFetchAndCacheSchema = vi.mocked(sharedUtils.fetchAndCacheSchema);
+
+describe('rankSchemaMatches', () => {
+    it('should rank exact names first and return schema coordinates', () => {
+        const { matches } = rankSchemaMatches(SEARCH_SCHEMA, 'repository');
+
+        expect(matches[0]).toMatchObject({ coordinate: 'Repository', kind: 'type', type: 'GraphQLObjectType' });
+        expect(matches[1]).toMatchObject({ coordinate: 'Query.repository', kind: 'field', type: 'Repository' });
+        expect(matches.map(match => match.coordinate)).toContain('User.repositories');
+    });
+
+    it('should format arguments as coordinates with a trailing colon', () => {
+        const { matches } = rankSchemaMatches(SEARCH_SCHEMA, 'first', { kinds: ['argument'] });
+
+        expect(matches).toEqual([
+            { coordinate: 'User.repositories(first:)', kind: 'argument', type: 'Int', description: null, score: 100 }
+        ]);
+    });
+
+    it('should match across camelCase and snake_case words', () => {
+        const coordinates = rankSchemaMatches(SEARCH_SCHEMA, 'created at').matches.map(match => match.coordinate);
+
+        expect(coordinates).toContain('User.createdAt');
+        expect(coordinates).toContain('RepositoryOrderField.CREATED_AT');
+    });
+
+    it('should tolerate typos', () => {
+        expect(rankSchemaMatches(SEARCH_SCHEMA, 'stargaser count').matches[0].coordinate).toBe('Repository.stargazerCount');
+        expect(rankSchemaMatches(SEARCH_SCHEMA, 'repostory', { kinds: ['type'] }).matches[0].coordinate).toBe('Repository');
+    });
+
+    it('should match descriptions and rank them below name matches', () => {
+        const { matches } = rankSchemaMatches(SEARCH_SCHEMA, 'issues');
+
+        expect(matches[0].coordinate).toBe('Repository.openIssues');
+        expect(rankSchemaMatches(SEARCH_SCHEMA, 'person').matches).toEqual([
+            expect.objectContaining({ coordinate: 'User', description: 'A person using the service' })
+        ]);
+    });
+
+    it('should mark and demote deprecated members', () => {
+        const { matches } = rankSchemaMatches(SEARCH_SCHEMA, 'avatar');
+
+        expect(matches[0]).toMatchObject({ coordinate: 'User.avatarUrl', deprecated: true });
+        expect(matches[0].score).toBeLessThan(80);
+    });
+
+    it('should apply kind filters and limits', () => {
+        const all = rankSchemaMatches(SEARCH_SCHEMA, 'order');
+        const limited = rankSchemaMatches(SEARCH_SCHEMA, 'order', { kinds: ['type'], limit: 1 });
+
+        expect(all.totalMatches).toBeGreaterThan(2);
+        expect(limited.matches).toHaveLength(1);
+        expect(limited.totalMatches).toBe(3);
+        expect(limited.matches[0].kind).toBe('type');
+    });
+
+    it('should not return unrelated names', () => {
+        expect(rankSchemaMatches(SEARCH_SCHEMA, 'invoice').matches).toEqual([]);
+    });
+});
+
+describe('searchSchema', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockedFetchAndCacheSchema.mockResolvedValue(SEARCH_SCHEMA);
+    });
+
+    it('should search the schema of the requested endpoint', async () => {
+        const result = await searchSchema('viewer');
+
+        expect(result.error).toBeUndefined();
+        expect(result.matches![0].coordinate).toBe('Query.viewer');
+        expect(mockedFetchAndCacheSchema).toHaveBeenCalledWith(expect.any(Object), undefined);
+    });
+
+    it('should reject empty queries and unknown endpoints', async () => {
+        expect((await searchSchema('  ')).error).toBe('Search query must not be empty.');
+        expect((await searchSchema('user', { endpoint: 'unknown' })).error).toContain("Unknown GraphQL endpoint 'unknown'");
+        expect(mockedFetchAndCacheSchema).not.toHaveBeenCalled();
+    });
+
+    it('should report schema loading failures', async () => {
+        mockedFetchAndCacheSchema.mockRejectedValue(new Error('Failed to fetch schema'));
+
+        expect((await searchSchema('user')).error).toBe('Failed to fetch schema');
+    });
+});
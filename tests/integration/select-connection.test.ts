@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildSchema, parse, validate } from 'graphql';
+import { selectConnection } from '../../tools/select-connection.js';
+import { selectGraphQLField } from '../../tools/select-field.js';
+import { createQuerySession } from '../../tools/start-query-session.js';
+import { getFieldInfo } from '../../tools/get-field-info.js';
+import { getAvailableSelections } from '../../tools/get-selections.js';
+import { loadQueryState, buildQueryFromStructure } from '../../tools/shared-utils.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+
+const CONNECTION_SCHEMA = buildSchema(`
+    type Query {
+        repository(owner: String!, name: String!): Repository
+        viewer: User
+    }
+
+    type User { id: ID! login: String! starred(first: Int, after: String): RepositoryConnection }
+
+    type Repository {
+        id: ID!
+        name: String!
+        issues(first: Int, after: String, last: Int, before: String): IssueConnection!
+        labels: LabelConnection
+        owner: User
+    }
+
+    type IssueConnection { edges: [IssueEdge] pageInfo: PageInfo! }
+    type IssueEdge { cursor: String! node: Issue }
+    type Issue { id: ID! title: String author: User }
+    type RepositoryConnection { nodes: [Repository] pageInfo: PageInfo! }
+    type LabelConnection { edges: [LabelEdge] pageInfo: PageInfo! }
+    type LabelEdge { node: Label }
+    type Label { name: String! }
+    type PageInfo { hasNextPage: Boolean! hasPreviousPage: Boolean! endCursor: String startCursor: String }
+`);
+
+vi.mock('../../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../../tools/shared-utils.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockImplementation(async () => CONNECTION_SCHEMA),
+    };
+});
+
+async function currentQuery(sessionId: string): Promise<string> {
+    const state = (await loadQueryState(sessionId))!;
+    return buildQueryFromStructure(
+        state.queryStructure,
+        state.operationType,
+        state.variablesSchema,
+        state.operationName,
+        state.fragments,
+        state.operationDirectives,
+        state.variablesDefaults
+    );
+}
+
+describe('select-connection', () => {
+    let sessionId: string;
+
+    beforeEach(async () => {
+        setSessionStore(new MemorySessionStore());
+        sessionId = (await createQuerySession('query', 'Issues')).sessionId!;
+        await selectGraphQLField(sessionId, '', 'repository');
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+    });
+
+    it('should scaffold edges, node, pageInfo and page variables in one step', async () => {
+        const result = await selectConnection(sessionId, 'repository', 'issues', { nodeFields: ['title'], pageSize: 25 });
+
+        expect(result).toMatchObject({
+            success: true,
+            fieldKey: 'issues',
+            nodePath: 'repository.issues.edges.node',
+            pageInfoPath: 'repository.issues.pageInfo',
+            variables: { first: '$first', after: '$after' }
+        });
+
+        const query = await currentQuery(sessionId);
+        expect(query).toContain('$first: Int = 25');
+        expect(query).toContain('$after: String');
+        expect(query).toMatch(/issues\(first: \$first, after: \$after\)/);
+        expect(validate(CONNECTION_SCHEMA, parse(query.replace(/repository/, 'repository(owner: "o", name: "n")'))))
+            .toEqual([]);
+    });
+
+    it('should let select-field extend the node path', async () => {
+        const { nodePath } = await selectConnection(sessionId, 'repository', 'issues');
+
+        await selectGraphQLField(sessionId, nodePath!, 'author');
+        const selected = await selectGraphQLField(sessionId, `${nodePath}.author`, 'login');
+        expect(selected.error).toBeUndefined();
+
+        const query = await currentQuery(sessionId);
+        expect(query).toMatch(/node \{\s+id\s+author \{\s+login\s+\}/);
+        expect(query).toMatch(/pageInfo \{\s+hasNextPage\s+endCursor\s+\}/);
+    });
+
+    it('should use nodes lists and key-prefixed variables when needed', async () => {
+        await selectConnection(sessionId, 'repository', 'issues');
+        await selectGraphQLField(sessionId, 'repository', 'owner');
+
+        const result = await selectConnection(sessionId, 'repository.owner', 'starred', { alias: 'stars' });
+
+        expect(result.nodePath).toBe('repository.owner.stars.nodes');
+        expect(result.variables).toEqual({ first: '$starsFirst', after: '$starsAfter' });
+        expect(await currentQuery(sessionId)).toMatch(/stars: starred\(first: \$starsFirst, after: \$starsAfter\) \{\s+nodes \{\s+id/);
+    });
+
+    it('should scaffold connections without pagination arguments and warn', async () => {
+        const result = await selectConnection(sessionId, 'repository', 'labels', { nodeFields: ['name'] });
+
+        expect(result.variables).toEqual({});
+        expect(result.warning).toContain('no first/after arguments');
+        expect(await currentQuery(sessionId)).toMatch(/labels \{\s+edges \{\s+node \{\s+name/);
+    });
+
+    it('should reject non-connection fields, unknown node fields and duplicates', async () => {
+        expect((await selectConnection(sessionId, 'repository', 'owner')).error)
+            .toContain("Field 'Repository.owner' returns User, which is not a Relay connection");
+        expect((await selectConnection(sessionId, 'repository', 'issues', { nodeFields: ['titel'] })).error)
+            .toBe("Field 'titel' not found on node type 'Issue'. Did you mean 'title'?");
+        expect((await selectConnection(sessionId, 'repository', 'issues', { nodeFields: ['author'] })).error)
+            .toContain('needs its own sub-selection');
+
+        await selectConnection(sessionId, 'repository', 'issues');
+        expect((await selectConnection(sessionId, 'repository', 'issues')).error)
+            .toBe("Field 'issues' is already selected at path 'repository'. Remove it first or choose an alias.");
+    });
+
+    it('should report connections in field info and available selections', async () => {
+        const info = await getFieldInfo('Repository', 'issues');
+        expect(info.connection).toEqual({
+            connectionType: 'IssueConnection',
+            nodeType: 'Issue',
+            edgeType: 'IssueEdge',
+            hasNodesField: false,
+            pageInfoFields: ['hasNextPage', 'hasPreviousPage', 'endCursor', 'startCursor']
+        });
+        expect((await getFieldInfo('Repository', 'owner')).connection).toBeUndefined();
+
+        const { selections } = await getAvailableSelections(sessionId, 'repository');
+        const issues = selections!.find(selection => selection.name === 'issues');
+        expect(issues.connection.nodeType).toBe('Issue');
+        expect(issues.description).toContain('use select-connection');
+    });
+});
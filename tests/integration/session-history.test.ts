@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createQuerySession } from '../../tools/start-query-session.js';
+import { selectGraphQLField } from '../../tools/select-field.js';
+import { endQuerySession } from '../../tools/end-query-session.js';
+import { undoQueryChange, redoQueryChange, getSessionHistory } from '../../tools/session-history.js';
+import { loadQueryState, loadQueryHistory, saveQueryState } from '../../tools/shared-utils.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+
+vi.mock('../../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../../tools/shared-utils.js');
+    const { TEST_SCHEMA } = await import('../setup.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockResolvedValue(TEST_SCHEMA),
+    };
+});
+
+describe('Session undo/redo history', () => {
+    let sessionId: string;
+
+    beforeEach(async () => {
+        setSessionStore(new MemorySessionStore());
+        const session = await createQuerySession('query', 'History');
+        sessionId = session.sessionId!;
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+    });
+
+    it('should record a revision for every mutation', async () => {
+        await selectGraphQLField(sessionId, '', 'user');
+        await selectGraphQLField(sessionId, 'user', 'name');
+
+        const history = await getSessionHistory(sessionId);
+        expect(history.revisions).toHaveLength(3);
+        expect(history.currentVersion).toBe(3);
+        expect(history.canUndo).toBe(true);
+        expect(history.canRedo).toBe(false);
+        expect(history.revisions![2].query).toContain('name');
+        expect(history.revisions![2].current).toBe(true);
+    });
+
+    it('should undo and redo changes', async () => {
+        await selectGraphQLField(sessionId, '', 'user');
+        await selectGraphQLField(sessionId, 'user', 'name');
+
+        const undo = await undoQueryChange(sessionId);
+        expect(undo.success).toBe(true);
+        expect(undo.version).toBe(2);
+        expect(undo.canRedo).toBe(true);
+
+        let state = await loadQueryState(sessionId);
+        expect(state!.queryStructure.fields.user.fields.name).toBeUndefined();
+
+        const redo = await redoQueryChange(sessionId);
+        expect(redo.success).toBe(true);
+        expect(redo.version).toBe(3);
+
+        state = await loadQueryState(sessionId);
+        expect(state!.queryStructure.fields.user.fields.name).toBeDefined();
+    });
+
+    it('should undo several steps at once', async () => {
+        await selectGraphQLField(sessionId, '', 'user');
+        await selectGraphQLField(sessionId, 'user', 'name');
+
+        const result = await undoQueryChange(sessionId, 2);
+        expect(result.version).toBe(1);
+        expect(result.canUndo).toBe(false);
+
+        const state = await loadQueryState(sessionId);
+        expect(state!.queryStructure.fields).toEqual({});
+    });
+
+    it('should discard the redo branch after a new change', async () => {
+        await selectGraphQLField(sessionId, '', 'user');
+        await undoQueryChange(sessionId);
+        await selectGraphQLField(sessionId, '', 'users');
+
+        const redo = await redoQueryChange(sessionId);
+        expect(redo.error).toBe('Nothing to redo.');
+
+        const history = await getSessionHistory(sessionId);
+        expect(history.revisions!.map(r => r.version)).toEqual([1, 3]);
+    });
+
+    it('should refuse to undo past the first revision', async () => {
+        const result = await undoQueryChange(sessionId);
+        expect(result.error).toBe('Nothing to undo.');
+        expect(result.code).toBe('INVALID_INPUT');
+    });
+
+    it('should report nothing to undo for a session without recorded history', async () => {
+        const state = (await loadQueryState(sessionId))!;
+        await saveQueryState('c0ffee', state, { recordRevision: false });
+
+        const undo = await undoQueryChange('c0ffee');
+        expect(undo).toMatchObject({ error: 'Nothing to undo.', code: 'INVALID_INPUT' });
+        const redo = await redoQueryChange('c0ffee');
+        expect(redo).toMatchObject({ error: 'Nothing to redo.', code: 'INVALID_INPUT' });
+    });
+
+    it('should report missing sessions', async () => {
+        expect(await undoQueryChange('deadbeef')).toMatchObject({ error: 'Session not found.', code: 'SESSION_NOT_FOUND' });
+        expect((await getSessionHistory('deadbeef')).error).toBe('Session not found.');
+    });
+
+    it('should drop history when the session ends', async () => {
+        await endQuerySession(sessionId);
+        expect(await loadQueryHistory(sessionId)).toBeNull();
+    });
+});
@@ -5,13 +5,9 @@ import { getCurrentQuery } from '../../tools/get-current-query';
 import * as sharedUtils from '../../tools/shared-utils';
 
 vi.mock('../../tools/shared-utils', async () => {
-    const { createSharedUtilsMock } = await import('../setup');
+    const { createSharedUtilsMock, TEST_SCHEMA } = await import('../setup');
     return createSharedUtilsMock({
-        fetchAndCacheSchema: vi.fn().mockResolvedValue({
-            getQueryType: () => ({ name: 'Query' }),
-            getMutationType: () => ({ name: 'Mutation' }),
-            getSubscriptionType: () => null,
-        }),
+        fetchAndCacheSchema: vi.fn().mockResolvedValue(TEST_SCHEMA),
     });
 });
 
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildSchema } from 'graphql';
+import { executeGraphQLQuery } from '../../tools/execute-query.js';
+import { createQuerySession } from '../../tools/start-query-session.js';
+import { selectGraphQLField } from '../../tools/select-field.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+
+const SUBSCRIPTION_SCHEMA = buildSchema(`
+    type Query { ping: String }
+    type Subscription { messageAdded: Message }
+    type Message { id: ID! text: String }
+`);
+
+vi.mock('../../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../../tools/shared-utils.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockImplementation(async () => SUBSCRIPTION_SCHEMA),
+    };
+});
+
+const message = (id: number) => ({ data: { messageAdded: { id: String(id), text: `hello ${id}` } } });
+
+/**
+ * Minimal graphql-ws server side: acknowledges the connection, then emits
+ * `events` next messages, followed by complete when `complete` is set.
+ */
+function installFakeWebSocket(events: number, options: { complete?: boolean; reject?: boolean } = {}) {
+    const sockets: FakeWebSocket[] = [];
+
+    class FakeWebSocket {
+        static OPEN = 1;
+        readyState = 1;
+        sent: any[] = [];
+        closed = false;
+        onopen: (() => void) | null = null;
+        onmessage: ((event: { data: string }) => void) | null = null;
+        onerror: (() => void) | null = null;
+        onclose: ((event: { code: number; reason: string }) => void) | null = null;
+
+        constructor(public url: string, public init: any) {
+            sockets.push(this);
+            setTimeout(() => this.onopen?.(), 0);
+        }
+
+        private reply(payload: any) {
+            setTimeout(() => this.onmessage?.({ data: JSON.stringify(payload) }), 0);
+        }
+
+        send(raw: string) {
+            const sent = JSON.parse(raw);
+            this.sent.push(sent);
+            if (sent.type === 'connection_init') {
+                this.reply({ type: 'ping' });
+                this.reply({ type: 'connection_ack' });
+            }
+            if (sent.type === 'subscribe') {
+                if (options.reject) {
+                    this.reply({ id: sent.id, type: 'error', payload: [{ message: 'Not allowed' }] });
+                    return;
+                }
+                for (let i = 1; i <= events; i++) {
+                    this.reply({ id: sent.id, type: 'next', payload: message(i) });
+                }
+                if (options.complete) {
+                    this.reply({ id: sent.id, type: 'complete' });
+                }
+            }
+        }
+
+        close() {
+            this.closed = true;
+            this.readyState = 3;
+        }
+    }
+
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    return sockets;
+}
+
+function sseResponse(chunks: string[], keepOpen = false): Response {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+            if (!keepOpen) controller.close();
+        }
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+describe('subscription execution', () => {
+    let sessionId: string;
+
+    beforeEach(async () => {
+        setSessionStore(new MemorySessionStore());
+        sessionId = (await createQuerySession('subscription', 'OnMessage')).sessionId!;
+        await selectGraphQLField(sessionId, '', 'messageAdded');
+        await selectGraphQLField(sessionId, 'messageAdded', 'id');
+        await selectGraphQLField(sessionId, 'messageAdded', 'text');
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+        vi.unstubAllGlobals();
+    });
+
+    it('should collect graphql-ws events until the server completes', async () => {
+        const sockets = installFakeWebSocket(3, { complete: true });
+
+        const result = await executeGraphQLQuery(sessionId);
+
+        expect(result.error).toBeUndefined();
+        expect(result.subscription).toEqual({ transport: 'graphql-ws', completed: true, stoppedReason: 'complete' });
+        expect(result.events!.map(event => event.index)).toEqual([0, 1, 2]);
+        expect(result.events![2].data).toEqual(message(3).data);
+
+        const [socket] = sockets;
+        expect(socket.url).toBe('ws://localhost:4000/graphql');
+        expect(socket.init.protocols).toEqual(['graphql-transport-ws']);
+        expect(socket.sent.map(sent => sent.type)).toEqual(['connection_init', 'pong', 'subscribe']);
+        expect(socket.sent[2].payload.query).toContain('subscription OnMessage');
+        expect(socket.closed).toBe(true);
+    });
+
+    it('should stop at maxEvents and complete the operation on the server', async () => {
+        const sockets = installFakeWebSocket(5);
+
+        const result = await executeGraphQLQuery(sessionId, { subscription: { maxEvents: 2 } });
+
+        expect(result.events).toHaveLength(2);
+        expect(result.subscription).toMatchObject({ completed: false, stoppedReason: 'max_events' });
+        expect(sockets[0].sent.at(-1)).toEqual({ id: '1', type: 'complete' });
+        expect(sockets[0].closed).toBe(true);
+    });
+
+    it('should stop after durationMs and report subscription errors', async () => {
+        installFakeWebSocket(1);
+        const timedOut = await executeGraphQLQuery(sessionId, { subscription: { durationMs: 30 } });
+        expect(timedOut.events).toHaveLength(1);
+        expect(timedOut.subscription!.stoppedReason).toBe('duration');
+
+        installFakeWebSocket(0, { reject: true });
+        const rejected = await executeGraphQLQuery(sessionId);
+        expect(rejected.error).toBe('The server rejected the subscription.');
+        expect(rejected.events).toEqual([expect.objectContaining({ errors: [{ message: 'Not allowed' }] })]);
+    });
+
+    it('should default to SSE when no WebSocket implementation is available', async () => {
+        vi.stubGlobal('WebSocket', undefined);
+        global.fetch = vi.fn().mockResolvedValue(sseResponse([
+            `event: next\ndata: ${JSON.stringify(message(1))}\n\n`,
+            'event: complete\ndata:\n\n'
+        ]));
+
+        const result = await executeGraphQLQuery(sessionId);
+        expect(result.subscription).toEqual({ transport: 'sse', completed: true, stoppedReason: 'complete' });
+        expect(result.events).toHaveLength(1);
+
+        const explicit = await executeGraphQLQuery(sessionId, { subscription: { transport: 'graphql-ws' } });
+        expect(explicit.subscription!.stoppedReason).toBe('error');
+        expect(explicit.error).toContain('use the sse transport instead');
+    });
+
+    it('should collect events over SSE, including chunks split mid-event', async () => {
+        global.fetch = vi.fn().mockResolvedValue(sseResponse([
+            `event: next\ndata: ${JSON.stringify(message(1))}\n\n`,
+            `event: next\ndata: ${JSON.stringify(message(2)).slice(0, 10)}`,
+            `${JSON.stringify(message(2)).slice(10)}\n\n: keep-alive\n\n`,
+            'event: complete\ndata:\n\n'
+        ]));
+
+        const result = await executeGraphQLQuery(sessionId, { subscription: { transport: 'sse' } });
+
+        expect(result.subscription).toEqual({ transport: 'sse', completed: true, stoppedReason: 'complete' });
+        expect(result.events!.map(event => event.data)).toEqual([message(1).data, message(2).data]);
+        const [, init] = (global.fetch as any).mock.calls[0];
+        expect(init.headers.Accept).toBe('text/event-stream');
+        expect(init.signal.aborted).toBe(true);
+    });
+
+    it('should end open SSE streams after durationMs and reject non-stream answers', async () => {
+        global.fetch = vi.fn().mockResolvedValue(sseResponse([`event: next\ndata: ${JSON.stringify(message(1))}\n\n`], true));
+        const open = await executeGraphQLQuery(sessionId, { subscription: { transport: 'sse', durationMs: 30 } });
+        expect(open.events).toHaveLength(1);
+        expect(open.subscription!.stoppedReason).toBe('duration');
+
+        global.fetch = vi.fn().mockResolvedValue(new Response('{"data":null}', { headers: { 'Content-Type': 'application/json' } }));
+        const plain = await executeGraphQLQuery(sessionId, { subscription: { transport: 'sse' } });
+        expect(plain.error).toContain("answered with 'application/json' instead of an event stream");
+    });
+});
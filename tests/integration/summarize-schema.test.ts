@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildSchema } from 'graphql';
+import { summarizeSchema } from '../../tools/summarize-schema.js';
+import { getConnectionInfo } from '../../tools/connections.js';
+
+const SUMMARY_SCHEMA = buildSchema(`
+    scalar DateTime
+
+    type Query {
+        repository(owner: String!, name: String!, followRenames: Boolean = true): Repository
+        users(limit: Int, offset: Int): [User]
+        viewer: User
+    }
+
+    type Mutation { addStar(starrableId: ID!): Repository }
+
+    interface Node { id: ID! }
+
+    type User implements Node { id: ID! login: String! createdAt: DateTime }
+
+    type Repository implements Node {
+        id: ID!
+        name: String!
+        owner: User
+        issues(first: Int, after: String, last: Int, before: String): IssueConnection
+    }
+
+    type IssueConnection { edges: [IssueEdge] pageInfo: PageInfo! totalCount: Int }
+    type IssueEdge { cursor: String! node: Issue }
+    type Issue implements Node { id: ID! title: String state: IssueState author: User }
+    type PageInfo { hasNextPage: Boolean! endCursor: String }
+    enum IssueState { OPEN CLOSED }
+    union SearchResult = User | Repository
+    input IssueFilter { state: IssueState }
+`);
+
+vi.mock('../../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../../tools/shared-utils.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockImplementation(async () => SUMMARY_SCHEMA),
+    };
+});
+
+describe('getConnectionInfo', () => {
+    it('should detect Relay connections and their node type', () => {
+        expect(getConnectionInfo(SUMMARY_SCHEMA.getType('IssueConnection'))).toEqual({
+            connectionType: 'IssueConnection',
+            nodeType: 'Issue',
+            edgeType: 'IssueEdge',
+            hasNodesField: false,
+            pageInfoFields: ['hasNextPage', 'endCursor']
+        });
+        expect(getConnectionInfo(SUMMARY_SCHEMA.getType('Repository'))).toBeNull();
+        expect(getConnectionInfo(SUMMARY_SCHEMA.getType('IssueState'))).toBeNull();
+    });
+});
+
+describe('summarizeSchema', () => {
+    it('should summarize root fields, pagination and types by kind', async () => {
+        const result = await summarizeSchema();
+
+        expect(result.error).toBeUndefined();
+        expect(result.truncated).toBe(false);
+        expect(result.summary).toBe([
+            'query Query (3 fields):',
+            '  repository(owner: String!, name: String!; optional: followRenames): Repository',
+            '  users(optional: limit, offset): [User]',
+            '  viewer: User',
+            'mutation Mutation (1 fields):',
+            '  addStar(starrableId: ID!): Repository',
+            'pagination:',
+            '  Relay connections (1), select edges { node } or nodes plus pageInfo { hasNextPage endCursor }:',
+            '    IssueConnection -> Issue (first/after, last/before)',
+            '  Offset-paged fields (1): Query.users(limit, offset)',
+            'type index:',
+            '  Objects (4): User, Repository, Issue, PageInfo',
+            '  Interfaces (1): Node',
+            '  Unions (1): SearchResult',
+            '  Enums (1): IssueState',
+            '  Input objects (1): IssueFilter',
+            '  Custom scalars (1): DateTime',
+        ].join('\n'));
+        expect(result.estimatedTokens).toBe(Math.ceil(result.summary!.length / 4));
+    });
+
+    it('should list fields of reachable types at greater depth, looking through connections', async () => {
+        const result = await summarizeSchema({ depth: 3 });
+
+        expect(result.summary).toContain([
+            'types:',
+            '  Repository: id, name, owner: User, issues: IssueConnection',
+            '  User: id, login, createdAt',
+            '  Issue: id, title, state, author: User',
+        ].join('\n'));
+        expect((await summarizeSchema({ depth: 2 })).summary).not.toContain('  Issue: ');
+    });
+
+    it('should stay within the token budget and report what was left out', async () => {
+        const result = await summarizeSchema({ maxTokens: 100 });
+
+        expect(result.truncated).toBe(true);
+        expect(result.estimatedTokens).toBeLessThanOrEqual(100);
+        expect(result.summary).toMatch(/^query Query \(3 fields\):/);
+        expect(result.summary).toMatch(/\.\.\. \d+ more line\(s\) omitted; raise maxTokens/);
+    });
+
+    it('should reject unknown endpoints', async () => {
+        expect((await summarizeSchema({ endpoint: 'unknown' })).error).toContain("Unknown GraphQL endpoint 'unknown'");
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildSchema } from 'graphql';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { registerPrompts } from '../api/prompts.js';
+import { createQuerySession } from '../tools/start-query-session.js';
+import { selectGraphQLField } from '../tools/select-field.js';
+import { MemorySessionStore, setSessionStore } from '../tools/session-store.js';
+
+const PROMPT_SCHEMA = buildSchema(`
+    type Query {
+        "Look up a repository by owner and name"
+        repository(owner: String!, name: String!): Repository
+        viewer: User
+    }
+    type Mutation {
+        "Star a repository"
+        addStar(repositoryId: ID!): Repository
+        deleteRepository(id: ID!): Boolean
+    }
+    type Repository { id: ID! name: String! stars: Int }
+    type User { login: String! }
+`);
+
+vi.mock('../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../tools/shared-utils.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockImplementation(async () => PROMPT_SCHEMA),
+    };
+});
+
+const promptText = (result: { messages: Array<{ content: any }> }) => result.messages[0].content.text as string;
+
+describe('MCP prompts', () => {
+    let client: Client;
+
+    beforeEach(async () => {
+        setSessionStore(new MemorySessionStore());
+        const server = new McpServer({ name: 'querysculptor-test', version: '0.0.0' });
+        registerPrompts(server);
+        client = new Client({ name: 'test-client', version: '0.0.0' });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    });
+
+    afterEach(async () => {
+        await client.close();
+        setSessionStore(null);
+    });
+
+    it('should list the workflow prompts with their arguments', async () => {
+        const { prompts } = await client.listPrompts();
+        expect(prompts.map(prompt => prompt.name)).toEqual(['build-query-for-goal', 'debug-failing-query', 'write-mutation-safely']);
+        expect(prompts[0].arguments).toEqual([
+            expect.objectContaining({ name: 'goal', required: true }),
+            expect.objectContaining({ name: 'endpoint', required: false }),
+        ]);
+    });
+
+    it('should ground the query plan in the live schema', async () => {
+        const result = await client.getPrompt({ name: 'build-query-for-goal', arguments: { goal: 'find a repository' } });
+        const text = promptText(result);
+
+        expect(result.messages[0].role).toBe('user');
+        expect(text).toContain('for this goal: find a repository');
+        expect(text).toContain('repository(owner: String!, name: String!): Repository');
+        expect(text).toContain('- Query.repository: Repository - Look up a repository by owner and name');
+        expect(text).toContain('start-query-session');
+        expect(text).toContain('validate-query');
+    });
+
+    it('should include the current query and validation errors when debugging a session', async () => {
+        const sessionId = (await createQuerySession('query', 'GetRepo')).sessionId!;
+        await selectGraphQLField(sessionId, '', 'repository');
+
+        const text = promptText(await client.getPrompt({
+            name: 'debug-failing-query',
+            arguments: { sessionId, error: 'Field "repository" argument "owner" is required' }
+        }));
+        expect(text).toContain('query GetRepo');
+        expect(text).toContain('- Reported error: Field "repository" argument "owner" is required');
+        expect(text).toMatch(/- Validation error: .*owner/);
+
+        const missing = promptText(await client.getPrompt({ name: 'debug-failing-query', arguments: { sessionId: 'deadbeef' } }));
+        expect(missing).toContain('could not be loaded');
+    });
+
+    it('should only suggest mutation fields and require confirmation before executing', async () => {
+        const text = promptText(await client.getPrompt({ name: 'write-mutation-safely', arguments: { goal: 'star a repository' } }));
+
+        expect(text).toContain('- Mutation.addStar: Repository - Star a repository');
+        expect(text).not.toContain('- Query.repository');
+        expect(text).toContain('mock-execute');
+        expect(text).toContain('wait for their confirmation');
+    });
+});
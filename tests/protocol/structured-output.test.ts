@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildSchema } from 'graphql';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { configureServer } from '../../api/configure-server.js';
+import { RateLimitMiddleware } from '../../api/rate-limit-middleware.js';
+import { MemorySessionStore, setSessionStore } from '../../tools/session-store.js';
+import { getAllTools } from '../../tools/index.js';
+
+const OUTPUT_SCHEMA = buildSchema(`
+    type Query {
+        user(id: ID!): User
+        search(term: String!): [SearchResult!]!
+    }
+    type User { id: ID! name: String age: Int }
+    type Post { id: ID! title: String }
+    union SearchResult = User | Post
+`);
+
+vi.mock('../../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../../tools/shared-utils.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockImplementation(async () => OUTPUT_SCHEMA),
+    };
+});
+
+describe('Structured tool output', () => {
+    let client: Client;
+    let middleware: RateLimitMiddleware;
+    let logSpy: ReturnType<typeof vi.spyOn>;
+
+    // Client.callTool validates structuredContent against the advertised outputSchema
+    const call = async (name: string, args: Record<string, unknown> = {}) => {
+        const result = await client.callTool({ name, arguments: args });
+        return result as { structuredContent: any; isError?: boolean; content: Array<{ text: string }> };
+    };
+
+    beforeEach(async () => {
+        logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+        setSessionStore(new MemorySessionStore());
+        middleware = new RateLimitMiddleware();
+        const server = new McpServer({ name: 'querysculptor-test', version: '0.0.0' });
+        configureServer(server, middleware);
+        client = new Client({ name: 'test-client', version: '0.0.0' });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    });
+
+    afterEach(async () => {
+        await client.close();
+        await middleware.disconnect();
+        setSessionStore(null);
+        logSpy.mockRestore();
+    });
+
+    it('should advertise an output schema with the error envelope for every tool', async () => {
+        const { tools } = await client.listTools();
+
+        expect(tools.map(tool => tool.name)).toEqual([...getAllTools().map(tool => tool.name), 'get-rate-limit-status']);
+        for (const tool of tools) {
+            expect(tool.outputSchema?.properties, tool.name).toHaveProperty('error');
+            expect(tool.outputSchema?.properties, tool.name).toHaveProperty('code');
+        }
+    });
+
+    it('should return structured content matching the output schemas while building a query', async () => {
+        const session = await call('start-query-session', { operationName: 'GetUser' });
+        const sessionId = session.structuredContent.sessionId;
+        expect(JSON.parse(session.content[0].text)).toEqual(session.structuredContent);
+
+        const steps: Array<[string, Record<string, unknown>]> = [
+            ['select-field', { fieldName: 'user' }],
+            ['select-multi-fields', { parentPath: 'user', fieldNames: ['id', 'name'] }],
+            ['set-query-variable', { variableName: '$id', variableType: 'ID!' }],
+            ['set-var-arg', { fieldPath: 'user', argumentName: 'id', variableName: '$id' }],
+            ['set-variable-value', { variableName: '$id', value: '42' }],
+            ['select-field', { fieldName: 'search' }],
+            ['set-typed-argument', { fieldPath: 'search', argumentName: 'term', value: 'ada' }],
+            ['apply-inline-frag', { parentPath: 'search', onType: 'Post', fieldNames: ['title'] }],
+            ['apply-operations', { steps: [{ tool: 'select-field', args: { parentPath: 'user', fieldName: 'age' } }] }],
+            ['get-current-query', {}],
+            ['get-selections', { currentPath: 'user' }],
+            ['validate-query', {}],
+            ['analyze-query-complexity', {}],
+            ['mock-execute', {}],
+            ['undo', {}],
+            ['redo', {}],
+            ['get-session-history', {}],
+            ['find-paths-to-type', { target: 'User' }],
+            ['remove-field', { fieldPath: 'user.age' }],
+        ];
+        for (const [name, args] of steps) {
+            const result = await call(name, { sessionId, ...args });
+            expect(result.isError, `${name}: ${result.content[0].text}`).toBeFalsy();
+        }
+
+        const validation = await call('validate-query', { sessionId });
+        expect(validation.structuredContent).toMatchObject({ valid: true, errors: [] });
+
+        const ended = await call('end-query-session', { sessionId });
+        expect(ended.structuredContent.sessionInfo).toMatchObject({ sessionId, operationName: 'GetUser' });
+    });
+
+    it('should describe the schema with structured content', async () => {
+        for (const [name, args] of [
+            ['list-endpoints', {}],
+            ['get-root-ops', {}],
+            ['get-type-info', { typeName: 'User' }],
+            ['get-field-info', { typeName: 'Query', fieldName: 'user' }],
+            ['search-schema', { query: 'user' }],
+            ['summarize-schema', {}],
+            ['introspect-schema', { format: 'sdl' }],
+        ] as Array<[string, Record<string, unknown>]>) {
+            const result = await call(name, args);
+            expect(result.isError, `${name}: ${result.content[0].text}`).toBeFalsy();
+        }
+    });
+
+    it('should report failures with a machine-readable code', async () => {
+        const missingSession = await call('get-current-query', { sessionId: 'deadbeef' });
+        expect(missingSession.isError).toBe(true);
+        expect(missingSession.structuredContent).toEqual({ error: 'Session not found.', code: 'SESSION_NOT_FOUND' });
+
+        const sessionId = (await call('start-query-session')).structuredContent.sessionId;
+        expect((await call('select-field', { sessionId, fieldName: 'nope' })).structuredContent.code).toBe('FIELD_NOT_FOUND');
+        expect((await call('get-type-info', { typeName: 'Missing' })).structuredContent.code).toBe('TYPE_NOT_FOUND');
+
+        const batch = await call('apply-operations', {
+            sessionId,
+            steps: [
+                { tool: 'select-field', args: { fieldName: 'user' } },
+                { tool: 'set-var-arg', args: { fieldPath: 'user', argumentName: 'id', variableName: '$missing' } }
+            ]
+        });
+        expect(batch.structuredContent.code).toBe('VARIABLE_NOT_FOUND');
+        expect(batch.structuredContent.steps[1]).toMatchObject({ success: false, code: 'VARIABLE_NOT_FOUND' });
+    });
+});
@@ -136,6 +136,39 @@ describe('RateLimitMiddleware', () => {
         await expect(wrappedHandler({}, mockRequest)).rejects.toThrow('Rate limit exceeded');
     });
 
+    it('should let expensive tools charge further upstream calls', async () => {
+        let chargeExpensiveCall: (() => Promise<void>) | undefined;
+        const mockHandler = async (_params: any, extra: any) => {
+            chargeExpensiveCall = extra.chargeExpensiveCall;
+            return { success: true };
+        };
+        const wrappedHandler = middleware.wrapToolHandler('execute-query', mockHandler);
+
+        await wrappedHandler({}, { headers: { 'x-client-id': 'paging-client' } });
+
+        // The call itself used one of the 10 expensive requests per minute
+        for (let i = 0; i < 9; i++) {
+            await chargeExpensiveCall!();
+        }
+        await expect(chargeExpensiveCall!()).rejects.toThrow('Rate limit exceeded for expensive operations');
+    });
+
+    it('should charge further upstream calls to the same client without identifying headers', async () => {
+        let chargeExpensiveCall: (() => Promise<void>) | undefined;
+        const wrappedHandler = middleware.wrapToolHandler('execute-query', async (_params: any, extra: any) => {
+            chargeExpensiveCall = extra.chargeExpensiveCall;
+            return { success: true };
+        });
+
+        // As over stdio: no headers, so each call would get a new fallback client ID
+        await wrappedHandler({}, {});
+
+        for (let i = 0; i < 9; i++) {
+            await chargeExpensiveCall!();
+        }
+        await expect(chargeExpensiveCall!()).rejects.toThrow('Rate limit exceeded for expensive operations');
+    });
+
     it('should provide rate limit status', async () => {
         const mockRequest = { headers: { 'x-client-id': 'test-client' } };
 
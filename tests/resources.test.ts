@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildSchema } from 'graphql';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { registerResources } from '../api/resources.js';
+import { createQuerySession } from '../tools/start-query-session.js';
+import { selectGraphQLField } from '../tools/select-field.js';
+import { MemorySessionStore, setSessionStore } from '../tools/session-store.js';
+
+const RESOURCE_SCHEMA = buildSchema(`
+    type Query { user(id: ID!): User }
+    "A person using the app"
+    type User { id: ID! name: String }
+`);
+
+vi.mock('../tools/shared-utils.js', async () => {
+    const actual = await vi.importActual('../tools/shared-utils.js');
+    return {
+        ...actual,
+        fetchAndCacheSchema: vi.fn().mockImplementation(async () => RESOURCE_SCHEMA),
+    };
+});
+
+describe('MCP resources', () => {
+    let client: Client;
+    let server: McpServer;
+
+    beforeEach(async () => {
+        setSessionStore(new MemorySessionStore());
+        server = new McpServer({ name: 'querysculptor-test', version: '0.0.0' });
+        registerResources(server);
+        client = new Client({ name: 'test-client', version: '0.0.0' });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    });
+
+    afterEach(async () => {
+        await client.close();
+        setSessionStore(null);
+    });
+
+    it('should list and read the schema SDL of configured endpoints', async () => {
+        const { resources } = await client.listResources();
+        expect(resources).toContainEqual(expect.objectContaining({ uri: 'schema://default/sdl', mimeType: 'application/graphql' }));
+
+        const { contents } = await client.readResource({ uri: 'schema://default/sdl' });
+        expect(contents[0].text).toContain('type User {');
+    });
+
+    it('should read single types and reject unknown ones', async () => {
+        const { contents } = await client.readResource({ uri: 'schema://default/type/User' });
+        const typeInfo = JSON.parse(contents[0].text as string);
+        expect(typeInfo).toMatchObject({ name: 'User', kind: 'GraphQLObjectType', description: 'A person using the app' });
+
+        await expect(client.readResource({ uri: 'schema://default/type/Missing' })).rejects.toThrow();
+        await expect(client.readResource({ uri: 'schema://unknown/sdl' })).rejects.toThrow("Unknown GraphQL endpoint 'unknown'");
+    });
+
+    it('should read the current query of a session and notify subscribers of changes', async () => {
+        const sessionId = (await createQuerySession('query', 'GetUser')).sessionId!;
+        const uri = `session://${sessionId}/query`;
+        const updates: string[] = [];
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+            updates.push(notification.params.uri);
+        });
+
+        await client.subscribeResource({ uri });
+        await selectGraphQLField(sessionId, '', 'user');
+        await vi.waitFor(() => expect(updates).toEqual([uri]));
+
+        const { contents } = await client.readResource({ uri });
+        expect(contents[0].text).toContain('query GetUser');
+        expect(contents[0].text).toContain('user');
+
+        await client.unsubscribeResource({ uri });
+        await selectGraphQLField(sessionId, 'user', 'name');
+        await new Promise(resolve => setTimeout(resolve, 20));
+        expect(updates).toHaveLength(1);
+
+        await expect(client.readResource({ uri: 'session://deadbeef/query' })).rejects.toThrow('Session not found.');
+    });
+
+    it('should complete endpoint names in resource templates', async () => {
+        const result = await client.complete({
+            ref: { type: 'ref/resource', uri: 'schema://{endpoint}/sdl' },
+            argument: { name: 'endpoint', value: 'def' }
+        });
+        expect(result.completion.values).toEqual(['default']);
+    });
+});
@@ -264,6 +264,15 @@ export const createSharedUtilsMock = (customMocks = {}) => ({
     url: 'http://localhost:4000/graphql',
     headers: { 'Content-Type': 'application/json' }
   }),
+  // No endpoint-specific configuration: callers fall back to the global limits
+  getGraphQLEndpoint: vi.fn().mockReturnValue({}),
+  getEndpointLimits: vi.fn().mockReturnValue({
+    DEPTH: 12,
+    FIELD_COUNT: 200,
+    TOTAL_COMPLEXITY_SCORE: 2500,
+    TOTAL_COST: 5000,
+  }),
+  DEFAULT_ENDPOINT_NAME: 'default',
   generateSessionId: vi.fn().mockReturnValue('test-session-id'),
   fetchAndCacheSchema: vi.fn().mockResolvedValue(TEST_SCHEMA),
 
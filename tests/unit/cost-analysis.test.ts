@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { buildSchema, buildClientSchema, introspectionFromSchema } from 'graphql';
+import { analyzeQueryCost, loadQueryCostConfig, DEFAULT_QUERY_COST_CONFIG } from '../../tools/cost-analysis';
+import { GraphQLValidationUtils } from '../../tools/shared-utils';
+
+const COST_SCHEMA = buildSchema(`
+  directive @cost(weight: String!) on ARGUMENT_DEFINITION | ENUM | FIELD_DEFINITION | INPUT_FIELD_DEFINITION | OBJECT | SCALAR
+  directive @listSize(assumedSize: Int, slicingArguments: [String!], sizedFields: [String!], requireOneSlicingArgument: Boolean = true) on FIELD_DEFINITION
+
+  type Query {
+    users(first: Int, last: Int): [User] @listSize(slicingArguments: ["first", "last"])
+    featured: [User] @listSize(assumedSize: 3)
+    search(term: String @cost(weight: "5")): [User] @cost(weight: "20")
+    tags: [String]
+    userConnection(first: Int): UserConnection @listSize(slicingArguments: ["first"], sizedFields: ["edges"])
+  }
+
+  type Mutation {
+    deleteUser(id: ID!): Boolean
+  }
+
+  type User @cost(weight: "2") {
+    id: ID!
+    name: String
+    friends: [User]
+  }
+
+  type UserConnection {
+    edges: [UserEdge]
+    totalCount: Int
+  }
+
+  type UserEdge {
+    node: User
+  }
+`);
+
+function field(fieldName: string, fields: Record<string, any> = {}, args: Record<string, any> = {}) {
+    return { fieldName, alias: null, args, fields, directives: [], fragmentSpreads: [], inlineFragments: [] };
+}
+
+function state(fields: Record<string, any>, extra: Record<string, any> = {}): any {
+    return {
+        headers: {},
+        operationType: 'query',
+        operationTypeName: 'Query',
+        operationName: null,
+        queryStructure: { fields, fragmentSpreads: [], inlineFragments: [] },
+        fragments: {},
+        variablesSchema: {},
+        variablesDefaults: {},
+        variablesValues: {},
+        operationDirectives: [],
+        createdAt: new Date().toISOString(),
+        ...extra
+    };
+}
+
+describe('analyzeQueryCost', () => {
+    it('should multiply child costs by the slicing argument', () => {
+        const result = analyzeQueryCost(COST_SCHEMA, state({
+            users: field('users', { id: field('id'), name: field('name') }, { first: { value: 25, is_typed: true } })
+        }));
+
+        // 25 users * User weight 2; scalar fields are free
+        expect(result.totalCost).toBe(50);
+        expect(result.usesCostDirectives).toBe(true);
+    });
+
+    it('should resolve slicing arguments passed as variables', () => {
+        const result = analyzeQueryCost(COST_SCHEMA, state(
+            { users: field('users', { id: field('id') }, { last: '$count' }) },
+            { variablesSchema: { $count: 'Int' }, variablesDefaults: { $count: 4 } }
+        ));
+
+        expect(result.totalCost).toBe(8);
+    });
+
+    it('should fall back to assumedSize and the default list size', () => {
+        const featured = analyzeQueryCost(COST_SCHEMA, state({ featured: field('featured', { id: field('id') }) }));
+        expect(featured.totalCost).toBe(6);
+
+        const unsliced = analyzeQueryCost(COST_SCHEMA, state({ users: field('users', { id: field('id') }) }));
+        expect(unsliced.totalCost).toBe(DEFAULT_QUERY_COST_CONFIG.defaultListSize * 2);
+        expect(unsliced.warnings[0]).toContain("Field 'users' should be limited");
+    });
+
+    it('should add field and argument weights', () => {
+        const result = analyzeQueryCost(COST_SCHEMA, state({
+            search: field('search', { id: field('id') }, { term: { __graphqlString: 'x' } })
+        }));
+
+        // argument 5 + 10 (default list size) * (field weight 20 + nothing for scalars)
+        expect(result.totalCost).toBe(205);
+    });
+
+    it('should apply the list size to sizedFields instead of the connection', () => {
+        const result = analyzeQueryCost(COST_SCHEMA, state({
+            userConnection: field('userConnection', {
+                totalCount: field('totalCount'),
+                edges: field('edges', { node: field('node', { id: field('id') }) })
+            }, { first: { value: 5, is_typed: true } })
+        }));
+
+        // connection 1 + 5 edges * (edge 1 + node 2)
+        expect(result.totalCost).toBe(16);
+    });
+
+    it('should expand named fragments and nested lists', () => {
+        const result = analyzeQueryCost(COST_SCHEMA, state(
+            {
+                featured: {
+                    ...field('featured'),
+                    fragmentSpreads: ['UserFields']
+                }
+            },
+            {
+                fragments: {
+                    UserFields: { onType: 'User', fields: { friends: field('friends', { id: field('id') }) } }
+                }
+            }
+        ));
+
+        // 3 featured * (2 + 10 friends * 2)
+        expect(result.totalCost).toBe(66);
+    });
+
+    it('should use configured weights when the schema has no directives', () => {
+        const costConfig = loadQueryCostConfig(JSON.stringify({ defaultListSize: 2, fields: { 'Query.tags': 7 } }));
+        const result = analyzeQueryCost(COST_SCHEMA, state({ tags: field('tags') }), costConfig);
+
+        expect(result.totalCost).toBe(14);
+        expect(result.usesCostDirectives).toBe(false);
+    });
+
+    it('should charge the mutation weight for root mutation fields', () => {
+        const result = analyzeQueryCost(COST_SCHEMA, state(
+            { deleteUser: field('deleteUser', {}, { id: { __graphqlString: '1' } }) },
+            { operationType: 'mutation', operationTypeName: 'Mutation' }
+        ));
+
+        expect(result.totalCost).toBe(DEFAULT_QUERY_COST_CONFIG.mutationCost);
+    });
+
+    it('should ignore invalid weight configuration', () => {
+        expect(loadQueryCostConfig('{not json')).toEqual(DEFAULT_QUERY_COST_CONFIG);
+    });
+});
+
+describe('cost limit in query validation', () => {
+    const nestedFriends = (root: string) => state({
+        [root]: field(root, { friends: field('friends', { friends: field('friends', { friends: field('friends', { id: field('id') }) }) }) })
+    });
+
+    it('should reject queries over the cost limit when the estimate comes from directives', () => {
+        const validation = GraphQLValidationUtils.validateQueryStructure(COST_SCHEMA, nestedFriends('featured'));
+
+        expect(validation.valid).toBe(false);
+        expect(validation.errors.join(' ')).toContain('exceeds maximum allowed cost');
+    });
+
+    it('should only warn about the cost limit for introspected schemas without directives', () => {
+        const introspected = buildClientSchema(introspectionFromSchema(COST_SCHEMA));
+        const validation = GraphQLValidationUtils.validateQueryStructure(introspected, nestedFriends('users'));
+
+        expect(validation.errors.join(' ')).not.toContain('cost');
+        expect(validation.warnings.join(' ')).toContain('no @cost/@listSize directives');
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { buildSchema, introspectionFromSchema } from 'graphql';
+import { loadSchemaFromFile } from '../../tools/schema-file';
+
+const SDL = `
+    directive @cost(weight: String!) on FIELD_DEFINITION
+    type Query { users(first: Int): [User] @cost(weight: "3") }
+    type User { id: ID! name: String }
+`;
+
+describe('loadSchemaFromFile', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(join(tmpdir(), 'schema-file-'));
+        const introspection = introspectionFromSchema(buildSchema(SDL));
+        await fs.writeFile(join(dir, 'schema.graphql'), SDL);
+        await fs.writeFile(join(dir, 'introspection.json'), JSON.stringify(introspection));
+        await fs.writeFile(join(dir, 'response.json'), JSON.stringify({ data: introspection }));
+        await fs.writeFile(join(dir, 'broken.json'), JSON.stringify({ hello: 'world' }));
+        await fs.writeFile(join(dir, 'schema.yaml'), 'type: Query');
+    });
+
+    afterAll(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should build a schema from SDL and keep applied directives', async () => {
+        const { schema, introspection } = await loadSchemaFromFile(join(dir, 'schema.graphql'));
+
+        expect(schema.getType('User')).toBeDefined();
+        expect(schema.getQueryType()!.getFields().users.astNode!.directives![0].name.value).toBe('cost');
+        expect(introspection.__schema.queryType.name).toBe('Query');
+    });
+
+    it('should build a schema from bare and wrapped introspection JSON', async () => {
+        const bare = await loadSchemaFromFile(join(dir, 'introspection.json'));
+        const wrapped = await loadSchemaFromFile(join(dir, 'response.json'));
+
+        expect(bare.schema.getType('User')).toBeDefined();
+        expect(wrapped.schema.getType('User')).toBeDefined();
+    });
+
+    it('should reject unsupported, missing and invalid files', async () => {
+        await expect(loadSchemaFromFile(join(dir, 'schema.yaml'))).rejects.toThrow('Unsupported schema file');
+        await expect(loadSchemaFromFile(join(dir, 'missing.graphql'))).rejects.toThrow('Cannot read schema file');
+        await expect(loadSchemaFromFile(join(dir, 'broken.json'))).rejects.toThrow("expected an introspection result with a '__schema' field");
+    });
+});
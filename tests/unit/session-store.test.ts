@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    MemorySessionStore,
+    FileSessionStore,
+    createSessionStore,
+    setSessionStore
+} from '../../tools/session-store';
+import { saveQueryState, loadQueryState, deleteQueryState } from '../../tools/shared-utils';
+
+describe('MemorySessionStore', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should store and return values', async () => {
+        const store = new MemorySessionStore();
+        await store.set('a', 'one', 60);
+        expect(await store.get('a')).toBe('one');
+        expect(await store.get('missing')).toBeNull();
+    });
+
+    it('should expire entries after the TTL', async () => {
+        vi.useFakeTimers();
+        const store = new MemorySessionStore();
+        await store.set('a', 'one', 10);
+
+        vi.advanceTimersByTime(9000);
+        expect(await store.get('a')).toBe('one');
+
+        vi.advanceTimersByTime(2000);
+        expect(await store.get('a')).toBeNull();
+    });
+
+    it('should keep entries forever when TTL is 0', async () => {
+        vi.useFakeTimers();
+        const store = new MemorySessionStore();
+        await store.set('a', 'one', 0);
+
+        vi.advanceTimersByTime(24 * 3600 * 1000);
+        expect(await store.get('a')).toBe('one');
+    });
+
+    it('should extend the lifetime on expire', async () => {
+        vi.useFakeTimers();
+        const store = new MemorySessionStore();
+        await store.set('a', 'one', 10);
+
+        vi.advanceTimersByTime(8000);
+        await store.expire('a', 10);
+        vi.advanceTimersByTime(8000);
+        expect(await store.get('a')).toBe('one');
+    });
+
+    it('should evict the least recently used entry when full', async () => {
+        const store = new MemorySessionStore(2);
+        await store.set('a', 'one', 60);
+        await store.set('b', 'two', 60);
+        await store.get('a'); // touch a so b becomes least recently used
+        await store.set('c', 'three', 60);
+
+        expect(store.size).toBe(2);
+        expect(await store.get('a')).toBe('one');
+        expect(await store.get('b')).toBeNull();
+        expect(await store.get('c')).toBe('three');
+    });
+
+    it('should report whether a key was deleted', async () => {
+        const store = new MemorySessionStore();
+        await store.set('a', 'one', 60);
+        expect(await store.delete('a')).toBe(true);
+        expect(await store.delete('a')).toBe(false);
+    });
+});
+
+describe('FileSessionStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'querysculptor-sessions-'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should persist values across store instances', async () => {
+        const filePath = join(dir, 'nested', 'sessions.json');
+        await new FileSessionStore(filePath).set('a', 'one', 60);
+
+        expect(await new FileSessionStore(filePath).get('a')).toBe('one');
+        expect(JSON.parse(readFileSync(filePath, 'utf8')).a.value).toBe('one');
+    });
+
+    it('should expire entries after the TTL', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        const store = new FileSessionStore(join(dir, 'sessions.json'));
+        await store.set('a', 'one', 10);
+
+        vi.setSystemTime(Date.now() + 11000);
+        expect(await store.get('a')).toBeNull();
+    });
+
+    it('should serialize concurrent writes', async () => {
+        const store = new FileSessionStore(join(dir, 'sessions.json'));
+        await Promise.all(['a', 'b', 'c', 'd'].map(key => store.set(key, key.toUpperCase(), 60)));
+
+        for (const key of ['a', 'b', 'c', 'd']) {
+            expect(await store.get(key)).toBe(key.toUpperCase());
+        }
+    });
+
+    it('should delete entries', async () => {
+        const store = new FileSessionStore(join(dir, 'sessions.json'));
+        await store.set('a', 'one', 60);
+        expect(await store.delete('a')).toBe(true);
+        expect(await store.get('a')).toBeNull();
+    });
+});
+
+describe('createSessionStore', () => {
+    it('should create the configured backend', () => {
+        expect(createSessionStore('memory').kind).toBe('memory');
+        expect(createSessionStore('file').kind).toBe('file');
+        expect(createSessionStore('REDIS').kind).toBe('redis');
+    });
+
+    it('should reject unknown backends', () => {
+        expect(() => createSessionStore('sqlite3000')).toThrow("Unknown SESSION_STORE 'sqlite3000'");
+    });
+});
+
+describe('query state persistence', () => {
+    beforeEach(() => {
+        setSessionStore(new MemorySessionStore());
+    });
+
+    afterEach(() => {
+        setSessionStore(null);
+    });
+
+    it('should round-trip query state through the active store', async () => {
+        const state: any = {
+            headers: {},
+            operationType: 'query',
+            operationTypeName: 'Query',
+            operationName: null,
+            queryStructure: { fields: {}, fragmentSpreads: [], inlineFragments: [] },
+            fragments: {},
+            variablesSchema: {},
+            variablesDefaults: {},
+            variablesValues: {},
+            operationDirectives: [],
+            createdAt: new Date().toISOString()
+        };
+
+        await saveQueryState('ABCDEF0123', state);
+        expect(await loadQueryState('abcdef0123')).toEqual(state);
+        expect(await deleteQueryState('abcdef0123')).toBe(true);
+        expect(await loadQueryState('abcdef0123')).toBeNull();
+    });
+});
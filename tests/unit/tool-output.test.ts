@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { classifyToolError, toolResponse, toolErrorResponse } from '../../tools/tool-output';
+
+describe('classifyToolError', () => {
+    it('should map messages of unexpected exceptions to codes', () => {
+        expect(classifyToolError("Unknown GraphQL endpoint 'staging'. Allowed endpoints: default.")).toBe('ENDPOINT_NOT_FOUND');
+        expect(classifyToolError('Error processing schema from https://api.example.com/graphql: fetch failed')).toBe('SCHEMA_UNAVAILABLE');
+        expect(classifyToolError("Cannot read schema file 'schema.graphql': ENOENT")).toBe('SCHEMA_UNAVAILABLE');
+        expect(classifyToolError('Header Authorization exceeds maximum length')).toBe('LIMIT_EXCEEDED');
+        expect(classifyToolError('Headers must be a valid object')).toBe('INVALID_INPUT');
+        expect(classifyToolError('Client rate limit exceeded. Please slow down your requests.')).toBe('RATE_LIMIT_EXCEEDED');
+        expect(classifyToolError('HTTP 502: Bad Gateway')).toBe('UPSTREAM_ERROR');
+        expect(classifyToolError('The operation was aborted due to timeout')).toBe('UPSTREAM_ERROR');
+    });
+
+    it('should report unknown messages as internal errors', () => {
+        expect(classifyToolError('Cannot read properties of undefined')).toBe('INTERNAL_ERROR');
+        // Failures that tools detect themselves come with an explicit code instead
+        expect(classifyToolError('Session not found.')).toBe('INTERNAL_ERROR');
+    });
+});
+
+describe('toolResponse', () => {
+    it('should return results as text and structured content', () => {
+        const response = toolResponse({ success: true, message: 'done' });
+
+        expect(response.structuredContent).toEqual({ success: true, message: 'done' });
+        expect(JSON.parse(response.content[0].text)).toEqual({ success: true, message: 'done' });
+        expect(response).not.toHaveProperty('isError');
+    });
+
+    it('should keep explicit codes and classify failed results without one', () => {
+        const explicit = toolResponse({ error: 'Session not found.', code: 'SESSION_NOT_FOUND' });
+        expect(explicit.structuredContent).toEqual({ error: 'Session not found.', code: 'SESSION_NOT_FOUND' });
+        expect(JSON.parse(explicit.content[0].text).code).toBe('SESSION_NOT_FOUND');
+        expect(explicit.isError).toBe(true);
+
+        const classified = toolResponse({ error: 'HTTP 503: Service Unavailable' });
+        expect(classified.structuredContent.code).toBe('UPSTREAM_ERROR');
+    });
+
+    it('should turn thrown rate limit errors into the error envelope', () => {
+        const error = Object.assign(new Error('Rate limit exceeded for schema operations.'), {
+            code: 'RATE_LIMIT_EXCEEDED',
+            details: { limit: 5, windowMs: 300000, resetTime: 1700000000000, remainingRequests: 0 }
+        });
+
+        expect(toolErrorResponse(error).structuredContent).toEqual({
+            error: 'Rate limit exceeded for schema operations.',
+            code: 'RATE_LIMIT_EXCEEDED',
+            details: { limit: 5, windowMs: 300000, resetTime: 1700000000000, remainingRequests: 0 }
+        });
+        expect(toolErrorResponse('boom').structuredContent).toEqual({ error: 'boom', code: 'INTERNAL_ERROR' });
+    });
+});
@@ -0,0 +1,138 @@
+import { z } from "zod";
+import {
+    loadQueryState,
+    fetchAndCacheSchema,
+    analyzeQueryComplexity,
+    getEndpointLimits,
+    FieldComplexity
+} from "./shared-utils.js";
+import { analyzeQueryCost } from "./cost-analysis.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Core business logic - testable function
+export async function analyzeSessionComplexity(sessionId: string, topN: number = 5): Promise<{
+    success?: boolean;
+    analysis?: Record<string, any>;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    try {
+        const queryState = await loadQueryState(sessionId);
+        if (!queryState) {
+            return {
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
+            };
+        }
+
+        const limits = getEndpointLimits(queryState.endpoint);
+        const analysis = analyzeQueryComplexity(
+            queryState.queryStructure,
+            queryState.operationType,
+            queryState.fragments,
+            limits
+        );
+
+        // The cost estimate needs the schema; report the heuristic analysis even if it is unavailable
+        let cost: Record<string, any>;
+        try {
+            const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
+            const costAnalysis = analyzeQueryCost(schema, queryState);
+            cost = {
+                totalCost: costAnalysis.totalCost,
+                maxCost: limits.TOTAL_COST,
+                withinLimit: costAnalysis.totalCost <= limits.TOTAL_COST,
+                usesCostDirectives: costAnalysis.usesCostDirectives,
+                warnings: costAnalysis.warnings
+            };
+        } catch (error) {
+            cost = { error: `Cost analysis unavailable: ${error instanceof Error ? error.message : String(error)}` };
+        }
+
+        const breakdown = analysis.breakdown.map((entry: FieldComplexity) => ({
+            ...entry,
+            score: round(entry.score),
+            contribution: round(entry.contribution)
+        }));
+
+        const topOffenders = [...breakdown]
+            .sort((a, b) => b.contribution - a.contribution)
+            .slice(0, Math.max(1, topN))
+            .map(entry => ({
+                path: entry.path,
+                contribution: entry.contribution,
+                share: analysis.complexityScore > 0
+                    ? Math.round((entry.contribution / analysis.complexityScore) * 1000) / 10
+                    : 0,
+                ...(entry.fragment ? { fragment: entry.fragment } : {})
+            }));
+
+        const recommendations: string[] = [];
+        if (analysis.complexityScore > limits.TOTAL_COMPLEXITY_SCORE * 0.7 && topOffenders.length > 0) {
+            recommendations.push(
+                `Trim '${topOffenders[0].path}', which accounts for ${topOffenders[0].share}% of the complexity score.`
+            );
+        }
+        if (analysis.depth > limits.DEPTH * 0.75) {
+            const deepest = breakdown.reduce<FieldComplexity | null>(
+                (found, entry) => (!found || entry.depth > found.depth ? entry : found),
+                null
+            );
+            recommendations.push(
+                `Reduce nesting: '${deepest?.path}' is at depth ${analysis.depth} of ${limits.DEPTH} allowed.`
+            );
+        }
+        if (analysis.fieldCount > limits.FIELD_COUNT * 0.75) {
+            recommendations.push(
+                `Select fewer fields: ${analysis.fieldCount} of ${limits.FIELD_COUNT} allowed are used.`
+            );
+        }
+        if (typeof cost.totalCost === 'number' && cost.totalCost > limits.TOTAL_COST * 0.7) {
+            recommendations.push('Lower pagination arguments (first/last/limit) on list fields to reduce the estimated cost.');
+        }
+
+        return {
+            success: true,
+            analysis: {
+                valid: analysis.valid,
+                depth: analysis.depth,
+                fieldCount: analysis.fieldCount,
+                complexityScore: round(analysis.complexityScore),
+                maxDepth: limits.DEPTH,
+                maxFieldCount: limits.FIELD_COUNT,
+                maxComplexityScore: limits.TOTAL_COMPLEXITY_SCORE,
+                cost,
+                topOffenders,
+                breakdown,
+                errors: analysis.errors,
+                warnings: analysis.warnings,
+                recommendations
+            }
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const analyzeQueryComplexityTool = {
+    name: 'analyze-query-complexity',
+    description: 'Analyze the complexity, depth, schema-aware cost, and performance characteristics of the current query structure, with a per-field breakdown and the subtrees that contribute most. Introspected schemas carry no applied @cost/@listSize directives, so their cost uses fallback weights unless the endpoint loads its schema from an SDL schemaFile',
+    schema: {
+        sessionId: z.string().describe('The session ID of the query to analyze'),
+        topN: z.number().int().min(1).default(5).describe('How many of the most expensive field paths to report as top offenders.'),
+    },
+    outputSchema: {
+        success: z.boolean().optional(),
+        analysis: z.record(z.any()).optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ sessionId, topN = 5 }: { sessionId: string, topN?: number }) => {
+        const result = await analyzeSessionComplexity(sessionId, topN);
+
+        return toolResponse(result);
+    }
+};
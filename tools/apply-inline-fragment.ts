@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { QueryState, loadQueryState, saveQueryState, GraphQLValidationUtils } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function applyInlineFragment(
@@ -14,16 +15,18 @@ export async function applyInlineFragment(
     parentPath?: string;
     fieldNames?: string[];
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         if (!sessionId || typeof sessionId !== 'string' || sessionId.trim() === '') {
-            return { error: 'Invalid sessionId.' };
+            return { error: 'Invalid sessionId.', code: 'INVALID_INPUT' };
         }
         // Load query state
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
@@ -34,7 +37,8 @@ export async function applyInlineFragment(
             for (const part of pathParts) {
                 if (!parentNode.fields || !parentNode.fields[part]) {
                     return {
-                        error: `Parent path '${parentPath}' not found in query structure.`
+                        error: `Parent path '${parentPath}' not found in query structure.`,
+                        code: 'FIELD_NOT_FOUND'
                     };
                 }
                 parentNode = parentNode.fields[part];
@@ -85,13 +89,21 @@ export async function applyInlineFragment(
 export const applyInlineFragmentTool = {
     name: "apply-inline-frag",
     description: "Apply type-conditional field selections using inline fragments for union/interface types",
-    schema: z.object({
+    schema: {
         sessionId: z.string().describe('The session ID from start-query-session.'),
         parentPath: z.string().default("").describe('Dot-notation path where the inline fragment should be applied (e.g., "user", "" for root).'),
-        onType: z.string().optional().describe('The type condition for the inline fragment (e.g., "Repository").'),
+        onType: z.string().optional().describe('The type condition for the inline fragment (e.g., "Repository"). Either onType or typeName is required.'),
         typeName: z.string().optional().describe('Alias of onType for compatibility with some agents.'),
         fieldNames: z.array(z.string()).describe('Array of field names to select in the inline fragment.'),
-    }).refine((data) => !!(data.onType || data.typeName), { message: 'onType (or typeName) is required' }),
+    },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        onType: z.string().optional(),
+        parentPath: z.string().optional(),
+        fieldNames: z.array(z.string()).optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, parentPath = "", onType, typeName, fieldNames }: {
         sessionId: string,
         parentPath?: string,
@@ -100,14 +112,12 @@ export const applyInlineFragmentTool = {
         fieldNames: string[]
     }) => {
         const resolvedOnType = (onType || typeName || '').trim();
+        if (!resolvedOnType) {
+            return toolResponse({ error: 'onType (or typeName) is required.', code: 'INVALID_INPUT' });
+        }
         const result = await applyInlineFragment(sessionId, parentPath, resolvedOnType, sanitizeInlineFields(fieldNames));
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 };
 
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { QueryState, loadQueryState, saveQueryState, GraphQLValidationUtils } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function applyNamedFragment(
@@ -12,12 +13,14 @@ export async function applyNamedFragment(
     parentPath?: string;
     fragmentName?: string;
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         // Validate fragment name syntax
         if (!GraphQLValidationUtils.isValidGraphQLName(fragmentName)) {
             return {
-                error: `Invalid fragment name "${fragmentName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`
+                error: `Invalid fragment name "${fragmentName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                code: 'INVALID_INPUT'
             };
         }
 
@@ -25,14 +28,16 @@ export async function applyNamedFragment(
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
         // Check if fragment exists
         if (!queryState.fragments || !queryState.fragments[fragmentName]) {
             return {
-                error: `Fragment '${fragmentName}' not found. Define it first using define-named-fragment.`
+                error: `Fragment '${fragmentName}' not found. Define it first using define-named-fragment.`,
+                code: 'FRAGMENT_NOT_FOUND'
             };
         }
 
@@ -43,7 +48,8 @@ export async function applyNamedFragment(
             for (const part of pathParts) {
                 if (!parentNode.fields || !parentNode.fields[part]) {
                     return {
-                        error: `Parent path '${parentPath}' not found in query structure.`
+                        error: `Parent path '${parentPath}' not found in query structure.`,
+                        code: 'FIELD_NOT_FOUND'
                     };
                 }
                 parentNode = parentNode.fields[part];
@@ -78,11 +84,18 @@ export async function applyNamedFragment(
 export const applyNamedFragmentTool = {
     name: "apply-fragment",
     description: "Apply a previously defined named fragment to a specific location in the query",
-    schema: z.object({
+    schema: {
         sessionId: z.string().describe('The session ID from start-query-session.'),
         parentPath: z.string().default("").describe('Dot-notation path where the fragment should be applied (e.g., "user", "" for root).'),
         fragmentName: z.string().describe('The name of the fragment to apply.'),
-    }),
+    },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        parentPath: z.string().optional(),
+        fragmentName: z.string().optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, parentPath = "", fragmentName }: {
         sessionId: string,
         parentPath?: string,
@@ -90,11 +103,6 @@ export const applyNamedFragmentTool = {
     }) => {
         const result = await applyNamedFragment(sessionId, parentPath, fragmentName);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
@@ -0,0 +1,228 @@
+import { z } from "zod";
+import {
+    beginSessionTransaction,
+    buildQueryFromStructure,
+    getUnusedVariablesWarning
+} from "./shared-utils.js";
+import { selectFieldTool } from "./select-field.js";
+import { selectMultipleFieldsTool } from "./select-multiple-fields.js";
+import { selectConnectionTool } from "./select-connection.js";
+import { setQueryVariableTool } from "./set-query-variable.js";
+import { setVariableValueTool } from "./set-variable-value.js";
+import { removeQueryVariableTool } from "./remove-query-variable.js";
+import { setStringArgumentTool } from "./set-string-argument.js";
+import { setTypedArgumentTool } from "./set-typed-argument.js";
+import { setInputObjectArgumentTool } from "./set-input-object-argument.js";
+import { setVariableArgumentTool } from "./set-variable-argument.js";
+import { defineNamedFragmentTool } from "./define-named-fragment.js";
+import { applyNamedFragmentTool } from "./apply-named-fragment.js";
+import { applyInlineFragmentTool } from "./apply-inline-fragment.js";
+import { setFieldDirectiveTool } from "./set-field-directive.js";
+import { setOperationDirectiveTool } from "./set-operation-directive.js";
+import { removeFieldTool } from "./remove-field.js";
+import { removeArgumentTool } from "./remove-argument.js";
+import { removeDirectiveTool } from "./remove-directive.js";
+import { removeFragmentTool } from "./remove-fragment.js";
+import { renameAliasTool } from "./rename-alias.js";
+import { ToolErrorCode, toolResponse, toolErrorShape, unusedVariablesShape } from "./tool-output.js";
+
+export const MAX_BATCH_OPERATIONS = 100;
+
+// Session-mutating tools that can run as a batch step; each receives the batch's sessionId
+const BATCHABLE_TOOLS: Array<{ name: string; schema: z.ZodTypeAny | z.ZodRawShape; handler: (args: any) => Promise<any> }> = [
+    selectFieldTool,
+    selectMultipleFieldsTool,
+    selectConnectionTool,
+    setQueryVariableTool,
+    setVariableValueTool,
+    removeQueryVariableTool,
+    setStringArgumentTool,
+    setTypedArgumentTool,
+    setInputObjectArgumentTool,
+    setVariableArgumentTool,
+    defineNamedFragmentTool,
+    applyNamedFragmentTool,
+    applyInlineFragmentTool,
+    setFieldDirectiveTool,
+    setOperationDirectiveTool,
+    removeFieldTool,
+    removeArgumentTool,
+    removeDirectiveTool,
+    removeFragmentTool,
+    renameAliasTool,
+];
+
+const batchableToolsByName = new Map(BATCHABLE_TOOLS.map(tool => [tool.name, tool]));
+
+export interface BatchStep {
+    tool: string;
+    args?: Record<string, any>;
+}
+
+export interface BatchStepResult {
+    index: number;
+    tool: string;
+    success: boolean;
+    result?: any;
+    error?: string;
+    code?: ToolErrorCode;
+}
+
+async function runStep(sessionId: string, step: BatchStep): Promise<{ result?: any; error?: string; code?: ToolErrorCode }> {
+    const tool = batchableToolsByName.get(step.tool);
+    if (!tool) {
+        return {
+            error: `Tool '${step.tool}' cannot be used in a batch. Supported tools: ${Array.from(batchableToolsByName.keys()).join(', ')}.`,
+            code: 'INVALID_INPUT'
+        };
+    }
+
+    // Apply the same argument validation and defaults the MCP server would
+    const schema = tool.schema instanceof z.ZodType ? tool.schema : z.object(tool.schema);
+    const parsed = schema.safeParse({ ...(step.args || {}), sessionId });
+    if (!parsed.success) {
+        return {
+            error: `Invalid arguments: ${parsed.error.issues.map(issue => `${issue.path.join('.') || 'args'}: ${issue.message}`).join('; ')}`,
+            code: 'INVALID_INPUT'
+        };
+    }
+
+    const { structuredContent: result } = await tool.handler(parsed.data);
+    if (result && result.error) {
+        return { result, error: result.error, code: result.code };
+    }
+    return { result };
+}
+
+// Core business logic - testable function
+export async function applyOperations(
+    sessionId: string,
+    steps: BatchStep[]
+): Promise<{
+    success?: boolean;
+    message?: string;
+    appliedSteps?: number;
+    steps?: BatchStepResult[];
+    query?: string;
+    unusedVariables?: string[];
+    warning?: string;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    try {
+        if (!Array.isArray(steps) || steps.length === 0) {
+            return { error: 'At least one step is required.', code: 'INVALID_INPUT' };
+        }
+        if (steps.length > MAX_BATCH_OPERATIONS) {
+            return { error: `A batch may contain at most ${MAX_BATCH_OPERATIONS} steps; got ${steps.length}.`, code: 'LIMIT_EXCEEDED' };
+        }
+
+        const transaction = await beginSessionTransaction(sessionId);
+        if (!transaction) {
+            return {
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
+            };
+        }
+
+        const stepResults: BatchStepResult[] = [];
+        let failure: BatchStepResult | undefined;
+
+        await transaction.run(async () => {
+            for (let index = 0; index < steps.length; index++) {
+                const step = steps[index];
+                let outcome: { result?: any; error?: string; code?: ToolErrorCode };
+                try {
+                    outcome = await runStep(sessionId, step);
+                } catch (error) {
+                    outcome = { error: error instanceof Error ? error.message : String(error) };
+                }
+
+                const stepResult: BatchStepResult = {
+                    index,
+                    tool: step?.tool,
+                    success: !outcome.error,
+                    ...outcome
+                };
+                stepResults.push(stepResult);
+
+                if (outcome.error) {
+                    failure = stepResult;
+                    return;
+                }
+            }
+        });
+
+        if (failure) {
+            return {
+                error: `Step ${failure.index + 1} (${failure.tool}) failed: ${failure.error} No changes were saved.`,
+                code: failure.code,
+                appliedSteps: 0,
+                steps: stepResults
+            };
+        }
+
+        // All steps succeeded: persist once, as a single undoable revision
+        await transaction.commit();
+
+        const finalState = transaction.load();
+        const query = buildQueryFromStructure(
+            finalState.queryStructure,
+            finalState.operationType,
+            finalState.variablesSchema,
+            finalState.operationName,
+            finalState.fragments,
+            finalState.operationDirectives,
+            finalState.variablesDefaults
+        );
+
+        return {
+            success: true,
+            message: `Applied ${steps.length} step(s) in one change.`,
+            appliedSteps: steps.length,
+            steps: stepResults,
+            query,
+            ...getUnusedVariablesWarning(finalState)
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const applyOperationsTool = {
+    name: "apply-operations",
+    description: "Apply an ordered list of query-building steps (select fields, set arguments/variables/directives, fragments, removals) in one call. If any step fails, none of the changes are saved.",
+    schema: {
+        sessionId: z.string().describe('The session ID from start-query-session.'),
+        steps: z.array(z.object({
+            tool: z.string().describe(`Tool to run, e.g. "select-field". One of: ${BATCHABLE_TOOLS.map(tool => tool.name).join(', ')}.`),
+            args: z.record(z.any()).optional().describe('Arguments for the tool, without sessionId.'),
+        })).min(1).max(MAX_BATCH_OPERATIONS).describe('Steps to apply in order.'),
+    },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        appliedSteps: z.number().optional(),
+        steps: z.array(z.object({
+            index: z.number(),
+            tool: z.string(),
+            success: z.boolean(),
+            result: z.any().optional(),
+            error: z.string().optional(),
+            code: toolErrorShape.code,
+        })).optional(),
+        query: z.string().optional(),
+        ...unusedVariablesShape,
+        ...toolErrorShape,
+    },
+    handler: async ({ sessionId, steps }: {
+        sessionId: string,
+        steps: BatchStep[]
+    }) => {
+        const result = await applyOperations(sessionId, steps);
+
+        return toolResponse(result);
+    }
+};
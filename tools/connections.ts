@@ -0,0 +1,59 @@
+import {
+    GraphQLField,
+    GraphQLNamedType,
+    getNamedType,
+    isListType,
+    isNonNullType,
+    isObjectType,
+    isInterfaceType
+} from 'graphql';
+
+export interface ConnectionInfo {
+    connectionType: string;
+    nodeType: string;
+    // Null for connections that only expose a nodes list
+    edgeType: string | null;
+    hasNodesField: boolean;
+    pageInfoFields: string[];
+}
+
+function isListField(field: GraphQLField<any, any> | undefined): boolean {
+    if (!field) return false;
+    const type = isNonNullType(field.type) ? field.type.ofType : field.type;
+    return isListType(type);
+}
+
+/**
+ * Relay-style connection details of a type: a pageInfo object plus an
+ * edges list whose items have a node, or a nodes list. Null for other types.
+ */
+export function getConnectionInfo(type: GraphQLNamedType | null | undefined): ConnectionInfo | null {
+    if (!type || !(isObjectType(type) || isInterfaceType(type))) return null;
+
+    const fields = type.getFields();
+    const pageInfoType = fields.pageInfo ? getNamedType(fields.pageInfo.type) : null;
+    if (!pageInfoType || !isObjectType(pageInfoType)) return null;
+
+    const edgeType = isListField(fields.edges) ? getNamedType(fields.edges.type) : null;
+    const edgeNodeField = edgeType && isObjectType(edgeType) ? edgeType.getFields().node : undefined;
+    const nodesField = isListField(fields.nodes) ? fields.nodes : undefined;
+    const nodeType = edgeNodeField ? getNamedType(edgeNodeField.type) : nodesField ? getNamedType(nodesField.type) : null;
+    if (!nodeType) return null;
+
+    return {
+        connectionType: type.name,
+        nodeType: nodeType.name,
+        edgeType: edgeNodeField ? edgeType!.name : null,
+        hasNodesField: !!nodesField,
+        pageInfoFields: Object.keys(pageInfoType.getFields())
+    };
+}
+
+// Forward (first/after) and backward (last/before) pagination arguments a connection field accepts
+export function getPaginationArguments(field: GraphQLField<any, any>): { forward: boolean; backward: boolean } {
+    const argNames = new Set(field.args.map(arg => arg.name));
+    return {
+        forward: argNames.has('first') && argNames.has('after'),
+        backward: argNames.has('last') && argNames.has('before')
+    };
+}
@@ -0,0 +1,317 @@
+import { config } from 'dotenv';
+import {
+    GraphQLSchema,
+    GraphQLField,
+    GraphQLNamedType,
+    GraphQLObjectType,
+    GraphQLInterfaceType,
+    GraphQLInputType,
+    DirectiveNode,
+    getNamedType,
+    getNullableType,
+    isListType,
+    isLeafType,
+    isObjectType,
+    isInterfaceType,
+    isInputObjectType,
+    valueFromASTUntyped
+} from 'graphql';
+import type { QueryState } from './shared-utils.js';
+
+// Load environment variables from .env file
+config({ path: '.env' });
+
+/**
+ * Fallback weights used when the schema does not carry `@cost` / `@listSize`
+ * directives. Configured through the QUERY_COST_WEIGHTS environment variable
+ * (JSON), e.g. {"defaultListSize": 20, "types": {"User": 2}, "fields": {"Query.search": 10}}.
+ */
+export interface QueryCostConfig {
+    // Items assumed for a list field without slicing arguments or @listSize(assumedSize)
+    defaultListSize: number;
+    // Default weight of fields returning object, interface or union types
+    objectTypeCost: number;
+    // Default weight of fields returning scalars and enums
+    scalarTypeCost: number;
+    // Default weight of root mutation fields
+    mutationCost: number;
+    // Per-type weights keyed by type name
+    types: Record<string, number>;
+    // Per-field weights keyed by "Type.field"
+    fields: Record<string, number>;
+}
+
+export const DEFAULT_QUERY_COST_CONFIG: QueryCostConfig = {
+    defaultListSize: 10,
+    objectTypeCost: 1,
+    scalarTypeCost: 0,
+    mutationCost: 10,
+    types: {},
+    fields: {},
+};
+
+export function loadQueryCostConfig(raw: string | undefined = process.env.QUERY_COST_WEIGHTS): QueryCostConfig {
+    if (!raw) {
+        return DEFAULT_QUERY_COST_CONFIG;
+    }
+    try {
+        const parsed = JSON.parse(raw);
+        return {
+            ...DEFAULT_QUERY_COST_CONFIG,
+            ...parsed,
+            types: { ...(parsed.types || {}) },
+            fields: { ...(parsed.fields || {}) },
+        };
+    } catch (error) {
+        console.warn('Invalid QUERY_COST_WEIGHTS, using default cost weights:', error);
+        return DEFAULT_QUERY_COST_CONFIG;
+    }
+}
+
+// Upper bound on visited selections, so repeatedly spread fragments cannot make analysis explode
+const MAX_COST_ANALYSIS_SELECTIONS = 10000;
+
+export interface QueryCostAnalysis {
+    totalCost: number;
+    // True when at least one @cost or @listSize directive contributed to the estimate
+    usesCostDirectives: boolean;
+    warnings: string[];
+}
+
+interface ListSizeDirective {
+    assumedSize?: number;
+    slicingArguments?: string[];
+    sizedFields?: string[];
+}
+
+type SchemaElement = {
+    astNode?: { directives?: readonly DirectiveNode[] } | null;
+    extensionASTNodes?: ReadonlyArray<{ directives?: readonly DirectiveNode[] }>;
+};
+
+// Applied directives are only available on schemas built from SDL; introspection does not expose them
+function findAppliedDirective(element: SchemaElement, name: string): Record<string, any> | null {
+    const nodes = [element.astNode, ...(element.extensionASTNodes || [])];
+    for (const node of nodes) {
+        const directive = node?.directives?.find(d => d.name.value === name);
+        if (directive) {
+            const args: Record<string, any> = {};
+            (directive.arguments || []).forEach(arg => {
+                args[arg.name.value] = valueFromASTUntyped(arg.value);
+            });
+            return args;
+        }
+    }
+    return null;
+}
+
+function directiveWeight(element: SchemaElement): number | null {
+    const cost = findAppliedDirective(element, 'cost');
+    if (!cost || cost.weight === undefined) return null;
+    const weight = parseFloat(cost.weight);
+    return isNaN(weight) ? null : weight;
+}
+
+/**
+ * Estimate the cost of a session's operation following the GraphQL cost
+ * directive spec: each field costs its weight plus its children, list fields
+ * multiply that by their estimated size, and argument weights are added once.
+ */
+export function analyzeQueryCost(
+    schema: GraphQLSchema,
+    queryState: QueryState,
+    costConfig: QueryCostConfig = loadQueryCostConfig()
+): QueryCostAnalysis {
+    const warnings: string[] = [];
+    let usesCostDirectives = false;
+
+    const resolveValue = (value: any): any => {
+        if (typeof value === 'string' && value.startsWith('$')) {
+            const variableValue = queryState.variablesValues?.[value] ?? queryState.variablesDefaults?.[value];
+            return variableValue === undefined ? undefined : resolveValue(variableValue);
+        }
+        if (value && typeof value === 'object') {
+            if ('__graphqlString' in value) return value.__graphqlString;
+            if ('__graphqlEnum' in value) return value.__graphqlEnum;
+            if ('value' in value && ('is_typed' in value || 'is_enum' in value || 'is_variable' in value)) {
+                return resolveValue(value.value);
+            }
+        }
+        return value;
+    };
+
+    const typeWeight = (type: GraphQLNamedType): number => {
+        const weight = directiveWeight(type);
+        if (weight !== null) {
+            usesCostDirectives = true;
+            return weight;
+        }
+        if (type.name in costConfig.types) return costConfig.types[type.name];
+        return isLeafType(type) ? costConfig.scalarTypeCost : costConfig.objectTypeCost;
+    };
+
+    const fieldWeight = (parentType: GraphQLNamedType, fieldDef: GraphQLField<any, any>): number => {
+        const weight = directiveWeight(fieldDef);
+        if (weight !== null) {
+            usesCostDirectives = true;
+            return weight;
+        }
+        const key = `${parentType.name}.${fieldDef.name}`;
+        if (key in costConfig.fields) return costConfig.fields[key];
+        if (parentType === schema.getMutationType()) return costConfig.mutationCost;
+        return typeWeight(getNamedType(fieldDef.type));
+    };
+
+    // Weights of provided arguments and of the input object fields set inside them
+    const inputWeight = (type: GraphQLInputType, value: any): number => {
+        const namedType = getNamedType(type);
+        const resolved = resolveValue(value);
+        if (Array.isArray(resolved)) {
+            return resolved.reduce((sum: number, item) => sum + inputWeight(namedType, item), 0);
+        }
+        if (!isInputObjectType(namedType) || !resolved || typeof resolved !== 'object') {
+            return 0;
+        }
+        let total = 0;
+        const fields = namedType.getFields();
+        Object.entries(resolved).forEach(([name, fieldValue]) => {
+            const inputField = fields[name];
+            if (!inputField) return;
+            const weight = directiveWeight(inputField);
+            if (weight !== null) {
+                usesCostDirectives = true;
+                total += weight;
+            }
+            total += inputWeight(inputField.type, fieldValue);
+        });
+        return total;
+    };
+
+    const argumentsWeight = (fieldDef: GraphQLField<any, any>, args: Record<string, any>): number => {
+        let total = 0;
+        fieldDef.args.forEach(argDef => {
+            if (!(argDef.name in args)) return;
+            const weight = directiveWeight(argDef);
+            if (weight !== null) {
+                usesCostDirectives = true;
+                total += weight;
+            }
+            total += inputWeight(argDef.type, args[argDef.name]);
+        });
+        return total;
+    };
+
+    const listSize = (fieldDef: GraphQLField<any, any>, args: Record<string, any>, path: string): { size: number; sizedFields?: string[] } => {
+        const directive = findAppliedDirective(fieldDef, 'listSize') as ListSizeDirective | null;
+        if (directive) {
+            usesCostDirectives = true;
+            const sliced = (directive.slicingArguments || [])
+                .map(name => Number(resolveValue(args[name])))
+                .filter(value => Number.isFinite(value));
+            if (sliced.length > 0) {
+                return { size: Math.max(...sliced), sizedFields: directive.sizedFields };
+            }
+            if (typeof directive.assumedSize === 'number') {
+                return { size: directive.assumedSize, sizedFields: directive.sizedFields };
+            }
+            if (directive.slicingArguments && directive.slicingArguments.length > 0) {
+                warnings.push(`Field '${path}' should be limited with one of: ${directive.slicingArguments.join(', ')}. Assuming ${costConfig.defaultListSize} items.`);
+            }
+            return { size: costConfig.defaultListSize, sizedFields: directive.sizedFields };
+        }
+
+        return { size: isListType(getNullableType(fieldDef.type)) ? costConfig.defaultListSize : 1 };
+    };
+
+    const visitedFragments: string[] = [];
+    let visitedSelections = 0;
+
+    // pendingSizes carries @listSize(sizedFields) paths that still need to reach their list field
+    const selectionCost = (
+        node: any,
+        fieldsKey: 'fields' | 'selections',
+        parentType: GraphQLNamedType,
+        path: string,
+        pendingSizes: Array<{ path: string[]; size: number }>
+    ): number => {
+        if (!node) return 0;
+        let total = 0;
+
+        Object.entries(node[fieldsKey] || {}).forEach(([fieldKey, fieldData]: [string, any]) => {
+            if (!fieldData || typeof fieldData !== 'object') return;
+            total += fieldCost(fieldKey, fieldData, parentType, path, pendingSizes);
+        });
+
+        (node.fragmentSpreads || []).forEach((fragmentName: string) => {
+            const fragment = queryState.fragments?.[fragmentName];
+            if (!fragment || visitedFragments.includes(fragmentName)) return;
+            const fragmentType = schema.getType(fragment.onType) || parentType;
+            visitedFragments.push(fragmentName);
+            total += selectionCost(fragment, 'fields', fragmentType, path, pendingSizes);
+            visitedFragments.pop();
+        });
+
+        (node.inlineFragments || []).forEach((inlineFragment: any) => {
+            const fragmentType = (inlineFragment.on_type && schema.getType(inlineFragment.on_type)) || parentType;
+            total += selectionCost(inlineFragment, 'selections', fragmentType, path, pendingSizes);
+        });
+
+        return total;
+    };
+
+    const fieldCost = (
+        fieldKey: string,
+        fieldData: any,
+        parentType: GraphQLNamedType,
+        parentPath: string,
+        pendingSizes: Array<{ path: string[]; size: number }>
+    ): number => {
+        const fieldName = fieldData.fieldName || fieldKey;
+        const path = parentPath ? `${parentPath}.${fieldKey}` : fieldKey;
+        if (++visitedSelections > MAX_COST_ANALYSIS_SELECTIONS) {
+            if (visitedSelections === MAX_COST_ANALYSIS_SELECTIONS + 1) {
+                warnings.push(`Cost estimate stopped after ${MAX_COST_ANALYSIS_SELECTIONS} selections; the real cost is higher.`);
+            }
+            return 0;
+        }
+        if (fieldName.startsWith('__') || !(isObjectType(parentType) || isInterfaceType(parentType))) {
+            return 0;
+        }
+
+        const fieldDef = (parentType as GraphQLObjectType | GraphQLInterfaceType).getFields()[fieldName];
+        if (!fieldDef) return 0;
+
+        const args = fieldData.args || {};
+        const { size, sizedFields } = listSize(fieldDef, args, path);
+
+        // With sizedFields the size applies to the named child lists instead of this field
+        let multiplier = sizedFields && sizedFields.length > 0 ? 1 : size;
+        const childPending: Array<{ path: string[]; size: number }> = [];
+        pendingSizes.forEach(pending => {
+            if (pending.path[0] !== fieldName) return;
+            if (pending.path.length === 1) {
+                multiplier = pending.size;
+            } else {
+                childPending.push({ path: pending.path.slice(1), size: pending.size });
+            }
+        });
+        (sizedFields || []).forEach(sizedField => childPending.push({ path: sizedField.split('.'), size }));
+
+        const childCost = selectionCost(fieldData, 'fields', getNamedType(fieldDef.type), path, childPending);
+        return argumentsWeight(fieldDef, args) + multiplier * (fieldWeight(parentType, fieldDef) + childCost);
+    };
+
+    const rootType = queryState.operationType === 'mutation'
+        ? schema.getMutationType()
+        : queryState.operationType === 'subscription'
+            ? schema.getSubscriptionType()
+            : schema.getQueryType();
+
+    const totalCost = rootType ? selectionCost(queryState.queryStructure, 'fields', rootType, '', []) : 0;
+
+    return {
+        totalCost: Math.round(totalCost * 100) / 100,
+        usesCostDirectives,
+        warnings,
+    };
+}
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { QueryState, loadQueryState, saveQueryState, GraphQLValidationUtils } from "./shared-utils.js";
 import { isObjectType, isInterfaceType, GraphQLObjectType, GraphQLInterfaceType } from 'graphql';
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function defineNamedFragment(
@@ -15,19 +16,22 @@ export async function defineNamedFragment(
     onType?: string;
     fieldNames?: string[];
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         // Validate fragment name syntax
         if (!GraphQLValidationUtils.isValidGraphQLName(fragmentName)) {
             return {
-                error: `Invalid fragment name "${fragmentName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`
+                error: `Invalid fragment name "${fragmentName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                code: 'INVALID_INPUT'
             };
         }
 
         // Validate type name syntax
         if (!GraphQLValidationUtils.isValidGraphQLName(onType)) {
             return {
-                error: `Invalid type name "${onType}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`
+                error: `Invalid type name "${onType}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                code: 'INVALID_INPUT'
             };
         }
 
@@ -35,26 +39,29 @@ export async function defineNamedFragment(
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
         // Validate that the type exists in the schema
         try {
             const { fetchAndCacheSchema } = await import('./shared-utils.js');
-            const schema = await fetchAndCacheSchema(queryState.headers);
+            const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
             if (schema) {
                 const type = schema.getType(onType);
                 if (!type) {
                     return {
-                        error: `Type '${onType}' not found in schema. Please check the schema documentation for valid types.`
+                        error: `Type '${onType}' not found in schema. Please check the schema documentation for valid types.`,
+                        code: 'TYPE_NOT_FOUND'
                     };
                 }
                 // Ensure it's a type that can have fragments (Object, Interface, or Union)
                 const { isObjectType, isInterfaceType, isUnionType } = await import('graphql');
                 if (!isObjectType(type) && !isInterfaceType(type) && !isUnionType(type)) {
                     return {
-                        error: `Type '${onType}' cannot be used for fragments. Only Object, Interface, and Union types are allowed.`
+                        error: `Type '${onType}' cannot be used for fragments. Only Object, Interface, and Union types are allowed.`,
+                        code: 'VALIDATION_FAILED'
                     };
                 }
             }
@@ -66,7 +73,7 @@ export async function defineNamedFragment(
         // Validate fields exist on the type
         try {
             const { fetchAndCacheSchema } = await import('./shared-utils.js');
-            const schema = await fetchAndCacheSchema(queryState.headers);
+            const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
             if (schema) {
                 const type = schema.getType(onType);
                 if (type && (isObjectType(type) || isInterfaceType(type))) {
@@ -75,7 +82,8 @@ export async function defineNamedFragment(
 
                     if (invalidFields.length > 0) {
                         return {
-                            error: `Invalid fields on type '${onType}': ${invalidFields.join(', ')}. Available fields: ${Object.keys(availableFields).join(', ')}`
+                            error: `Invalid fields on type '${onType}': ${invalidFields.join(', ')}. Available fields: ${Object.keys(availableFields).join(', ')}`,
+                            code: 'FIELD_NOT_FOUND'
                         };
                     }
                 }
@@ -107,7 +115,8 @@ export async function defineNamedFragment(
         // Check for fragment redefinition
         if (queryState.fragments[fragmentName]) {
             return {
-                error: `Fragment '${fragmentName}' already exists. Please use a different name or remove the existing fragment first.`
+                error: `Fragment '${fragmentName}' already exists. Please use a different name or remove the existing fragment first.`,
+                code: 'ALREADY_EXISTS'
             };
         }
 
@@ -142,6 +151,14 @@ export const defineNamedFragmentTool = {
         onType: z.string().describe('The GraphQL type the fragment applies to (e.g., "User").'),
         fieldNames: z.array(z.string()).describe('Array of field names to include in the fragment.'),
     },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        fragmentName: z.string().optional(),
+        onType: z.string().optional(),
+        fieldNames: z.array(z.string()).optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, fragmentName, onType, fieldNames }: {
         sessionId: string,
         fragmentName: string,
@@ -150,11 +167,6 @@ export const defineNamedFragmentTool = {
     }) => {
         const result = await defineNamedFragment(sessionId, fragmentName, onType, fieldNames);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
@@ -0,0 +1,215 @@
+import { z } from "zod";
+import { isAbsolute, relative, resolve } from 'path';
+import {
+    GraphQLSchema,
+    findBreakingChanges,
+    findDangerousChanges,
+    isObjectType,
+    isInterfaceType,
+    isSpecifiedScalarType
+} from 'graphql';
+import { resolveEndpointAndHeaders, fetchAndCacheSchema, loadQueryState, QueryState } from "./shared-utils.js";
+import { loadSchemaFromFile } from "./schema-file.js";
+import {
+    getSchemaFingerprint,
+    getSchemaSnapshot,
+    listSchemaSnapshots,
+    detectSchemaDrift,
+    SchemaDriftIssue
+} from "./schema-drift.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
+
+export interface SchemaChange {
+    type: string;
+    description: string;
+}
+
+const schemaChangeSchema = z.object({ type: z.string(), description: z.string() });
+
+// Additions and deprecations, which graphql-js does not report because they cannot break clients
+function findSafeChanges(oldSchema: GraphQLSchema, newSchema: GraphQLSchema): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const oldTypes = oldSchema.getTypeMap();
+
+    Object.values(newSchema.getTypeMap()).forEach(newType => {
+        // Built-in scalars only appear in a schema once something uses them
+        if (newType.name.startsWith('__') || isSpecifiedScalarType(newType)) return;
+        const oldType = oldTypes[newType.name];
+        if (!oldType) {
+            changes.push({ type: 'TYPE_ADDED', description: `${newType.name} was added.` });
+            return;
+        }
+
+        const bothHaveFields = (isObjectType(oldType) && isObjectType(newType)) ||
+            (isInterfaceType(oldType) && isInterfaceType(newType));
+        if (!bothHaveFields) return;
+
+        const oldFields = (oldType as typeof newType).getFields();
+        Object.values(newType.getFields()).forEach(newField => {
+            const oldField = oldFields[newField.name];
+            if (!oldField) {
+                changes.push({ type: 'FIELD_ADDED', description: `${newType.name}.${newField.name} was added.` });
+            } else if (newField.deprecationReason && !oldField.deprecationReason) {
+                changes.push({
+                    type: 'FIELD_DEPRECATED',
+                    description: `${newType.name}.${newField.name} was deprecated: ${newField.deprecationReason}`
+                });
+            }
+        });
+    });
+
+    const oldDirectives = new Set(oldSchema.getDirectives().map(directive => directive.name));
+    newSchema.getDirectives()
+        .filter(directive => !oldDirectives.has(directive.name))
+        .forEach(directive => changes.push({ type: 'DIRECTIVE_ADDED', description: `@${directive.name} was added.` }));
+
+    return changes;
+}
+
+/**
+ * Classify the differences between two schema versions as breaking, dangerous
+ * (valid queries may behave differently) or safe.
+ */
+export function diffSchemas(oldSchema: GraphQLSchema, newSchema: GraphQLSchema): {
+    breaking: SchemaChange[];
+    dangerous: SchemaChange[];
+    safe: SchemaChange[];
+} {
+    return {
+        breaking: findBreakingChanges(oldSchema, newSchema).map(({ type, description }) => ({ type, description })),
+        dangerous: findDangerousChanges(oldSchema, newSchema).map(({ type, description }) => ({ type, description })),
+        safe: findSafeChanges(oldSchema, newSchema)
+    };
+}
+
+// Core business logic - testable function
+export async function diffSchema(options: {
+    endpoint?: string;
+    fingerprint?: string;
+    schemaFile?: string;
+    sessionId?: string;
+} = {}): Promise<{
+    success?: boolean;
+    endpoint?: string;
+    baseline?: { source: 'snapshot' | 'file' | 'session'; fingerprint: string; schemaFile?: string };
+    current?: { fingerprint: string };
+    identical?: boolean;
+    summary?: { breaking: number; dangerous: number; safe: number };
+    breaking?: SchemaChange[];
+    dangerous?: SchemaChange[];
+    safe?: SchemaChange[];
+    sessionIssues?: SchemaDriftIssue[];
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    try {
+        let queryState: QueryState | null = null;
+        if (options.sessionId) {
+            queryState = await loadQueryState(options.sessionId);
+            if (!queryState) {
+                return { error: 'Session not found.', code: 'SESSION_NOT_FOUND' };
+            }
+        }
+
+        const { url: resolvedUrl, headers, endpoint: endpointName, error: endpointError } =
+            resolveEndpointAndHeaders(options.endpoint || queryState?.endpoint);
+        if (!resolvedUrl || !endpointName) {
+            return {
+                error: endpointError || "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)",
+                code: 'ENDPOINT_NOT_FOUND'
+            };
+        }
+
+        const currentSchema = await fetchAndCacheSchema({ ...headers, ...queryState?.headers }, endpointName);
+        const currentFingerprint = getSchemaFingerprint(currentSchema);
+
+        let baselineSchema: GraphQLSchema | null;
+        let baseline: { source: 'snapshot' | 'file' | 'session'; fingerprint: string; schemaFile?: string };
+        if (options.schemaFile) {
+            // Clients may only compare against schema files inside the server's working directory
+            const relativePath = relative(process.cwd(), resolve(process.cwd(), options.schemaFile));
+            if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+                return { error: `Schema file '${options.schemaFile}' must be inside the server's working directory.`, code: 'INVALID_INPUT' };
+            }
+            baselineSchema = (await loadSchemaFromFile(options.schemaFile)).schema;
+            baseline = { source: 'file', fingerprint: getSchemaFingerprint(baselineSchema), schemaFile: options.schemaFile };
+        } else {
+            const snapshots = listSchemaSnapshots(endpointName);
+            const fingerprint = options.fingerprint
+                || queryState?.schemaFingerprint
+                || snapshots.find(snapshot => snapshot.fingerprint !== currentFingerprint)?.fingerprint;
+            if (!fingerprint) {
+                return {
+                    error: `No previous schema snapshot for endpoint '${endpointName}'. Pass schemaFile, or run refresh-schema after an upstream change.`,
+                    code: 'SCHEMA_UNAVAILABLE'
+                };
+            }
+            baselineSchema = getSchemaSnapshot(fingerprint);
+            if (!baselineSchema) {
+                const known = snapshots.map(snapshot => snapshot.fingerprint);
+                return {
+                    error: `Schema snapshot '${fingerprint}' is no longer available. Known snapshots for endpoint '${endpointName}': ${known.join(', ') || 'none'}.`,
+                    code: 'SCHEMA_UNAVAILABLE'
+                };
+            }
+            baseline = {
+                source: !options.fingerprint && queryState?.schemaFingerprint ? 'session' : 'snapshot',
+                fingerprint
+            };
+        }
+
+        const changes = diffSchemas(baselineSchema, currentSchema);
+
+        return {
+            success: true,
+            endpoint: endpointName,
+            baseline,
+            current: { fingerprint: currentFingerprint },
+            identical: baseline.fingerprint === currentFingerprint,
+            summary: {
+                breaking: changes.breaking.length,
+                dangerous: changes.dangerous.length,
+                safe: changes.safe.length
+            },
+            ...changes,
+            ...(queryState ? { sessionIssues: detectSchemaDrift(queryState, currentSchema, baselineSchema) } : {})
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const diffSchemaTool = {
+    name: "diff-schema",
+    description: "Compare the current schema of an endpoint with a previous snapshot or a local SDL file and classify each change as breaking, dangerous or safe; with a sessionId, also list the session's selections the changes affect",
+    schema: {
+        endpoint: z.string().optional().describe('Optional: Name of the configured GraphQL endpoint (see list-endpoints). Defaults to the session endpoint, then the default endpoint.'),
+        fingerprint: z.string().optional().describe('Optional: Fingerprint of an earlier schema snapshot to compare with (as reported by refresh-schema).'),
+        schemaFile: z.string().optional().describe('Optional: Path of an SDL (.graphql) or introspection JSON file, relative to the server directory, to compare with.'),
+        sessionId: z.string().optional().describe('Optional: Session whose selections should be checked; its original schema is the default baseline.'),
+    },
+    outputSchema: {
+        success: z.boolean().optional(),
+        endpoint: z.string().optional(),
+        baseline: z.object({
+            source: z.enum(['snapshot', 'file', 'session']),
+            fingerprint: z.string(),
+            schemaFile: z.string().optional(),
+        }).optional(),
+        current: z.object({ fingerprint: z.string() }).optional(),
+        identical: z.boolean().optional(),
+        summary: z.object({ breaking: z.number(), dangerous: z.number(), safe: z.number() }).optional(),
+        breaking: z.array(schemaChangeSchema).optional(),
+        dangerous: z.array(schemaChangeSchema).optional(),
+        safe: z.array(schemaChangeSchema).optional(),
+        sessionIssues: z.array(z.object({ kind: z.string(), path: z.string(), message: z.string() })).optional(),
+        ...toolErrorShape,
+    },
+    handler: async (args: { endpoint?: string, fingerprint?: string, schemaFile?: string, sessionId?: string }) => {
+        const result = await diffSchema(args);
+
+        return toolResponse(result);
+    }
+};
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { QueryState, loadQueryState, deleteQueryState } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function endQuerySession(sessionId: string): Promise<{
@@ -12,6 +13,7 @@ export async function endQuerySession(sessionId: string): Promise<{
         endedAt: string;
     };
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         // Load query state to get its details before deleting
@@ -19,7 +21,8 @@ export async function endQuerySession(sessionId: string): Promise<{
 
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
@@ -41,7 +44,8 @@ export async function endQuerySession(sessionId: string): Promise<{
             };
         } else {
             return {
-                error: 'Failed to delete session state after retrieving it.'
+                error: 'Failed to delete session state after retrieving it.',
+                code: 'INTERNAL_ERROR'
             };
         }
     } catch (error) {
@@ -57,14 +61,20 @@ export const endQuerySessionTool = {
     schema: {
         sessionId: z.string().describe('The session ID to end.'),
     },
+    outputSchema: {
+        message: z.string().optional(),
+        sessionInfo: z.object({
+            sessionId: z.string(),
+            operationType: z.string(),
+            operationName: z.string().nullable().optional(),
+            createdAt: z.string(),
+            endedAt: z.string(),
+        }).optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId }: { sessionId: string }) => {
         const result = await endQuerySession(sessionId);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
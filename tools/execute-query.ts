@@ -1,8 +1,287 @@
 import { z } from "zod";
-import { QueryState, loadQueryState, resolveEndpointAndHeaders, buildQueryFromStructure, analyzeQueryComplexity, executeWithTimeout, QUERY_EXECUTION_TIMEOUT, MAX_QUERY_COMPLEXITY } from "./shared-utils.js";
+import {
+    GraphQLSchema,
+    GraphQLObjectType,
+    GraphQLInterfaceType,
+    getNamedType,
+    isObjectType,
+    isInterfaceType,
+    isListType,
+    isNonNullType
+} from 'graphql';
+import { QueryState, loadQueryState, resolveEndpointAndHeaders, getGraphQLEndpoint, fetchAndCacheSchema, buildQueryFromStructure, analyzeQueryComplexity, executeWithTimeout, QUERY_EXECUTION_TIMEOUT, MAX_QUERY_COMPLEXITY } from "./shared-utils.js";
+import { getSessionSchemaDrift, SchemaDrift } from "./schema-drift.js";
+import { getConnectionInfo } from "./connections.js";
+import { collectSubscriptionEvents, defaultSubscriptionTransport, SubscriptionEvent, SubscriptionResult, SubscriptionTransport } from "./subscriptions.js";
+import { ToolErrorCode, toolResponse, toolErrorShape, schemaDriftSchema, complexitySchema } from "./tool-output.js";
+
+const DEFAULT_MAX_PAGES = 10;
+const MAX_MAX_PAGES = 50;
+const DEFAULT_MAX_ITEMS = 1000;
+const MAX_MAX_ITEMS = 10000;
+const DEFAULT_MAX_EVENTS = 10;
+const MAX_MAX_EVENTS = 100;
+const DEFAULT_SUBSCRIPTION_DURATION = 10000;
+
+export interface PaginationOptions {
+    // Dot-notation path of the connection field (e.g., "repository.issues"); detected when the query pages exactly one connection
+    path?: string;
+    maxPages?: number;
+    maxItems?: number;
+}
+
+export interface PaginationSummary {
+    path: string;
+    pages: number;
+    items: number;
+    complete: boolean;
+    stoppedReason: 'completed' | 'max_pages' | 'max_items' | 'timeout' | 'rate_limited' | 'errors';
+    // The last page was cut to maxItems
+    truncated?: boolean;
+    // Cursor to resume from when the connection was not read to the end; null when unknown, such as after
+    // truncating a page whose edges do not select cursor
+    endCursor?: string | null;
+}
+
+interface PaginatedConnection {
+    path: string;
+    afterVariable: string;
+    listKeys: string[];
+    pageInfoKey: string;
+    hasNextPageKey: string;
+    endCursorKey: string;
+}
+
+// Response key of the selection of fieldName under node, which is its alias when it has one
+function findSelectionKey(node: any, fieldName: string): string | undefined {
+    return Object.keys(node?.fields || {}).find(key => (node.fields[key].fieldName || key) === fieldName);
+}
+
+// Connection fields whose after argument is bound to a variable, and whether a list field encloses them
+function findPaginatedConnections(schema: GraphQLSchema, queryState: QueryState): Array<{ path: string; node: any; insideList: boolean }> {
+    const found: Array<{ path: string; node: any; insideList: boolean }> = [];
+    const operationType = queryState.operationType.toLowerCase();
+    const rootType = operationType === 'mutation'
+        ? schema.getMutationType()
+        : operationType === 'subscription' ? schema.getSubscriptionType() : schema.getQueryType();
+
+    const visit = (node: any, type: GraphQLObjectType | GraphQLInterfaceType, path: string, insideList: boolean) => {
+        Object.entries(node.fields || {}).forEach(([key, child]: [string, any]) => {
+            const field = type.getFields()[child.fieldName || key];
+            if (!field) return;
+            const childPath = path ? `${path}.${key}` : key;
+            const namedType = getNamedType(field.type);
+            const after = child.args?.after;
+            if (getConnectionInfo(namedType) && typeof after === 'string' && after.startsWith('$')) {
+                found.push({ path: childPath, node: child, insideList });
+            }
+            if (isObjectType(namedType) || isInterfaceType(namedType)) {
+                const fieldType = isNonNullType(field.type) ? field.type.ofType : field.type;
+                visit(child, namedType, childPath, insideList || isListType(fieldType));
+            }
+        });
+    };
+    if (rootType) visit(queryState.queryStructure, rootType, '', false);
+
+    return found;
+}
+
+function resolvePaginatedConnection(schema: GraphQLSchema, queryState: QueryState, path?: string): { connection?: PaginatedConnection; error?: string; code?: ToolErrorCode } {
+    const candidates = findPaginatedConnections(schema, queryState);
+    let candidate;
+    if (path) {
+        candidate = candidates.find(entry => entry.path === path);
+        if (!candidate) {
+            return { error: `No connection with an $after variable at path '${path}'. Pass a variable to its after argument (select-connection sets this up).`, code: 'INVALID_INPUT' };
+        }
+        if (candidate.insideList) {
+            return { error: `Connection at path '${path}' is inside a list, so its pages cannot be followed with a single cursor.`, code: 'VALIDATION_FAILED' };
+        }
+    } else {
+        const eligible = candidates.filter(entry => !entry.insideList);
+        if (eligible.length === 0) {
+            return { error: 'Query has no connection field with an $after variable to paginate. Use select-connection to scaffold one.', code: 'INVALID_INPUT' };
+        }
+        if (eligible.length > 1) {
+            return { error: `Query pages several connections (${eligible.map(entry => entry.path).join(', ')}); pass the path of the one to paginate.`, code: 'INVALID_INPUT' };
+        }
+        candidate = eligible[0];
+    }
+
+    const pageInfoKey = findSelectionKey(candidate.node, 'pageInfo');
+    const pageInfoNode = pageInfoKey ? candidate.node.fields[pageInfoKey] : null;
+    const hasNextPageKey = findSelectionKey(pageInfoNode, 'hasNextPage');
+    const endCursorKey = findSelectionKey(pageInfoNode, 'endCursor');
+    if (!pageInfoKey || !hasNextPageKey || !endCursorKey) {
+        return { error: `Connection at path '${candidate.path}' must select pageInfo { hasNextPage endCursor } to be paginated.`, code: 'VALIDATION_FAILED' };
+    }
+    const listKeys = ['edges', 'nodes']
+        .map(fieldName => findSelectionKey(candidate.node, fieldName))
+        .filter((key): key is string => !!key);
+    if (listKeys.length === 0) {
+        return { error: `Connection at path '${candidate.path}' must select edges or nodes to be paginated.`, code: 'VALIDATION_FAILED' };
+    }
+
+    return {
+        connection: {
+            path: candidate.path,
+            afterVariable: candidate.node.args.after,
+            listKeys,
+            pageInfoKey,
+            hasNextPageKey,
+            endCursorKey
+        }
+    };
+}
+
+// Session variables are keyed "$name"; servers read variable values by bare name
+function requestVariables(values: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(values).map(([name, value]) => [name.replace(/^\$/, ''), value]));
+}
+
+async function postQuery(url: string, headers: Record<string, string>, body: Record<string, any>, timeoutMs: number): Promise<any> {
+    const response = await executeWithTimeout(
+        fetch(url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(body)
+        }),
+        timeoutMs,
+        `Query execution timed out after ${timeoutMs}ms`
+    );
+
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    // Parse JSON response with timeout
+    return executeWithTimeout(
+        response.json(),
+        5000,
+        'Response parsing timed out'
+    );
+}
+
+/**
+ * Request further pages of a connection with after set to the previous
+ * endCursor, appending their edges/nodes to the first page's result in place.
+ * Stops at the end of the connection, at a cap, at the execution deadline,
+ * when the rate limiter refuses another page, or on errors. The last page is
+ * cut so that no more than maxItems are returned.
+ */
+async function followPages(
+    result: any,
+    connection: PaginatedConnection,
+    options: {
+        maxPages: number;
+        maxItems: number;
+        deadline: number;
+        beforeNextPage?: () => Promise<void>;
+        fetchPage: (after: string, timeoutMs: number) => Promise<any>;
+    }
+): Promise<PaginationSummary> {
+    const pathParts = connection.path.split('.');
+    const connectionIn = (data: any) => pathParts.reduce((value, key) => value?.[key], data);
+    const merged = connectionIn(result.data);
+    const countItems = () => Math.max(0, ...connection.listKeys.map(key => (Array.isArray(merged?.[key]) ? merged[key].length : 0)));
+
+    let pages = 1;
+    let stoppedReason: PaginationSummary['stoppedReason'] = 'completed';
+    while (true) {
+        const pageInfo = merged?.[connection.pageInfoKey];
+        if (!pageInfo?.[connection.hasNextPageKey]) break;
+
+        const endCursor = pageInfo[connection.endCursorKey];
+        if (!endCursor) {
+            stoppedReason = 'errors';
+            result.errors = [...(result.errors || []), { message: `pageInfo at '${connection.path}' reports a next page but no endCursor.` }];
+            break;
+        }
+        if (pages >= options.maxPages) {
+            stoppedReason = 'max_pages';
+            break;
+        }
+        if (countItems() >= options.maxItems) {
+            stoppedReason = 'max_items';
+            break;
+        }
+        const remaining = options.deadline - Date.now();
+        if (remaining <= 0) {
+            stoppedReason = 'timeout';
+            break;
+        }
+
+        try {
+            await options.beforeNextPage?.();
+        } catch {
+            stoppedReason = 'rate_limited';
+            break;
+        }
+
+        let page: any;
+        try {
+            page = await options.fetchPage(endCursor, remaining);
+        } catch (error: any) {
+            stoppedReason = Date.now() >= options.deadline ? 'timeout' : 'errors';
+            if (stoppedReason === 'errors') {
+                result.errors = [...(result.errors || []), { message: error.message }];
+            }
+            break;
+        }
+
+        const pageConnection = connectionIn(page.data);
+        if (page.errors?.length || !pageConnection) {
+            result.errors = [...(result.errors || []), ...(page.errors || [])];
+            stoppedReason = 'errors';
+            break;
+        }
+        connection.listKeys.forEach(key => {
+            if (Array.isArray(merged[key]) && Array.isArray(pageConnection[key])) {
+                merged[key].push(...pageConnection[key]);
+            }
+        });
+        merged[connection.pageInfoKey] = pageConnection[connection.pageInfoKey];
+        pages++;
+    }
+
+    // Cut the last page so no more than maxItems are returned, resuming after the last item kept
+    const truncated = countItems() > options.maxItems;
+    if (truncated) {
+        let resumeCursor: string | null = null;
+        connection.listKeys.forEach(key => {
+            if (!Array.isArray(merged[key])) return;
+            merged[key].splice(options.maxItems);
+            const lastCursor = merged[key][merged[key].length - 1]?.cursor;
+            if (typeof lastCursor === 'string') resumeCursor = lastCursor;
+        });
+        merged[connection.pageInfoKey] = {
+            ...merged[connection.pageInfoKey],
+            [connection.hasNextPageKey]: true,
+            [connection.endCursorKey]: resumeCursor
+        };
+        stoppedReason = 'max_items';
+    }
+
+    return {
+        path: connection.path,
+        pages,
+        items: countItems(),
+        complete: stoppedReason === 'completed',
+        stoppedReason,
+        ...(truncated && { truncated }),
+        ...(stoppedReason === 'completed' ? {} : { endCursor: merged?.[connection.pageInfoKey]?.[connection.endCursorKey] ?? null })
+    };
+}
 
 // Core business logic - testable function
-export async function executeGraphQLQuery(sessionId: string): Promise<{
+export async function executeGraphQLQuery(sessionId: string, options: {
+    // Follow the cursor of one connection field and merge its pages into the result
+    paginate?: PaginationOptions;
+    // Called before each page after the first; throwing stops pagination (used for rate limiting)
+    beforeNextPage?: () => Promise<void>;
+    // How subscription operations are run and when event collection stops
+    subscription?: { transport?: SubscriptionTransport; maxEvents?: number; durationMs?: number };
+} = {}): Promise<{
     data?: any;
     errors?: any[];
     error?: string;
@@ -14,6 +293,11 @@ export async function executeGraphQLQuery(sessionId: string): Promise<{
         complexityScore: number;
         warnings: string[];
     };
+    pagination?: PaginationSummary;
+    events?: SubscriptionEvent[];
+    subscription?: Omit<SubscriptionResult, 'events' | 'error'>;
+    schemaDrift?: SchemaDrift;
+    code?: ToolErrorCode;
 }> {
     const startTime = Date.now();
 
@@ -21,7 +305,7 @@ export async function executeGraphQLQuery(sessionId: string): Promise<{
         // Load the query state
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
-            return { error: 'Session not found' };
+            return { error: 'Session not found', code: 'SESSION_NOT_FOUND' };
         }
 
         // Build the query string
@@ -37,13 +321,17 @@ export async function executeGraphQLQuery(sessionId: string): Promise<{
                 queryState.variablesDefaults || {}
             );
         } catch (buildError: any) {
-            return { error: `Failed to build query: ${buildError.message}` };
+            return { error: `Failed to build query: ${buildError.message}`, code: 'INTERNAL_ERROR' };
         }
 
+        // Limits and timeout of the session's endpoint
+        const endpointConfig = getGraphQLEndpoint(queryState.endpoint).endpoint;
+        const limits = endpointConfig?.limits || MAX_QUERY_COMPLEXITY;
+
         // Perform complexity analysis (but don't fail for backward compatibility)
         let complexityAnalysis;
         try {
-            const analysis = analyzeQueryComplexity(queryState.queryStructure, queryState.operationType);
+            const analysis = analyzeQueryComplexity(queryState.queryStructure, queryState.operationType, queryState.fragments || {}, limits);
 
             complexityAnalysis = {
                 depth: analysis.depth,
@@ -53,9 +341,10 @@ export async function executeGraphQLQuery(sessionId: string): Promise<{
             };
 
             // Only fail if complexity is critically high
-            if (!analysis.valid && analysis.complexityScore > MAX_QUERY_COMPLEXITY.TOTAL_COMPLEXITY_SCORE) {
+            if (!analysis.valid && analysis.complexityScore > limits.TOTAL_COMPLEXITY_SCORE) {
                 return {
                     error: `Query complexity too high: ${analysis.errors.join('; ')}`,
+                    code: 'LIMIT_EXCEEDED',
                     complexityAnalysis
                 };
             }
@@ -64,62 +353,111 @@ export async function executeGraphQLQuery(sessionId: string): Promise<{
             console.warn('Complexity analysis failed:', complexityError.message);
         }
 
+        // Report upstream schema changes since the session was built; execution goes ahead regardless
+        let schemaDrift: SchemaDrift | null = null;
+        if (queryState.schemaFingerprint) {
+            try {
+                const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
+                schemaDrift = getSessionSchemaDrift(queryState, schema);
+            } catch (schemaError: any) {
+                console.warn('Schema drift check failed:', schemaError.message);
+            }
+        }
+        const driftResult = schemaDrift ? { schemaDrift } : {};
+
+        // The connection to paginate is checked before anything is sent
+        let connection: PaginatedConnection | undefined;
+        if (options.paginate && queryState.operationType.toLowerCase() === 'subscription') {
+            return { error: 'Pagination applies to queries; subscriptions stream events instead.', code: 'INVALID_INPUT', queryString };
+        }
+        if (options.paginate) {
+            const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
+            const resolved = resolvePaginatedConnection(schema, queryState, options.paginate.path);
+            if (resolved.error) {
+                return { error: resolved.error, code: resolved.code, queryString, complexityAnalysis, ...driftResult };
+            }
+            connection = resolved.connection;
+        }
+
         // Determine timeout based on complexity
-        const timeout = complexityAnalysis && complexityAnalysis.complexityScore > 1500
+        const timeout = endpointConfig?.timeoutMs ?? (complexityAnalysis && complexityAnalysis.complexityScore > 1500
             ? QUERY_EXECUTION_TIMEOUT.EXPENSIVE
-            : QUERY_EXECUTION_TIMEOUT.DEFAULT;
+            : QUERY_EXECUTION_TIMEOUT.DEFAULT);
 
         // Resolve endpoint and headers
-        const { url, headers: envHeaders } = resolveEndpointAndHeaders();
+        const { url, headers: envHeaders, error: endpointError } = resolveEndpointAndHeaders(queryState.endpoint);
         const headers = { ...envHeaders, ...queryState.headers };
 
         if (!url) {
             return {
-                error: 'No GraphQL endpoint configured',
+                error: endpointError || 'No GraphQL endpoint configured',
+                code: 'ENDPOINT_NOT_FOUND',
                 queryString,
                 executionTime: Date.now() - startTime,
                 complexityAnalysis
             };
         }
 
-        // Prepare request body
-        const requestBody = {
-            query: queryString,
-            variables: queryState.variablesValues || {},
-            operationName: queryState.operationName
-        };
+        // Subscriptions stream events instead of answering once
+        if (queryState.operationType.toLowerCase() === 'subscription') {
+            const subscription = await collectSubscriptionEvents({
+                url,
+                headers,
+                body: {
+                    query: queryString,
+                    variables: requestVariables(queryState.variablesValues || {}),
+                    operationName: queryState.operationName
+                },
+                transport: options.subscription?.transport || defaultSubscriptionTransport(),
+                maxEvents: Math.min(Math.max(options.subscription?.maxEvents ?? DEFAULT_MAX_EVENTS, 1), MAX_MAX_EVENTS),
+                durationMs: Math.min(Math.max(options.subscription?.durationMs ?? DEFAULT_SUBSCRIPTION_DURATION, 1), QUERY_EXECUTION_TIMEOUT.EXPENSIVE)
+            });
+            const { error: subscriptionError, events, ...summary } = subscription;
+
+            return {
+                events,
+                subscription: summary,
+                ...(subscriptionError ? { error: subscriptionError, code: 'UPSTREAM_ERROR' as const } : {}),
+                queryString,
+                executionTime: Date.now() - startTime,
+                complexityAnalysis,
+                ...driftResult
+            };
+        }
 
         // Execute the GraphQL request with timeout
         try {
-            const fetchPromise = fetch(url, {
-                method: 'POST',
-                headers,
-                body: JSON.stringify(requestBody)
-            });
+            const variables = requestVariables(queryState.variablesValues || {});
+            const result = await postQuery(url, headers, {
+                query: queryString,
+                variables,
+                operationName: queryState.operationName
+            }, timeout);
 
-            const response = await executeWithTimeout(
-                fetchPromise,
-                timeout,
-                `Query execution timed out after ${timeout}ms`
-            );
+            if (connection) {
+                const pagination = await followPages(result, connection, {
+                    maxPages: Math.min(Math.max(options.paginate?.maxPages ?? DEFAULT_MAX_PAGES, 1), MAX_MAX_PAGES),
+                    maxItems: Math.min(Math.max(options.paginate?.maxItems ?? DEFAULT_MAX_ITEMS, 1), MAX_MAX_ITEMS),
+                    deadline: startTime + timeout,
+                    beforeNextPage: options.beforeNextPage,
+                    fetchPage: (after, timeoutMs) => postQuery(url, headers, {
+                        query: queryString,
+                        variables: { ...variables, ...requestVariables({ [connection.afterVariable]: after }) },
+                        operationName: queryState.operationName
+                    }, timeoutMs)
+                });
 
-            if (!response.ok) {
                 return {
-                    error: `HTTP ${response.status}: ${response.statusText}`,
+                    data: result.data,
+                    errors: result.errors,
                     queryString,
                     executionTime: Date.now() - startTime,
-                    complexityAnalysis
+                    complexityAnalysis,
+                    pagination,
+                    ...driftResult
                 };
             }
 
-            // Parse JSON response with timeout
-            const jsonPromise = response.json();
-            const result = await executeWithTimeout(
-                jsonPromise,
-                5000,
-                'Response parsing timed out'
-            );
-
             const executionTime = Date.now() - startTime;
 
             return {
@@ -127,16 +465,19 @@ export async function executeGraphQLQuery(sessionId: string): Promise<{
                 errors: result.errors,
                 queryString,
                 executionTime,
-                complexityAnalysis
+                complexityAnalysis,
+                ...driftResult
             };
 
         } catch (error: any) {
             const executionTime = Date.now() - startTime;
             return {
                 error: error.message,
+                code: 'UPSTREAM_ERROR',
                 queryString,
                 executionTime,
-                complexityAnalysis
+                complexityAnalysis,
+                ...driftResult
             };
         }
 
@@ -144,6 +485,7 @@ export async function executeGraphQLQuery(sessionId: string): Promise<{
         const executionTime = Date.now() - startTime;
         return {
             error: `Execution failed: ${error.message}`,
+            code: 'UPSTREAM_ERROR',
             executionTime
         };
     }
@@ -151,18 +493,67 @@ export async function executeGraphQLQuery(sessionId: string): Promise<{
 
 export const executeQueryTool = {
     name: "execute-query",
-    description: "Execute the built GraphQL query against the configured endpoint and return results",
+    description: "Execute the built GraphQL query against the configured endpoint and return results. With paginate, follows a connection's endCursor and merges all pages into one result. Subscriptions collect events over graphql-ws or SSE for a bounded time",
     schema: {
         sessionId: z.string().describe('The session ID from start-query-session.'),
+        paginate: z.boolean().optional().describe('Optional: Re-run the query with the connection\'s $after variable set to pageInfo.endCursor until hasNextPage is false or a cap is hit, merging edges/nodes. The connection must select pageInfo { hasNextPage endCursor } (see select-connection).'),
+        connectionPath: z.string().optional().describe('Optional: Dot-notation path of the connection to paginate (e.g., "repository.issues"). Needed only when the query pages several connections.'),
+        maxPages: z.number().int().min(1).max(MAX_MAX_PAGES).optional().describe(`Optional: Maximum number of pages to request (default ${DEFAULT_MAX_PAGES}).`),
+        maxItems: z.number().int().min(1).max(MAX_MAX_ITEMS).optional().describe(`Optional: Stop requesting pages once this many items are collected (default ${DEFAULT_MAX_ITEMS}).`),
+        transport: z.enum(['graphql-ws', 'sse']).optional().describe('Optional: Subscription transport, the graphql-ws WebSocket protocol or GraphQL over SSE (default graphql-ws when the runtime has a global WebSocket, otherwise sse).'),
+        maxEvents: z.number().int().min(1).max(MAX_MAX_EVENTS).optional().describe(`Optional: Subscriptions stop after this many events (default ${DEFAULT_MAX_EVENTS}).`),
+        durationMs: z.number().int().min(1).max(QUERY_EXECUTION_TIMEOUT.EXPENSIVE).optional().describe(`Optional: Subscriptions stop after this many milliseconds (default ${DEFAULT_SUBSCRIPTION_DURATION}).`),
+    },
+    outputSchema: {
+        data: z.any().optional(),
+        errors: z.array(z.any()).optional(),
+        queryString: z.string().optional(),
+        executionTime: z.number().optional(),
+        complexityAnalysis: complexitySchema.optional(),
+        pagination: z.object({
+            path: z.string(),
+            pages: z.number(),
+            items: z.number(),
+            complete: z.boolean(),
+            stoppedReason: z.enum(['completed', 'max_pages', 'max_items', 'timeout', 'rate_limited', 'errors']),
+            truncated: z.boolean().optional(),
+            endCursor: z.string().nullable().optional(),
+        }).optional(),
+        events: z.array(z.object({
+            index: z.number(),
+            receivedAfterMs: z.number(),
+            data: z.any().optional(),
+            errors: z.array(z.any()).optional(),
+        })).optional(),
+        subscription: z.object({
+            transport: z.enum(['graphql-ws', 'sse']),
+            completed: z.boolean(),
+            stoppedReason: z.enum(['complete', 'max_events', 'duration', 'error']),
+        }).optional(),
+        schemaDrift: schemaDriftSchema.optional(),
+        ...toolErrorShape,
     },
-    handler: async ({ sessionId }: { sessionId: string }) => {
-        const result = await executeGraphQLQuery(sessionId);
+    handler: async (
+        { sessionId, paginate, connectionPath, maxPages, maxItems, transport, maxEvents, durationMs }: {
+            sessionId: string,
+            paginate?: boolean,
+            connectionPath?: string,
+            maxPages?: number,
+            maxItems?: number,
+            transport?: SubscriptionTransport,
+            maxEvents?: number,
+            durationMs?: number
+        },
+        extra?: { chargeExpensiveCall?: () => Promise<void> }
+    ) => {
+        const result = await executeGraphQLQuery(sessionId, {
+            ...(paginate ? {
+                paginate: { path: connectionPath, maxPages, maxItems },
+                beforeNextPage: extra?.chargeExpensiveCall
+            } : {}),
+            subscription: { transport, maxEvents, durationMs }
+        });
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
-}; 
\ No newline at end of file
+};
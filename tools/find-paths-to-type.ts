@@ -0,0 +1,230 @@
+import { z } from "zod";
+import {
+    GraphQLSchema,
+    GraphQLNamedType,
+    GraphQLObjectType,
+    GraphQLInterfaceType,
+    getNamedType,
+    isObjectType,
+    isInterfaceType,
+    isAbstractType,
+    isNonNullType
+} from 'graphql';
+import { loadQueryState, fetchAndCacheSchema, getTypeNameStr } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
+
+export interface SchemaPathStep {
+    parentType: string;
+    field: string;
+    type: string;
+    requiredArguments: Array<{ name: string; type: string }>;
+    deprecated?: boolean;
+}
+
+export interface SchemaPath {
+    // Dot-notation path, usable as select-field parentPath for fields of the target type
+    path: string;
+    depth: number;
+    steps: SchemaPathStep[];
+    // Set when the last field returns an interface or union, so the target needs an inline fragment
+    inlineFragmentOn?: string;
+    // select-field calls that build the path, including the target field when one was requested
+    selectFieldCalls: Array<{ parentPath: string; fieldName: string }>;
+}
+
+const DEFAULT_MAX_DEPTH = 5;
+const MAX_DEPTH_LIMIT = 10;
+const DEFAULT_MAX_PATHS = 5;
+const MAX_PATHS_LIMIT = 25;
+
+function asFieldsType(type: GraphQLNamedType): GraphQLObjectType | GraphQLInterfaceType | null {
+    return isObjectType(type) || isInterfaceType(type) ? type : null;
+}
+
+/**
+ * Breadth-first search from a root type to every field whose type is (or may
+ * resolve to) the target type. Each type is expanded once, at its shortest
+ * depth, so the search is bounded by the size of the schema and maxDepth.
+ */
+export function findPathsToType(
+    schema: GraphQLSchema,
+    rootTypeName: string,
+    targetTypeName: string,
+    targetField: string | null = null,
+    options: { maxDepth?: number; maxPaths?: number } = {}
+): SchemaPath[] {
+    const maxDepth = Math.min(Math.max(options.maxDepth ?? DEFAULT_MAX_DEPTH, 1), MAX_DEPTH_LIMIT);
+    const maxPaths = Math.min(Math.max(options.maxPaths ?? DEFAULT_MAX_PATHS, 1), MAX_PATHS_LIMIT);
+    const rootType = schema.getType(rootTypeName);
+    const targetType = schema.getType(targetTypeName);
+    if (!rootType || !targetType) return [];
+
+    const toPath = (steps: SchemaPathStep[], inlineFragmentOn?: string): SchemaPath => {
+        const fieldNames = steps.map(step => step.field);
+        const path = fieldNames.join('.');
+        const selectFieldCalls = fieldNames.map((fieldName, index) => ({
+            parentPath: fieldNames.slice(0, index).join('.'),
+            fieldName
+        }));
+        if (targetField && !inlineFragmentOn) {
+            selectFieldCalls.push({ parentPath: path, fieldName: targetField });
+        }
+        return {
+            path,
+            depth: steps.length,
+            steps,
+            ...(inlineFragmentOn ? { inlineFragmentOn } : {}),
+            selectFieldCalls
+        };
+    };
+
+    if (rootType === targetType) {
+        return [toPath([])];
+    }
+
+    const paths: SchemaPath[] = [];
+    const expanded = new Set<string>([rootType.name]);
+    let frontier: Array<{ type: GraphQLNamedType; steps: SchemaPathStep[] }> = [{ type: rootType, steps: [] }];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0 && paths.length < maxPaths; depth++) {
+        const nextFrontier: typeof frontier = [];
+
+        for (const { type, steps } of frontier) {
+            const fieldsType = asFieldsType(type);
+            if (!fieldsType) continue;
+
+            for (const field of Object.values(fieldsType.getFields())) {
+                if (paths.length >= maxPaths) break;
+                if (field.name.startsWith('__')) continue;
+
+                const fieldType = getNamedType(field.type);
+                const step: SchemaPathStep = {
+                    parentType: fieldsType.name,
+                    field: field.name,
+                    type: getTypeNameStr(field.type),
+                    requiredArguments: field.args
+                        .filter(arg => isNonNullType(arg.type) && arg.defaultValue === undefined)
+                        .map(arg => ({ name: arg.name, type: getTypeNameStr(arg.type) })),
+                    ...(field.deprecationReason ? { deprecated: true } : {})
+                };
+                const fieldSteps = [...steps, step];
+
+                if (fieldType === targetType) {
+                    paths.push(toPath(fieldSteps));
+                    continue;
+                }
+                if (isAbstractType(fieldType) && isObjectType(targetType) && schema.isSubType(fieldType, targetType)) {
+                    paths.push(toPath(fieldSteps, targetType.name));
+                }
+                if (!expanded.has(fieldType.name) && asFieldsType(fieldType)) {
+                    expanded.add(fieldType.name);
+                    nextFrontier.push({ type: fieldType, steps: fieldSteps });
+                }
+            }
+        }
+
+        frontier = nextFrontier;
+    }
+
+    return paths;
+}
+
+// Core business logic - testable function
+export async function findPathsToTargetType(
+    sessionId: string,
+    target: string,
+    options: { maxDepth?: number; maxPaths?: number } = {}
+): Promise<{
+    rootType?: string;
+    target?: string;
+    paths?: SchemaPath[];
+    message?: string;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    try {
+        const queryState = await loadQueryState(sessionId);
+        if (!queryState) {
+            return {
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
+            };
+        }
+
+        const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
+
+        // "PullRequest" targets the type, "PullRequest.title" one of its fields
+        const [typeName, fieldName, ...rest] = target.trim().split('.');
+        const targetType = typeName ? schema.getType(typeName) : undefined;
+        if (!targetType || rest.length > 0) {
+            return {
+                error: `Target '${target}' not found in schema. Use a type name such as 'User' or a field coordinate such as 'User.name'.`,
+                code: 'TYPE_NOT_FOUND'
+            };
+        }
+        if (fieldName !== undefined) {
+            const fieldsType = asFieldsType(targetType);
+            if (!fieldsType || !fieldsType.getFields()[fieldName]) {
+                return {
+                    error: `Field '${fieldName}' not found on type '${targetType.name}'.`,
+                    code: 'FIELD_NOT_FOUND'
+                };
+            }
+        }
+
+        const paths = findPathsToType(schema, queryState.operationTypeName, targetType.name, fieldName ?? null, options);
+
+        return {
+            rootType: queryState.operationTypeName,
+            target,
+            paths,
+            ...(paths.length === 0 ? {
+                message: `No path from ${queryState.operationTypeName} to ${targetType.name} within ${Math.min(options.maxDepth ?? DEFAULT_MAX_DEPTH, MAX_DEPTH_LIMIT)} levels.`
+            } : {})
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const findPathsToTypeTool = {
+    name: "find-paths-to-type",
+    description: "Find the shortest field paths from the session's root operation type to a target type or field, with the required arguments along each path and the select-field calls that build it",
+    schema: {
+        sessionId: z.string().describe('The session ID from start-query-session.'),
+        target: z.string().describe('Type name (e.g. "PullRequest") or field coordinate (e.g. "PullRequest.title") to reach.'),
+        maxDepth: z.number().int().min(1).max(MAX_DEPTH_LIMIT).optional().describe(`Optional: Maximum path length in fields (default ${DEFAULT_MAX_DEPTH}).`),
+        maxPaths: z.number().int().min(1).max(MAX_PATHS_LIMIT).optional().describe(`Optional: Maximum number of paths to return (default ${DEFAULT_MAX_PATHS}).`),
+    },
+    outputSchema: {
+        rootType: z.string().optional(),
+        target: z.string().optional(),
+        paths: z.array(z.object({
+            path: z.string(),
+            depth: z.number(),
+            steps: z.array(z.object({
+                parentType: z.string(),
+                field: z.string(),
+                type: z.string(),
+                requiredArguments: z.array(z.object({ name: z.string(), type: z.string() })),
+                deprecated: z.boolean().optional(),
+            })),
+            inlineFragmentOn: z.string().optional(),
+            selectFieldCalls: z.array(z.object({ parentPath: z.string(), fieldName: z.string() })),
+        })).optional(),
+        message: z.string().optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ sessionId, target, maxDepth, maxPaths }: {
+        sessionId: string,
+        target: string,
+        maxDepth?: number,
+        maxPaths?: number
+    }) => {
+        const result = await findPathsToTargetType(sessionId, target, { maxDepth, maxPaths });
+
+        return toolResponse(result);
+    }
+};
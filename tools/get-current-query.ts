@@ -1,21 +1,26 @@
 import { z } from "zod";
 import { QueryState, loadQueryState, buildQueryFromStructure } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function getCurrentQuery(sessionId: string, prettyPrint: boolean = false): Promise<{
     queryString?: string;
+    variablesSchema?: Record<string, string>;
+    // Deprecated alias of variablesSchema
     variables_schema?: Record<string, string>;
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         if (!sessionId || typeof sessionId !== 'string' || sessionId.trim() === '') {
-            return { error: 'Invalid sessionId.' };
+            return { error: 'Invalid sessionId.', code: 'INVALID_INPUT' };
         }
         // Load query state
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
@@ -33,7 +38,7 @@ export async function getCurrentQuery(sessionId: string, prettyPrint: boolean =
         let warnings: string[] = [];
         try {
             const { fetchAndCacheSchema, GraphQLValidationUtils } = await import('./shared-utils.js');
-            const schema = await fetchAndCacheSchema(queryState.headers);
+            const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
             if (schema && GraphQLValidationUtils.validateRequiredArguments) {
                 const validation = GraphQLValidationUtils.validateRequiredArguments(
                     schema,
@@ -49,6 +54,7 @@ export async function getCurrentQuery(sessionId: string, prettyPrint: boolean =
 
         const result: any = {
             queryString: queryString,
+            variablesSchema: queryState.variablesSchema,
             variables_schema: queryState.variablesSchema
         };
 
@@ -73,14 +79,16 @@ export const getCurrentQueryTool = {
         sessionId: z.string().describe('The session ID from start-query-session.'),
         prettyPrint: z.boolean().default(false).describe('Whether to format the output query string.'),
     },
+    outputSchema: {
+        queryString: z.string().optional(),
+        variablesSchema: z.record(z.string()).optional().describe('Declared variables and their types, keyed by name (e.g. "$id": "ID!").'),
+        variables_schema: z.record(z.string()).optional().describe('Deprecated alias of variablesSchema.'),
+        warnings: z.array(z.string()).optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, prettyPrint = false }: { sessionId: string, prettyPrint?: boolean }) => {
         const result = await getCurrentQuery(sessionId, prettyPrint);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
@@ -1,37 +1,45 @@
 import { z } from "zod";
 import {
     GraphQLSchema,
+    getNamedType,
     isObjectType,
     isInterfaceType
 } from 'graphql';
 import { resolveEndpointAndHeaders, fetchAndCacheSchema, getTypeNameStr } from "./shared-utils.js";
+import { ConnectionInfo, getConnectionInfo } from "./connections.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function getFieldInfo(
     typeName: string,
-    fieldName: string
+    fieldName: string,
+    endpoint?: string
 ): Promise<{
     name?: string;
     description?: string;
     type?: string;
     args?: any[];
+    connection?: ConnectionInfo;
     error?: string;
+    code?: ToolErrorCode;
 }> {
-    const { url: resolvedUrl, headers } = resolveEndpointAndHeaders();
+    const { url: resolvedUrl, headers, error: endpointError } = resolveEndpointAndHeaders(endpoint);
 
     if (!resolvedUrl) {
         return {
-            error: "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)"
+            error: endpointError || "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)",
+            code: 'ENDPOINT_NOT_FOUND'
         };
     }
 
     try {
-        const schema = await fetchAndCacheSchema(headers);
+        const schema = await fetchAndCacheSchema(headers, endpoint);
         const gqlType = schema.getType(typeName);
 
         if (!gqlType || (!isObjectType(gqlType) && !isInterfaceType(gqlType))) {
             return {
-                error: `Type '${typeName}' not found or not an object/interface type`
+                error: `Type '${typeName}' not found or not an object/interface type`,
+                code: 'TYPE_NOT_FOUND'
             };
         }
 
@@ -40,7 +48,8 @@ export async function getFieldInfo(
 
         if (!field) {
             return {
-                error: `Field '${fieldName}' not found on type '${typeName}'`
+                error: `Field '${fieldName}' not found on type '${typeName}'`,
+                code: 'FIELD_NOT_FOUND'
             };
         }
 
@@ -51,11 +60,14 @@ export async function getFieldInfo(
             defaultValue: arg.defaultValue !== undefined ? String(arg.defaultValue) : null
         }));
 
+        const connection = getConnectionInfo(getNamedType(field.type));
+
         return {
             name: fieldName,
             description: field.description || undefined,
             type: getTypeNameStr(field.type),
-            args: argsInfo
+            args: argsInfo,
+            ...(connection ? { connection } : {})
         };
     } catch (error) {
         return {
@@ -70,15 +82,25 @@ export const getFieldInfoTool = {
     schema: {
         typeName: z.string().describe('The name of the parent GraphQL type.'),
         fieldName: z.string().describe('The name of the field to get information for.'),
+        endpoint: z.string().optional().describe('Optional: Name of the configured GraphQL endpoint to use (see list-endpoints). Defaults to the default endpoint.'),
+    },
+    outputSchema: {
+        name: z.string().optional(),
+        description: z.string().nullable().optional(),
+        type: z.string().optional(),
+        args: z.array(z.record(z.any())).optional(),
+        connection: z.object({
+            connectionType: z.string(),
+            nodeType: z.string(),
+            edgeType: z.string().nullable(),
+            hasNodesField: z.boolean(),
+            pageInfoFields: z.array(z.string()),
+        }).optional(),
+        ...toolErrorShape,
     },
-    handler: async ({ typeName, fieldName }: { typeName: string, fieldName: string }) => {
-        const result = await getFieldInfo(typeName, fieldName);
+    handler: async ({ typeName, fieldName, endpoint }: { typeName: string, fieldName: string, endpoint?: string }) => {
+        const result = await getFieldInfo(typeName, fieldName, endpoint);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
@@ -6,6 +6,7 @@ import {
     GraphQLNamedType
 } from 'graphql';
 import { fetchAndCacheSchema, resolveEndpointAndHeaders, getTypeNameStr } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Helper function to generate example values
 function generateExampleValue(gqlType: any): any {
@@ -28,7 +29,8 @@ function generateExampleValue(gqlType: any): any {
 
 // Core business logic - testable function
 export async function getInputObjectHelp(
-    inputTypeName: string
+    inputTypeName: string,
+    endpoint?: string
 ): Promise<{
     inputTypeName?: string;
     description?: string;
@@ -37,22 +39,25 @@ export async function getInputObjectHelp(
     exampleUsage?: string;
     message?: string;
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
-        const { url: resolvedUrl, headers } = resolveEndpointAndHeaders();
+        const { url: resolvedUrl, headers, error: endpointError } = resolveEndpointAndHeaders(endpoint);
 
         if (!resolvedUrl) {
             return {
-                error: "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)"
+                error: endpointError || "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)",
+                code: 'ENDPOINT_NOT_FOUND'
             };
         }
 
-        const schema = await fetchAndCacheSchema(headers);
+        const schema = await fetchAndCacheSchema(headers, endpoint);
         const inputType = schema.getType(inputTypeName);
 
         if (!inputType || !isInputObjectType(inputType)) {
             return {
-                error: `Input type '${inputTypeName}' not found or not an input object type`
+                error: `Input type '${inputTypeName}' not found or not an input object type`,
+                code: 'TYPE_NOT_FOUND'
             };
         }
 
@@ -97,17 +102,23 @@ export const getInputObjectHelpTool = {
     description: "Get guidance and field information for GraphQL input object types to help with argument construction",
     schema: {
         inputTypeName: z.string().describe('The name of the GraphQL input type to get help for.'),
+        endpoint: z.string().optional().describe('Optional: Name of the configured GraphQL endpoint to use (see list-endpoints). Defaults to the default endpoint.'),
     },
-    handler: async ({ inputTypeName }: {
-        inputTypeName: string
+    outputSchema: {
+        inputTypeName: z.string().optional(),
+        description: z.string().nullable().optional(),
+        fields: z.array(z.record(z.any())).optional(),
+        requiredFields: z.array(z.string()).optional(),
+        exampleUsage: z.string().optional(),
+        message: z.string().optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ inputTypeName, endpoint }: {
+        inputTypeName: string,
+        endpoint?: string
     }) => {
-        const result = await getInputObjectHelp(inputTypeName);
+        const result = await getInputObjectHelp(inputTypeName, endpoint);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
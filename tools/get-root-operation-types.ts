@@ -1,24 +1,27 @@
 import { z } from "zod";
 import { GraphQLSchema } from 'graphql';
 import { resolveEndpointAndHeaders, fetchAndCacheSchema } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
-export async function getRootOperationTypes(): Promise<{
+export async function getRootOperationTypes(endpoint?: string): Promise<{
     query_type?: string | null;
     mutation_type?: string | null;
     subscription_type?: string | null;
     error?: string;
+    code?: ToolErrorCode;
 }> {
-    const { url: resolvedUrl, headers } = resolveEndpointAndHeaders();
+    const { url: resolvedUrl, headers, error: endpointError } = resolveEndpointAndHeaders(endpoint);
 
     if (!resolvedUrl) {
         return {
-            error: "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)"
+            error: endpointError || "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)",
+            code: 'ENDPOINT_NOT_FOUND'
         };
     }
 
     try {
-        const schema = await fetchAndCacheSchema(headers);
+        const schema = await fetchAndCacheSchema(headers, endpoint);
         return {
             query_type: schema.getQueryType()?.name || null,
             mutation_type: schema.getMutationType()?.name || null,
@@ -36,15 +39,17 @@ export const getRootOperationTypesTool = {
     description: "Discover the available root operation types (Query, Mutation, Subscription) and their entry points",
     schema: {
         includeFieldCounts: z.boolean().default(false).describe('Include count of available fields for each root operation type.'),
+        endpoint: z.string().optional().describe('Optional: Name of the configured GraphQL endpoint to use (see list-endpoints). Defaults to the default endpoint.'),
     },
-    handler: async ({ includeFieldCounts = false }: { includeFieldCounts?: boolean }) => {
-        const result = await getRootOperationTypes();
+    outputSchema: {
+        query_type: z.string().nullable().optional(),
+        mutation_type: z.string().nullable().optional(),
+        subscription_type: z.string().nullable().optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ includeFieldCounts = false, endpoint }: { includeFieldCounts?: boolean, endpoint?: string }) => {
+        const result = await getRootOperationTypes(endpoint);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
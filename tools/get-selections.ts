@@ -10,6 +10,8 @@ import {
     getNamedType
 } from 'graphql';
 import { QueryState, loadQueryState, fetchAndCacheSchema, getTypeNameStr } from "./shared-utils.js";
+import { getConnectionInfo } from "./connections.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function getAvailableSelections(
@@ -18,18 +20,20 @@ export async function getAvailableSelections(
 ): Promise<{
     selections?: any[];
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         // Load query state
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
         // Get schema from cache
-        const schema = await fetchAndCacheSchema(queryState.headers);
+        const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
 
         // Resolve type at the current path
         let currentType: GraphQLType = schema.getType(queryState.operationTypeName)!;
@@ -42,7 +46,8 @@ export async function getAvailableSelections(
                 // Navigate through the query structure
                 if (!currentQueryNode.fields[part]) {
                     return {
-                        error: `Path '${currentPath}' not found in query structure`
+                        error: `Path '${currentPath}' not found in query structure`,
+                        code: 'FIELD_NOT_FOUND'
                     };
                 }
 
@@ -57,7 +62,8 @@ export async function getAvailableSelections(
                     const field: any = fields[part];
                     if (!field) {
                         return {
-                            error: `Field '${part}' not found on type '${unwrappedType.name}'`
+                            error: `Field '${part}' not found on type '${unwrappedType.name}'`,
+                            code: 'FIELD_NOT_FOUND'
                         };
                     }
                     currentType = field.type;
@@ -94,10 +100,16 @@ export async function getAvailableSelections(
                 }
                 enhancedDesc += ` Returns ${returnTypeStr}.${argSummary}`;
 
+                const connection = getConnectionInfo(getNamedType(field.type));
+                if (connection) {
+                    enhancedDesc += ` Relay connection of ${connection.nodeType}; use select-connection to select it with pagination.`;
+                }
+
                 selections.push({
                     name: fieldName,
                     type: returnTypeStr,
-                    description: enhancedDesc.trim()
+                    description: enhancedDesc.trim(),
+                    ...(connection ? { connection } : {})
                 });
             });
         }
@@ -140,14 +152,13 @@ export const getSelectionsTool = {
         sessionId: z.string().describe('The active session ID for query building.'),
         currentPath: z.string().default("").describe('Dot-notation path within the query structure (e.g., "user.address", or "" for root).'),
     },
+    outputSchema: {
+        selections: z.array(z.record(z.any())).optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, currentPath }: { sessionId: string, currentPath?: string }) => {
         const result = await getAvailableSelections(sessionId, currentPath || "");
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
@@ -7,6 +7,7 @@ import {
     isInputObjectType
 } from 'graphql';
 import { resolveEndpointAndHeaders, fetchAndCacheSchema, getTypeNameStr } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Helper function to safely convert values to strings
 function safeStringify(value: any): string {
@@ -62,7 +63,7 @@ function safeGetDescription(obj: any): string | null {
 }
 
 // Core business logic - testable function
-export async function getTypeInfo(typeName: string): Promise<{
+export async function getTypeInfo(typeName: string, endpoint?: string): Promise<{
     name?: string;
     kind?: string;
     description?: string;
@@ -70,22 +71,25 @@ export async function getTypeInfo(typeName: string): Promise<{
     enum_values?: any[];
     input_fields?: any[];
     error?: string;
+    code?: ToolErrorCode;
 }> {
-    const { url: resolvedUrl, headers } = resolveEndpointAndHeaders();
+    const { url: resolvedUrl, headers, error: endpointError } = resolveEndpointAndHeaders(endpoint);
 
     if (!resolvedUrl) {
         return {
-            error: "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)"
+            error: endpointError || "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)",
+            code: 'ENDPOINT_NOT_FOUND'
         };
     }
 
     try {
-        const schema = await fetchAndCacheSchema(headers);
+        const schema = await fetchAndCacheSchema(headers, endpoint);
         const gqlType = schema.getType(typeName);
 
         if (!gqlType) {
             return {
-                error: `Type '${typeName}' not found in schema`
+                error: `Type '${typeName}' not found in schema`,
+                code: 'TYPE_NOT_FOUND'
             };
         }
 
@@ -137,15 +141,20 @@ export const getTypeInfoTool = {
     description: "Get detailed information about a specific GraphQL type including fields, descriptions, and relationships",
     schema: {
         typeName: z.string().describe('The name of the GraphQL type to get information for.'),
+        endpoint: z.string().optional().describe('Optional: Name of the configured GraphQL endpoint to use (see list-endpoints). Defaults to the default endpoint.'),
     },
-    handler: async ({ typeName }: { typeName: string }) => {
-        const result = await getTypeInfo(typeName);
+    outputSchema: {
+        name: z.string().optional(),
+        kind: z.string().optional(),
+        description: z.string().nullable().optional(),
+        fields: z.array(z.record(z.any())).optional(),
+        enum_values: z.array(z.record(z.any())).optional(),
+        input_fields: z.array(z.record(z.any())).optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ typeName, endpoint }: { typeName: string, endpoint?: string }) => {
+        const result = await getTypeInfo(typeName, endpoint);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
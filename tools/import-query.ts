@@ -0,0 +1,460 @@
+import { z } from "zod";
+import {
+    parse,
+    print,
+    validate,
+    Kind,
+    DocumentNode,
+    OperationDefinitionNode,
+    FragmentDefinitionNode,
+    SelectionSetNode,
+    DirectiveNode,
+    ValueNode,
+    GraphQLError
+} from 'graphql';
+import {
+    resolveEndpointAndHeaders,
+    fetchAndCacheSchema,
+    loadQueryState,
+    saveQueryState,
+    generateSessionId,
+    buildQueryFromStructure,
+    validateInputComplexity,
+    QueryState
+} from "./shared-utils.js";
+import { getSchemaFingerprint } from "./schema-drift.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
+
+// Hand-written operations can be large, but a document this size is almost certainly a mistake
+const MAX_IMPORT_DOCUMENT_LENGTH = 100000;
+
+interface SelectionContainer {
+    fields: Record<string, any>;
+    fragmentSpreads: string[];
+    inlineFragments: any[];
+}
+
+// Convert a GraphQL literal into the representation used inside typed values, defaults and directive args
+function convertValue(node: ValueNode): any {
+    switch (node.kind) {
+        case Kind.VARIABLE:
+            return `$${node.name.value}`;
+        case Kind.INT:
+            return parseInt(node.value, 10);
+        case Kind.FLOAT:
+            return parseFloat(node.value);
+        case Kind.STRING:
+            return { __graphqlString: node.value };
+        case Kind.BOOLEAN:
+            return node.value;
+        case Kind.NULL:
+            return null;
+        case Kind.ENUM:
+            return { __graphqlEnum: node.value };
+        case Kind.LIST:
+            return node.values.map(convertValue);
+        case Kind.OBJECT: {
+            const result: Record<string, any> = {};
+            node.fields.forEach(field => {
+                result[field.name.value] = convertValue(field.value);
+            });
+            return result;
+        }
+    }
+}
+
+// Convert a field argument literal into the same shape the set-*-argument tools store
+function convertArgument(node: ValueNode): any {
+    switch (node.kind) {
+        case Kind.VARIABLE:
+            return `$${node.name.value}`;
+        case Kind.ENUM:
+            return { value: node.value, is_enum: true };
+        case Kind.STRING:
+            return { __graphqlString: node.value };
+        default:
+            return { value: convertValue(node), is_typed: true };
+    }
+}
+
+function convertDirectives(directives: readonly DirectiveNode[] | undefined): any[] {
+    return (directives || []).map(directive => ({
+        name: directive.name.value,
+        arguments: (directive.arguments || []).map(arg => ({
+            name: arg.name.value,
+            value: convertValue(arg.value)
+        }))
+    }));
+}
+
+function convertSelectionSet(
+    selectionSet: SelectionSetNode,
+    container: SelectionContainer,
+    unsupported: string[]
+): void {
+    for (const selection of selectionSet.selections) {
+        if (selection.kind === Kind.FIELD) {
+            const fieldName = selection.name.value;
+            const alias = selection.alias?.value || null;
+            const fieldKey = alias || fieldName;
+
+            const existing = container.fields[fieldKey];
+            const fieldNode = existing || {
+                fieldName,
+                alias,
+                args: {},
+                fields: {},
+                directives: [],
+                fragmentSpreads: [],
+                inlineFragments: []
+            };
+
+            if (!existing) {
+                (selection.arguments || []).forEach(arg => {
+                    fieldNode.args[arg.name.value] = convertArgument(arg.value);
+                });
+                fieldNode.directives = convertDirectives(selection.directives);
+                container.fields[fieldKey] = fieldNode;
+            }
+
+            // Repeated selections of the same response key are merged, as GraphQL execution does
+            if (selection.selectionSet) {
+                convertSelectionSet(selection.selectionSet, fieldNode, unsupported);
+            }
+        } else if (selection.kind === Kind.FRAGMENT_SPREAD) {
+            const fragmentName = selection.name.value;
+            if (selection.directives && selection.directives.length > 0) {
+                unsupported.push(`directives on fragment spread '...${fragmentName}'`);
+            }
+            if (!container.fragmentSpreads.includes(fragmentName)) {
+                container.fragmentSpreads.push(fragmentName);
+            }
+        } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+            if (!selection.typeCondition) {
+                unsupported.push('inline fragments without a type condition');
+                continue;
+            }
+            const onType = selection.typeCondition.name.value;
+            if (selection.directives && selection.directives.length > 0) {
+                unsupported.push(`directives on inline fragment '... on ${onType}'`);
+            }
+
+            const inlineFragment = {
+                on_type: onType,
+                selections: {} as Record<string, any>,
+                fragmentSpreads: [] as string[],
+                inlineFragments: [] as any[]
+            };
+            convertSelectionSet(selection.selectionSet, {
+                fields: inlineFragment.selections,
+                fragmentSpreads: inlineFragment.fragmentSpreads,
+                inlineFragments: inlineFragment.inlineFragments
+            }, unsupported);
+            container.inlineFragments.push(inlineFragment);
+        }
+    }
+}
+
+// Collect the fragments an operation depends on, directly or through other fragments
+function collectUsedFragments(
+    selectionSet: SelectionSetNode,
+    fragmentDefinitions: Map<string, FragmentDefinitionNode>,
+    used: Set<string>
+): void {
+    for (const selection of selectionSet.selections) {
+        if (selection.kind === Kind.FRAGMENT_SPREAD) {
+            const name = selection.name.value;
+            const definition = fragmentDefinitions.get(name);
+            if (!used.has(name) && definition) {
+                used.add(name);
+                collectUsedFragments(definition.selectionSet, fragmentDefinitions, used);
+            }
+        } else if (selection.selectionSet) {
+            collectUsedFragments(selection.selectionSet, fragmentDefinitions, used);
+        }
+    }
+}
+
+function formatErrors(errors: readonly GraphQLError[]): string[] {
+    return errors.map(error => error.message);
+}
+
+// Core business logic - testable function
+export async function importGraphQLQuery(
+    query: string,
+    operationName?: string,
+    sessionId?: string,
+    sessionHeaders?: Record<string, string>,
+    endpoint?: string
+): Promise<{
+    success?: boolean;
+    message?: string;
+    sessionId?: string;
+    operationType?: string;
+    operationName?: string | null;
+    query?: string;
+    variablesSchema?: Record<string, string>;
+    fragments?: string[];
+    errors?: string[];
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    if (!query || typeof query !== 'string' || query.trim() === '') {
+        return { error: 'A GraphQL document is required.', code: 'INVALID_INPUT' };
+    }
+
+    if (query.length > MAX_IMPORT_DOCUMENT_LENGTH) {
+        return { error: `GraphQL document exceeds the maximum allowed length of ${MAX_IMPORT_DOCUMENT_LENGTH} characters.`, code: 'LIMIT_EXCEEDED' };
+    }
+
+    let document: DocumentNode;
+    try {
+        document = parse(query);
+    } catch (error) {
+        return {
+            error: `Failed to parse GraphQL document: ${error instanceof Error ? error.message : String(error)}`,
+            code: 'INVALID_INPUT'
+        };
+    }
+
+    const operations = document.definitions.filter(
+        (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION
+    );
+    const fragmentDefinitions = new Map<string, FragmentDefinitionNode>();
+    document.definitions.forEach(definition => {
+        if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+            fragmentDefinitions.set(definition.name.value, definition);
+        }
+    });
+
+    if (operations.length === 0) {
+        return { error: 'The GraphQL document does not contain an operation.', code: 'INVALID_INPUT' };
+    }
+
+    let operation: OperationDefinitionNode | undefined;
+    if (operationName) {
+        operation = operations.find(op => op.name?.value === operationName);
+        if (!operation) {
+            const available = operations.map(op => op.name?.value).filter(Boolean);
+            return {
+                error: `Operation '${operationName}' not found in document. Available operations: ${available.join(', ') || 'none'}.`,
+                code: 'INVALID_INPUT'
+            };
+        }
+    } else if (operations.length > 1) {
+        const available = operations.map(op => op.name?.value || '(anonymous)');
+        return {
+            error: `The document contains ${operations.length} operations (${available.join(', ')}). Specify operationName to choose one.`,
+            code: 'INVALID_INPUT'
+        };
+    } else {
+        operation = operations[0];
+    }
+
+    try {
+        // Resolve endpoint and headers from the session being replaced, or from the registry for a new session
+        let existingState: QueryState | null = null;
+        let headers: Record<string, string>;
+        let endpointName: string | undefined;
+        if (sessionId) {
+            existingState = await loadQueryState(sessionId);
+            if (!existingState) {
+                return { error: 'Session not found.', code: 'SESSION_NOT_FOUND' };
+            }
+            headers = existingState.headers;
+            endpointName = existingState.endpoint;
+        } else {
+            const { url: resolvedUrl, headers: envHeaders, endpoint: resolvedEndpoint, error: endpointError } = resolveEndpointAndHeaders(endpoint);
+            if (!resolvedUrl) {
+                return {
+                    error: endpointError || "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)",
+                    code: 'ENDPOINT_NOT_FOUND'
+                };
+            }
+            headers = { ...envHeaders, ...sessionHeaders };
+            endpointName = resolvedEndpoint;
+
+            const complexityError = validateInputComplexity(headers, "headers");
+            if (complexityError) {
+                return { error: complexityError, code: 'LIMIT_EXCEEDED' };
+            }
+        }
+
+        const schema = await fetchAndCacheSchema(headers, endpointName);
+
+        // Only the chosen operation and the fragments it reaches are imported and validated
+        const usedFragments = new Set<string>();
+        collectUsedFragments(operation.selectionSet, fragmentDefinitions, usedFragments);
+        const operationDocument: DocumentNode = {
+            kind: Kind.DOCUMENT,
+            definitions: [
+                operation,
+                ...Array.from(fragmentDefinitions.values()).filter(f => usedFragments.has(f.name.value))
+            ]
+        };
+
+        const validationErrors = validate(schema, operationDocument);
+        if (validationErrors.length > 0) {
+            return {
+                error: 'The GraphQL document is not valid against the schema.',
+                code: 'VALIDATION_FAILED',
+                errors: formatErrors(validationErrors)
+            };
+        }
+
+        const rootType = operation.operation === 'query'
+            ? schema.getQueryType()
+            : operation.operation === 'mutation'
+                ? schema.getMutationType()
+                : schema.getSubscriptionType();
+        if (!rootType) {
+            return { error: `Operation type '${operation.operation}' not supported by schema or invalid`, code: 'INVALID_INPUT' };
+        }
+
+        const unsupported: string[] = [];
+
+        const variablesSchema: Record<string, string> = {};
+        const variablesDefaults: Record<string, any> = {};
+        (operation.variableDefinitions || []).forEach(definition => {
+            const variableName = `$${definition.variable.name.value}`;
+            variablesSchema[variableName] = print(definition.type);
+            if (definition.defaultValue) {
+                variablesDefaults[variableName] = convertValue(definition.defaultValue);
+            }
+            if (definition.directives && definition.directives.length > 0) {
+                unsupported.push(`directives on variable '${variableName}'`);
+            }
+        });
+
+        const queryStructure: SelectionContainer = {
+            fields: {},
+            fragmentSpreads: [],
+            inlineFragments: []
+        };
+        convertSelectionSet(operation.selectionSet, queryStructure, unsupported);
+
+        const fragments: Record<string, any> = {};
+        for (const fragmentName of usedFragments) {
+            const definition = fragmentDefinitions.get(fragmentName)!;
+            if (definition.directives && definition.directives.length > 0) {
+                unsupported.push(`directives on fragment '${fragmentName}'`);
+            }
+            const fragment = {
+                onType: definition.typeCondition.name.value,
+                fields: {},
+                fragmentSpreads: [],
+                inlineFragments: []
+            };
+            convertSelectionSet(definition.selectionSet, fragment, unsupported);
+            fragments[fragmentName] = fragment;
+        }
+
+        if (unsupported.length > 0) {
+            return {
+                error: `The document uses features that cannot be represented in a session: ${Array.from(new Set(unsupported)).join('; ')}.`,
+                code: 'INVALID_INPUT'
+            };
+        }
+
+        const queryState: QueryState = {
+            headers,
+            endpoint: endpointName,
+            schemaFingerprint: getSchemaFingerprint(schema),
+            operationType: operation.operation,
+            operationTypeName: rootType.name,
+            operationName: operation.name?.value || null,
+            queryStructure,
+            fragments,
+            variablesSchema,
+            variablesDefaults,
+            variablesValues: existingState?.variablesValues || {},
+            operationDirectives: convertDirectives(operation.directives),
+            createdAt: existingState?.createdAt || new Date().toISOString()
+        };
+
+        // Keep only values for variables the imported operation still declares
+        queryState.variablesValues = Object.fromEntries(
+            Object.entries(queryState.variablesValues).filter(([name]) => name in variablesSchema)
+        );
+
+        const builtQuery = buildQueryFromStructure(
+            queryState.queryStructure,
+            queryState.operationType,
+            queryState.variablesSchema,
+            queryState.operationName,
+            queryState.fragments,
+            queryState.operationDirectives,
+            queryState.variablesDefaults
+        );
+
+        // Round-trip check: the regenerated query must still be valid
+        let roundTripErrors: readonly GraphQLError[];
+        try {
+            roundTripErrors = validate(schema, parse(builtQuery));
+        } catch (error) {
+            roundTripErrors = [error instanceof GraphQLError ? error : new GraphQLError(String(error))];
+        }
+        if (roundTripErrors.length > 0) {
+            return {
+                error: 'The imported operation could not be reproduced faithfully.',
+                code: 'INVALID_INPUT',
+                errors: formatErrors(roundTripErrors)
+            };
+        }
+
+        const targetSessionId = sessionId || generateSessionId();
+        await saveQueryState(targetSessionId, queryState);
+
+        return {
+            success: true,
+            message: sessionId
+                ? `Replaced the operation in session ${sessionId}. Use undo to restore the previous query.`
+                : `Imported ${operation.operation} into a new session.`,
+            sessionId: targetSessionId,
+            operationType: queryState.operationType,
+            operationName: queryState.operationName,
+            query: builtQuery,
+            variablesSchema,
+            fragments: Object.keys(fragments)
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const importQueryTool = {
+    name: "import-query",
+    description: "Import an existing GraphQL document (fields, aliases, arguments, variables, directives and fragments) into a query-building session so it can be modified incrementally",
+    schema: {
+        query: z.string().describe('The GraphQL document to import.'),
+        operationName: z.string().optional().describe('Which operation to import when the document contains several.'),
+        sessionId: z.string().optional().describe('Optional: replace the operation of an existing session instead of starting a new one. The previous query can be restored with undo.'),
+        headers: z.record(z.string()).optional().describe('Optional: Custom HTTP headers for a new session (e.g., for authentication).'),
+        endpoint: z.string().optional().describe('Optional: Name of the configured GraphQL endpoint for a new session (see list-endpoints). Defaults to the default endpoint.'),
+    },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        sessionId: z.string().optional(),
+        operationType: z.string().optional(),
+        operationName: z.string().nullable().optional(),
+        query: z.string().optional(),
+        variablesSchema: z.record(z.string()).optional().describe('Declared variables and their types, keyed by name (e.g. "$id": "ID!").'),
+        fragments: z.array(z.string()).optional(),
+        errors: z.array(z.string()).optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ query, operationName, sessionId, headers, endpoint }: {
+        query: string,
+        operationName?: string,
+        sessionId?: string,
+        headers?: Record<string, string>,
+        endpoint?: string
+    }) => {
+        const result = await importGraphQLQuery(query, operationName, sessionId, headers, endpoint);
+
+        return toolResponse(result);
+    }
+};
@@ -3,10 +3,18 @@ export { introspectSchemaTool } from "./introspect-schema.js";
 export { getRootOperationTypesTool } from "./get-root-operation-types.js";
 export { getTypeInfoTool } from "./get-type-info.js";
 export { getFieldInfoTool } from "./get-field-info.js";
+export { listEndpointsTool } from "./list-endpoints.js";
+export { refreshSchemaTool } from "./refresh-schema.js";
+export { diffSchemaTool } from "./diff-schema.js";
+export { searchSchemaTool } from "./search-schema.js";
+export { summarizeSchemaTool } from "./summarize-schema.js";
 export { startQuerySessionTool } from "./start-query-session.js";
 export { endQuerySessionTool } from "./end-query-session.js";
 export { selectFieldTool } from "./select-field.js";
+export { findPathsToTypeTool } from "./find-paths-to-type.js";
+export { selectConnectionTool } from "./select-connection.js";
 export { executeQueryTool } from "./execute-query.js";
+export { mockExecuteTool } from "./mock-execute.js";
 
 // Additional tools extracted
 export { getCurrentQueryTool } from "./get-current-query.js";
@@ -26,19 +34,37 @@ export { setOperationDirectiveTool } from "./set-operation-directive.js";
 export { validateQueryTool } from "./validate-query.js";
 export { getInputObjectHelpTool } from "./get-input-object-help.js";
 export { setInputObjectArgumentTool } from "./set-input-object-argument.js";
+export { undoTool, redoTool, getSessionHistoryTool } from "./session-history.js";
+export { importQueryTool } from "./import-query.js";
+export { removeFieldTool } from "./remove-field.js";
+export { removeArgumentTool } from "./remove-argument.js";
+export { removeDirectiveTool } from "./remove-directive.js";
+export { removeFragmentTool } from "./remove-fragment.js";
+export { renameAliasTool } from "./rename-alias.js";
+export { applyOperationsTool } from "./apply-operations.js";
+export { analyzeQueryComplexityTool } from "./analyze-query-complexity.js";
 
 // Shared utilities
 export * from "./shared-utils.js";
+export * from "./session-store.js";
 
 // Import all tools for the catalog
 import { introspectSchemaTool } from "./introspect-schema.js";
 import { getRootOperationTypesTool } from "./get-root-operation-types.js";
 import { getTypeInfoTool } from "./get-type-info.js";
 import { getFieldInfoTool } from "./get-field-info.js";
+import { listEndpointsTool } from "./list-endpoints.js";
+import { refreshSchemaTool } from "./refresh-schema.js";
+import { diffSchemaTool } from "./diff-schema.js";
+import { searchSchemaTool } from "./search-schema.js";
+import { summarizeSchemaTool } from "./summarize-schema.js";
 import { startQuerySessionTool } from "./start-query-session.js";
 import { endQuerySessionTool } from "./end-query-session.js";
 import { selectFieldTool } from "./select-field.js";
+import { findPathsToTypeTool } from "./find-paths-to-type.js";
+import { selectConnectionTool } from "./select-connection.js";
 import { executeQueryTool } from "./execute-query.js";
+import { mockExecuteTool } from "./mock-execute.js";
 import { getCurrentQueryTool } from "./get-current-query.js";
 import { getSelectionsTool } from "./get-selections.js";
 import { selectMultipleFieldsTool } from "./select-multiple-fields.js";
@@ -56,100 +82,55 @@ import { setOperationDirectiveTool } from "./set-operation-directive.js";
 import { validateQueryTool } from "./validate-query.js";
 import { getInputObjectHelpTool } from "./get-input-object-help.js";
 import { setInputObjectArgumentTool } from "./set-input-object-argument.js";
-import { analyzeQueryComplexity } from './shared-utils.js';
-import { z } from 'zod';
-
-// Add query complexity analysis tool
-const analyzeQueryComplexityTool = {
-    name: 'analyze-query-complexity',
-    description: 'Analyze the complexity, depth, and performance characteristics of the current query structure',
-    schema: {
-        sessionId: z.string().describe('The session ID of the query to analyze')
-    },
-    handler: async ({ sessionId }: { sessionId: string }) => {
-        try {
-            const { loadQueryState } = await import('./shared-utils.js');
-
-            const queryState = await loadQueryState(sessionId);
-            if (!queryState) {
-                return {
-                    content: [{
-                        type: 'text',
-                        text: JSON.stringify({
-                            error: 'Session not found.'
-                        })
-                    }]
-                };
-            }
-
-            const analysis = analyzeQueryComplexity(
-                queryState.queryStructure,
-                queryState.operationType
-            );
-
-            return {
-                content: [{
-                    type: 'text',
-                    text: JSON.stringify({
-                        success: true,
-                        analysis: {
-                            valid: analysis.valid,
-                            depth: analysis.depth,
-                            fieldCount: analysis.fieldCount,
-                            complexityScore: Math.round(analysis.complexityScore * 100) / 100,
-                            maxDepth: 12, // MAX_QUERY_COMPLEXITY.DEPTH
-                            maxFieldCount: 200, // MAX_QUERY_COMPLEXITY.FIELD_COUNT
-                            maxComplexityScore: 2500, // MAX_QUERY_COMPLEXITY.TOTAL_COMPLEXITY_SCORE
-                            errors: analysis.errors,
-                            warnings: analysis.warnings,
-                            recommendations: analysis.complexityScore > 1800 ?
-                                ['Consider reducing query depth', 'Limit the number of fields requested', 'Use pagination for large result sets'] :
-                                analysis.depth > 9 ?
-                                    ['Consider reducing query nesting depth'] :
-                                    []
-                        }
-                    })
-                }]
-            };
-        } catch (error) {
-            return {
-                content: [{
-                    type: 'text',
-                    text: JSON.stringify({
-                        error: error instanceof Error ? error.message : String(error)
-                    })
-                }]
-            };
-        }
-    }
-};
+import { undoTool, redoTool, getSessionHistoryTool } from "./session-history.js";
+import { importQueryTool } from "./import-query.js";
+import { removeFieldTool } from "./remove-field.js";
+import { removeArgumentTool } from "./remove-argument.js";
+import { removeDirectiveTool } from "./remove-directive.js";
+import { removeFragmentTool } from "./remove-fragment.js";
+import { renameAliasTool } from "./rename-alias.js";
+import { applyOperationsTool } from "./apply-operations.js";
+import { analyzeQueryComplexityTool } from "./analyze-query-complexity.js";
 
 /**
  * Complete tool catalog for GraphQL query building
  * All tools organized by category for easy access
  */
 export const TOOL_CATALOG = {
-    // Schema Introspection Tools (5 tools)
+    // Schema Introspection Tools (10 tools)
     schema: {
+        listEndpoints: listEndpointsTool,
         introspectSchema: introspectSchemaTool,
+        refreshSchema: refreshSchemaTool,
+        diffSchema: diffSchemaTool,
+        searchSchema: searchSchemaTool,
+        summarizeSchema: summarizeSchemaTool,
         getRootOperationTypes: getRootOperationTypesTool,
         getTypeInfo: getTypeInfoTool,
         getFieldInfo: getFieldInfoTool,
         getInputObjectHelp: getInputObjectHelpTool,
     },
 
-    // Session Management Tools (4 tools)
+    // Session Management Tools (8 tools)
     session: {
         startQuerySession: startQuerySessionTool,
+        importQuery: importQueryTool,
         endQuerySession: endQuerySessionTool,
         getCurrentQuery: getCurrentQueryTool,
         getSelections: getSelectionsTool,
+        undo: undoTool,
+        redo: redoTool,
+        getSessionHistory: getSessionHistoryTool,
     },
 
-    // Field Selection Tools (2 tools)
+    // Field Selection Tools (6 tools)
     fields: {
         selectField: selectFieldTool,
         selectMultipleFields: selectMultipleFieldsTool,
+        selectConnection: selectConnectionTool,
+        removeField: removeFieldTool,
+        renameAlias: renameAliasTool,
+        findPathsToType: findPathsToTypeTool,
     },
 
     // Variable Management Tools (3 tools)
@@ -159,31 +140,40 @@ export const TOOL_CATALOG = {
         removeQueryVariable: removeQueryVariableTool,
     },
 
-    // Argument Tools (4 tools)
+    // Argument Tools (5 tools)
     arguments: {
         setStringArgument: setStringArgumentTool,
         setTypedArgument: setTypedArgumentTool,
         setInputObjectArgument: setInputObjectArgumentTool,
         setVariableArgument: setVariableArgumentTool,
+        removeArgument: removeArgumentTool,
     },
 
-    // Fragment Tools (3 tools)
+    // Fragment Tools (4 tools)
     fragments: {
         defineNamedFragment: defineNamedFragmentTool,
         applyNamedFragment: applyNamedFragmentTool,
         applyInlineFragment: applyInlineFragmentTool,
+        removeFragment: removeFragmentTool,
     },
 
-    // Directive Tools (2 tools)
+    // Directive Tools (3 tools)
     directives: {
         setFieldDirective: setFieldDirectiveTool,
         setOperationDirective: setOperationDirectiveTool,
+        removeDirective: removeDirectiveTool,
+    },
+
+    // Batch Tools (1 tool)
+    batch: {
+        applyOperations: applyOperationsTool,
     },
 
-    // Validation and Execution Tools (3 tools)
+    // Validation and Execution Tools (4 tools)
     validation: {
         validateQuery: validateQueryTool,
         executeQuery: executeQueryTool,
+        mockExecute: mockExecuteTool,
         analyzeQueryComplexity: analyzeQueryComplexityTool,
     },
 } as const;
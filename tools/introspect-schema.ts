@@ -1,69 +1,262 @@
 import { z } from "zod";
-import { GraphQLSchema, printSchema } from 'graphql';
-import { resolveEndpointAndHeaders, fetchAndCacheSchema, rawSchemaJsonCache } from "./shared-utils.js";
+import {
+    GraphQLSchema,
+    GraphQLNamedType,
+    GraphQLObjectType,
+    printSchema,
+    printType,
+    getNamedType,
+    isObjectType,
+    isInterfaceType,
+    isUnionType,
+    isInputObjectType,
+    isIntrospectionType,
+    isSpecifiedScalarType
+} from 'graphql';
+import { resolveEndpointAndHeaders, fetchAndCacheSchema, rawSchemaJsonCache, DEFAULT_ENDPOINT_NAME } from "./shared-utils.js";
+import { getSchemaFingerprint } from "./schema-drift.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
+
+type SchemaFormat = 'sdl' | 'json' | 'both';
+
+// Define a size limit (e.g., 800KB) for the response payload
+const MAX_SCHEMA_SIZE_BYTES = 800 * 1024;
+const DEFAULT_CHUNK_SIZE_BYTES = 100 * 1024;
+
+// Types printSchema emits, in schema order
+function definedTypes(schema: GraphQLSchema): GraphQLNamedType[] {
+    return Object.values(schema.getTypeMap())
+        .filter(type => !isIntrospectionType(type) && !isSpecifiedScalarType(type));
+}
+
+// Schema definition and custom directives: everything printSchema emits before the first type
+function printPreamble(schema: GraphQLSchema, types: GraphQLNamedType[]): string {
+    const sdl = printSchema(schema);
+    const typesSdl = types.map(type => printType(type)).join('\n\n');
+    return typesSdl && sdl.endsWith(typesSdl) ? sdl.slice(0, sdl.length - typesSdl.length).trim() : '';
+}
+
+/**
+ * Named types a root field can return or accept, including the possible types
+ * of unions and interfaces, which inline fragments can select.
+ */
+function typesReachableFrom(schema: GraphQLSchema, rootType: GraphQLObjectType, fieldName: string): Set<string> {
+    const reachable = new Set<string>();
+    const pending: GraphQLNamedType[] = [];
+    const visit = (type: GraphQLNamedType) => {
+        if (!reachable.has(type.name) && !isIntrospectionType(type) && !isSpecifiedScalarType(type)) {
+            reachable.add(type.name);
+            pending.push(type);
+        }
+    };
+
+    const rootField = rootType.getFields()[fieldName];
+    visit(getNamedType(rootField.type));
+    rootField.args.forEach(arg => visit(getNamedType(arg.type)));
+
+    while (pending.length > 0) {
+        const type = pending.pop()!;
+        if (isObjectType(type) || isInterfaceType(type)) {
+            Object.values(type.getFields()).forEach(field => {
+                visit(getNamedType(field.type));
+                field.args.forEach(arg => visit(getNamedType(arg.type)));
+            });
+            type.getInterfaces().forEach(visit);
+        }
+        if (isInterfaceType(type) || isUnionType(type)) {
+            schema.getPossibleTypes(type).forEach(visit);
+        }
+        if (isInputObjectType(type)) {
+            Object.values(type.getFields()).forEach(field => visit(getNamedType(field.type)));
+        }
+    }
+
+    return reachable;
+}
 
 // Core business logic - testable function
-export async function introspectGraphQLSchema(): Promise<{
+export async function introspectGraphQLSchema(endpoint?: string, options: {
+    format?: SchemaFormat;
+    rootField?: string;
+    cursor?: string;
+    maxBytes?: number;
+} = {}): Promise<{
     schemaSdl?: string;
     fullSchemaJson?: any;
+    chunk?: {
+        cursor: string | null;
+        nextCursor: string | null;
+        firstType: string | null;
+        lastType: string | null;
+        typeCount: number;
+        totalTypes: number;
+    };
     error?: string;
+    code?: ToolErrorCode;
     schemaDetails?: any;
 }> {
-    const { url: resolvedUrl, headers } = resolveEndpointAndHeaders();
+    const format = options.format || 'both';
+    const { url: resolvedUrl, headers, endpoint: endpointName, error: endpointError } = resolveEndpointAndHeaders(endpoint);
 
     if (!resolvedUrl) {
         return {
-            error: "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)"
+            error: endpointError || "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)",
+            code: 'ENDPOINT_NOT_FOUND'
         };
     }
 
     try {
-        const schema = await fetchAndCacheSchema(headers);
-        const rawJson = rawSchemaJsonCache.get(resolvedUrl) || {};
-        const schemaSdl = printSchema(schema);
+        const schema = await fetchAndCacheSchema(headers, endpoint);
+        const rawJson = rawSchemaJsonCache.get(endpointName || DEFAULT_ENDPOINT_NAME) || {};
+        const includeSdl = format !== 'json';
+        const includeJson = format !== 'sdl';
+
+        if (!options.rootField && options.cursor === undefined && options.maxBytes === undefined) {
+            const schemaSdl = includeSdl ? printSchema(schema) : '';
+            const rawJsonString = includeJson ? JSON.stringify(rawJson) : '';
+            const estimatedSizeBytes = schemaSdl.length + rawJsonString.length;
 
-        // Define a size limit (e.g., 800KB) for the response payload
-        const MAX_SCHEMA_SIZE_BYTES = 800 * 1024;
-        const rawJsonString = JSON.stringify(rawJson);
-        const estimatedSizeBytes = schemaSdl.length + rawJsonString.length;
+            if (estimatedSizeBytes > MAX_SCHEMA_SIZE_BYTES) {
+                return {
+                    error: `Schema is too large to return directly (estimated ${Math.round(estimatedSizeBytes / 1024)}KB). Request it in chunks with maxBytes and cursor, limit it to one root field with rootField, or use search-schema and get-type-info for schema exploration.`,
+                    code: 'LIMIT_EXCEEDED',
+                    schemaDetails: {
+                        character_count_sdl: schemaSdl.length,
+                        character_count_json_string: rawJsonString.length,
+                        estimated_total_kb: Math.round(estimatedSizeBytes / 1024),
+                        limit_kb: MAX_SCHEMA_SIZE_BYTES / 1024
+                    }
+                };
+            }
 
-        if (estimatedSizeBytes > MAX_SCHEMA_SIZE_BYTES) {
             return {
-                error: `Schema is too large to return directly (estimated ${Math.round(estimatedSizeBytes / 1024)}KB). Please use get-root-operation-types and get-type-info for schema exploration.`,
-                schemaDetails: {
-                    character_count_sdl: schemaSdl.length,
-                    character_count_json_string: rawJsonString.length,
-                    estimated_total_kb: Math.round(estimatedSizeBytes / 1024),
-                    limit_kb: MAX_SCHEMA_SIZE_BYTES / 1024
-                }
+                ...(includeSdl ? { schemaSdl } : {}),
+                ...(includeJson ? { fullSchemaJson: rawJson } : {})
             };
         }
 
+        const jsonTypes = new Map<string, any>((rawJson.__schema?.types || []).map((type: any) => [type.name, type]));
+        let types = definedTypes(schema);
+        let preamble = '';
+        if (options.rootField) {
+            // "repository" is a Query field; "Mutation.createIssue" names the root type explicitly
+            const [rootTypeName, fieldName] = options.rootField.includes('.')
+                ? options.rootField.split('.', 2)
+                : [schema.getQueryType()?.name || 'Query', options.rootField];
+            const rootType = schema.getType(rootTypeName);
+            const isRootType = [schema.getQueryType(), schema.getMutationType(), schema.getSubscriptionType()]
+                .some(type => type && type.name === rootTypeName);
+            if (!rootType || !isObjectType(rootType) || !isRootType || !rootType.getFields()[fieldName]) {
+                return {
+                    error: `Root field '${options.rootField}' not found. Use a Query field name such as 'user' or a coordinate such as 'Mutation.createUser'.`,
+                    code: 'FIELD_NOT_FOUND'
+                };
+            }
+
+            const reachable = typesReachableFrom(schema, rootType, fieldName);
+            const rootConfig = rootType.toConfig();
+            const trimmedRoot = new GraphQLObjectType({
+                ...rootConfig,
+                fields: { [fieldName]: rootConfig.fields[fieldName] }
+            });
+            types = [trimmedRoot, ...types.filter(type => type !== rootType && reachable.has(type.name))];
+            const rootJson = jsonTypes.get(rootType.name);
+            if (rootJson) {
+                jsonTypes.set(rootType.name, { ...rootJson, fields: rootJson.fields.filter((field: any) => field.name === fieldName) });
+            }
+        }
+
+        const fingerprint = getSchemaFingerprint(schema);
+        let start = 0;
+        if (options.cursor) {
+            // Cursors name the schema they were issued for, so a refresh between chunks is noticed
+            const [cursorFingerprint, index] = options.cursor.split(':');
+            start = Number(index);
+            if (cursorFingerprint !== fingerprint || !Number.isInteger(start) || start < 0 || start > types.length) {
+                return {
+                    error: `Invalid or expired cursor '${options.cursor}'. The schema may have changed; request the first chunk again without a cursor.`,
+                    code: 'INVALID_INPUT'
+                };
+            }
+        } else if (!options.rootField) {
+            preamble = printPreamble(schema, types);
+        }
+
+        const maxBytes = Math.min(options.maxBytes ?? DEFAULT_CHUNK_SIZE_BYTES, MAX_SCHEMA_SIZE_BYTES);
+        const sdlParts: string[] = preamble ? [preamble] : [];
+        const jsonParts: any[] = [];
+        let bytes = Buffer.byteLength(preamble);
+        let end = start;
+
+        while (end < types.length) {
+            const type = types[end];
+            const sdl = includeSdl ? printType(type) : '';
+            const json = includeJson ? jsonTypes.get(type.name) : undefined;
+            const size = Buffer.byteLength(sdl) + (json ? Buffer.byteLength(JSON.stringify(json)) : 0);
+
+            // Every chunk carries at least one type, even one larger than maxBytes
+            if (end > start && bytes + size > maxBytes) break;
+            if (sdl) sdlParts.push(sdl);
+            if (json) jsonParts.push(json);
+            bytes += size;
+            end++;
+        }
+
         return {
-            schemaSdl: schemaSdl,
-            fullSchemaJson: rawJson
+            ...(includeSdl ? { schemaSdl: sdlParts.join('\n\n') } : {}),
+            ...(includeJson ? {
+                fullSchemaJson: { __schema: { ...rawJson.__schema, types: jsonParts } }
+            } : {}),
+            chunk: {
+                cursor: options.cursor || null,
+                nextCursor: end < types.length ? `${fingerprint}:${end}` : null,
+                firstType: types[start]?.name || null,
+                lastType: end > start ? types[end - 1].name : null,
+                typeCount: end - start,
+                totalTypes: types.length
+            }
         };
     } catch (error) {
         return {
-            error: error instanceof Error ? `Failed to introspect schema: ${error.message}` : String(error)
+            error: error instanceof Error ? `Failed to introspect schema: ${error.message}` : String(error),
+            code: 'SCHEMA_UNAVAILABLE'
         };
     }
 }
 
 export const introspectSchemaTool = {
     name: "introspect-schema",
-    description: "Retrieve the complete GraphQL schema definition for API understanding and exploration",
+    description: "Retrieve the GraphQL schema definition for API understanding and exploration; large schemas can be read in chunks or limited to the types reachable from one root field",
     schema: {
         format: z.enum(['sdl', 'json', 'both']).default('both').describe('Format to return schema in: SDL text, JSON object, or both.'),
+        rootField: z.string().optional().describe('Optional: Only return the types reachable from this root field, e.g. "repository" (a Query field) or "Mutation.createIssue".'),
+        maxBytes: z.number().int().min(1024).max(MAX_SCHEMA_SIZE_BYTES).optional().describe(`Optional: Return the schema in chunks of whole type definitions of at most this many bytes (default ${DEFAULT_CHUNK_SIZE_BYTES} when chunking).`),
+        cursor: z.string().optional().describe('Optional: The nextCursor of the previous chunk, to read the following types. Pass the same format and rootField as before.'),
+        endpoint: z.string().optional().describe('Optional: Name of the configured GraphQL endpoint to use (see list-endpoints). Defaults to the default endpoint.'),
     },
-    handler: async ({ format = 'both' }: { format?: 'sdl' | 'json' | 'both' }) => {
-        const result = await introspectGraphQLSchema();
+    outputSchema: {
+        schemaSdl: z.string().optional(),
+        fullSchemaJson: z.any().optional(),
+        chunk: z.object({
+            cursor: z.string().nullable(),
+            nextCursor: z.string().nullable(),
+            firstType: z.string().nullable(),
+            lastType: z.string().nullable(),
+            typeCount: z.number(),
+            totalTypes: z.number(),
+        }).optional(),
+        schemaDetails: z.record(z.any()).optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ format = 'both', rootField, maxBytes, cursor, endpoint }: {
+        format?: SchemaFormat,
+        rootField?: string,
+        maxBytes?: number,
+        cursor?: string,
+        endpoint?: string
+    }) => {
+        const result = await introspectGraphQLSchema(endpoint, { format, rootField, maxBytes, cursor });
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { loadEndpointRegistry, sanitizeUrlForLogging, DEFAULT_ENDPOINT_NAME } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
+
+// Core business logic - testable function
+export async function listGraphQLEndpoints(): Promise<{
+    endpoints?: Array<{
+        name: string;
+        url: string;
+        isDefault: boolean;
+        headerNames: string[];
+        schemaSource: 'file' | 'introspection';
+        limits: {
+            maxDepth: number;
+            maxFieldCount: number;
+            maxComplexityScore: number;
+            maxCost: number;
+            timeoutMs?: number;
+        };
+    }>;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    try {
+        const registry = loadEndpointRegistry();
+        if (registry.size === 0) {
+            return {
+                error: "No GraphQL endpoints configured. Set DEFAULT_GRAPHQL_ENDPOINT or GRAPHQL_ENDPOINTS.",
+                code: 'ENDPOINT_NOT_FOUND'
+            };
+        }
+
+        // Header values may hold credentials, so only their names are listed
+        const endpoints = Array.from(registry.values()).map(endpoint => ({
+            name: endpoint.name,
+            url: sanitizeUrlForLogging(endpoint.url),
+            isDefault: endpoint.name === DEFAULT_ENDPOINT_NAME,
+            headerNames: Object.keys(endpoint.headers),
+            schemaSource: endpoint.schemaFile ? 'file' as const : 'introspection' as const,
+            limits: {
+                maxDepth: endpoint.limits.DEPTH,
+                maxFieldCount: endpoint.limits.FIELD_COUNT,
+                maxComplexityScore: endpoint.limits.TOTAL_COMPLEXITY_SCORE,
+                maxCost: endpoint.limits.TOTAL_COST,
+                ...(endpoint.timeoutMs !== undefined ? { timeoutMs: endpoint.timeoutMs } : {})
+            }
+        }));
+
+        return { endpoints };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const listEndpointsTool = {
+    name: "list-endpoints",
+    description: "List the GraphQL endpoints this server is allowed to query, with their limits; pass a name as 'endpoint' to start-query-session and the schema tools",
+    schema: {},
+    outputSchema: {
+        endpoints: z.array(z.object({
+            name: z.string(),
+            url: z.string(),
+            isDefault: z.boolean(),
+            headerNames: z.array(z.string()),
+            schemaSource: z.enum(['file', 'introspection']),
+            limits: z.object({
+                maxDepth: z.number(),
+                maxFieldCount: z.number(),
+                maxComplexityScore: z.number(),
+                maxCost: z.number(),
+                timeoutMs: z.number().optional(),
+            }),
+        })).optional(),
+        ...toolErrorShape,
+    },
+    handler: async () => {
+        const result = await listGraphQLEndpoints();
+
+        return toolResponse(result);
+    }
+};
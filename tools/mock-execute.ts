@@ -0,0 +1,172 @@
+import { z } from "zod";
+import {
+    GraphQLFieldResolver,
+    GraphQLTypeResolver,
+    execute,
+    parse,
+    parseType,
+    typeFromAST,
+    validate,
+    isNonNullType
+} from 'graphql';
+import {
+    loadQueryState,
+    fetchAndCacheSchema,
+    buildQueryFromStructure,
+    generateExampleValue,
+    createSeededRandom,
+    analyzeQueryComplexity,
+    getEndpointLimits,
+    ExampleValueContext
+} from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
+
+const DEFAULT_SEED = 1;
+const DEFAULT_LIST_LENGTH = 2;
+const MAX_LIST_LENGTH = 10;
+// Values generated for one result; nested lists multiply quickly
+const MAX_MOCK_VALUES = 10000;
+
+// Objects are placeholders whose own fields resolve the same way
+const mockFieldResolver: GraphQLFieldResolver<any, ExampleValueContext> = (_source, _args, context, info) =>
+    generateExampleValue(info.returnType, context, info.fieldName);
+
+const mockTypeResolver: GraphQLTypeResolver<any, ExampleValueContext> = value => value?.__typename;
+
+// Core business logic - testable function
+export async function mockExecuteQuery(sessionId: string, options: {
+    seed?: number;
+    listLength?: number;
+} = {}): Promise<{
+    data?: any;
+    errors?: any[];
+    queryString?: string;
+    seed?: number;
+    generatedVariables?: Record<string, any>;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    try {
+        const seed = options.seed ?? DEFAULT_SEED;
+        const listLength = options.listLength ?? DEFAULT_LIST_LENGTH;
+        if (!Number.isInteger(listLength) || listLength < 0 || listLength > MAX_LIST_LENGTH) {
+            return {
+                error: `List length must be an integer between 0 and ${MAX_LIST_LENGTH}.`,
+                code: 'INVALID_INPUT'
+            };
+        }
+
+        const queryState = await loadQueryState(sessionId);
+        if (!queryState) {
+            return {
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
+            };
+        }
+
+        const queryString = buildQueryFromStructure(
+            queryState.queryStructure,
+            queryState.operationType,
+            queryState.variablesSchema,
+            queryState.operationName,
+            queryState.fragments || {},
+            queryState.operationDirectives || [],
+            queryState.variablesDefaults || {}
+        );
+        const analysis = analyzeQueryComplexity(
+            queryState.queryStructure,
+            queryState.operationType,
+            queryState.fragments || {},
+            getEndpointLimits(queryState.endpoint)
+        );
+        if (!analysis.valid) {
+            return {
+                error: `Query complexity too high: ${analysis.errors.join('; ')}`,
+                code: 'LIMIT_EXCEEDED',
+                queryString
+            };
+        }
+
+        const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
+        const document = parse(queryString);
+        const validationErrors = validate(schema, document);
+        if (validationErrors.length > 0) {
+            return {
+                error: `Query does not validate against the schema: ${validationErrors.map(error => error.message).join('; ')}`,
+                code: 'VALIDATION_FAILED',
+                queryString
+            };
+        }
+
+        const random = createSeededRandom(seed);
+
+        // Variables without a value or default get example values, so the query runs as built
+        const variableValues: Record<string, any> = {};
+        const generatedVariables: Record<string, any> = {};
+        Object.entries(queryState.variablesSchema).forEach(([variableName, typeString]) => {
+            const name = variableName.replace(/^\$/, '');
+            if (variableName in (queryState.variablesValues || {})) {
+                variableValues[name] = queryState.variablesValues[variableName];
+                return;
+            }
+            // Defaults apply on their own and nullable variables may stay unset
+            const type = typeFromAST(schema, parseType(typeString) as any);
+            if (!(variableName in (queryState.variablesDefaults || {})) && type && isNonNullType(type)) {
+                variableValues[name] = generatedVariables[variableName] = generateExampleValue(type, { random });
+            }
+        });
+
+        const context: ExampleValueContext = { schema, random, listLength, maxValues: MAX_MOCK_VALUES };
+        const result = await execute({
+            schema,
+            document,
+            variableValues,
+            operationName: queryState.operationName || undefined,
+            contextValue: context,
+            fieldResolver: mockFieldResolver,
+            typeResolver: mockTypeResolver
+        });
+        if ((context.valueCount || 0) > MAX_MOCK_VALUES) {
+            return {
+                error: `The mock result would hold more than ${MAX_MOCK_VALUES} values. Lower listLength or select fewer nested lists.`,
+                code: 'LIMIT_EXCEEDED',
+                queryString
+            };
+        }
+
+        return {
+            data: result.data,
+            ...(result.errors ? { errors: result.errors.map(error => error.toJSON()) } : {}),
+            queryString,
+            seed,
+            ...(Object.keys(generatedVariables).length > 0 ? { generatedVariables } : {})
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const mockExecuteTool = {
+    name: "mock-execute",
+    description: "Run the built query offline against the cached schema with generated, deterministically seeded values instead of calling the endpoint; use it to check the result shape, including for mutations, without side effects",
+    schema: {
+        sessionId: z.string().describe('The session ID from start-query-session.'),
+        seed: z.number().int().optional().describe(`Optional: Seed for the generated values; the same seed gives the same result (default ${DEFAULT_SEED}).`),
+        listLength: z.number().int().min(0).max(MAX_LIST_LENGTH).optional().describe(`Optional: Number of items generated for each list field (default ${DEFAULT_LIST_LENGTH}).`),
+    },
+    outputSchema: {
+        data: z.any().optional(),
+        errors: z.array(z.any()).optional(),
+        queryString: z.string().optional(),
+        seed: z.number().optional(),
+        generatedVariables: z.record(z.any()).optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ sessionId, seed, listLength }: { sessionId: string, seed?: number, listLength?: number }) => {
+        const result = await mockExecuteQuery(sessionId, { seed, listLength });
+
+        return toolResponse(result);
+    }
+};
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { resolveEndpointAndHeaders, fetchAndCacheSchema, getSchemaCacheInfo } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
+
+// Core business logic - testable function
+export async function refreshSchema(endpoint?: string): Promise<{
+    success?: boolean;
+    message?: string;
+    endpoint?: string;
+    fingerprint?: string;
+    previousFingerprint?: string | null;
+    changed?: boolean;
+    loadedAt?: string;
+    expiresAt?: string | null;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    const { url: resolvedUrl, headers, endpoint: endpointName, error: endpointError } = resolveEndpointAndHeaders(endpoint);
+
+    if (!resolvedUrl) {
+        return {
+            error: endpointError || "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)",
+            code: 'ENDPOINT_NOT_FOUND'
+        };
+    }
+
+    try {
+        const previous = getSchemaCacheInfo(endpointName);
+        await fetchAndCacheSchema(headers, endpointName, { forceRefresh: true });
+        const current = getSchemaCacheInfo(endpointName)!;
+        const changed = previous !== null && previous.fingerprint !== current.fingerprint;
+
+        return {
+            success: true,
+            message: changed
+                ? 'The schema changed. Sessions built against the previous schema report the affected selections in validate-query and execute-query.'
+                : previous ? 'The schema is unchanged.' : 'The schema was loaded.',
+            endpoint: endpointName,
+            fingerprint: current.fingerprint,
+            previousFingerprint: previous?.fingerprint || null,
+            changed,
+            loadedAt: current.loadedAt,
+            expiresAt: current.expiresAt
+        };
+    } catch (error) {
+        return {
+            error: `Failed to refresh schema: ${error instanceof Error ? error.message : String(error)}. The previously cached schema is still in use.`,
+            code: 'SCHEMA_UNAVAILABLE'
+        };
+    }
+}
+
+export const refreshSchemaTool = {
+    name: "refresh-schema",
+    description: "Reload the cached GraphQL schema of an endpoint now instead of waiting for the cache to expire, and report whether it changed",
+    schema: {
+        endpoint: z.string().optional().describe('Optional: Name of the configured GraphQL endpoint to refresh (see list-endpoints). Defaults to the default endpoint.'),
+    },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        endpoint: z.string().optional(),
+        fingerprint: z.string().optional(),
+        previousFingerprint: z.string().nullable().optional(),
+        changed: z.boolean().optional(),
+        loadedAt: z.string().optional(),
+        expiresAt: z.string().nullable().optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ endpoint }: { endpoint?: string }) => {
+        const result = await refreshSchema(endpoint);
+
+        return toolResponse(result);
+    }
+};
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import {
+    loadQueryState,
+    saveQueryState,
+    GraphQLValidationUtils,
+    getUnusedVariablesWarning
+} from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape, unusedVariablesShape } from "./tool-output.js";
+
+// Core business logic - testable function
+export async function removeFieldArgument(
+    sessionId: string,
+    fieldPath: string,
+    argumentName: string
+): Promise<{
+    success?: boolean;
+    message?: string;
+    unusedVariables?: string[];
+    warning?: string;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    try {
+        const queryState = await loadQueryState(sessionId);
+        if (!queryState) {
+            return {
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
+            };
+        }
+
+        const fieldNode = fieldPath
+            ? GraphQLValidationUtils.navigateToQueryNode(queryState.queryStructure, fieldPath)
+            : null;
+        if (!fieldNode) {
+            return {
+                error: `Field at path '${fieldPath}' not found.`,
+                code: 'FIELD_NOT_FOUND'
+            };
+        }
+
+        if (!fieldNode.args || !(argumentName in fieldNode.args)) {
+            return {
+                error: `Argument '${argumentName}' is not set on field '${fieldPath}'.`,
+                code: 'ARGUMENT_NOT_FOUND'
+            };
+        }
+
+        delete fieldNode.args[argumentName];
+
+        await saveQueryState(sessionId, queryState);
+
+        return {
+            success: true,
+            message: `Argument '${argumentName}' removed from field '${fieldPath}'.`,
+            ...getUnusedVariablesWarning(queryState)
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const removeArgumentTool = {
+    name: "remove-argument",
+    description: "Remove an argument previously set on a field",
+    schema: {
+        sessionId: z.string().describe('The session ID from start-query-session.'),
+        fieldPath: z.string().describe('Dot-notation path to the field (e.g., "user.posts").'),
+        argumentName: z.string().describe('The name of the argument to remove.'),
+    },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        ...unusedVariablesShape,
+        ...toolErrorShape,
+    },
+    handler: async ({ sessionId, fieldPath, argumentName }: {
+        sessionId: string,
+        fieldPath: string,
+        argumentName: string
+    }) => {
+        const result = await removeFieldArgument(sessionId, fieldPath, argumentName);
+
+        return toolResponse(result);
+    }
+};
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import {
+    loadQueryState,
+    saveQueryState,
+    GraphQLValidationUtils,
+    getUnusedVariablesWarning
+} from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape, unusedVariablesShape } from "./tool-output.js";
+
+// Core business logic - testable function
+export async function removeDirective(
+    sessionId: string,
+    directiveName: string,
+    fieldPath?: string
+): Promise<{
+    success?: boolean;
+    message?: string;
+    unusedVariables?: string[];
+    warning?: string;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    try {
+        const name = (directiveName || '').replace(/^@/, '');
+        if (!GraphQLValidationUtils.isValidGraphQLName(name)) {
+            return {
+                error: `Invalid directive name "${directiveName}".`,
+                code: 'INVALID_INPUT'
+            };
+        }
+
+        const queryState = await loadQueryState(sessionId);
+        if (!queryState) {
+            return {
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
+            };
+        }
+
+        // Without a field path the directive is removed from the operation itself
+        let owner: { directives?: any[] };
+        let target: string;
+        if (fieldPath) {
+            owner = GraphQLValidationUtils.navigateToQueryNode(queryState.queryStructure, fieldPath);
+            if (!owner) {
+                return {
+                    error: `Field at path '${fieldPath}' not found.`,
+                    code: 'FIELD_NOT_FOUND'
+                };
+            }
+            target = `field '${fieldPath}'`;
+        } else {
+            owner = { directives: queryState.operationDirectives };
+            target = 'the operation';
+        }
+
+        const remaining = (owner.directives || []).filter((d: any) => d.name !== name);
+        if (remaining.length === (owner.directives || []).length) {
+            return {
+                error: `Directive '@${name}' is not set on ${target}.`,
+                code: 'DIRECTIVE_NOT_FOUND'
+            };
+        }
+
+        if (fieldPath) {
+            owner.directives = remaining;
+        } else {
+            queryState.operationDirectives = remaining;
+        }
+
+        await saveQueryState(sessionId, queryState);
+
+        return {
+            success: true,
+            message: `Directive '@${name}' removed from ${target}.`,
+            ...getUnusedVariablesWarning(queryState)
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const removeDirectiveTool = {
+    name: "remove-directive",
+    description: "Remove a directive from a field, or from the operation when no field path is given",
+    schema: {
+        sessionId: z.string().describe('The session ID from start-query-session.'),
+        directiveName: z.string().describe('The name of the directive to remove (e.g., "include", "skip").'),
+        fieldPath: z.string().optional().describe('Dot-notation path to the field. Omit to remove an operation directive.'),
+    },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        ...unusedVariablesShape,
+        ...toolErrorShape,
+    },
+    handler: async ({ sessionId, directiveName, fieldPath }: {
+        sessionId: string,
+        directiveName: string,
+        fieldPath?: string
+    }) => {
+        const result = await removeDirective(sessionId, directiveName, fieldPath);
+
+        return toolResponse(result);
+    }
+};
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import {
+    loadQueryState,
+    saveQueryState,
+    GraphQLValidationUtils,
+    getUnusedVariablesWarning
+} from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape, unusedVariablesShape } from "./tool-output.js";
+
+// Core business logic - testable function
+export async function removeGraphQLField(
+    sessionId: string,
+    fieldPath: string
+): Promise<{
+    success?: boolean;
+    message?: string;
+    removedField?: string;
+    unusedVariables?: string[];
+    warning?: string;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    try {
+        if (!fieldPath || typeof fieldPath !== 'string' || fieldPath.trim() === '') {
+            return { error: 'fieldPath is required.', code: 'INVALID_INPUT' };
+        }
+
+        const queryState = await loadQueryState(sessionId);
+        if (!queryState) {
+            return {
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
+            };
+        }
+
+        const pathParts = fieldPath.split('.');
+        const fieldKey = pathParts.pop()!;
+        const parentNode = GraphQLValidationUtils.navigateToQueryNode(queryState.queryStructure, pathParts.join('.'));
+        if (!parentNode || !parentNode.fields || !parentNode.fields[fieldKey]) {
+            return {
+                error: `Field at path '${fieldPath}' not found.`,
+                code: 'FIELD_NOT_FOUND'
+            };
+        }
+
+        delete parentNode.fields[fieldKey];
+
+        await saveQueryState(sessionId, queryState);
+
+        return {
+            success: true,
+            message: `Field '${fieldPath}' and its sub-selections removed from query.`,
+            removedField: fieldPath,
+            ...getUnusedVariablesWarning(queryState)
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const removeFieldTool = {
+    name: "remove-field",
+    description: "Remove a selected field, including its sub-selections, arguments and directives, from the query",
+    schema: {
+        sessionId: z.string().describe('The session ID from start-query-session.'),
+        fieldPath: z.string().describe('Dot-notation path to the field to remove, using aliases where set (e.g., "user.profile").'),
+    },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        removedField: z.string().optional(),
+        ...unusedVariablesShape,
+        ...toolErrorShape,
+    },
+    handler: async ({ sessionId, fieldPath }: {
+        sessionId: string,
+        fieldPath: string
+    }) => {
+        const result = await removeGraphQLField(sessionId, fieldPath);
+
+        return toolResponse(result);
+    }
+};
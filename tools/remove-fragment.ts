@@ -0,0 +1,88 @@
+import { z } from "zod";
+import {
+    loadQueryState,
+    saveQueryState,
+    visitSelectionNodes,
+    getUnusedVariablesWarning
+} from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape, unusedVariablesShape } from "./tool-output.js";
+
+// Core business logic - testable function
+export async function removeNamedFragment(
+    sessionId: string,
+    fragmentName: string
+): Promise<{
+    success?: boolean;
+    message?: string;
+    removedSpreads?: number;
+    unusedVariables?: string[];
+    warning?: string;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    try {
+        const queryState = await loadQueryState(sessionId);
+        if (!queryState) {
+            return {
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
+            };
+        }
+
+        if (!queryState.fragments || !queryState.fragments[fragmentName]) {
+            return {
+                error: `Fragment '${fragmentName}' not defined.`,
+                code: 'FRAGMENT_NOT_FOUND'
+            };
+        }
+
+        delete queryState.fragments[fragmentName];
+
+        // A spread of an undefined fragment is invalid, so drop every use of it
+        let removedSpreads = 0;
+        visitSelectionNodes(queryState, node => {
+            if (Array.isArray(node.fragmentSpreads) && node.fragmentSpreads.includes(fragmentName)) {
+                const remaining = node.fragmentSpreads.filter((spread: string) => spread !== fragmentName);
+                removedSpreads += node.fragmentSpreads.length - remaining.length;
+                node.fragmentSpreads = remaining;
+            }
+        });
+
+        await saveQueryState(sessionId, queryState);
+
+        return {
+            success: true,
+            message: `Fragment '${fragmentName}' removed along with ${removedSpreads} spread(s).`,
+            removedSpreads,
+            ...getUnusedVariablesWarning(queryState)
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const removeFragmentTool = {
+    name: "remove-fragment",
+    description: "Delete a named fragment definition and every spread that uses it",
+    schema: {
+        sessionId: z.string().describe('The session ID from start-query-session.'),
+        fragmentName: z.string().describe('The name of the fragment to remove.'),
+    },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        removedSpreads: z.number().optional(),
+        ...unusedVariablesShape,
+        ...toolErrorShape,
+    },
+    handler: async ({ sessionId, fragmentName }: {
+        sessionId: string,
+        fragmentName: string
+    }) => {
+        const result = await removeNamedFragment(sessionId, fragmentName);
+
+        return toolResponse(result);
+    }
+};
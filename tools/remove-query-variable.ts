@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { QueryState, loadQueryState, saveQueryState, GraphQLValidationUtils } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function removeQueryVariable(
@@ -10,13 +11,15 @@ export async function removeQueryVariable(
     message?: string;
     variablesSchema?: { [key: string]: string };
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         // Validate variable name syntax
         const variableValidation = GraphQLValidationUtils.validateVariableName(variableName);
         if (!variableValidation.valid) {
             return {
-                error: variableValidation.error || 'Invalid variable name.'
+                error: variableValidation.error || 'Invalid variable name.',
+                code: 'INVALID_INPUT'
             };
         }
 
@@ -24,13 +27,14 @@ export async function removeQueryVariable(
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
         // Check if variable exists
         if (!queryState.variablesSchema[variableName]) {
-            return { error: `Variable '${variableName}' not defined.` };
+            return { error: `Variable '${variableName}' not defined.`, code: 'VARIABLE_NOT_FOUND' };
         }
 
         // Remove from all variable-related objects
@@ -172,17 +176,18 @@ export const removeQueryVariableTool = {
         sessionId: z.string().describe('The session ID from start-query-session.'),
         variableName: z.string().describe('The variable name to remove (must start with $, e.g., "$userId").'),
     },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        variablesSchema: z.record(z.string()).optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, variableName }: {
         sessionId: string,
         variableName: string
     }) => {
         const result = await removeQueryVariable(sessionId, variableName);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
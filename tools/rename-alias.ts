@@ -0,0 +1,106 @@
+import { z } from "zod";
+import {
+    loadQueryState,
+    saveQueryState,
+    GraphQLValidationUtils
+} from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
+
+// Core business logic - testable function
+export async function renameFieldAlias(
+    sessionId: string,
+    fieldPath: string,
+    newAlias?: string | null
+): Promise<{
+    success?: boolean;
+    message?: string;
+    fieldPath?: string;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    try {
+        const alias = newAlias && newAlias.trim() !== '' ? newAlias.trim() : null;
+        if (alias && !GraphQLValidationUtils.isValidGraphQLName(alias)) {
+            return {
+                error: `Invalid alias "${alias}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                code: 'INVALID_INPUT'
+            };
+        }
+
+        const queryState = await loadQueryState(sessionId);
+        if (!queryState) {
+            return {
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
+            };
+        }
+
+        const pathParts = (fieldPath || '').split('.');
+        const fieldKey = pathParts.pop()!;
+        const parentNode = GraphQLValidationUtils.navigateToQueryNode(queryState.queryStructure, pathParts.join('.'));
+        if (!fieldKey || !parentNode || !parentNode.fields || !parentNode.fields[fieldKey]) {
+            return {
+                error: `Field at path '${fieldPath}' not found.`,
+                code: 'FIELD_NOT_FOUND'
+            };
+        }
+
+        const fieldNode = parentNode.fields[fieldKey];
+        const newKey = alias || fieldNode.fieldName;
+        if (newKey !== fieldKey && parentNode.fields[newKey]) {
+            return {
+                error: `A selection named '${newKey}' already exists next to '${fieldPath}'.`,
+                code: 'ALREADY_EXISTS'
+            };
+        }
+
+        fieldNode.alias = alias && alias !== fieldNode.fieldName ? alias : null;
+
+        // Rebuild the selection map so the field keeps its position in the query
+        const renamedFields: Record<string, any> = {};
+        Object.entries(parentNode.fields).forEach(([key, value]) => {
+            renamedFields[key === fieldKey ? newKey : key] = value;
+        });
+        parentNode.fields = renamedFields;
+
+        await saveQueryState(sessionId, queryState);
+
+        const newFieldPath = [...pathParts, newKey].join('.');
+        return {
+            success: true,
+            message: fieldNode.alias
+                ? `Field '${fieldPath}' is now aliased as '${fieldNode.alias}'.`
+                : `Alias removed from field '${fieldPath}'.`,
+            fieldPath: newFieldPath
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const renameAliasTool = {
+    name: "rename-alias",
+    description: "Change or clear the alias of a selected field; the field's path changes to the new alias",
+    schema: {
+        sessionId: z.string().describe('The session ID from start-query-session.'),
+        fieldPath: z.string().describe('Dot-notation path to the field, using its current alias if it has one.'),
+        newAlias: z.string().optional().describe('The new alias. Omit or pass an empty string to remove the alias.'),
+    },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        fieldPath: z.string().optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ sessionId, fieldPath, newAlias }: {
+        sessionId: string,
+        fieldPath: string,
+        newAlias?: string
+    }) => {
+        const result = await renameFieldAlias(sessionId, fieldPath, newAlias);
+
+        return toolResponse(result);
+    }
+};
@@ -0,0 +1,241 @@
+import { createHash } from 'crypto';
+import {
+    GraphQLSchema,
+    GraphQLNamedType,
+    GraphQLObjectType,
+    GraphQLInterfaceType,
+    getNamedType,
+    isNonNullType,
+    isObjectType,
+    isInterfaceType,
+    lexicographicSortSchema,
+    printSchema,
+    parseType
+} from 'graphql';
+import type { QueryState } from './shared-utils.js';
+
+export interface SchemaDriftIssue {
+    kind: 'type-removed' | 'field-removed' | 'field-changed' | 'argument-removed' | 'argument-changed' | 'argument-required';
+    path: string;
+    message: string;
+}
+
+export interface SchemaDrift {
+    previousFingerprint: string;
+    currentFingerprint: string;
+    // False when the schema the session was built against is no longer known, so only removals can be detected
+    comparedWithPreviousSchema: boolean;
+    issues: SchemaDriftIssue[];
+}
+
+const fingerprints = new WeakMap<GraphQLSchema, string>();
+
+// Schemas seen by this process, keyed by fingerprint, so drift can be explained after a refresh
+const schemaSnapshots = new Map<string, { schema: GraphQLSchema; endpoint: string; loadedAt: number }>();
+const MAX_SCHEMA_SNAPSHOTS = 10;
+
+/**
+ * Stable hash of a schema's printed SDL, independent of type and field order.
+ */
+export function getSchemaFingerprint(schema: GraphQLSchema): string {
+    let fingerprint = fingerprints.get(schema);
+    if (!fingerprint) {
+        fingerprint = createHash('sha256')
+            .update(printSchema(lexicographicSortSchema(schema)))
+            .digest('hex')
+            .slice(0, 16);
+        fingerprints.set(schema, fingerprint);
+    }
+    return fingerprint;
+}
+
+export function rememberSchemaSnapshot(schema: GraphQLSchema, endpoint: string): string {
+    const fingerprint = getSchemaFingerprint(schema);
+    schemaSnapshots.delete(fingerprint);
+    schemaSnapshots.set(fingerprint, { schema, endpoint, loadedAt: Date.now() });
+    while (schemaSnapshots.size > MAX_SCHEMA_SNAPSHOTS) {
+        schemaSnapshots.delete(schemaSnapshots.keys().next().value!);
+    }
+    return fingerprint;
+}
+
+export function getSchemaSnapshot(fingerprint: string): GraphQLSchema | null {
+    return schemaSnapshots.get(fingerprint)?.schema || null;
+}
+
+// Snapshots of an endpoint's schema, most recently loaded first
+export function listSchemaSnapshots(endpoint: string): Array<{ fingerprint: string; loadedAt: string }> {
+    return Array.from(schemaSnapshots.entries())
+        .filter(([, snapshot]) => snapshot.endpoint === endpoint)
+        .reverse()
+        .map(([fingerprint, snapshot]) => ({ fingerprint, loadedAt: new Date(snapshot.loadedAt).toISOString() }));
+}
+
+function asFieldsType(type: GraphQLNamedType | null | undefined): GraphQLObjectType | GraphQLInterfaceType | null {
+    return type && (isObjectType(type) || isInterfaceType(type)) ? type : null;
+}
+
+function rootType(schema: GraphQLSchema, operationType: string): GraphQLNamedType | null | undefined {
+    if (operationType === 'mutation') return schema.getMutationType();
+    if (operationType === 'subscription') return schema.getSubscriptionType();
+    return schema.getQueryType();
+}
+
+/**
+ * Compare what a session selects with the current schema. Without the previous
+ * schema only removed types, fields and arguments are found; with it, changed
+ * field and argument types are reported as well.
+ */
+export function detectSchemaDrift(
+    queryState: QueryState,
+    currentSchema: GraphQLSchema,
+    previousSchema: GraphQLSchema | null = null
+): SchemaDriftIssue[] {
+    const issues: SchemaDriftIssue[] = [];
+
+    const checkType = (typeName: string, path: string, usage: string): GraphQLNamedType | null => {
+        const type = currentSchema.getType(typeName);
+        if (!type) {
+            issues.push({ kind: 'type-removed', path, message: `Type '${typeName}' used by ${usage} no longer exists.` });
+        }
+        return type || null;
+    };
+
+    const visitSelections = (
+        node: any,
+        fieldsKey: 'fields' | 'selections',
+        currentType: GraphQLNamedType | null,
+        previousType: GraphQLNamedType | null,
+        path: string
+    ) => {
+        Object.entries(node?.[fieldsKey] || {}).forEach(([key, fieldData]: [string, any]) => {
+            if (fieldData && typeof fieldData === 'object') {
+                visitField(key, fieldData, currentType, previousType, path);
+            }
+        });
+
+        (node?.inlineFragments || []).forEach((inlineFragment: any) => {
+            const typeName = inlineFragment.on_type;
+            const fragmentPath = `${path}...on ${typeName || 'Unknown'}`;
+            const fragmentType = typeName ? checkType(typeName, fragmentPath, `inline fragment at '${path || 'root'}'`) : currentType;
+            const previousFragmentType = typeName ? previousSchema?.getType(typeName) || null : previousType;
+            visitSelections(inlineFragment, 'selections', fragmentType, previousFragmentType, fragmentPath);
+        });
+    };
+
+    const visitField = (
+        key: string,
+        fieldData: any,
+        currentType: GraphQLNamedType | null,
+        previousType: GraphQLNamedType | null,
+        parentPath: string
+    ) => {
+        const fieldName = fieldData.fieldName || key;
+        const path = parentPath ? `${parentPath}.${key}` : key;
+        const currentParent = asFieldsType(currentType);
+        if (fieldName.startsWith('__') || !currentParent) return;
+
+        const currentField = currentParent.getFields()[fieldName];
+        const previousField = asFieldsType(previousType)?.getFields()[fieldName];
+        const coordinate = `${currentParent.name}.${fieldName}`;
+
+        if (!currentField) {
+            issues.push({ kind: 'field-removed', path, message: `Field '${coordinate}' no longer exists.` });
+            return;
+        }
+        if (previousField && String(previousField.type) !== String(currentField.type)) {
+            issues.push({
+                kind: 'field-changed',
+                path,
+                message: `Field '${coordinate}' changed type from ${String(previousField.type)} to ${String(currentField.type)}.`
+            });
+        }
+
+        const args = fieldData.args || {};
+        Object.keys(args).forEach(argName => {
+            const currentArg = currentField.args.find(arg => arg.name === argName);
+            const previousArg = previousField?.args.find(arg => arg.name === argName);
+            if (!currentArg) {
+                issues.push({ kind: 'argument-removed', path, message: `Argument '${argName}' of '${coordinate}' no longer exists.` });
+            } else if (previousArg && String(previousArg.type) !== String(currentArg.type)) {
+                issues.push({
+                    kind: 'argument-changed',
+                    path,
+                    message: `Argument '${argName}' of '${coordinate}' changed type from ${String(previousArg.type)} to ${String(currentArg.type)}.`
+                });
+            }
+        });
+        // Only newly required arguments are drift; ones that were always missing are reported by validation
+        const wasRequired = (argName: string) => {
+            const previousArg = previousField?.args.find(arg => arg.name === argName);
+            return !!previousArg && isNonNullType(previousArg.type) && previousArg.defaultValue === undefined;
+        };
+        currentField.args
+            .filter(arg => isNonNullType(arg.type) && arg.defaultValue === undefined && !(arg.name in args))
+            .filter(arg => previousField && !wasRequired(arg.name))
+            .forEach(arg => {
+                issues.push({ kind: 'argument-required', path, message: `Field '${coordinate}' now requires argument '${arg.name}'.` });
+            });
+
+        visitSelections(
+            fieldData,
+            'fields',
+            getNamedType(currentField.type),
+            previousField ? getNamedType(previousField.type) : null,
+            path
+        );
+    };
+
+    const operationRoot = rootType(currentSchema, queryState.operationType);
+    if (!operationRoot) {
+        issues.push({
+            kind: 'type-removed',
+            path: '',
+            message: `The schema no longer supports ${queryState.operationType} operations.`
+        });
+    } else {
+        const previousRoot = previousSchema ? rootType(previousSchema, queryState.operationType) || null : null;
+        visitSelections(queryState.queryStructure, 'fields', operationRoot, previousRoot, '');
+    }
+
+    Object.entries(queryState.fragments || {}).forEach(([fragmentName, fragment]: [string, any]) => {
+        const path = `...${fragmentName}`;
+        const fragmentType = checkType(fragment.onType, path, `fragment '${fragmentName}'`);
+        visitSelections(fragment, 'fields', fragmentType, previousSchema?.getType(fragment.onType) || null, path);
+    });
+
+    Object.entries(queryState.variablesSchema || {}).forEach(([variableName, variableType]) => {
+        try {
+            let typeNode: any = parseType(variableType);
+            while (typeNode.kind !== 'NamedType') typeNode = typeNode.type;
+            checkType(typeNode.name.value, variableName, `variable '${variableName}'`);
+        } catch {
+            // Unparseable variable types are reported by query validation
+        }
+    });
+
+    return issues;
+}
+
+/**
+ * Drift between the schema a session was built against and the current one,
+ * or null when the session has no fingerprint, the schema is unchanged or
+ * the change does not affect the session's selections.
+ */
+export function getSessionSchemaDrift(queryState: QueryState, currentSchema: GraphQLSchema): SchemaDrift | null {
+    if (!queryState.schemaFingerprint) return null;
+
+    const currentFingerprint = getSchemaFingerprint(currentSchema);
+    if (currentFingerprint === queryState.schemaFingerprint) return null;
+
+    const previousSchema = getSchemaSnapshot(queryState.schemaFingerprint);
+    const issues = detectSchemaDrift(queryState, currentSchema, previousSchema);
+    if (issues.length === 0) return null;
+
+    return {
+        previousFingerprint: queryState.schemaFingerprint,
+        currentFingerprint,
+        comparedWithPreviousSchema: previousSchema !== null,
+        issues
+    };
+}
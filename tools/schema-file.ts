@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs';
+import { extname, resolve } from 'path';
+import {
+    GraphQLSchema,
+    IntrospectionQuery,
+    buildASTSchema,
+    buildClientSchema,
+    concatAST,
+    introspectionFromSchema,
+    parse,
+    visit
+} from 'graphql';
+
+const SDL_EXTENSIONS = ['.graphql', '.graphqls', '.gql'];
+
+// Definitions from the GraphQL cost directive spec, added when an SDL file applies the directives without declaring them
+const COST_DIRECTIVE_DEFINITIONS: Record<string, string> = {
+    cost: 'directive @cost(weight: String!) on ARGUMENT_DEFINITION | ENUM | FIELD_DEFINITION | INPUT_FIELD_DEFINITION | OBJECT | SCALAR',
+    listSize: 'directive @listSize(assumedSize: Int, slicingArguments: [String!], sizedFields: [String!], requireOneSlicingArgument: Boolean = true) on FIELD_DEFINITION',
+};
+
+/**
+ * Build a schema from a local file instead of introspecting the live endpoint,
+ * for APIs that disable introspection or for offline work. `.graphql`,
+ * `.graphqls` and `.gql` files hold SDL; `.json` files hold a saved
+ * introspection result, either bare or wrapped in `{ "data": ... }`.
+ * SDL files may apply @cost and @listSize without declaring them.
+ * Relative paths resolve against the working directory.
+ */
+export async function loadSchemaFromFile(schemaFile: string): Promise<{
+    schema: GraphQLSchema;
+    introspection: IntrospectionQuery;
+}> {
+    const filePath = resolve(process.cwd(), schemaFile);
+    const extension = extname(filePath).toLowerCase();
+
+    if (extension !== '.json' && !SDL_EXTENSIONS.includes(extension)) {
+        throw new Error(`Unsupported schema file '${schemaFile}': expected ${SDL_EXTENSIONS.join(', ')} or .json`);
+    }
+
+    let contents: string;
+    try {
+        contents = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+        throw new Error(`Cannot read schema file '${schemaFile}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    try {
+        if (extension === '.json') {
+            const parsed = JSON.parse(contents);
+            const introspection = parsed && parsed.data && parsed.data.__schema ? parsed.data : parsed;
+            if (!introspection || !introspection.__schema) {
+                throw new Error("expected an introspection result with a '__schema' field");
+            }
+            return { schema: buildClientSchema(introspection), introspection };
+        }
+
+        // SDL keeps applied directives such as @cost and @listSize, which introspection drops
+        const document = parse(contents);
+        const declared = new Set<string>();
+        const applied = new Set<string>();
+        visit(document, {
+            DirectiveDefinition: node => { declared.add(node.name.value); },
+            Directive: node => { applied.add(node.name.value); },
+        });
+        const missing = Object.keys(COST_DIRECTIVE_DEFINITIONS).filter(name => applied.has(name) && !declared.has(name));
+        const schema = buildASTSchema(missing.length > 0
+            ? concatAST([parse(missing.map(name => COST_DIRECTIVE_DEFINITIONS[name]).join('\n')), document])
+            : document);
+        return { schema, introspection: introspectionFromSchema(schema) };
+    } catch (error) {
+        throw new Error(`Invalid schema file '${schemaFile}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
@@ -0,0 +1,291 @@
+import { z } from "zod";
+import {
+    GraphQLSchema,
+    isObjectType,
+    isInterfaceType,
+    isInputObjectType,
+    isEnumType
+} from 'graphql';
+import { resolveEndpointAndHeaders, fetchAndCacheSchema, getTypeNameStr, GraphQLValidationUtils } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
+
+export type SchemaSearchKind = 'type' | 'field' | 'argument' | 'input-field' | 'enum-value';
+
+export interface SchemaSearchMatch {
+    coordinate: string;
+    kind: SchemaSearchKind;
+    // Return type of fields, arguments and input fields; type kind of types
+    type: string;
+    description: string | null;
+    deprecated?: boolean;
+    score: number;
+}
+
+interface SchemaSearchEntry {
+    coordinate: string;
+    kind: SchemaSearchKind;
+    name: string;
+    type: string;
+    description: string | null;
+    deprecated?: boolean;
+    nameTokens: string[];
+    descriptionTokens: Set<string>;
+}
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// Large schemas are indexed once per loaded schema instead of on every search
+const searchIndexes = new WeakMap<GraphQLSchema, SchemaSearchEntry[]>();
+
+// "createdAt", "created_at" and "CREATED AT" all become ["created", "at"]
+function tokenize(text: string): string[] {
+    return text
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean);
+}
+
+function buildSearchIndex(schema: GraphQLSchema): SchemaSearchEntry[] {
+    let index = searchIndexes.get(schema);
+    if (index) return index;
+
+    index = [];
+    const add = (entry: Omit<SchemaSearchEntry, 'nameTokens' | 'descriptionTokens'>) => {
+        index!.push({
+            ...entry,
+            nameTokens: tokenize(entry.name),
+            descriptionTokens: new Set(tokenize(entry.description || ''))
+        });
+    };
+
+    Object.values(schema.getTypeMap()).forEach(type => {
+        if (type.name.startsWith('__')) return;
+        add({
+            coordinate: type.name,
+            kind: 'type',
+            name: type.name,
+            type: type.constructor.name,
+            description: type.description || null
+        });
+
+        if (isObjectType(type) || isInterfaceType(type)) {
+            Object.values(type.getFields()).forEach(field => {
+                const coordinate = `${type.name}.${field.name}`;
+                add({
+                    coordinate,
+                    kind: 'field',
+                    name: field.name,
+                    type: getTypeNameStr(field.type),
+                    description: field.description || null,
+                    ...(field.deprecationReason ? { deprecated: true } : {})
+                });
+                field.args.forEach(arg => add({
+                    coordinate: `${coordinate}(${arg.name}:)`,
+                    kind: 'argument',
+                    name: arg.name,
+                    type: getTypeNameStr(arg.type),
+                    description: arg.description || null,
+                    ...(arg.deprecationReason ? { deprecated: true } : {})
+                }));
+            });
+        } else if (isInputObjectType(type)) {
+            Object.values(type.getFields()).forEach(field => add({
+                coordinate: `${type.name}.${field.name}`,
+                kind: 'input-field',
+                name: field.name,
+                type: getTypeNameStr(field.type),
+                description: field.description || null,
+                ...(field.deprecationReason ? { deprecated: true } : {})
+            }));
+        } else if (isEnumType(type)) {
+            type.getValues().forEach(value => add({
+                coordinate: `${type.name}.${value.name}`,
+                kind: 'enum-value',
+                name: value.name,
+                type: type.name,
+                description: value.description || null,
+                ...(value.deprecationReason ? { deprecated: true } : {})
+            }));
+        }
+    });
+
+    searchIndexes.set(schema, index);
+    return index;
+}
+
+// Edits tolerated for a term of this length; short terms must match exactly
+function maxTypos(term: string): number {
+    return term.length < 4 ? 0 : Math.min(2, Math.floor(term.length / 4));
+}
+
+// Crude singular form so "repository" finds "repositories"
+function singular(token: string): string {
+    if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+    if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+    return token;
+}
+
+function tokenMatches(queryToken: string, nameToken: string): number {
+    if (nameToken === queryToken) return 1;
+    if (singular(nameToken) === singular(queryToken)) return 0.9;
+    if (nameToken.startsWith(queryToken) && queryToken.length >= 2) return 0.8;
+    const typos = maxTypos(queryToken);
+    if (typos > 0 && Math.abs(nameToken.length - queryToken.length) <= typos &&
+        GraphQLValidationUtils.levenshteinDistance(queryToken, nameToken) <= typos) {
+        return 0.6;
+    }
+    return 0;
+}
+
+function scoreEntry(entry: SchemaSearchEntry, query: string, queryTokens: string[]): number {
+    const name = entry.name.toLowerCase();
+    let nameScore = 0;
+
+    if (name === query) {
+        nameScore = 100;
+    } else if (name.startsWith(query)) {
+        nameScore = 80;
+    } else if (name.includes(query)) {
+        nameScore = 65;
+    } else {
+        const typos = maxTypos(query);
+        const distance = typos > 0 && Math.abs(name.length - query.length) <= typos
+            ? GraphQLValidationUtils.levenshteinDistance(query, name)
+            : Infinity;
+        if (distance <= typos) {
+            nameScore = 60 - distance * 5;
+        }
+    }
+
+    // Every query word must match some word of the name, e.g. "repo owner" finds "repositoryOwner"
+    if (nameScore === 0 && queryTokens.length > 0) {
+        const tokenScores = queryTokens.map(queryToken =>
+            Math.max(0, ...entry.nameTokens.map(nameToken => tokenMatches(queryToken, nameToken)))
+        );
+        if (tokenScores.every(score => score > 0)) {
+            nameScore = 50 * tokenScores.reduce((sum, score) => sum + score, 0) / queryTokens.length;
+        }
+    }
+
+    const describedTokens = queryTokens.filter(queryToken => entry.descriptionTokens.has(queryToken)).length;
+    const descriptionScore = queryTokens.length > 0 ? 20 * describedTokens / queryTokens.length : 0;
+
+    // Types rank above their members for the same name, deprecated members below
+    const kindBonus = entry.kind === 'type' ? 2 : 0;
+    const deprecationPenalty = entry.deprecated ? 5 : 0;
+    const score = nameScore + descriptionScore;
+    return score > 0 ? Math.max(1, score + kindBonus - deprecationPenalty) : 0;
+}
+
+/**
+ * Rank the types, fields, arguments, input fields and enum values of a schema
+ * by how well their name or description matches a free-text query.
+ */
+export function rankSchemaMatches(
+    schema: GraphQLSchema,
+    query: string,
+    options: { kinds?: SchemaSearchKind[]; limit?: number } = {}
+): { matches: SchemaSearchMatch[]; totalMatches: number } {
+    const normalizedQuery = query.trim().toLowerCase();
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+    const kinds = options.kinds && options.kinds.length > 0 ? new Set(options.kinds) : null;
+
+    const scored = buildSearchIndex(schema)
+        .filter(entry => !kinds || kinds.has(entry.kind))
+        .map(entry => ({ entry, score: scoreEntry(entry, normalizedQuery, queryTokens) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score || a.entry.coordinate.localeCompare(b.entry.coordinate));
+
+    return {
+        totalMatches: scored.length,
+        matches: scored.slice(0, limit).map(({ entry, score }) => ({
+            coordinate: entry.coordinate,
+            kind: entry.kind,
+            type: entry.type,
+            description: entry.description && entry.description.length > MAX_DESCRIPTION_LENGTH
+                ? `${entry.description.slice(0, MAX_DESCRIPTION_LENGTH)}...`
+                : entry.description,
+            ...(entry.deprecated ? { deprecated: true } : {}),
+            score: Math.round(score)
+        }))
+    };
+}
+
+// Core business logic - testable function
+export async function searchSchema(query: string, options: {
+    endpoint?: string;
+    kinds?: SchemaSearchKind[];
+    limit?: number;
+} = {}): Promise<{
+    query?: string;
+    totalMatches?: number;
+    matches?: SchemaSearchMatch[];
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    if (!query || !query.trim()) {
+        return { error: 'Search query must not be empty.', code: 'INVALID_INPUT' };
+    }
+    const lengthValidation = GraphQLValidationUtils.validateStringLength(query, 'Search query');
+    if (!lengthValidation.valid) {
+        return { error: lengthValidation.error, code: lengthValidation.code };
+    }
+
+    const { url: resolvedUrl, headers, error: endpointError } = resolveEndpointAndHeaders(options.endpoint);
+
+    if (!resolvedUrl) {
+        return {
+            error: endpointError || "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)",
+            code: 'ENDPOINT_NOT_FOUND'
+        };
+    }
+
+    try {
+        const schema = await fetchAndCacheSchema(headers, options.endpoint);
+        const { matches, totalMatches } = rankSchemaMatches(schema, query, options);
+
+        return {
+            query,
+            totalMatches,
+            matches
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const searchSchemaTool = {
+    name: "search-schema",
+    description: "Fuzzy search across type names, field names, argument names, enum values and descriptions; returns ranked schema coordinates such as User.posts(first:) so large schemas can be explored without introspecting them whole",
+    schema: {
+        query: z.string().describe('Words to search for, e.g. "repository owner" or "createdAt". Typos and camelCase/snake_case variants are tolerated.'),
+        kinds: z.array(z.enum(['type', 'field', 'argument', 'input-field', 'enum-value'])).optional().describe('Optional: Only return matches of these kinds.'),
+        limit: z.number().int().min(1).max(MAX_SEARCH_LIMIT).optional().describe(`Optional: Maximum number of matches to return (default ${DEFAULT_SEARCH_LIMIT}).`),
+        endpoint: z.string().optional().describe('Optional: Name of the configured GraphQL endpoint to use (see list-endpoints). Defaults to the default endpoint.'),
+    },
+    outputSchema: {
+        query: z.string().optional(),
+        totalMatches: z.number().optional(),
+        matches: z.array(z.object({
+            coordinate: z.string(),
+            kind: z.enum(['type', 'field', 'argument', 'input-field', 'enum-value']),
+            type: z.string(),
+            description: z.string().nullable(),
+            deprecated: z.boolean().optional(),
+            score: z.number(),
+        })).optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ query, kinds, limit, endpoint }: { query: string, kinds?: SchemaSearchKind[], limit?: number, endpoint?: string }) => {
+        const result = await searchSchema(query, { endpoint, kinds, limit });
+
+        return toolResponse(result);
+    }
+};
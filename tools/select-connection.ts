@@ -0,0 +1,256 @@
+import { z } from "zod";
+import {
+    GraphQLSchema,
+    GraphQLObjectType,
+    GraphQLInterfaceType,
+    getNamedType,
+    isObjectType,
+    isInterfaceType,
+    isLeafType
+} from 'graphql';
+import {
+    QueryState,
+    loadQueryState,
+    saveQueryState,
+    fetchAndCacheSchema,
+    getTypeNameStr,
+    GraphQLValidationUtils
+} from "./shared-utils.js";
+import { getConnectionInfo, getPaginationArguments } from "./connections.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 100;
+
+function createFieldNode(fieldName: string, fields: Record<string, any> = {}, args: Record<string, any> = {}, alias: string | null = null): any {
+    return {
+        fieldName,
+        alias,
+        args,
+        fields,
+        directives: [],
+        fragmentSpreads: [],
+        inlineFragments: []
+    };
+}
+
+// Object or interface type whose fields are selected at parentPath
+function resolveParentType(schema: GraphQLSchema, queryState: QueryState, parentPath: string): GraphQLObjectType | GraphQLInterfaceType | null {
+    const operationType = queryState.operationType.toLowerCase();
+    let currentType: GraphQLObjectType | GraphQLInterfaceType | null | undefined = operationType === 'mutation'
+        ? schema.getMutationType()
+        : operationType === 'subscription' ? schema.getSubscriptionType() : schema.getQueryType();
+    let node: any = queryState.queryStructure;
+
+    for (const part of parentPath ? parentPath.split('.') : []) {
+        node = node?.fields?.[part];
+        const field: any = currentType?.getFields()[node?.fieldName || part];
+        const fieldType = field ? getNamedType(field.type) : null;
+        currentType = fieldType && (isObjectType(fieldType) || isInterfaceType(fieldType)) ? fieldType : null;
+    }
+
+    return currentType || null;
+}
+
+// "$first"/"$after", or "$issuesFirst"/"$issuesAfter" (then "...2", "...3") when the session already uses those names
+function pickPageVariableNames(queryState: QueryState, key: string): { first: string; after: string } {
+    const taken = (name: string) => name in queryState.variablesSchema;
+    if (!taken('$first') && !taken('$after')) return { first: '$first', after: '$after' };
+    for (let suffix = 1; ; suffix++) {
+        const tag = suffix === 1 ? '' : String(suffix);
+        const names = { first: `$${key}First${tag}`, after: `$${key}After${tag}` };
+        if (!taken(names.first) && !taken(names.after)) return names;
+    }
+}
+
+// Core business logic - testable function
+export async function selectConnection(
+    sessionId: string,
+    parentPath: string = "",
+    fieldName: string,
+    options: { alias?: string; nodeFields?: string[]; pageSize?: number } = {}
+): Promise<{
+    success?: boolean;
+    message?: string;
+    fieldKey?: string;
+    nodePath?: string;
+    pageInfoPath?: string;
+    variables?: { first?: string; after?: string };
+    warning?: string;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    try {
+        if (!GraphQLValidationUtils.isValidGraphQLName(fieldName)) {
+            return {
+                error: `Invalid field name "${fieldName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                code: 'INVALID_INPUT'
+            };
+        }
+        const invalidNodeField = (options.nodeFields || []).find(name => !GraphQLValidationUtils.isValidGraphQLName(name));
+        if (invalidNodeField !== undefined) {
+            return {
+                error: `Invalid field name "${invalidNodeField}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                code: 'INVALID_INPUT'
+            };
+        }
+        const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+        if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+            return {
+                error: `Page size must be an integer between 1 and ${MAX_PAGE_SIZE}.`,
+                code: 'INVALID_INPUT'
+            };
+        }
+
+        const queryState = await loadQueryState(sessionId);
+        if (!queryState) {
+            return {
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
+            };
+        }
+
+        const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
+        const validation = GraphQLValidationUtils.validateFieldAddition(schema, queryState, parentPath, fieldName, options.alias);
+        if (!validation.valid) {
+            return {
+                error: validation.error,
+                code: validation.code
+            };
+        }
+
+        const parentNode = GraphQLValidationUtils.navigateToQueryNode(queryState.queryStructure, parentPath);
+        const parentType = resolveParentType(schema, queryState, parentPath);
+        if (!parentNode || !parentType) {
+            return {
+                error: `Parent path '${parentPath}' not found in query structure.`,
+                code: 'FIELD_NOT_FOUND'
+            };
+        }
+
+        const key = options.alias || fieldName;
+        if (parentNode.fields?.[key]) {
+            return {
+                error: `Field '${key}' is already selected at path '${parentPath}'. Remove it first or choose an alias.`,
+                code: 'ALREADY_EXISTS'
+            };
+        }
+
+        const field = parentType.getFields()[fieldName];
+        const connection = getConnectionInfo(getNamedType(field.type));
+        if (!connection) {
+            return {
+                error: `Field '${parentType.name}.${fieldName}' returns ${getTypeNameStr(field.type)}, which is not a Relay connection (a type with pageInfo and edges { node } or nodes). Use select-field instead.`,
+                code: 'VALIDATION_FAILED'
+            };
+        }
+
+        const nodeType = schema.getType(connection.nodeType)!;
+        const nodeTypeFields = isObjectType(nodeType) || isInterfaceType(nodeType) ? nodeType.getFields() : {};
+        const nodeFields = options.nodeFields || ('id' in nodeTypeFields ? ['id'] : []);
+        for (const nodeField of nodeFields) {
+            const definition = nodeTypeFields[nodeField];
+            if (!definition) {
+                const suggestion = GraphQLValidationUtils.findSimilarName(nodeField, Object.keys(nodeTypeFields));
+                return {
+                    error: `Field '${nodeField}' not found on node type '${connection.nodeType}'.${suggestion ? ` Did you mean '${suggestion}'?` : ''}`,
+                    code: 'FIELD_NOT_FOUND'
+                };
+            }
+            if (!isLeafType(getNamedType(definition.type))) {
+                return {
+                    error: `Node field '${nodeField}' returns ${getTypeNameStr(definition.type)}, which needs its own sub-selection. Select it with select-field on the node path instead.`,
+                    code: 'VALIDATION_FAILED'
+                };
+            }
+        }
+
+        // Connections without first/after are still scaffolded, just without page variables
+        const args: Record<string, string> = {};
+        const variables: { first?: string; after?: string } = {};
+        const { forward } = getPaginationArguments(field);
+        if (forward) {
+            const names = pickPageVariableNames(queryState, key);
+            (['first', 'after'] as const).forEach(argName => {
+                const arg = field.args.find(candidate => candidate.name === argName)!;
+                queryState.variablesSchema[names[argName]] = getTypeNameStr(arg.type);
+                args[argName] = names[argName];
+                variables[argName] = names[argName];
+            });
+            queryState.variablesDefaults[names.first] = pageSize;
+        }
+
+        const nodeSelection = createFieldNode('node', Object.fromEntries(nodeFields.map(name => [name, createFieldNode(name)])));
+        const listFieldName = connection.edgeType ? 'edges' : 'nodes';
+        const listSelection = connection.edgeType
+            ? createFieldNode('edges', { node: nodeSelection })
+            : createFieldNode('nodes', nodeSelection.fields);
+        const pageInfoSelection = createFieldNode('pageInfo', Object.fromEntries(
+            ['hasNextPage', 'endCursor']
+                .filter(name => connection.pageInfoFields.includes(name))
+                .map(name => [name, createFieldNode(name)])
+        ));
+
+        parentNode.fields = parentNode.fields || {};
+        parentNode.fields[key] = createFieldNode(
+            fieldName,
+            { [listFieldName]: listSelection, pageInfo: pageInfoSelection },
+            args,
+            options.alias || null
+        );
+
+        await saveQueryState(sessionId, queryState);
+
+        const fieldPath = parentPath ? `${parentPath}.${key}` : key;
+        return {
+            success: true,
+            message: `Connection '${fieldName}' selected at path '${parentPath}' with ${listFieldName}${connection.edgeType ? ' { node }' : ''} and pageInfo.`,
+            fieldKey: key,
+            nodePath: connection.edgeType ? `${fieldPath}.edges.node` : `${fieldPath}.nodes`,
+            pageInfoPath: `${fieldPath}.pageInfo`,
+            variables,
+            ...(forward ? {} : {
+                warning: `Field '${parentType.name}.${fieldName}' has no first/after arguments, so no page variables were added.`
+            })
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const selectConnectionTool = {
+    name: "select-connection",
+    description: "Select a Relay connection field in one step: edges { node { ... } }, pageInfo { hasNextPage endCursor } and $first/$after variables; returns the nodePath to use as parentPath for more node fields",
+    schema: {
+        sessionId: z.string().describe('The session ID from start-query-session.'),
+        parentPath: z.string().default("").describe('Dot-notation path of the object holding the connection field (e.g., "repository", "" for root).'),
+        fieldName: z.string().describe('The connection field to select, e.g. "issues".'),
+        alias: z.string().optional().describe('An optional alias for the connection field.'),
+        nodeFields: z.array(z.string()).optional().describe('Optional: Scalar fields to select on each node (default: id, when the node type has one).'),
+        pageSize: z.number().int().min(1).max(MAX_PAGE_SIZE).optional().describe(`Optional: Default value of the $first variable (default ${DEFAULT_PAGE_SIZE}).`),
+    },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        fieldKey: z.string().optional(),
+        nodePath: z.string().optional(),
+        pageInfoPath: z.string().optional(),
+        variables: z.object({ first: z.string().optional(), after: z.string().optional() }).optional(),
+        warning: z.string().optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ sessionId, parentPath = "", fieldName, alias, nodeFields, pageSize }: {
+        sessionId: string,
+        parentPath?: string,
+        fieldName: string,
+        alias?: string,
+        nodeFields?: string[],
+        pageSize?: number
+    }) => {
+        const result = await selectConnection(sessionId, parentPath, fieldName, { alias, nodeFields, pageSize });
+
+        return toolResponse(result);
+    }
+};
@@ -7,6 +7,7 @@ import {
     fetchAndCacheSchema,
     GraphQLValidationUtils
 } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function selectGraphQLField(
@@ -19,23 +20,26 @@ export async function selectGraphQLField(
     fieldKey?: string;
     parentPath?: string;
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         if (!sessionId || typeof sessionId !== 'string' || sessionId.trim() === '') {
-            return { error: 'Invalid sessionId.' };
+            return { error: 'Invalid sessionId.', code: 'INVALID_INPUT' };
         }
         // Validate field alias syntax
         const aliasValidation = GraphQLValidationUtils.validateFieldAlias(alias || null);
         if (!aliasValidation.valid) {
             return {
-                error: aliasValidation.error || 'Invalid field alias.'
+                error: aliasValidation.error || 'Invalid field alias.',
+                code: 'INVALID_INPUT'
             };
         }
 
         // Validate field name syntax
         if (!GraphQLValidationUtils.isValidGraphQLName(fieldName)) {
             return {
-                error: `Invalid field name "${fieldName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`
+                error: `Invalid field name "${fieldName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                code: 'INVALID_INPUT'
             };
         }
 
@@ -43,13 +47,14 @@ export async function selectGraphQLField(
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
         // Comprehensive incremental validation
         try {
-            const schema = await fetchAndCacheSchema(queryState.headers);
+            const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
             const validation = GraphQLValidationUtils.validateFieldAddition(
                 schema,
                 queryState,
@@ -60,7 +65,8 @@ export async function selectGraphQLField(
 
             if (!validation.valid) {
                 return {
-                    error: validation.error
+                    error: validation.error,
+                    code: validation.code
                 };
             }
 
@@ -68,7 +74,8 @@ export async function selectGraphQLField(
             const warning = validation.warning;
         } catch (schemaError) {
             return {
-                error: `Schema validation failed: ${schemaError instanceof Error ? schemaError.message : String(schemaError)}`
+                error: `Schema validation failed: ${schemaError instanceof Error ? schemaError.message : String(schemaError)}`,
+                code: 'SCHEMA_UNAVAILABLE'
             };
         }
 
@@ -79,7 +86,8 @@ export async function selectGraphQLField(
             for (const part of pathParts) {
                 if (!parentNode.fields[part]) {
                     return {
-                        error: `Parent path '${parentPath}' not found in query structure.`
+                        error: `Parent path '${parentPath}' not found in query structure.`,
+                        code: 'FIELD_NOT_FOUND'
                     };
                 }
                 parentNode = parentNode.fields[part]!;
@@ -96,7 +104,8 @@ export async function selectGraphQLField(
         // Check for alias conflicts
         if (parentNode.fields[key] && parentNode.fields[key].fieldName !== fieldName) {
             return {
-                error: `Alias conflict: '${key}' is already used for field '${parentNode.fields[key].fieldName}'. Choose a different alias or field name.`
+                error: `Alias conflict: '${key}' is already used for field '${parentNode.fields[key].fieldName}'. Choose a different alias or field name.`,
+                code: 'ALREADY_EXISTS'
             };
         }
 
@@ -134,6 +143,12 @@ export const selectFieldTool = {
         fieldName: z.string().describe('The name of the field to select.'),
         alias: z.string().optional().describe('An optional alias for the selected field.'),
     },
+    outputSchema: {
+        message: z.string().optional(),
+        fieldKey: z.string().optional(),
+        parentPath: z.string().optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, parentPath = "", fieldName, alias }: {
         sessionId: string,
         parentPath?: string,
@@ -142,11 +157,6 @@ export const selectFieldTool = {
     }) => {
         const result = await selectGraphQLField(sessionId, parentPath, fieldName, alias);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { QueryState, loadQueryState, saveQueryState, GraphQLValidationUtils, fetchAndCacheSchema } from "./shared-utils.js";
 import { isObjectType, isInterfaceType, getNamedType, GraphQLObjectType, GraphQLInterfaceType, GraphQLFieldMap, GraphQLField, GraphQLNamedType } from 'graphql';
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function selectMultipleFields(
@@ -13,16 +14,18 @@ export async function selectMultipleFields(
     selectedFields?: string[];
     parentPath?: string;
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         if (!sessionId || typeof sessionId !== 'string' || sessionId.trim() === '') {
-            return { error: 'Invalid sessionId.' };
+            return { error: 'Invalid sessionId.', code: 'INVALID_INPUT' };
         }
         // Validate field names syntax
         for (const fieldName of fieldNames) {
             if (!GraphQLValidationUtils.isValidGraphQLName(fieldName)) {
                 return {
-                    error: `Invalid field name "${fieldName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`
+                    error: `Invalid field name "${fieldName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                    code: 'INVALID_INPUT'
                 };
             }
         }
@@ -31,7 +34,8 @@ export async function selectMultipleFields(
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
@@ -42,7 +46,8 @@ export async function selectMultipleFields(
             for (const part of pathParts) {
                 if (!parentNode.fields[part]) {
                     return {
-                        error: `Parent path '${parentPath}' not found in query structure.`
+                        error: `Parent path '${parentPath}' not found in query structure.`,
+                        code: 'FIELD_NOT_FOUND'
                     };
                 }
                 parentNode = parentNode.fields[part];
@@ -51,7 +56,7 @@ export async function selectMultipleFields(
 
         // Comprehensive incremental validation for each field
         try {
-            const schema = await fetchAndCacheSchema(queryState.headers);
+            const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
             for (const fieldName of fieldNames) {
                 const validation = GraphQLValidationUtils.validateFieldAddition(
                     schema,
@@ -62,13 +67,15 @@ export async function selectMultipleFields(
 
                 if (!validation.valid) {
                     return {
-                        error: validation.error
+                        error: validation.error,
+                        code: validation.code
                     };
                 }
             }
         } catch (validationError) {
             return {
-                error: `Schema validation failed: ${validationError instanceof Error ? validationError.message : String(validationError)}`
+                error: `Schema validation failed: ${validationError instanceof Error ? validationError.message : String(validationError)}`,
+                code: 'SCHEMA_UNAVAILABLE'
             };
         }
 
@@ -115,6 +122,13 @@ export const selectMultipleFieldsTool = {
         parentPath: z.string().default("").describe('Dot-notation path where fields should be added (e.g., "user", "" for root).'),
         fieldNames: z.array(z.string()).describe('Array of field names to select (without aliases or arguments).'),
     },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        selectedFields: z.array(z.string()).optional(),
+        parentPath: z.string().optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, parentPath = "", fieldNames }: {
         sessionId: string,
         parentPath?: string,
@@ -122,11 +136,6 @@ export const selectMultipleFieldsTool = {
     }) => {
         const result = await selectMultipleFields(sessionId, parentPath, fieldNames);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
@@ -0,0 +1,179 @@
+import { z } from "zod";
+import { loadQueryState, loadQueryHistory, stepQueryHistory } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
+
+// Core business logic - testable function
+export async function undoQueryChange(sessionId: string, steps: number = 1): Promise<{
+    success?: boolean;
+    message?: string;
+    version?: number;
+    query?: string;
+    canUndo?: boolean;
+    canRedo?: boolean;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    return moveInHistory(sessionId, -Math.max(1, Math.floor(steps)));
+}
+
+// Core business logic - testable function
+export async function redoQueryChange(sessionId: string, steps: number = 1): Promise<{
+    success?: boolean;
+    message?: string;
+    version?: number;
+    query?: string;
+    canUndo?: boolean;
+    canRedo?: boolean;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    return moveInHistory(sessionId, Math.max(1, Math.floor(steps)));
+}
+
+async function moveInHistory(sessionId: string, steps: number): ReturnType<typeof undoQueryChange> {
+    try {
+        if (!sessionId || typeof sessionId !== 'string' || sessionId.trim() === '') {
+            return { error: 'Invalid sessionId.', code: 'INVALID_INPUT' };
+        }
+
+        const queryState = await loadQueryState(sessionId);
+        if (!queryState) {
+            return { error: 'Session not found.', code: 'SESSION_NOT_FOUND' };
+        }
+
+        const { revision, history, error, code } = await stepQueryHistory(sessionId, steps);
+        if (error || !revision || !history) {
+            return { error: error || 'Failed to restore revision.', code: code || 'INTERNAL_ERROR' };
+        }
+
+        return {
+            success: true,
+            message: `${steps < 0 ? 'Undid' : 'Redid'} ${Math.abs(steps)} change(s). Session is now at version ${revision.version}.`,
+            version: revision.version,
+            query: revision.query,
+            canUndo: history.cursor > 0,
+            canRedo: history.cursor < history.revisions.length - 1
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+// Core business logic - testable function
+export async function getSessionHistory(sessionId: string, limit: number = 20): Promise<{
+    currentVersion?: number;
+    canUndo?: boolean;
+    canRedo?: boolean;
+    revisions?: Array<{ version: number; savedAt: string; query: string; current: boolean }>;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    try {
+        if (!sessionId || typeof sessionId !== 'string' || sessionId.trim() === '') {
+            return { error: 'Invalid sessionId.', code: 'INVALID_INPUT' };
+        }
+
+        const queryState = await loadQueryState(sessionId);
+        if (!queryState) {
+            return { error: 'Session not found.', code: 'SESSION_NOT_FOUND' };
+        }
+
+        const history = await loadQueryHistory(sessionId);
+        if (!history || history.revisions.length === 0) {
+            return { canUndo: false, canRedo: false, revisions: [] };
+        }
+
+        const revisions = history.revisions.map((revision, index) => ({
+            version: revision.version,
+            savedAt: revision.savedAt,
+            query: revision.query,
+            current: index === history.cursor
+        }));
+
+        return {
+            currentVersion: history.revisions[history.cursor].version,
+            canUndo: history.cursor > 0,
+            canRedo: history.cursor < history.revisions.length - 1,
+            // Most recent revisions are the most useful to agents
+            revisions: revisions.slice(-Math.max(1, limit))
+        };
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+// Result fields shared by undo and redo
+const historyChangeShape = {
+    success: z.boolean().optional(),
+    message: z.string().optional(),
+    version: z.number().optional(),
+    query: z.string().optional(),
+    canUndo: z.boolean().optional(),
+    canRedo: z.boolean().optional(),
+};
+
+export const undoTool = {
+    name: "undo",
+    description: "Revert the query-building session to the state before the most recent change(s)",
+    schema: {
+        sessionId: z.string().describe('The session ID from start-query-session.'),
+        steps: z.number().int().min(1).default(1).describe('How many changes to undo.'),
+    },
+    outputSchema: {
+        ...historyChangeShape,
+        ...toolErrorShape,
+    },
+    handler: async ({ sessionId, steps = 1 }: { sessionId: string, steps?: number }) => {
+        const result = await undoQueryChange(sessionId, steps);
+
+        return toolResponse(result);
+    }
+};
+
+export const redoTool = {
+    name: "redo",
+    description: "Re-apply change(s) previously reverted with undo",
+    schema: {
+        sessionId: z.string().describe('The session ID from start-query-session.'),
+        steps: z.number().int().min(1).default(1).describe('How many changes to redo.'),
+    },
+    outputSchema: {
+        ...historyChangeShape,
+        ...toolErrorShape,
+    },
+    handler: async ({ sessionId, steps = 1 }: { sessionId: string, steps?: number }) => {
+        const result = await redoQueryChange(sessionId, steps);
+
+        return toolResponse(result);
+    }
+};
+
+export const getSessionHistoryTool = {
+    name: "get-session-history",
+    description: "List the recorded revisions of a query-building session with the query text at each version",
+    schema: {
+        sessionId: z.string().describe('The session ID from start-query-session.'),
+        limit: z.number().int().min(1).default(20).describe('Maximum number of most recent revisions to return.'),
+    },
+    outputSchema: {
+        currentVersion: z.number().optional(),
+        canUndo: z.boolean().optional(),
+        canRedo: z.boolean().optional(),
+        revisions: z.array(z.object({
+            version: z.number(),
+            savedAt: z.string(),
+            query: z.string(),
+            current: z.boolean(),
+        })).optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ sessionId, limit = 20 }: { sessionId: string, limit?: number }) => {
+        const result = await getSessionHistory(sessionId, limit);
+
+        return toolResponse(result);
+    }
+};
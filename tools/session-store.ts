@@ -0,0 +1,433 @@
+import { config } from 'dotenv';
+import { createClient } from 'redis';
+import { promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
+
+// Load environment variables from .env file
+config({ path: '.env' });
+
+/**
+ * Key/value storage for session data. Values are opaque strings (serialized JSON)
+ * and every backend honors the same TTL semantics: a TTL of 0 means "never expire",
+ * and `expire` resets the remaining lifetime of an existing key.
+ */
+export interface SessionStore {
+    readonly kind: SessionStoreKind;
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, ttlSeconds: number): Promise<void>;
+    expire(key: string, ttlSeconds: number): Promise<void>;
+    delete(key: string): Promise<boolean>;
+}
+
+export type SessionStoreKind = 'redis' | 'memory' | 'file';
+
+// Configurable TTL shared by all backends
+export const SESSION_TTL_SECONDS = (() => {
+    const raw = process.env.SESSION_TTL_SECONDS;
+    if (raw === undefined) return 3600; // default 1 hour
+    const value = parseInt(raw, 10);
+    return isNaN(value) ? 3600 : value; // allow 0 => no expiry
+})();
+
+const REDIS_CONNECT_TIMEOUT_MS = (() => {
+    const v = parseInt(process.env.REDIS_CONNECT_TIMEOUT_MS || '100000', 10);
+    return isNaN(v) || v <= 0 ? 100000 : v;
+})();
+
+const REDIS_RETRY_INTERVAL_MS = (() => {
+    const value = parseInt(process.env.REDIS_RETRY_INTERVAL_MS || '30000', 10);
+    return isNaN(value) || value <= 0 ? 30000 : value;
+})();
+
+const REDIS_OPERATION_RETRY_MS = (() => {
+    const value = parseInt(process.env.REDIS_OPERATION_RETRY_MS || '1000', 10);
+    return isNaN(value) || value <= 0 ? 1000 : value;
+})();
+
+const REDIS_READY_MAX_WAIT_MS = (() => {
+    const v = parseInt(process.env.REDIS_READY_MAX_WAIT_MS || '100000', 10);
+    return isNaN(v) || v <= 0 ? 100000 : v;
+})();
+
+const REDIS_OPERATION_MAX_ATTEMPTS = (() => {
+    const v = parseInt(process.env.REDIS_OPERATION_MAX_ATTEMPTS || '10', 10);
+    return isNaN(v) || v <= 0 ? 10 : v;
+})();
+
+const MEMORY_STORE_MAX_ENTRIES = (() => {
+    const v = parseInt(process.env.SESSION_STORE_MAX_ENTRIES || '1000', 10);
+    return isNaN(v) || v <= 0 ? 1000 : v;
+})();
+
+function delay(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function expiresAtFor(ttlSeconds: number): number | null {
+    return ttlSeconds > 0 ? Date.now() + ttlSeconds * 1000 : null;
+}
+
+/**
+ * Redis-backed store with bounded reconnect and per-operation retries.
+ */
+export class RedisSessionStore implements SessionStore {
+    readonly kind = 'redis' as const;
+    private redis;
+    private useRedis = false;
+    private redisConnectionAttempted = false;
+    private redisConnectionPromise: Promise<void> | null = null;
+    private lastRedisInitAttempt = 0;
+
+    constructor(redisUrl: string = process.env.REDIS_URL || 'redis://localhost:6379') {
+        this.redis = createClient({
+            url: redisUrl,
+            socket: {
+                // Implement a bounded exponential backoff reconnect strategy
+                reconnectStrategy: (retries: number) => Math.min(1000 * Math.pow(2, retries), 15000),
+                connectTimeout: REDIS_CONNECT_TIMEOUT_MS,
+            }
+        });
+    }
+
+    async get(key: string): Promise<string | null> {
+        return await this.withRedisRetry('get', async () => {
+            const data = await this.redis.get(key);
+            if (!data) return null;
+            return typeof data === 'string' ? data : (data as Buffer).toString();
+        });
+    }
+
+    async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+        await this.withRedisRetry('set', async () => {
+            if (ttlSeconds > 0) {
+                await this.redis.setEx(key, ttlSeconds, value);
+            } else {
+                await this.redis.set(key, value);
+            }
+        });
+    }
+
+    async expire(key: string, ttlSeconds: number): Promise<void> {
+        if (ttlSeconds <= 0) return;
+        await this.withRedisRetry('expire', async () => {
+            await this.redis.expire(key, ttlSeconds);
+        });
+    }
+
+    async delete(key: string): Promise<boolean> {
+        return await this.withRedisRetry('delete', async () => {
+            const result = await this.redis.del(key);
+            return (result as number) > 0;
+        });
+    }
+
+    private async waitForRedisReady(): Promise<void> {
+        // Ensure connection attempts are active
+        await this.initializeRedis();
+
+        let backoff = 250;
+        const maxBackoff = 5000;
+        const maxWaitTime = REDIS_READY_MAX_WAIT_MS; // Configurable wait for Redis readiness
+        const startTime = Date.now();
+
+        while (!(this.redis as any).isReady) {
+            // Check if we've exceeded maximum wait time
+            if (Date.now() - startTime > maxWaitTime) {
+                console.warn(`Redis connection timeout after ${maxWaitTime}ms, giving up`);
+                throw new Error('Redis connection timeout');
+            }
+
+            await delay(backoff);
+            backoff = Math.min(maxBackoff, Math.floor(backoff * 1.5));
+            // Kick the client in case connect wasn't called yet or ended
+            try {
+                if (!(this.redis as any).isOpen) {
+                    await this.redis.connect().catch(() => { });
+                }
+            } catch { }
+        }
+    }
+
+    // Initialize Redis connection
+    private async initializeRedis(): Promise<boolean> {
+        // If already using Redis and client is ready, we're good
+        if (this.useRedis && (this.redis as any).isReady) {
+            return true;
+        }
+
+        // If a previous attempt failed, allow periodic re-attempts
+        const now = Date.now();
+        if (this.redisConnectionAttempted && !this.useRedis && now - this.lastRedisInitAttempt < REDIS_RETRY_INTERVAL_MS) {
+            return false;
+        }
+
+        if (!this.redisConnectionPromise || (!this.useRedis && now - this.lastRedisInitAttempt >= REDIS_RETRY_INTERVAL_MS)) {
+            this.redisConnectionPromise = (async () => {
+                try {
+                    this.redisConnectionAttempted = true;
+                    this.lastRedisInitAttempt = Date.now();
+                    let connectionSucceeded = false;
+
+                    this.redis.on('error', (err: Error) => {
+                        if (!connectionSucceeded) {
+                            console.error('Redis connection failed:', err.message);
+                            this.useRedis = false;
+                        } else {
+                            console.warn('Redis error after successful connection:', err.message);
+                        }
+                    });
+
+                    this.redis.on('connect', () => {
+                        console.log('Redis Client Connected');
+                    });
+
+                    this.redis.on('ready', () => {
+                        console.log('Redis Client Ready');
+                    });
+
+                    this.redis.on('end', () => {
+                        console.warn('Redis connection ended. Waiting for reconnection...');
+                        this.useRedis = false;
+                        // Allow subsequent initialize attempts
+                        this.redisConnectionAttempted = false;
+                        this.redisConnectionPromise = null;
+                    });
+
+                    if (!(this.redis as any).isOpen) {
+                        await Promise.race([
+                            this.redis.connect(),
+                            new Promise((_, reject) =>
+                                setTimeout(() => reject(new Error('Redis connection timeout')), REDIS_CONNECT_TIMEOUT_MS)
+                            )
+                        ]);
+                    }
+
+                    // Verify connection works before marking as successful
+                    await this.redis.ping();
+                    connectionSucceeded = true;
+                    this.useRedis = true;
+                    console.log('Redis connection verified');
+
+                } catch (error) {
+                    console.error('Redis connection failed:', error instanceof Error ? error.message : String(error));
+                    this.useRedis = false;
+                }
+            })();
+        }
+
+        await this.redisConnectionPromise;
+        return this.useRedis;
+    }
+
+    private async withRedisRetry<T>(label: string, op: () => Promise<T>): Promise<T> {
+        // Ensure Redis is connected (retry until ready)
+        await this.waitForRedisReady();
+        let attempt = 0;
+        const maxAttempts = REDIS_OPERATION_MAX_ATTEMPTS; // Configurable op-level retry attempts
+
+        // Use capped exponential backoff for op-level retry
+        while (attempt < maxAttempts) {
+            try {
+                return await op();
+            } catch (err: any) {
+                attempt++;
+                console.warn(`[${label}] Redis operation failed (attempt ${attempt}/${maxAttempts}): ${err?.message || err}`);
+
+                // If we've exhausted all attempts, throw the error
+                if (attempt >= maxAttempts) {
+                    console.error(`[${label}] Redis operation failed after ${maxAttempts} attempts, giving up`);
+                    throw new Error(`Redis operation failed: ${err?.message || err}`);
+                }
+
+                // If client not ready, wait and try to reconnect
+                if (!(this.redis as any).isReady) {
+                    await delay(REDIS_OPERATION_RETRY_MS);
+                    await this.waitForRedisReady();
+                    continue;
+                }
+                // Backoff before retry
+                const sleep = Math.min(REDIS_OPERATION_RETRY_MS * attempt, 5000);
+                await delay(sleep);
+            }
+        }
+
+        // This should never be reached due to the throw above, but TypeScript needs it
+        throw new Error(`[${label}] Unexpected end of retry loop`);
+    }
+}
+
+/**
+ * In-process store. Entries are kept in insertion order of last access so the
+ * least recently used session is evicted once `maxEntries` is reached.
+ */
+export class MemorySessionStore implements SessionStore {
+    readonly kind = 'memory' as const;
+    private entries: Map<string, { value: string; expiresAt: number | null }> = new Map();
+
+    constructor(private maxEntries: number = MEMORY_STORE_MAX_ENTRIES) { }
+
+    async get(key: string): Promise<string | null> {
+        const entry = this.entries.get(key);
+        if (!entry) return null;
+        if (entry.expiresAt !== null && Date.now() >= entry.expiresAt) {
+            this.entries.delete(key);
+            return null;
+        }
+        // Refresh recency
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: expiresAtFor(ttlSeconds) });
+        this.evict();
+    }
+
+    async expire(key: string, ttlSeconds: number): Promise<void> {
+        const entry = this.entries.get(key);
+        if (entry && ttlSeconds > 0) {
+            entry.expiresAt = expiresAtFor(ttlSeconds);
+        }
+    }
+
+    async delete(key: string): Promise<boolean> {
+        return this.entries.delete(key);
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    private evict() {
+        const now = Date.now();
+        for (const [key, entry] of this.entries) {
+            if (entry.expiresAt !== null && now >= entry.expiresAt) {
+                this.entries.delete(key);
+            }
+        }
+        while (this.entries.size > this.maxEntries) {
+            const oldestKey = this.entries.keys().next().value as string;
+            this.entries.delete(oldestKey);
+        }
+    }
+}
+
+/**
+ * Store persisted to a single JSON file. Writes are serialized and go through a
+ * temporary file + rename so a crash never leaves a half-written file behind.
+ */
+export class FileSessionStore implements SessionStore {
+    readonly kind = 'file' as const;
+    private filePath: string;
+    private writeQueue: Promise<unknown> = Promise.resolve();
+
+    constructor(filePath: string = process.env.SESSION_STORE_FILE || '.temp/sessions.json') {
+        this.filePath = resolve(filePath);
+    }
+
+    async get(key: string): Promise<string | null> {
+        const entries = await this.readEntries();
+        const entry = entries[key];
+        if (!entry) return null;
+        if (entry.expiresAt !== null && Date.now() >= entry.expiresAt) {
+            await this.delete(key);
+            return null;
+        }
+        return entry.value;
+    }
+
+    async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+        await this.update(entries => {
+            entries[key] = { value, expiresAt: expiresAtFor(ttlSeconds) };
+        });
+    }
+
+    async expire(key: string, ttlSeconds: number): Promise<void> {
+        if (ttlSeconds <= 0) return;
+        await this.update(entries => {
+            if (entries[key]) {
+                entries[key].expiresAt = expiresAtFor(ttlSeconds);
+            }
+        });
+    }
+
+    async delete(key: string): Promise<boolean> {
+        let deleted = false;
+        await this.update(entries => {
+            deleted = key in entries;
+            delete entries[key];
+        });
+        return deleted;
+    }
+
+    private async readEntries(): Promise<Record<string, { value: string; expiresAt: number | null }>> {
+        try {
+            const raw = await fs.readFile(this.filePath, 'utf8');
+            const parsed = JSON.parse(raw);
+            return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') return {};
+            throw new Error(`Failed to read session file ${this.filePath}: ${error?.message || error}`);
+        }
+    }
+
+    private update(mutate: (entries: Record<string, { value: string; expiresAt: number | null }>) => void): Promise<void> {
+        const run = async () => {
+            const entries = await this.readEntries();
+            mutate(entries);
+
+            // Drop expired entries while we are rewriting the file anyway
+            const now = Date.now();
+            for (const [key, entry] of Object.entries(entries)) {
+                if (entry.expiresAt !== null && now >= entry.expiresAt) {
+                    delete entries[key];
+                }
+            }
+
+            await fs.mkdir(dirname(this.filePath), { recursive: true });
+            const tempPath = `${this.filePath}.${process.pid}.tmp`;
+            await fs.writeFile(tempPath, JSON.stringify(entries), 'utf8');
+            await fs.rename(tempPath, this.filePath);
+        };
+
+        const result = this.writeQueue.then(run, run);
+        this.writeQueue = result.catch(() => { });
+        return result;
+    }
+}
+
+let sessionStore: SessionStore | null = null;
+
+/**
+ * Create a store from configuration. SESSION_STORE selects the backend
+ * ("redis" by default, "memory" or "file"); SESSION_STORE_FILE sets the file path.
+ */
+export function createSessionStore(kind: string = process.env.SESSION_STORE || 'redis'): SessionStore {
+    switch (kind.trim().toLowerCase()) {
+        case 'redis':
+            return new RedisSessionStore();
+        case 'memory':
+            return new MemorySessionStore();
+        case 'file':
+            return new FileSessionStore();
+        default:
+            throw new Error(`Unknown SESSION_STORE '${kind}'. Expected one of: redis, memory, file`);
+    }
+}
+
+export function getSessionStore(): SessionStore {
+    if (!sessionStore) {
+        sessionStore = createSessionStore();
+        console.log(`Using ${sessionStore.kind} session store`);
+    }
+    return sessionStore;
+}
+
+/**
+ * Replace the active store (mainly for tests and embedding).
+ */
+export function setSessionStore(store: SessionStore | null): void {
+    sessionStore = store;
+}
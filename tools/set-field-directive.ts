@@ -9,6 +9,7 @@ import {
 } from "./shared-utils.js";
 import { isTypeSubTypeOf, typeFromAST } from "graphql";
 import { parseType } from "graphql/language/parser.js";
+import { ToolErrorCode, toolResponse, toolErrorShape, scalarValueSchema } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function setFieldDirective(
@@ -26,18 +27,20 @@ export async function setFieldDirective(
     argumentName?: string;
     argumentValue?: string | number | boolean | null;
     error?: string;
+    code?: ToolErrorCode;
 }> {
     // --- Input Validation ---
     const complexityError = validateInputComplexity(argumentValue, `directive argument "${argumentName}"`);
     if (complexityError) {
-        return { error: complexityError };
+        return { error: complexityError, code: 'LIMIT_EXCEEDED' };
     }
     // --- End Input Validation ---
 
     try {
         if (!GraphQLValidationUtils.isValidGraphQLName(directiveName.replace('@', ''))) {
             return {
-                error: `Invalid directive name "${directiveName}".`
+                error: `Invalid directive name "${directiveName}".`,
+                code: 'INVALID_INPUT'
             };
         }
 
@@ -45,22 +48,23 @@ export async function setFieldDirective(
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
         try {
-            const schema = await fetchAndCacheSchema(queryState.headers);
+            const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
             const directive = schema.getDirective(directiveName);
 
             if (!directive) {
-                return { error: `Directive '@${directiveName}' not found in the schema.` };
+                return { error: `Directive '@${directiveName}' not found in the schema.`, code: 'DIRECTIVE_NOT_FOUND' };
             }
 
             if (argumentName) {
                 const argDef = directive.args.find(a => a.name === argumentName);
                 if (!argDef) {
-                    return { error: `Argument '${argumentName}' not found on directive '@${directiveName}'.` };
+                    return { error: `Argument '${argumentName}' not found on directive '@${directiveName}'.`, code: 'ARGUMENT_NOT_FOUND' };
                 }
 
                 if (typeof argumentValue === 'string' && argumentValue.startsWith('$')) {
@@ -68,27 +72,27 @@ export async function setFieldDirective(
                     const variableName = argumentValue;
                     const variableTypeStr = queryState.variablesSchema[variableName];
                     if (!variableTypeStr) {
-                        return { error: `Variable '${variableName}' is not defined.` };
+                        return { error: `Variable '${variableName}' is not defined.`, code: 'VARIABLE_NOT_FOUND' };
                     }
                     const varTypeNode = parseType(variableTypeStr);
                     const varGqlType = typeFromAST(schema, varTypeNode as any);
                     if (!varGqlType) {
-                        return { error: `Could not determine type for variable '${variableName}'.` };
+                        return { error: `Could not determine type for variable '${variableName}'.`, code: 'TYPE_NOT_FOUND' };
                     }
 
                     if (!isTypeSubTypeOf(schema, varGqlType, argDef.type)) {
-                        return { error: `Variable '${variableName}' of type '${variableTypeStr}' cannot be used for argument '${argumentName}' of type '${argDef.type.toString()}'.` };
+                        return { error: `Variable '${variableName}' of type '${variableTypeStr}' cannot be used for argument '${argumentName}' of type '${argDef.type.toString()}'.`, code: 'VALIDATION_FAILED' };
                     }
                 } else if (argumentValue !== undefined) {
                     // It's a literal value
                     const validationError = GraphQLValidationUtils.validateValueAgainstType(argumentValue, argDef.type);
                     if (validationError) {
-                        return { error: `For argument '${argumentName}' on directive '@${directiveName}': ${validationError}` };
+                        return { error: `For argument '${argumentName}' on directive '@${directiveName}': ${validationError}`, code: 'VALIDATION_FAILED' };
                     }
                 }
             }
         } catch (e: any) {
-            return { error: `Directive argument validation failed: ${e.message}` };
+            return { error: `Directive argument validation failed: ${e.message}`, code: 'SCHEMA_UNAVAILABLE' };
         }
 
         // Navigate to field in query structure
@@ -98,7 +102,8 @@ export async function setFieldDirective(
             for (const part of pathParts) {
                 if (!currentNode.fields || !currentNode.fields[part]) {
                     return {
-                        error: `Field at path '${fieldPath}' not found.`
+                        error: `Field at path '${fieldPath}' not found.`,
+                        code: 'FIELD_NOT_FOUND'
                     };
                 }
                 currentNode = currentNode.fields[part];
@@ -177,6 +182,16 @@ export const setFieldDirectiveTool = {
         argumentName: z.string().optional().describe('Optional argument name for the directive.'),
         argumentValue: z.string().optional().describe('Optional argument value.'),
     },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        warning: z.string().optional(),
+        fieldPath: z.string().optional(),
+        directiveName: z.string().optional(),
+        argumentName: z.string().optional(),
+        argumentValue: scalarValueSchema.optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, fieldPath, directiveName, argumentName, argumentValue }: {
         sessionId: string,
         fieldPath: string,
@@ -186,11 +201,6 @@ export const setFieldDirectiveTool = {
     }) => {
         const result = await setFieldDirective(sessionId, fieldPath, directiveName, argumentName, argumentValue);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
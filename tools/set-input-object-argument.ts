@@ -7,6 +7,7 @@ import {
     validateInputComplexity
 } from "./shared-utils.js";
 import { getNamedType, isInputObjectType, isNonNullType, isListType, GraphQLInputType } from 'graphql';
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 async function setObjectValueByPath(obj: any, path: string, value: any) {
     const keys = path.split('.');
@@ -34,18 +35,23 @@ export async function setInputObjectArgument(
     argumentName: string,
     objectPath: string,
     value: any
-) {
+): Promise<{
+    success?: boolean;
+    message?: string;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
     try {
         // --- Input Validation ---
         const complexityError = validateInputComplexity(value, `input object argument "${argumentName}"`);
         if (complexityError) {
-            return { error: complexityError };
+            return { error: complexityError, code: 'LIMIT_EXCEEDED' };
         }
         // --- End Input Validation ---
 
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
-            return { error: 'Session not found.' };
+            return { error: 'Session not found.', code: 'SESSION_NOT_FOUND' };
         }
 
         let fieldNode = queryState.queryStructure;
@@ -53,7 +59,7 @@ export async function setInputObjectArgument(
             const pathParts = fieldPath.split('.');
             for (const part of pathParts) {
                 if (!fieldNode.fields || !fieldNode.fields[part]) {
-                    return { error: `Field at path '${fieldPath}' not found.` };
+                    return { error: `Field at path '${fieldPath}' not found.`, code: 'FIELD_NOT_FOUND' };
                 }
                 fieldNode = fieldNode.fields[part];
             }
@@ -67,13 +73,14 @@ export async function setInputObjectArgument(
         const existingArg = (fieldNode as any).args[argumentName];
         if (existingArg && typeof existingArg === 'string' && existingArg.startsWith('$')) {
             return {
-                error: `Cannot set input object properties on variable argument '${argumentName}'. The argument is currently set to variable '${existingArg}'. Remove the variable first or use a different approach.`
+                error: `Cannot set input object properties on variable argument '${argumentName}'. The argument is currently set to variable '${existingArg}'. Remove the variable first or use a different approach.`,
+                code: 'VALIDATION_FAILED'
             };
         }
 
         // Schema-aware validation: ensure the argument exists and is an input object, and that objectPath is valid
         try {
-            const schema = await fetchAndCacheSchema(queryState.headers);
+            const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
 
             // Resolve field definition in schema from fieldPath
             // Start from the correct root operation type
@@ -88,7 +95,7 @@ export async function setInputObjectArgument(
                 const fields: any = currentType.getFields();
                 const field = fields[part];
                 if (!field) {
-                    return { error: `Field '${part}' not found in schema for path '${fieldPath}'.` };
+                    return { error: `Field '${part}' not found in schema for path '${fieldPath}'.`, code: 'FIELD_NOT_FOUND' };
                 }
                 currentType = getNamedType(field.type);
             }
@@ -98,7 +105,7 @@ export async function setInputObjectArgument(
             const fieldDef = parts.length > 0 ? fields[lastKey] : null;
             const argType: GraphQLInputType | null = GraphQLValidationUtils.getArgumentType(schema, fieldPath, argumentName);
             if (!argType) {
-                return { error: `Argument '${argumentName}' not found on field '${fieldPath || 'root'}'.` };
+                return { error: `Argument '${argumentName}' not found on field '${fieldPath || 'root'}'.`, code: 'ARGUMENT_NOT_FOUND' };
             }
 
             // Unwrap NonNull/List to get base input type for structural validation
@@ -111,7 +118,7 @@ export async function setInputObjectArgument(
             };
             const baseArgType: any = unwrapInputType(argType);
             if (!isInputObjectType(baseArgType)) {
-                return { error: `Argument '${argumentName}' is not an input object; cannot set nested path '${objectPath}'.` };
+                return { error: `Argument '${argumentName}' is not an input object; cannot set nested path '${objectPath}'.`, code: 'VALIDATION_FAILED' };
             }
 
             // Validate objectPath against input object fields
@@ -122,24 +129,24 @@ export async function setInputObjectArgument(
                 const fieldsMap = currentInputType.getFields();
                 const fieldEntry = fieldsMap[seg];
                 if (!fieldEntry) {
-                    return { error: `Path segment '${seg}' not found in input type '${currentInputType.name}'.` };
+                    return { error: `Path segment '${seg}' not found in input type '${currentInputType.name}'.`, code: 'ARGUMENT_NOT_FOUND' };
                 }
                 const nextType = unwrapInputType(fieldEntry.type);
                 if (i < pathSegments.length - 1) {
                     if (!isInputObjectType(nextType)) {
-                        return { error: `Path '${pathSegments.slice(0, i + 1).join('.')}' is not an input object.` };
+                        return { error: `Path '${pathSegments.slice(0, i + 1).join('.')}' is not an input object.`, code: 'VALIDATION_FAILED' };
                     }
                     currentInputType = nextType;
                 } else {
                     // Leaf value validation
                     const validationError = GraphQLValidationUtils.validateValueAgainstType(value, fieldEntry.type);
                     if (validationError) {
-                        return { error: `Invalid value for '${objectPath}': ${validationError}` };
+                        return { error: `Invalid value for '${objectPath}': ${validationError}`, code: 'VALIDATION_FAILED' };
                     }
                 }
             }
         } catch (e: any) {
-            return { error: `Schema validation failed: ${e.message}` };
+            return { error: `Schema validation failed: ${e.message}`, code: 'SCHEMA_UNAVAILABLE' };
         }
 
         if (!(fieldNode as any).args[argumentName]) {
@@ -170,6 +177,11 @@ export const setInputObjectArgumentTool = {
         objectPath: z.string().describe("Dot-notation path inside the input object"),
         value: z.string().describe("Value to set"),
     },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        ...toolErrorShape,
+    },
     handler: async ({
         sessionId,
         fieldPath,
@@ -190,11 +202,6 @@ export const setInputObjectArgumentTool = {
             objectPath,
             value
         );
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     },
 }; 
\ No newline at end of file
@@ -2,6 +2,7 @@ import { z } from "zod";
 import { QueryState, loadQueryState, saveQueryState, GraphQLValidationUtils, fetchAndCacheSchema } from "./shared-utils.js";
 import { isTypeSubTypeOf, typeFromAST } from "graphql";
 import { parseType } from "graphql/language/parser.js";
+import { ToolErrorCode, toolResponse, toolErrorShape, scalarValueSchema } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function setOperationDirective(
@@ -16,12 +17,14 @@ export async function setOperationDirective(
     argumentName?: string;
     argumentValue?: string | number | boolean | null;
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         // Validate directive name syntax
         if (!GraphQLValidationUtils.isValidGraphQLName(directiveName.replace('@', ''))) {
             return {
-                error: `Invalid directive name "${directiveName}".`
+                error: `Invalid directive name "${directiveName}".`,
+                code: 'INVALID_INPUT'
             };
         }
 
@@ -29,47 +32,48 @@ export async function setOperationDirective(
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
         // Schema-aware validation for directive and its argument
         if (argumentName) {
             try {
-                const schema = await fetchAndCacheSchema(queryState.headers);
+                const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
                 const directive = schema.getDirective(directiveName);
                 if (!directive) {
-                    return { error: `Directive '@${directiveName}' not found in the schema.` };
+                    return { error: `Directive '@${directiveName}' not found in the schema.`, code: 'DIRECTIVE_NOT_FOUND' };
                 }
 
                 const argDef = directive.args.find(a => a.name === argumentName);
                 if (!argDef) {
-                    return { error: `Argument '${argumentName}' not found on directive '@${directiveName}'.` };
+                    return { error: `Argument '${argumentName}' not found on directive '@${directiveName}'.`, code: 'ARGUMENT_NOT_FOUND' };
                 }
 
                 if (typeof argumentValue === 'string' && argumentValue.startsWith('$')) {
                     const variableName = argumentValue;
                     const variableTypeStr = queryState.variablesSchema[variableName];
                     if (!variableTypeStr) {
-                        return { error: `Variable '${variableName}' is not defined.` };
+                        return { error: `Variable '${variableName}' is not defined.`, code: 'VARIABLE_NOT_FOUND' };
                     }
                     const varTypeNode = parseType(variableTypeStr);
                     const varGqlType = typeFromAST(schema, varTypeNode as any);
                     if (!varGqlType) {
-                        return { error: `Could not determine type for variable '${variableName}'.` };
+                        return { error: `Could not determine type for variable '${variableName}'.`, code: 'TYPE_NOT_FOUND' };
                     }
 
                     if (!isTypeSubTypeOf(schema, varGqlType, argDef.type)) {
-                        return { error: `Variable '${variableName}' of type '${variableTypeStr}' cannot be used for argument '${argumentName}' of type '${argDef.type.toString()}'.` };
+                        return { error: `Variable '${variableName}' of type '${variableTypeStr}' cannot be used for argument '${argumentName}' of type '${argDef.type.toString()}'.`, code: 'VALIDATION_FAILED' };
                     }
                 } else if (argumentValue !== undefined) {
                     const validationError = GraphQLValidationUtils.validateValueAgainstType(argumentValue, argDef.type);
                     if (validationError) {
-                        return { error: `For argument '${argumentName}' on directive '@${directiveName}': ${validationError}` };
+                        return { error: `For argument '${argumentName}' on directive '@${directiveName}': ${validationError}`, code: 'VALIDATION_FAILED' };
                     }
                 }
             } catch (e: any) {
-                return { error: `Directive argument validation failed: ${e.message}` };
+                return { error: `Directive argument validation failed: ${e.message}`, code: 'SCHEMA_UNAVAILABLE' };
             }
         }
 
@@ -134,6 +138,14 @@ export const setOperationDirectiveTool = {
         argumentName: z.string().optional().describe('Optional argument name for the directive.'),
         argumentValue: z.string().optional().describe('Optional argument value.'),
     },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        directiveName: z.string().optional(),
+        argumentName: z.string().optional(),
+        argumentValue: scalarValueSchema.optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, directiveName, argumentName, argumentValue }: {
         sessionId: string,
         directiveName: string,
@@ -142,11 +154,6 @@ export const setOperationDirectiveTool = {
     }) => {
         const result = await setOperationDirective(sessionId, directiveName, argumentName, argumentValue);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
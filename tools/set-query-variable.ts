@@ -9,6 +9,7 @@ import {
 } from "./shared-utils.js";
 import { typeFromAST, GraphQLType } from "graphql";
 import { parseType } from "graphql/language/parser.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function setQueryVariable(
@@ -22,12 +23,13 @@ export async function setQueryVariable(
     variablesSchema?: { [key: string]: string };
     variablesDefaults?: { [key: string]: any };
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         // --- Input Validation ---
         const complexityError = validateInputComplexity(defaultValue, `default value for variable "${variableName}"`);
         if (complexityError) {
-            return { error: complexityError };
+            return { error: complexityError, code: 'LIMIT_EXCEEDED' };
         }
         // --- End Input Validation ---
 
@@ -35,7 +37,8 @@ export async function setQueryVariable(
         const variableValidation = GraphQLValidationUtils.validateVariableName(variableName);
         if (!variableValidation.valid) {
             return {
-                error: variableValidation.error || 'Invalid variable name.'
+                error: variableValidation.error || 'Invalid variable name.',
+                code: 'INVALID_INPUT'
             };
         }
 
@@ -43,12 +46,22 @@ export async function setQueryVariable(
         const typeValidation = GraphQLValidationUtils.validateVariableType(variableType);
         if (!typeValidation.valid) {
             return {
-                error: typeValidation.error || 'Invalid variable type.'
+                error: typeValidation.error || 'Invalid variable type.',
+                code: typeValidation.code || 'INVALID_INPUT'
             };
         }
 
-        // Validate variable type exists in schema
-        const schema = await fetchAndCacheSchema();
+        // Load query state
+        const queryState = await loadQueryState(sessionId);
+        if (!queryState) {
+            return {
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
+            };
+        }
+
+        // Validate variable type exists in the schema of the session's endpoint
+        const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
         if (schema) {
             try {
                 const typeNode = parseType(variableType);
@@ -56,28 +69,23 @@ export async function setQueryVariable(
 
                 if (!gqlType) {
                     return {
-                        error: `Type '${variableType}' does not exist in the GraphQL schema.`
+                        error: `Type '${variableType}' does not exist in the GraphQL schema.`,
+                        code: 'TYPE_NOT_FOUND'
                     };
                 }
             } catch (parseError: any) {
                 return {
-                    error: `Invalid variable type syntax: ${parseError.message}`
+                    error: `Invalid variable type syntax: ${parseError.message}`,
+                    code: 'INVALID_INPUT'
                 };
             }
         }
 
-        // Load query state
-        const queryState = await loadQueryState(sessionId);
-        if (!queryState) {
-            return {
-                error: 'Session not found.'
-            };
-        }
-
         // Legacy validation for backward compatibility
         if (!variableName.startsWith('$')) {
             return {
-                error: `Variable name must start with '$'. Provided: '${variableName}'.`
+                error: `Variable name must start with '$'. Provided: '${variableName}'.`,
+                code: 'INVALID_INPUT'
             };
         }
 
@@ -87,12 +95,12 @@ export async function setQueryVariable(
         // Set default value if provided
         if (defaultValue !== undefined) {
             try {
-                const schema = await fetchAndCacheSchema(queryState.headers);
+                const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
                 const typeNode = parseType(variableType);
                 const gqlType = typeFromAST(schema, typeNode as any);
 
                 if (!gqlType) {
-                    return { error: `Could not determine GraphQL type for '${variableType}'.` };
+                    return { error: `Could not determine GraphQL type for '${variableType}'.`, code: 'TYPE_NOT_FOUND' };
                 }
 
                 // Apply coercion for string values
@@ -106,12 +114,12 @@ export async function setQueryVariable(
 
                 const validationError = GraphQLValidationUtils.validateValueAgainstType(processedValue, gqlType);
                 if (validationError) {
-                    return { error: `For default value of variable '${variableName}': ${validationError}` };
+                    return { error: `For default value of variable '${variableName}': ${validationError}`, code: 'VALIDATION_FAILED' };
                 }
 
                 queryState.variablesDefaults[variableName] = processedValue;
             } catch (e: any) {
-                return { error: `Type validation for default value failed: ${e.message}` };
+                return { error: `Type validation for default value failed: ${e.message}`, code: 'VALIDATION_FAILED' };
             }
         }
 
@@ -140,6 +148,13 @@ export const setQueryVariableTool = {
         variableType: z.string().describe('The GraphQL variable type (e.g., "ID!", "String", "Int").'),
         defaultValue: z.string().optional().describe('Optional default value for the variable.'),
     },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        variablesSchema: z.record(z.string()).optional(),
+        variablesDefaults: z.record(z.any()).optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, variableName, variableType, defaultValue }: {
         sessionId: string,
         variableName: string,
@@ -148,11 +163,6 @@ export const setQueryVariableTool = {
     }) => {
         const result = await setQueryVariable(sessionId, variableName, variableType, defaultValue);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
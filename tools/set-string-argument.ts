@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { QueryState, loadQueryState, saveQueryState, GraphQLValidationUtils } from "./shared-utils.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function setStringArgument(
@@ -14,29 +15,32 @@ export async function setStringArgument(
     warning?: string;
     queryStructure?: any;
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         // Input validation for size and control characters, skip for enums
         if (!isEnum) {
             if (value === '') {
                 return {
-                    error: `Empty string not allowed for argument "${argumentName}". Use null for empty values or provide a non-empty string.`
+                    error: `Empty string not allowed for argument "${argumentName}". Use null for empty values or provide a non-empty string.`,
+                    code: 'VALIDATION_FAILED'
                 };
             }
             const lengthValidation = GraphQLValidationUtils.validateStringLength(value, argumentName);
-            if (!lengthValidation.valid) return { error: lengthValidation.error };
+            if (!lengthValidation.valid) return { error: lengthValidation.error, code: lengthValidation.code };
 
             const controlCharValidation = GraphQLValidationUtils.validateNoControlCharacters(value, argumentName);
-            if (!controlCharValidation.valid) return { error: controlCharValidation.error };
+            if (!controlCharValidation.valid) return { error: controlCharValidation.error, code: controlCharValidation.code };
         }
 
         const paginationValidation = GraphQLValidationUtils.validatePaginationValue(argumentName, value);
-        if (!paginationValidation.valid) return { error: paginationValidation.error };
+        if (!paginationValidation.valid) return { error: paginationValidation.error, code: paginationValidation.code };
 
         // Validate argument name syntax
         if (!GraphQLValidationUtils.isValidGraphQLName(argumentName)) {
             return {
-                error: `Invalid argument name "${argumentName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`
+                error: `Invalid argument name "${argumentName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                code: 'INVALID_INPUT'
             };
         }
 
@@ -44,7 +48,8 @@ export async function setStringArgument(
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
@@ -52,7 +57,7 @@ export async function setStringArgument(
         let validationWarning: string | undefined;
         try {
             const { fetchAndCacheSchema } = await import('./shared-utils.js');
-            const schema = await fetchAndCacheSchema(queryState.headers);
+            const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
             
             const validation = GraphQLValidationUtils.validateArgumentAddition(
                 schema,
@@ -65,7 +70,8 @@ export async function setStringArgument(
 
             if (!validation.valid) {
                 return {
-                    error: validation.error
+                    error: validation.error,
+                    code: validation.code
                 };
             }
 
@@ -73,7 +79,8 @@ export async function setStringArgument(
 
         } catch (error) {
             return {
-                error: `Schema validation failed: ${error instanceof Error ? error.message : String(error)}`
+                error: `Schema validation failed: ${error instanceof Error ? error.message : String(error)}`,
+                code: 'SCHEMA_UNAVAILABLE'
             };
         }
 
@@ -84,7 +91,8 @@ export async function setStringArgument(
             for (const part of pathParts) {
                 if (!currentNode.fields || !currentNode.fields[part]) {
                     return {
-                        error: `Field at path '${fieldPath}' not found.`
+                        error: `Field at path '${fieldPath}' not found.`,
+                        code: 'FIELD_NOT_FOUND'
                     };
                 }
                 currentNode = currentNode.fields[part];
@@ -160,6 +168,13 @@ export const setStringArgumentTool = {
         value: z.string().describe('The string value for the argument.'),
         isEnum: z.boolean().default(false).describe('If true, treat as enum value (unquoted).'),
     },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        warning: z.string().optional(),
+        queryStructure: z.any().optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, fieldPath, argumentName, value, isEnum = false }: {
         sessionId: string,
         fieldPath: string,
@@ -169,11 +184,6 @@ export const setStringArgumentTool = {
     }) => {
         const result = await setStringArgument(sessionId, fieldPath, argumentName, value, isEnum);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
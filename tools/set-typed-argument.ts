@@ -8,6 +8,7 @@ import {
     validateInputComplexity
 } from "./shared-utils.js";
 import { coerceInputValue, valueFromAST, parseValue } from 'graphql';
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 const setTypedArgumentDefinition = z.object({
     sessionId: z.string().describe("The session ID for the user's current query building session."),
@@ -22,43 +23,51 @@ type SetTypedArgumentParams = z.infer<typeof setTypedArgumentDefinition>;
  * Sets a typed argument (number, boolean, null) on a field in the GraphQL query.
  * This tool performs schema-aware validation to ensure the value is valid for the argument's type.
  */
-async function handler({ sessionId, fieldPath, argumentName, value }: SetTypedArgumentParams): Promise<any> {
+export async function setTypedArgument({ sessionId, fieldPath, argumentName, value }: SetTypedArgumentParams): Promise<{
+    success?: boolean;
+    message?: string;
+    query?: string;
+    queryStructure?: any;
+    warning?: string;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
     // --- Input Validation ---
     const complexityError = validateInputComplexity(value, `argument "${argumentName}"`);
     if (complexityError) {
-        return { content: [{ type: 'text', text: JSON.stringify({ success: undefined, error: complexityError }) }] };
+        return { error: complexityError, code: 'LIMIT_EXCEEDED' };
     }
 
     if (typeof value === 'string') {
         const lengthValidation = GraphQLValidationUtils.validateStringLength(value, argumentName);
         if (!lengthValidation.valid) {
-            return { content: [{ type: 'text', text: JSON.stringify({ success: undefined, error: lengthValidation.error }) }] };
+            return { error: lengthValidation.error, code: lengthValidation.code };
         }
 
         const controlCharValidation = GraphQLValidationUtils.validateNoControlCharacters(value, argumentName);
         if (!controlCharValidation.valid) {
-            return { content: [{ type: 'text', text: JSON.stringify({ success: undefined, error: controlCharValidation.error }) }] };
+            return { error: controlCharValidation.error, code: controlCharValidation.code };
         }
     }
 
     if (!GraphQLValidationUtils.isValidGraphQLName(argumentName)) {
-        return { content: [{ type: 'text', text: JSON.stringify({ success: undefined, error: `Invalid argument name: ${argumentName}` }) }] };
+        return { error: `Invalid argument name: ${argumentName}`, code: 'INVALID_INPUT' };
     }
     // --- End Input Validation ---
 
     const state = await loadQueryState(sessionId);
     if (!state) {
-        return { content: [{ type: 'text', text: JSON.stringify({ success: undefined, error: 'Session not found. Please start a new session.' }) }] };
+        return { error: 'Session not found. Please start a new session.', code: 'SESSION_NOT_FOUND' };
     }
 
-    const schema = await fetchAndCacheSchema(state.headers);
+    const schema = await fetchAndCacheSchema(state.headers, state.endpoint);
     if (!schema) {
-        return { content: [{ type: 'text', text: JSON.stringify({ success: undefined, error: 'Could not fetch or load GraphQL schema.' }) }] };
+        return { error: 'Could not fetch or load GraphQL schema.', code: 'SCHEMA_UNAVAILABLE' };
     }
 
     // Validate argument name
     if (!GraphQLValidationUtils.isValidGraphQLName(argumentName)) {
-        return { content: [{ type: 'text', text: JSON.stringify({ success: undefined, error: `Invalid argument name: ${argumentName}` }) }] };
+        return { error: `Invalid argument name: ${argumentName}`, code: 'INVALID_INPUT' };
     }
 
     // --- Pagination Size Validation ---
@@ -67,22 +76,14 @@ async function handler({ sessionId, fieldPath, argumentName, value }: SetTypedAr
     if (PAGINATION_ARGS.includes(argumentName.toLowerCase()) && typeof value === 'number') {
         if (value > MAX_PAGINATION_LIMIT) {
             return {
-                content: [{
-                    type: 'text', text: JSON.stringify({
-                        success: undefined,
-                        error: `Pagination argument '${argumentName}' exceeds the maximum allowed limit of ${MAX_PAGINATION_LIMIT}.`
-                    })
-                }]
+                error: `Pagination argument '${argumentName}' exceeds the maximum allowed limit of ${MAX_PAGINATION_LIMIT}.`,
+                code: 'LIMIT_EXCEEDED'
             };
         }
         if (value < 0) {
             return {
-                content: [{
-                    type: 'text', text: JSON.stringify({
-                        success: undefined,
-                        error: `Pagination argument '${argumentName}' cannot be negative.`
-                    })
-                }]
+                error: `Pagination argument '${argumentName}' cannot be negative.`,
+                code: 'INVALID_INPUT'
             };
         }
     }
@@ -91,13 +92,13 @@ async function handler({ sessionId, fieldPath, argumentName, value }: SetTypedAr
     // Find the field in the query structure FIRST
     const pathParts = fieldPath.split('.').filter(p => p);
     if (pathParts.length === 0) {
-        return { content: [{ type: 'text', text: JSON.stringify({ success: undefined, error: "fieldPath cannot be empty." }) }] };
+        return { error: "fieldPath cannot be empty.", code: 'INVALID_INPUT' };
     }
 
     let currentPath: any = state.queryStructure;
     for (const part of pathParts) {
         if (!currentPath.fields || !currentPath.fields[part]) {
-            return { content: [{ type: 'text', text: JSON.stringify({ success: undefined, error: `Field at path '${fieldPath}' not found.` }) }] };
+            return { error: `Field at path '${fieldPath}' not found.`, code: 'FIELD_NOT_FOUND' };
         }
         currentPath = currentPath.fields[part];
     }
@@ -105,7 +106,7 @@ async function handler({ sessionId, fieldPath, argumentName, value }: SetTypedAr
     const targetField = currentPath;
 
     if (!targetField) {
-        return { content: [{ type: 'text', text: JSON.stringify({ success: undefined, error: `Field at path '${fieldPath}' not found.` }) }] };
+        return { error: `Field at path '${fieldPath}' not found.`, code: 'FIELD_NOT_FOUND' };
     }
 
     // Comprehensive incremental validation
@@ -120,13 +121,8 @@ async function handler({ sessionId, fieldPath, argumentName, value }: SetTypedAr
 
     if (!validation.valid) {
         return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    success: undefined,
-                    error: validation.error,
-                })
-            }]
+            error: validation.error,
+            code: validation.code
         };
     }
 
@@ -134,13 +130,8 @@ async function handler({ sessionId, fieldPath, argumentName, value }: SetTypedAr
     const argType = GraphQLValidationUtils.getArgumentType(schema, fieldPath, argumentName);
     if (!argType) {
         return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    success: undefined,
-                    error: `Argument '${argumentName}' not found on field '${fieldPath}'.`,
-                })
-            }]
+            error: `Argument '${argumentName}' not found on field '${fieldPath}'.`,
+            code: 'ARGUMENT_NOT_FOUND'
         };
     }
 
@@ -240,13 +231,8 @@ async function handler({ sessionId, fieldPath, argumentName, value }: SetTypedAr
         }
     } catch (error: any) {
         return {
-            content: [{
-                type: 'text',
-                text: JSON.stringify({
-                    success: undefined,
-                    error: `Invalid value for argument '${argumentName}'. Reason: ${error.message}`,
-                })
-            }]
+            error: `Invalid value for argument '${argumentName}'. Reason: ${error.message}`,
+            code: 'VALIDATION_FAILED'
         };
     }
 
@@ -284,12 +270,7 @@ async function handler({ sessionId, fieldPath, argumentName, value }: SetTypedAr
         response.warning = validation.warning;
     }
 
-    return {
-        content: [{
-            type: 'text', 
-            text: JSON.stringify(response)
-        }]
-    };
+    return response;
 }
 
 export const setTypedArgumentTool = {
@@ -301,6 +282,14 @@ export const setTypedArgumentTool = {
         argumentName: z.string().describe("The name of the argument to set."),
         value: z.union([z.string(), z.number(), z.boolean(), z.null()]).describe("The value for the argument. Can be a number, boolean, null, or string representation of these."),
     },
-    handler,
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        query: z.string().optional(),
+        queryStructure: z.any().optional(),
+        warning: z.string().optional(),
+        ...toolErrorShape,
+    },
+    handler: async (params: SetTypedArgumentParams) => toolResponse(await setTypedArgument(params)),
     isInternal: false
 }; 
\ No newline at end of file
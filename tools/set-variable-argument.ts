@@ -2,6 +2,7 @@ import { z } from "zod";
 import { QueryState, loadQueryState, saveQueryState, GraphQLValidationUtils, fetchAndCacheSchema } from "./shared-utils.js";
 import { isTypeSubTypeOf, typeFromAST, getNamedType, isObjectType, isInterfaceType } from 'graphql';
 import { parseType } from 'graphql/language/parser.js';
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function setVariableArgument(
@@ -14,12 +15,14 @@ export async function setVariableArgument(
     message?: string;
     queryStructure?: any;
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         // Validate argument name syntax
         if (!GraphQLValidationUtils.isValidGraphQLName(argumentName)) {
             return {
-                error: `Invalid argument name "${argumentName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`
+                error: `Invalid argument name "${argumentName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                code: 'INVALID_INPUT'
             };
         }
 
@@ -27,7 +30,8 @@ export async function setVariableArgument(
         const variableNameValidation = GraphQLValidationUtils.validateVariableName(variableName);
         if (!variableNameValidation.valid) {
             return {
-                error: variableNameValidation.error
+                error: variableNameValidation.error,
+                code: variableNameValidation.code
             };
         }
 
@@ -35,14 +39,16 @@ export async function setVariableArgument(
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
         // Legacy validation for backward compatibility
         if (!variableName.startsWith('$')) {
             return {
-                error: `Variable name must start with '$'. Provided: '${variableName}'.`
+                error: `Variable name must start with '$'. Provided: '${variableName}'.`,
+                code: 'INVALID_INPUT'
             };
         }
 
@@ -53,7 +59,8 @@ export async function setVariableArgument(
             for (const part of pathParts) {
                 if (!currentNode.fields || !currentNode.fields[part]) {
                     return {
-                        error: `Field at path '${fieldPath}' not found.`
+                        error: `Field at path '${fieldPath}' not found.`,
+                        code: 'FIELD_NOT_FOUND'
                     };
                 }
                 currentNode = currentNode.fields[part];
@@ -62,29 +69,29 @@ export async function setVariableArgument(
 
         // Schema-aware validation: ensure argument exists and variable type is compatible
         try {
-            const schema = await fetchAndCacheSchema(queryState.headers);
+            const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
 
             const argType = GraphQLValidationUtils.getArgumentType(schema, fieldPath, argumentName);
             if (!argType) {
-                return { error: `Argument '${argumentName}' not found on field '${fieldPath}'.` };
+                return { error: `Argument '${argumentName}' not found on field '${fieldPath}'.`, code: 'ARGUMENT_NOT_FOUND' };
             }
 
             // Ensure variable exists and its type is compatible
             const variableTypeStr = queryState.variablesSchema[variableName];
             if (!variableTypeStr) {
-                return { error: `Variable '${variableName}' is not defined. Use set-query-variable first.` };
+                return { error: `Variable '${variableName}' is not defined. Use set-query-variable first.`, code: 'VARIABLE_NOT_FOUND' };
             }
             const varTypeNode = parseType(variableTypeStr);
             const varGqlType = typeFromAST(schema, varTypeNode as any);
             if (!varGqlType) {
-                return { error: `Could not determine type for variable '${variableName}'.` };
+                return { error: `Could not determine type for variable '${variableName}'.`, code: 'TYPE_NOT_FOUND' };
             }
 
             if (!isTypeSubTypeOf(schema, varGqlType, argType as any)) {
-                return { error: `Variable '${variableName}' of type '${variableTypeStr}' cannot be used for argument '${argumentName}' of type '${argType.toString()}'.` };
+                return { error: `Variable '${variableName}' of type '${variableTypeStr}' cannot be used for argument '${argumentName}' of type '${argType.toString()}'.`, code: 'VALIDATION_FAILED' };
             }
         } catch (e: any) {
-            return { error: `Schema validation failed: ${e.message}` };
+            return { error: `Schema validation failed: ${e.message}`, code: 'SCHEMA_UNAVAILABLE' };
         }
 
         // Set the argument value
@@ -117,6 +124,12 @@ export const setVariableArgumentTool = {
         argumentName: z.string().describe('The name of the argument to set.'),
         variableName: z.string().describe('The variable name (must start with $, e.g., "$userId").'),
     },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        queryStructure: z.any().optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, fieldPath, argumentName, variableName }: {
         sessionId: string,
         fieldPath: string,
@@ -125,11 +138,6 @@ export const setVariableArgumentTool = {
     }) => {
         const result = await setVariableArgument(sessionId, fieldPath, argumentName, variableName);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
@@ -9,6 +9,7 @@ import {
 } from "./shared-utils.js";
 import { typeFromAST } from "graphql";
 import { parseType } from "graphql/language/parser.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function setVariableValue(
@@ -20,18 +21,20 @@ export async function setVariableValue(
     message?: string;
     variablesValues?: { [key: string]: any };
     error?: string;
+    code?: ToolErrorCode;
 }> {
     try {
         // Input validation for size and control characters
         const complexityError = validateInputComplexity(value, `variable "${variableName}"`);
         if (complexityError) {
-            return { error: complexityError };
+            return { error: complexityError, code: 'LIMIT_EXCEEDED' };
         }
         if (typeof value === 'string') {
             const MAX_STRING_LENGTH = 8192;
             if (value.length > MAX_STRING_LENGTH) {
                 return {
-                    error: `Input string for variable "${variableName}" exceeds maximum allowed length of ${MAX_STRING_LENGTH} characters.`
+                    error: `Input string for variable "${variableName}" exceeds maximum allowed length of ${MAX_STRING_LENGTH} characters.`,
+                    code: 'LIMIT_EXCEEDED'
                 };
             }
 
@@ -40,7 +43,8 @@ export async function setVariableValue(
             const controlCharRegex = /[\u0000-\u001F\u007F-\u009F]/;
             if (controlCharRegex.test(value)) {
                 return {
-                    error: `Input string for variable "${variableName}" contains disallowed control characters.`
+                    error: `Input string for variable "${variableName}" contains disallowed control characters.`,
+                    code: 'INVALID_INPUT'
                 };
             }
         }
@@ -49,26 +53,28 @@ export async function setVariableValue(
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
         // Check if variable is defined in schema
         if (!queryState.variablesSchema[variableName]) {
             return {
-                error: `Variable '${variableName}' is not defined in the query schema. Use set-query-variable first.`
+                error: `Variable '${variableName}' is not defined in the query schema. Use set-query-variable first.`,
+                code: 'VARIABLE_NOT_FOUND'
             };
         }
 
         const variableType = queryState.variablesSchema[variableName];
 
         try {
-            const schema = await fetchAndCacheSchema(queryState.headers);
+            const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
             const typeNode = parseType(variableType);
             const gqlType = typeFromAST(schema, typeNode as any);
 
             if (!gqlType) {
-                return { error: `Could not determine GraphQL type for '${variableType}'.` };
+                return { error: `Could not determine GraphQL type for '${variableType}'.`, code: 'TYPE_NOT_FOUND' };
             }
 
             // Apply coercion for string values
@@ -82,13 +88,13 @@ export async function setVariableValue(
 
             const validationError = GraphQLValidationUtils.validateValueAgainstType(processedValue, gqlType);
             if (validationError) {
-                return { error: `For variable '${variableName}': ${validationError}` };
+                return { error: `For variable '${variableName}': ${validationError}`, code: 'VALIDATION_FAILED' };
             }
 
             // Set the variable value
             queryState.variablesValues[variableName] = processedValue;
         } catch (e: any) {
-            return { error: `Type validation failed: ${e.message}` };
+            return { error: `Type validation failed: ${e.message}`, code: 'VALIDATION_FAILED' };
         }
 
         // Save the updated query state
@@ -114,6 +120,12 @@ export const setVariableValueTool = {
         variableName: z.string().describe('The variable name (e.g., "$userId").'),
         value: z.string().describe('The value to assign to the variable.'),
     },
+    outputSchema: {
+        success: z.boolean().optional(),
+        message: z.string().optional(),
+        variablesValues: z.record(z.any()).optional(),
+        ...toolErrorShape,
+    },
     handler: async ({ sessionId, variableName, value }: {
         sessionId: string,
         variableName: string,
@@ -121,11 +133,6 @@ export const setVariableValueTool = {
     }) => {
         const result = await setVariableValue(sessionId, variableName, value);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
@@ -5,6 +5,7 @@ import {
     buildClientSchema,
     printSchema,
     isObjectType,
+    isAbstractType,
     isInterfaceType,
     isEnumType,
     isInputObjectType,
@@ -32,200 +33,17 @@ import {
     GraphQLInputType,
     coerceInputValue
 } from 'graphql';
-import { createClient } from 'redis';
 import { randomBytes } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { getSessionStore, SESSION_TTL_SECONDS } from './session-store.js';
+import { analyzeQueryCost } from './cost-analysis.js';
+import { loadSchemaFromFile } from './schema-file.js';
+import { getSchemaFingerprint, rememberSchemaSnapshot } from './schema-drift.js';
+import { ToolErrorCode } from './tool-output.js';
 
 // Load environment variables from .env file
 config({ path: '.env' });
 
-// Sessions are persisted via Redis only (no FS/memory fallbacks)
-
-// Redis client setup
-const REDIS_CONNECT_TIMEOUT_MS = (() => {
-    const v = parseInt(process.env.REDIS_CONNECT_TIMEOUT_MS || '100000', 10);
-    return isNaN(v) || v <= 0 ? 100000 : v;
-})();
-const redis = createClient({
-    url: process.env.REDIS_URL || 'redis://localhost:6379',
-    socket: {
-        // Implement a bounded exponential backoff reconnect strategy
-        reconnectStrategy: (retries: number) => Math.min(1000 * Math.pow(2, retries), 15000),
-        connectTimeout: REDIS_CONNECT_TIMEOUT_MS,
-    }
-});
-
-let useRedis = false;
-let redisConnectionAttempted = false;
-let redisConnectionPromise: Promise<void> | null = null;
-let lastRedisInitAttempt = 0;
-
-// Configurable TTL and retry interval
-const SESSION_TTL_SECONDS = (() => {
-    const raw = process.env.SESSION_TTL_SECONDS;
-    if (raw === undefined) return 3600; // default 1 hour
-    const value = parseInt(raw, 10);
-    return isNaN(value) ? 3600 : value; // allow 0 => no expiry
-})();
-const HAS_SESSION_TTL = SESSION_TTL_SECONDS > 0;
-
-const REDIS_RETRY_INTERVAL_MS = (() => {
-    const value = parseInt(process.env.REDIS_RETRY_INTERVAL_MS || '30000', 10);
-    return isNaN(value) || value <= 0 ? 30000 : value;
-})();
-
-const REDIS_OPERATION_RETRY_MS = (() => {
-    const value = parseInt(process.env.REDIS_OPERATION_RETRY_MS || '1000', 10);
-    return isNaN(value) || value <= 0 ? 1000 : value;
-})();
-
-function delay(ms: number) {
-    return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-const REDIS_READY_MAX_WAIT_MS = (() => {
-    const v = parseInt(process.env.REDIS_READY_MAX_WAIT_MS || '100000', 10);
-    return isNaN(v) || v <= 0 ? 100000 : v;
-})();
-
-async function waitForRedisReady(): Promise<void> {
-    // Ensure connection attempts are active
-    await initializeRedis();
-
-    let backoff = 250;
-    const maxBackoff = 5000;
-    const maxWaitTime = REDIS_READY_MAX_WAIT_MS; // Configurable wait for Redis readiness
-    const startTime = Date.now();
-    
-    while (!(redis as any).isReady) {
-        // Check if we've exceeded maximum wait time
-        if (Date.now() - startTime > maxWaitTime) {
-            console.warn('Redis connection timeout after 10 seconds, giving up');
-            throw new Error('Redis connection timeout');
-        }
-        
-        await delay(backoff);
-        backoff = Math.min(maxBackoff, Math.floor(backoff * 1.5));
-        // Kick the client in case connect wasn't called yet or ended
-        try {
-            if (!(redis as any).isOpen) {
-                await redis.connect().catch(() => { });
-            }
-        } catch { }
-    }
-}
-
-// Initialize Redis connection
-async function initializeRedis(): Promise<boolean> {
-    // If already using Redis and client is ready, we're good
-    if (useRedis && (redis as any).isReady) {
-        return true;
-    }
-
-    // If a previous attempt failed, allow periodic re-attempts
-    const now = Date.now();
-    if (redisConnectionAttempted && !useRedis && now - lastRedisInitAttempt < REDIS_RETRY_INTERVAL_MS) {
-        return false;
-    }
-
-    if (!redisConnectionPromise || (!useRedis && now - lastRedisInitAttempt >= REDIS_RETRY_INTERVAL_MS)) {
-        redisConnectionPromise = (async () => {
-            try {
-                redisConnectionAttempted = true;
-                lastRedisInitAttempt = Date.now();
-                let connectionSucceeded = false;
-
-                redis.on('error', (err: Error) => {
-                    if (!connectionSucceeded) {
-                        console.error('Redis connection failed:', err.message);
-                        useRedis = false;
-                    } else {
-                        console.warn('Redis error after successful connection:', err.message);
-                    }
-                });
-
-                redis.on('connect', () => {
-                    console.log('Redis Client Connected');
-                });
-
-                redis.on('ready', () => {
-                    console.log('Redis Client Ready');
-                });
-
-                redis.on('end', () => {
-                    console.warn('Redis connection ended. Waiting for reconnection...');
-                    useRedis = false;
-                    // Allow subsequent initialize attempts
-                    redisConnectionAttempted = false;
-                    redisConnectionPromise = null;
-                });
-
-                if (!(redis as any).isOpen) {
-                    await Promise.race([
-                        redis.connect(),
-                        new Promise((_, reject) =>
-                            setTimeout(() => reject(new Error('Redis connection timeout')), REDIS_CONNECT_TIMEOUT_MS)
-                        )
-                    ]);
-                }
-
-                // Verify connection works before marking as successful
-                await redis.ping();
-                connectionSucceeded = true;
-                useRedis = true;
-                console.log('Redis connection verified');
-
-            } catch (error) {
-                console.error('Redis connection failed:', error instanceof Error ? error.message : String(error));
-                useRedis = false;
-            }
-        })();
-    }
-
-    await redisConnectionPromise;
-    return useRedis;
-}
-
-const REDIS_OPERATION_MAX_ATTEMPTS = (() => {
-    const v = parseInt(process.env.REDIS_OPERATION_MAX_ATTEMPTS || '10', 10);
-    return isNaN(v) || v <= 0 ? 10 : v;
-})();
-
-async function withRedisRetry<T>(label: string, op: () => Promise<T>): Promise<T> {
-    // Ensure Redis is connected (retry until ready)
-    await waitForRedisReady();
-    let attempt = 0;
-    const maxAttempts = REDIS_OPERATION_MAX_ATTEMPTS; // Configurable op-level retry attempts
-    
-    // Use capped exponential backoff for op-level retry
-    while (attempt < maxAttempts) {
-        try {
-            return await op();
-        } catch (err: any) {
-            attempt++;
-            console.warn(`[${label}] Redis operation failed (attempt ${attempt}/${maxAttempts}): ${err?.message || err}`);
-            
-            // If we've exhausted all attempts, throw the error
-            if (attempt >= maxAttempts) {
-                console.error(`[${label}] Redis operation failed after ${maxAttempts} attempts, giving up`);
-                throw new Error(`Redis operation failed: ${err?.message || err}`);
-            }
-            
-            // If client not ready, wait and try to reconnect
-            if (!(redis as any).isReady) {
-                await delay(REDIS_OPERATION_RETRY_MS);
-                await waitForRedisReady();
-                continue;
-            }
-            // Backoff before retry
-            const sleep = Math.min(REDIS_OPERATION_RETRY_MS * attempt, 5000);
-            await delay(sleep);
-        }
-    }
-    
-    // This should never be reached due to the throw above, but TypeScript needs it
-    throw new Error(`[${label}] Unexpected end of retry loop`);
-}
-
 function normalizeSessionId(sessionId: string): string {
     const raw = (sessionId || '').trim();
     // Our session IDs are hex strings (randomBytes(16)). Strip non-hex and normalize case.
@@ -233,13 +51,29 @@ function normalizeSessionId(sessionId: string): string {
     return cleaned || raw; // fallback to raw if nothing left after cleaning
 }
 
-// Schema caching
-const schemaCache = new Map<string, GraphQLSchema>();
+// Schema caching, keyed by endpoint name
+interface CachedSchema {
+    schema: GraphQLSchema;
+    loadedAt: number;
+}
+const schemaCache = new Map<string, CachedSchema>();
 const rawSchemaJsonCache = new Map<string, any>();
 
+// Cached schemas are reloaded after this many seconds (0 keeps them until refresh-schema)
+export const SCHEMA_CACHE_TTL_SECONDS = (() => {
+    const raw = process.env.SCHEMA_CACHE_TTL_SECONDS;
+    if (raw === undefined) return 3600; // default 1 hour
+    const value = parseInt(raw, 10);
+    return isNaN(value) || value < 0 ? 3600 : value;
+})();
+
 // Query state structure
 export interface QueryState {
     headers: Record<string, string>;
+    // Name of the allowlisted endpoint the session targets; unset means the default endpoint
+    endpoint?: string;
+    // Fingerprint of the schema the session was built against (see schema-drift.ts)
+    schemaFingerprint?: string;
     operationType: string;
     operationTypeName: string;
     operationName: string | null;
@@ -264,77 +98,82 @@ export class GraphQLValidationUtils {
         return /^[_A-Za-z][_0-9A-Za-z]*$/.test(name);
     }
 
-    static validateOperationName(name: string | null): { valid: boolean; error?: string } {
+    static validateOperationName(name: string | null): { valid: boolean; error?: string; code?: ToolErrorCode } {
         if (name === null || name === undefined) return { valid: true };
-        if (typeof name !== 'string') return { valid: false, error: 'Operation name must be a string' };
+        if (typeof name !== 'string') return { valid: false, error: 'Operation name must be a string', code: 'INVALID_INPUT' };
         if (name.trim() === '') return { valid: true };
 
         if (!this.isValidGraphQLName(name)) {
             return {
                 valid: false,
-                error: `Invalid operation name "${name}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`
+                error: `Invalid operation name "${name}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                code: 'INVALID_INPUT'
             };
         }
         return { valid: true };
     }
 
-    static validateVariableName(name: string): { valid: boolean; error?: string } {
+    static validateVariableName(name: string): { valid: boolean; error?: string; code?: ToolErrorCode } {
         if (!name || typeof name !== 'string') {
-            return { valid: false, error: 'Variable name must be a string' };
+            return { valid: false, error: 'Variable name must be a string', code: 'INVALID_INPUT' };
         }
 
         if (!name.startsWith('$')) {
-            return { valid: false, error: 'Variable name must start with "$"' };
+            return { valid: false, error: 'Variable name must start with "$"', code: 'INVALID_INPUT' };
         }
 
         const nameWithoutDollar = name.slice(1);
         if (!this.isValidGraphQLName(nameWithoutDollar)) {
             return {
                 valid: false,
-                error: `Invalid variable name "${name}". Must be $[_A-Za-z][_0-9A-Za-z]*`
+                error: `Invalid variable name "${name}". Must be $[_A-Za-z][_0-9A-Za-z]*`,
+                code: 'INVALID_INPUT'
             };
         }
         return { valid: true };
     }
 
-    static validateFieldAlias(alias: string | null): { valid: boolean; error?: string } {
+    static validateFieldAlias(alias: string | null): { valid: boolean; error?: string; code?: ToolErrorCode } {
         if (alias === null || alias === undefined) return { valid: true };
-        if (typeof alias !== 'string') return { valid: false, error: 'Field alias must be a string' };
-        if (alias.trim() === '') return { valid: false, error: 'Field alias cannot be empty' };
+        if (typeof alias !== 'string') return { valid: false, error: 'Field alias must be a string', code: 'INVALID_INPUT' };
+        if (alias.trim() === '') return { valid: false, error: 'Field alias cannot be empty', code: 'INVALID_INPUT' };
 
         if (!this.isValidGraphQLName(alias)) {
             return {
                 valid: false,
-                error: `Invalid field alias "${alias}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`
+                error: `Invalid field alias "${alias}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                code: 'INVALID_INPUT'
             };
         }
         return { valid: true };
     }
 
-    static validateStringLength(value: string, name: string): { valid: boolean; error?: string } {
+    static validateStringLength(value: string, name: string): { valid: boolean; error?: string; code?: ToolErrorCode } {
         const MAX_STRING_LENGTH = 8192;
         if (value.length > MAX_STRING_LENGTH) {
             return {
                 valid: false,
-                error: `Input for "${name}" exceeds maximum allowed length of ${MAX_STRING_LENGTH} characters.`
+                error: `Input for "${name}" exceeds maximum allowed length of ${MAX_STRING_LENGTH} characters.`,
+                code: 'LIMIT_EXCEEDED'
             };
         }
         return { valid: true };
     }
 
-    static validateNoControlCharacters(value: string, name: string): { valid: boolean; error?: string } {
+    static validateNoControlCharacters(value: string, name: string): { valid: boolean; error?: string; code?: ToolErrorCode } {
         // eslint-disable-next-line no-control-regex
         const controlCharRegex = /[\u0000-\u001F\u007F-\u009F]/;
         if (controlCharRegex.test(value)) {
             return {
                 valid: false,
-                error: `Input for "${name}" contains disallowed control characters.`
+                error: `Input for "${name}" contains disallowed control characters.`,
+                code: 'INVALID_INPUT'
             };
         }
         return { valid: true };
     }
 
-    static validatePaginationValue(argumentName: string, value: string): { valid: boolean; error?: string } {
+    static validatePaginationValue(argumentName: string, value: string): { valid: boolean; error?: string; code?: ToolErrorCode } {
         const paginationArgs = ['first', 'last', 'limit', 'top', 'count'];
         const MAX_PAGINATION_VALUE = 500;
         if (paginationArgs.includes(argumentName.toLowerCase())) {
@@ -342,7 +181,8 @@ export class GraphQLValidationUtils {
             if (!isNaN(numericValue) && numericValue > MAX_PAGINATION_VALUE) {
                 return {
                     valid: false,
-                    error: `Pagination value for '${argumentName}' (${numericValue}) exceeds maximum of ${MAX_PAGINATION_VALUE}.`
+                    error: `Pagination value for '${argumentName}' (${numericValue}) exceeds maximum of ${MAX_PAGINATION_VALUE}.`,
+                    code: 'LIMIT_EXCEEDED'
                 };
             }
         }
@@ -363,6 +203,11 @@ export class GraphQLValidationUtils {
             return JSON.stringify(value.__graphqlString);
         }
 
+        // Enum values nested inside lists/input objects must be emitted unquoted
+        if (typeof value === 'object' && value !== null && '__graphqlEnum' in value) {
+            return String(value.__graphqlEnum);
+        }
+
         try {
             let gqlType;
 
@@ -573,9 +418,9 @@ export class GraphQLValidationUtils {
         schema: GraphQLSchema,
         parentType: any,
         fieldName: string
-    ): { valid: boolean; error?: string; fieldDef?: any } {
+    ): { valid: boolean; error?: string; code?: ToolErrorCode; fieldDef?: any } {
         if (!parentType) {
-            return { valid: false, error: 'Parent type not found in schema' };
+            return { valid: false, error: 'Parent type not found in schema', code: 'TYPE_NOT_FOUND' };
         }
 
         const fields = parentType.getFields();
@@ -587,15 +432,15 @@ export class GraphQLValidationUtils {
             if (suggestion) {
                 error += ` Did you mean '${suggestion}'?`;
             }
-            return { valid: false, error };
+            return { valid: false, error, code: 'FIELD_NOT_FOUND' };
         }
 
         return { valid: true, fieldDef };
     }
 
-    static validateVariableType(typeString: string): { valid: boolean; error?: string } {
+    static validateVariableType(typeString: string): { valid: boolean; error?: string; code?: ToolErrorCode } {
         if (!typeString || typeof typeString !== 'string' || typeString.trim() === '') {
-            return { valid: false, error: 'Variable type cannot be empty' };
+            return { valid: false, error: 'Variable type cannot be empty', code: 'INVALID_INPUT' };
         }
 
         const MAX_TYPE_DEPTH = 5;
@@ -603,7 +448,8 @@ export class GraphQLValidationUtils {
         if (depth > MAX_TYPE_DEPTH) {
             return {
                 valid: false,
-                error: `Variable type nesting depth of ${depth} exceeds maximum of ${MAX_TYPE_DEPTH} in "${typeString}".`
+                error: `Variable type nesting depth of ${depth} exceeds maximum of ${MAX_TYPE_DEPTH} in "${typeString}".`,
+                code: 'LIMIT_EXCEEDED'
             };
         }
 
@@ -619,7 +465,8 @@ export class GraphQLValidationUtils {
         } catch (error) {
             return {
                 valid: false,
-                error: `Invalid variable type "${typeString}": ${error instanceof Error ? error.message : String(error)}`
+                error: `Invalid variable type "${typeString}": ${error instanceof Error ? error.message : String(error)}`,
+                code: 'INVALID_INPUT'
             };
         }
     }
@@ -668,12 +515,13 @@ export class GraphQLValidationUtils {
         fieldDef: any,
         argumentName: string,
         fieldPath?: string
-    ): { valid: boolean; error?: string; argDef?: any } {
+    ): { valid: boolean; error?: string; code?: ToolErrorCode; argDef?: any } {
         try {
             if (!fieldDef || !fieldDef.args) {
                 return {
                     valid: false,
-                    error: `No arguments available for field '${fieldPath || 'unknown'}'`
+                    error: `No arguments available for field '${fieldPath || 'unknown'}'`,
+                    code: 'ARGUMENT_NOT_FOUND'
                 };
             }
 
@@ -694,19 +542,20 @@ export class GraphQLValidationUtils {
                     error += ' This field does not accept any arguments.';
                 }
 
-                return { valid: false, error };
+                return { valid: false, error, code: 'ARGUMENT_NOT_FOUND' };
             }
 
             return { valid: true, argDef };
         } catch (error) {
             return {
                 valid: false,
-                error: `Error validating argument: ${error instanceof Error ? error.message : String(error)}`
+                error: `Error validating argument: ${error instanceof Error ? error.message : String(error)}`,
+                code: 'VALIDATION_FAILED'
             };
         }
     }
 
-    static validateGraphQLType(typeString: string): { valid: boolean; error?: string; suggestion?: string } {
+    static validateGraphQLType(typeString: string): { valid: boolean; error?: string; code?: ToolErrorCode; suggestion?: string } {
         // First check if it's already a valid GraphQL type
         const validTypes = ['Int', 'Float', 'String', 'Boolean', 'ID'];
         const baseType = typeString.replace(/[!\[\]]/g, ''); // Remove non-null and list modifiers
@@ -735,6 +584,7 @@ export class GraphQLValidationUtils {
             return {
                 valid: false,
                 error: `Invalid type '${typeString}'. Did you mean '${commonTypeMistakes[normalizedType]}'?`,
+                code: 'INVALID_INPUT',
                 suggestion: commonTypeMistakes[normalizedType]
             };
         }
@@ -747,7 +597,8 @@ export class GraphQLValidationUtils {
         } catch (error) {
             return {
                 valid: false,
-                error: `Could not determine GraphQL type for '${typeString}'. Use standard GraphQL types like Int, String, Boolean, ID, or Float.`
+                error: `Could not determine GraphQL type for '${typeString}'. Use standard GraphQL types like Int, String, Boolean, ID, or Float.`,
+                code: 'INVALID_INPUT'
             };
         }
     }
@@ -882,13 +733,14 @@ export class GraphQLValidationUtils {
         parentPath: string,
         fieldName: string,
         alias?: string
-    ): { valid: boolean; error?: string; warning?: string } {
+    ): { valid: boolean; error?: string; code?: ToolErrorCode; warning?: string } {
         try {
             // Basic name validation
             if (!this.isValidGraphQLName(fieldName)) {
                 return {
                     valid: false,
-                    error: `Invalid field name "${fieldName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`
+                    error: `Invalid field name "${fieldName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                    code: 'INVALID_INPUT'
                 };
             }
 
@@ -898,7 +750,8 @@ export class GraphQLValidationUtils {
                 if (!aliasValidation.valid) {
                     return {
                         valid: false,
-                        error: aliasValidation.error
+                        error: aliasValidation.error,
+                        code: aliasValidation.code
                     };
                 }
             }
@@ -922,7 +775,8 @@ export class GraphQLValidationUtils {
             if (!currentType) {
                 return {
                     valid: false,
-                    error: `No ${queryState.operationType} type defined in schema`
+                    error: `No ${queryState.operationType} type defined in schema`,
+                    code: 'TYPE_NOT_FOUND'
                 };
             }
 
@@ -933,7 +787,8 @@ export class GraphQLValidationUtils {
                     if (!currentType || (!isObjectType(currentType) && !isInterfaceType(currentType))) {
                         return {
                             valid: false,
-                            error: `Cannot traverse path '${parentPath}': type '${(currentType as any)?.name || 'unknown'}' is not an object or interface type`
+                            error: `Cannot traverse path '${parentPath}': type '${(currentType as any)?.name || 'unknown'}' is not an object or interface type`,
+                            code: 'FIELD_NOT_FOUND'
                         };
                     }
 
@@ -943,7 +798,8 @@ export class GraphQLValidationUtils {
                         const availableFields = Object.keys(fields).slice(0, 5).join(', ');
                         return {
                             valid: false,
-                            error: `Field '${part}' not found on type '${currentType.name}'. Available fields: ${availableFields}`
+                            error: `Field '${part}' not found on type '${currentType.name}'. Available fields: ${availableFields}`,
+                            code: 'FIELD_NOT_FOUND'
                         };
                     }
 
@@ -953,7 +809,8 @@ export class GraphQLValidationUtils {
                     } else {
                         return {
                             valid: false,
-                            error: `Cannot select subfields on scalar/enum field '${part}' of type '${fieldType.name}'`
+                            error: `Cannot select subfields on scalar/enum field '${part}' of type '${fieldType.name}'`,
+                            code: 'VALIDATION_FAILED'
                         };
                     }
                 }
@@ -963,7 +820,8 @@ export class GraphQLValidationUtils {
             if (!currentType || (!isObjectType(currentType) && !isInterfaceType(currentType))) {
                 return {
                     valid: false,
-                    error: 'Cannot determine target type for field validation'
+                    error: 'Cannot determine target type for field validation',
+                    code: 'TYPE_NOT_FOUND'
                 };
             }
 
@@ -977,7 +835,7 @@ export class GraphQLValidationUtils {
                     const availableFields = Object.keys(fields).slice(0, 5).join(', ');
                     error += ` Available fields: ${availableFields}`;
                 }
-                return { valid: false, error };
+                return { valid: false, error, code: 'FIELD_NOT_FOUND' };
             }
 
             // Check for field conflicts in query structure
@@ -987,7 +845,8 @@ export class GraphQLValidationUtils {
                 if (targetNode.fields[key] && targetNode.fields[key].fieldName !== fieldName) {
                     return {
                         valid: false,
-                        error: `Alias conflict: '${key}' is already used for field '${targetNode.fields[key].fieldName}'. Choose a different alias.`
+                        error: `Alias conflict: '${key}' is already used for field '${targetNode.fields[key].fieldName}'. Choose a different alias.`,
+                        code: 'ALREADY_EXISTS'
                     };
                 }
             }
@@ -996,7 +855,8 @@ export class GraphQLValidationUtils {
         } catch (error) {
             return {
                 valid: false,
-                error: `Field validation failed: ${error instanceof Error ? error.message : String(error)}`
+                error: `Field validation failed: ${error instanceof Error ? error.message : String(error)}`,
+                code: 'VALIDATION_FAILED'
             };
         }
     }
@@ -1011,13 +871,14 @@ export class GraphQLValidationUtils {
         argumentName: string,
         value: any,
         isVariable: boolean = false
-    ): { valid: boolean; error?: string; warning?: string } {
+    ): { valid: boolean; error?: string; code?: ToolErrorCode; warning?: string } {
         try {
             // Basic name validation
             if (!this.isValidGraphQLName(argumentName)) {
                 return {
                     valid: false,
-                    error: `Invalid argument name "${argumentName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`
+                    error: `Invalid argument name "${argumentName}". Must match /^[_A-Za-z][_0-9A-Za-z]*$/`,
+                    code: 'INVALID_INPUT'
                 };
             }
 
@@ -1026,7 +887,8 @@ export class GraphQLValidationUtils {
             if (!fieldNode) {
                 return {
                     valid: false,
-                    error: `Field at path '${fieldPath}' not found in query structure. Add the field first.`
+                    error: `Field at path '${fieldPath}' not found in query structure. Add the field first.`,
+                    code: 'FIELD_NOT_FOUND'
                 };
             }
 
@@ -1035,7 +897,8 @@ export class GraphQLValidationUtils {
             if (!argType) {
                 return {
                     valid: false,
-                    error: `Argument '${argumentName}' not found on field '${fieldPath}'. Check the schema documentation.`
+                    error: `Argument '${argumentName}' not found on field '${fieldPath}'. Check the schema documentation.`,
+                    code: 'ARGUMENT_NOT_FOUND'
                 };
             }
 
@@ -1055,7 +918,8 @@ export class GraphQLValidationUtils {
             if (valueError) {
                 return {
                     valid: false,
-                    error: `Invalid value for argument '${argumentName}'. Reason: ${valueError}`
+                    error: `Invalid value for argument '${argumentName}'. Reason: ${valueError}`,
+                    code: 'VALIDATION_FAILED'
                 };
             }
 
@@ -1069,7 +933,7 @@ export class GraphQLValidationUtils {
             // Pagination validation
             const paginationValidation = this.validatePaginationValue(argumentName, String(value));
             if (!paginationValidation.valid) {
-                return { valid: false, error: paginationValidation.error };
+                return { valid: false, error: paginationValidation.error, code: paginationValidation.code };
             }
 
             return {
@@ -1079,7 +943,8 @@ export class GraphQLValidationUtils {
         } catch (error) {
             return {
                 valid: false,
-                error: `Argument validation failed: ${error instanceof Error ? error.message : String(error)}`
+                error: `Argument validation failed: ${error instanceof Error ? error.message : String(error)}`,
+                code: 'VALIDATION_FAILED'
             };
         }
     }
@@ -1096,19 +961,46 @@ export class GraphQLValidationUtils {
         const warnings: string[] = [];
 
         try {
-            // Check for empty query
-            if (!queryState.queryStructure.fields || Object.keys(queryState.queryStructure.fields).length === 0) {
+            // Check for empty query (root-level fragments count as selections)
+            const rootStructure = queryState.queryStructure;
+            if ((!rootStructure.fields || Object.keys(rootStructure.fields).length === 0) &&
+                !(rootStructure.fragmentSpreads && rootStructure.fragmentSpreads.length > 0) &&
+                !(rootStructure.inlineFragments && rootStructure.inlineFragments.length > 0)) {
                 errors.push('Query is empty. Add at least one field to the query.');
                 return { valid: false, errors, warnings };
             }
 
-            // Validate query complexity
-            const complexityAnalysis = analyzeQueryComplexity(queryState.queryStructure, queryState.operationType);
+            // Validate query complexity against the limits of the session's endpoint
+            const limits = getEndpointLimits(queryState.endpoint);
+            const complexityAnalysis = analyzeQueryComplexity(
+                queryState.queryStructure,
+                queryState.operationType,
+                queryState.fragments,
+                limits
+            );
             if (!complexityAnalysis.valid) {
                 errors.push(...complexityAnalysis.errors);
             }
             warnings.push(...complexityAnalysis.warnings);
 
+            // Validate the schema-aware cost estimate. Introspected schemas carry no @cost/@listSize
+            // directives, and an estimate from fallback weights alone is too rough to reject a query.
+            const costAnalysis = analyzeQueryCost(schema, queryState);
+            if (costAnalysis.totalCost > limits.TOTAL_COST && costAnalysis.usesCostDirectives) {
+                errors.push(
+                    `Query cost ${costAnalysis.totalCost} exceeds maximum allowed cost of ${limits.TOTAL_COST}`
+                );
+            } else if (costAnalysis.totalCost > limits.TOTAL_COST) {
+                warnings.push(
+                    `Estimated query cost ${costAnalysis.totalCost} exceeds the limit of ${limits.TOTAL_COST}. The schema has no @cost/@listSize directives, so the estimate uses fallback weights; limit list sizes with pagination arguments.`
+                );
+            } else if (costAnalysis.totalCost > limits.TOTAL_COST * 0.7) {
+                warnings.push(
+                    `Query cost ${costAnalysis.totalCost} is approaching the limit of ${limits.TOTAL_COST}. Limit list sizes with pagination arguments.`
+                );
+            }
+            warnings.push(...costAnalysis.warnings);
+
             // Validate required arguments
             const requiredArgsValidation = this.validateRequiredArguments(
                 schema,
@@ -1314,7 +1206,7 @@ export class GraphQLValidationUtils {
 }
 
 // Helper function to sanitize URLs for logging
-function sanitizeUrlForLogging(url: string): string {
+export function sanitizeUrlForLogging(url: string): string {
     try {
         const urlObj = new URL(url);
         if (urlObj.username || urlObj.password) {
@@ -1326,76 +1218,222 @@ function sanitizeUrlForLogging(url: string): string {
     }
 }
 
-// Helper function to resolve endpoint and headers
-// SECURITY: Only allows requests to the default GraphQL endpoint to prevent SSRF attacks
-// Mock-first approach for testing - defaults to localhost
-export function resolveEndpointAndHeaders(): { url: string | null; headers: Record<string, string> } {
-    // Only use the default endpoint from environment variables
-    const defaultEndpoint = process.env.DEFAULT_GRAPHQL_ENDPOINT;
-    let resolvedUrl: string | null = null;
-
-    if (defaultEndpoint) {
-        resolvedUrl = defaultEndpoint;
-        console.log(`Using default GraphQL endpoint: ${sanitizeUrlForLogging(defaultEndpoint)}`);
-    } else {
-        // For test environments, default to localhost to prevent real network calls
-        if (process.env.NODE_ENV === 'test') {
-            resolvedUrl = 'http://localhost:4000/graphql';
-            console.log('Test environment: using localhost GraphQL endpoint');
-        } else {
-            console.warn('No DEFAULT_GRAPHQL_ENDPOINT configured in environment variables');
+// Name of the endpoint configured through DEFAULT_GRAPHQL_ENDPOINT
+export const DEFAULT_ENDPOINT_NAME = 'default';
+
+export type QueryComplexityLimits = {
+    DEPTH: number;
+    FIELD_COUNT: number;
+    TOTAL_COMPLEXITY_SCORE: number;
+    TOTAL_COST: number;
+};
+
+export interface GraphQLEndpoint {
+    name: string;
+    url: string;
+    headers: Record<string, string>;
+    // Query limits, with unset values falling back to MAX_QUERY_COMPLEXITY
+    limits: QueryComplexityLimits;
+    // Execution timeout overriding QUERY_EXECUTION_TIMEOUT
+    timeoutMs?: number;
+    // Local SDL or introspection JSON file used instead of introspecting the URL
+    schemaFile?: string;
+}
+
+function parseHeaderObject(value: unknown): Record<string, string> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error('Headers must be a valid object');
+    }
+
+    // Validate each header key/value
+    for (const [key, headerValue] of Object.entries(value)) {
+        if (typeof key !== 'string' || typeof headerValue !== 'string') {
+            throw new Error(`Invalid header: ${key} must be string`);
+        }
+        if (key.length > 100 || headerValue.length > 1000) {
+            throw new Error(`Header ${key} exceeds maximum length`);
         }
     }
 
-    const headers: Record<string, string> = {};
+    return { ...(value as Record<string, string>) };
+}
 
-    if (process.env.DEFAULT_GRAPHQL_HEADERS) {
-        try {
-            const defaultHeaders = JSON.parse(process.env.DEFAULT_GRAPHQL_HEADERS);
-            if (typeof defaultHeaders !== 'object' || defaultHeaders === null || Array.isArray(defaultHeaders)) {
-                throw new Error('Headers must be a valid object');
+function parseEndpointLimits(value: any): { limits: QueryComplexityLimits; timeoutMs?: number } {
+    const positive = (v: any, fallback: number) => (typeof v === 'number' && v > 0 ? v : fallback);
+    const limits = value && typeof value === 'object' ? value : {};
+    return {
+        limits: {
+            DEPTH: positive(limits.maxDepth, MAX_QUERY_COMPLEXITY.DEPTH),
+            FIELD_COUNT: positive(limits.maxFieldCount, MAX_QUERY_COMPLEXITY.FIELD_COUNT),
+            TOTAL_COMPLEXITY_SCORE: positive(limits.maxComplexityScore, MAX_QUERY_COMPLEXITY.TOTAL_COMPLEXITY_SCORE),
+            TOTAL_COST: positive(limits.maxCost, MAX_QUERY_COMPLEXITY.TOTAL_COST),
+        },
+        timeoutMs: typeof limits.timeoutMs === 'number' && limits.timeoutMs > 0 ? limits.timeoutMs : undefined,
+    };
+}
+
+// Registry parsed from the environment it was read from, so config warnings are logged once
+let endpointRegistryCache: { envKey: string; registry: Map<string, GraphQLEndpoint> } | null = null;
+
+/**
+ * Load the allowlist of GraphQL endpoints. DEFAULT_GRAPHQL_ENDPOINT (with
+ * DEFAULT_GRAPHQL_HEADERS) is registered as "default"; GRAPHQL_ENDPOINTS adds
+ * named endpoints as JSON, e.g.
+ * {"github": {"url": "https://api.github.com/graphql", "headers": {...}, "limits": {"maxDepth": 8, "maxCost": 1000, "timeoutMs": 10000}}}
+ * An endpoint's "schemaFile" (DEFAULT_GRAPHQL_SCHEMA_FILE for the default one)
+ * supplies the schema; queries are still executed against its URL.
+ * SECURITY: Requests only ever go to these configured URLs to prevent SSRF attacks.
+ * The registry is parsed again only when one of these variables changes.
+ */
+export function loadEndpointRegistry(): Map<string, GraphQLEndpoint> {
+    const envKey = JSON.stringify([
+        process.env.NODE_ENV,
+        process.env.DEFAULT_GRAPHQL_ENDPOINT,
+        process.env.DEFAULT_GRAPHQL_HEADERS,
+        process.env.DEFAULT_GRAPHQL_SCHEMA_FILE,
+        process.env.GRAPHQL_ENDPOINTS,
+    ]);
+    if (!endpointRegistryCache || endpointRegistryCache.envKey !== envKey) {
+        endpointRegistryCache = { envKey, registry: parseEndpointRegistry() };
+    }
+    return endpointRegistryCache.registry;
+}
+
+function parseEndpointRegistry(): Map<string, GraphQLEndpoint> {
+    const registry = new Map<string, GraphQLEndpoint>();
+
+    // Mock-first approach for testing - defaults to localhost
+    let defaultUrl = process.env.DEFAULT_GRAPHQL_ENDPOINT;
+    if (!defaultUrl && process.env.NODE_ENV === 'test') {
+        defaultUrl = 'http://localhost:4000/graphql';
+    }
+
+    if (defaultUrl) {
+        let headers: Record<string, string> = {};
+        if (process.env.DEFAULT_GRAPHQL_HEADERS) {
+            try {
+                headers = parseHeaderObject(JSON.parse(process.env.DEFAULT_GRAPHQL_HEADERS));
+            } catch (error) {
+                console.warn(`Failed to parse DEFAULT_GRAPHQL_HEADERS: ${error instanceof Error ? error.message : 'Invalid JSON'}`);
             }
+        }
+        registry.set(DEFAULT_ENDPOINT_NAME, {
+            name: DEFAULT_ENDPOINT_NAME,
+            url: defaultUrl,
+            headers,
+            ...parseEndpointLimits(undefined),
+            schemaFile: process.env.DEFAULT_GRAPHQL_SCHEMA_FILE || undefined,
+        });
+    }
 
-            // Validate each header key/value
-            for (const [key, value] of Object.entries(defaultHeaders)) {
-                if (typeof key !== 'string' || typeof value !== 'string') {
-                    throw new Error(`Invalid header: ${key} must be string`);
+    if (process.env.GRAPHQL_ENDPOINTS) {
+        let configured: any;
+        try {
+            configured = JSON.parse(process.env.GRAPHQL_ENDPOINTS);
+        } catch (error) {
+            console.warn(`Failed to parse GRAPHQL_ENDPOINTS: ${error instanceof Error ? error.message : 'Invalid JSON'}`);
+            return registry;
+        }
+        if (typeof configured !== 'object' || configured === null || Array.isArray(configured)) {
+            console.warn('Failed to parse GRAPHQL_ENDPOINTS: expected an object keyed by endpoint name');
+            return registry;
+        }
+
+        for (const [name, entry] of Object.entries<any>(configured)) {
+            try {
+                if (!/^[A-Za-z0-9_-]{1,64}$/.test(name)) {
+                    throw new Error('name must contain only letters, digits, "_" and "-"');
+                }
+                if (!entry || typeof entry.url !== 'string') {
+                    throw new Error('url is required');
                 }
-                if (key.length > 100 || value.length > 1000) {
-                    throw new Error(`Header ${key} exceeds maximum length`);
+                if (entry.schemaFile !== undefined && typeof entry.schemaFile !== 'string') {
+                    throw new Error('schemaFile must be a file path');
                 }
+                const protocol = new URL(entry.url).protocol;
+                if (protocol !== 'http:' && protocol !== 'https:') {
+                    throw new Error('url must use http or https');
+                }
+                registry.set(name, {
+                    name,
+                    url: entry.url,
+                    headers: entry.headers === undefined ? {} : parseHeaderObject(entry.headers),
+                    ...parseEndpointLimits(entry.limits),
+                    schemaFile: entry.schemaFile,
+                });
+            } catch (error) {
+                console.warn(`Ignoring GraphQL endpoint '${name}': ${error instanceof Error ? error.message : String(error)}`);
             }
-
-            Object.assign(headers, defaultHeaders);
-        } catch (error) {
-            console.warn(`Failed to parse DEFAULT_GRAPHQL_HEADERS: ${error instanceof Error ? error.message : 'Invalid JSON'}`);
         }
     }
 
-    return { url: resolvedUrl, headers };
+    return registry;
+}
+
+/**
+ * Look up an endpoint by name; no name selects the default endpoint.
+ */
+export function getGraphQLEndpoint(endpointName?: string | null): { endpoint?: GraphQLEndpoint; error?: string; code?: ToolErrorCode } {
+    const registry = loadEndpointRegistry();
+    const name = endpointName || DEFAULT_ENDPOINT_NAME;
+    const endpoint = registry.get(name);
+
+    if (endpoint) {
+        return { endpoint };
+    }
+    if (!endpointName) {
+        return { error: "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)", code: 'ENDPOINT_NOT_FOUND' };
+    }
+    const allowed = Array.from(registry.keys());
+    return {
+        error: `Unknown GraphQL endpoint '${endpointName}'. Allowed endpoints: ${allowed.join(', ') || 'none'}.`,
+        code: 'ENDPOINT_NOT_FOUND'
+    };
+}
+
+// Query limits of an endpoint, or the global limits when it is not configured
+export function getEndpointLimits(endpointName?: string | null): QueryComplexityLimits {
+    return getGraphQLEndpoint(endpointName).endpoint?.limits || MAX_QUERY_COMPLEXITY;
 }
 
-// Fetch and cache schema
-export async function fetchAndCacheSchema(sessionHeaders?: Record<string, string>): Promise<GraphQLSchema> {
-    const { url: resolvedUrl, headers: envHeaders } = resolveEndpointAndHeaders();
+// Helper function to resolve endpoint and headers
+// SECURITY: Only allows requests to endpoints from the configured allowlist to prevent SSRF attacks
+export function resolveEndpointAndHeaders(endpointName?: string | null): {
+    url: string | null;
+    headers: Record<string, string>;
+    endpoint?: string;
+    error?: string;
+    code?: ToolErrorCode;
+} {
+    const { endpoint, error, code } = getGraphQLEndpoint(endpointName);
 
-    if (!resolvedUrl) {
-        throw new Error("No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)");
+    if (!endpoint) {
+        console.warn(error);
+        return { url: null, headers: {}, error, code };
     }
 
-    if (schemaCache.has(resolvedUrl)) {
-        return schemaCache.get(resolvedUrl)!;
+    console.log(`Using GraphQL endpoint '${endpoint.name}': ${sanitizeUrlForLogging(endpoint.url)}`);
+    return { url: endpoint.url, headers: { ...endpoint.headers }, endpoint: endpoint.name };
+}
+
+// Introspect an endpoint, or read its schema file when one is configured
+async function loadEndpointSchema(
+    url: string,
+    headers: Record<string, string>,
+    schemaFile?: string
+): Promise<{ schema: GraphQLSchema; introspection: any }> {
+    if (schemaFile) {
+        return loadSchemaFromFile(schemaFile);
     }
 
-    const mergedHeaders = { ...envHeaders, ...sessionHeaders };
     const introspectionQuery = getIntrospectionQuery({ descriptions: true });
 
     try {
-        const response = await fetch(resolvedUrl, {
+        const response = await fetch(url, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
-                ...mergedHeaders,
+                ...headers,
             },
             body: JSON.stringify({ query: introspectionQuery }),
         });
@@ -1414,16 +1452,71 @@ export async function fetchAndCacheSchema(sessionHeaders?: Record<string, string
             throw new Error("Invalid introspection response: 'data' field missing");
         }
 
-        const schema = buildClientSchema(result.data);
-        schemaCache.set(resolvedUrl, schema);
-        rawSchemaJsonCache.set(resolvedUrl, result.data);
+        return { schema: buildClientSchema(result.data), introspection: result.data };
+    } catch (error) {
+        throw new Error(`Error processing schema from ${url}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+function isSchemaCacheExpired(entry: CachedSchema): boolean {
+    return SCHEMA_CACHE_TTL_SECONDS > 0 && Date.now() - entry.loadedAt > SCHEMA_CACHE_TTL_SECONDS * 1000;
+}
+
+// Fetch and cache schema, keyed by endpoint name; endpoints with a schemaFile are never introspected
+export async function fetchAndCacheSchema(
+    sessionHeaders?: Record<string, string>,
+    endpointName?: string | null,
+    options: { forceRefresh?: boolean } = {}
+): Promise<GraphQLSchema> {
+    const { endpoint, error } = getGraphQLEndpoint(endpointName);
+
+    if (!endpoint) {
+        throw new Error(error || "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)");
+    }
+
+    const cacheKey = endpoint.name;
+    const cached = schemaCache.get(cacheKey);
+    if (cached && !options.forceRefresh && !isSchemaCacheExpired(cached)) {
+        return cached.schema;
+    }
 
+    try {
+        const { schema, introspection } = await loadEndpointSchema(
+            endpoint.url,
+            { ...endpoint.headers, ...sessionHeaders },
+            endpoint.schemaFile
+        );
+        schemaCache.set(cacheKey, { schema, loadedAt: Date.now() });
+        rawSchemaJsonCache.set(cacheKey, introspection);
+        rememberSchemaSnapshot(schema, cacheKey);
         return schema;
-    } catch (error) {
-        throw new Error(`Error processing schema from ${resolvedUrl}: ${error instanceof Error ? error.message : String(error)}`);
+    } catch (loadError) {
+        // An expired schema is better than none while the endpoint is briefly unavailable
+        if (cached && !options.forceRefresh) {
+            console.warn(`Using expired schema for endpoint '${cacheKey}': ${loadError instanceof Error ? loadError.message : String(loadError)}`);
+            return cached.schema;
+        }
+        throw loadError;
     }
 }
 
+// Fingerprint and age of the cached schema of an endpoint, or null when nothing is cached
+export function getSchemaCacheInfo(endpointName?: string | null): {
+    fingerprint: string;
+    loadedAt: string;
+    expiresAt: string | null;
+} | null {
+    const cached = schemaCache.get(endpointName || DEFAULT_ENDPOINT_NAME);
+    if (!cached) return null;
+    return {
+        fingerprint: getSchemaFingerprint(cached.schema),
+        loadedAt: new Date(cached.loadedAt).toISOString(),
+        expiresAt: SCHEMA_CACHE_TTL_SECONDS > 0
+            ? new Date(cached.loadedAt + SCHEMA_CACHE_TTL_SECONDS * 1000).toISOString()
+            : null
+    };
+}
+
 // Helper function to get type name string from GraphQL type
 export function getTypeNameStr(gqlType: any): string {
     if (isNonNullType(gqlType)) return `${getTypeNameStr(gqlType.ofType)}!`;
@@ -1437,94 +1530,331 @@ export function generateSessionId(): string {
     return randomBytes(16).toString('hex');
 }
 
-// Query state storage functions
-export async function saveQueryState(sessionId: string, queryState: QueryState): Promise<void> {
+// Maximum number of revisions kept per session for undo/redo
+export const SESSION_HISTORY_LIMIT = (() => {
+    const v = parseInt(process.env.SESSION_HISTORY_LIMIT || '50', 10);
+    return isNaN(v) || v <= 0 ? 50 : v;
+})();
+
+// A snapshot of the query state recorded after each mutation
+export interface QueryRevision {
+    version: number;
+    savedAt: string;
+    query: string;
+    state: QueryState;
+}
+
+export interface QueryHistory {
+    revisions: QueryRevision[];
+    // Index into revisions of the state currently stored for the session
+    cursor: number;
+    nextVersion: number;
+}
+
+/**
+ * Stages every load/save of one session in memory so a sequence of tool calls
+ * can be persisted as a single change, or discarded as a whole.
+ */
+export class SessionTransaction {
+    private dirty = false;
+
+    constructor(readonly sessionId: string, private state: QueryState) { }
+
+    // Run work with loadQueryState/saveQueryState for this session redirected to the staged state
+    run<T>(work: () => Promise<T>): Promise<T> {
+        return sessionTransactions.run(this, work);
+    }
+
+    load(): QueryState {
+        return JSON.parse(JSON.stringify(this.state));
+    }
+
+    stage(queryState: QueryState): void {
+        this.state = JSON.parse(JSON.stringify(queryState));
+        this.dirty = true;
+    }
+
+    // Persist the staged state as one revision; a transaction without changes writes nothing
+    async commit(): Promise<void> {
+        if (!this.dirty) return;
+        await writeQueryState(this.sessionId, this.state);
+        await recordQueryRevision(this.sessionId, this.state);
+        this.dirty = false;
+    }
+}
+
+const sessionTransactions = new AsyncLocalStorage<SessionTransaction>();
+
+export async function beginSessionTransaction(sessionId: string): Promise<SessionTransaction | null> {
+    const queryState = await loadQueryState(sessionId);
+    return queryState ? new SessionTransaction(normalizeSessionId(sessionId), queryState) : null;
+}
+
+function activeTransaction(sessionId: string): SessionTransaction | undefined {
+    const transaction = sessionTransactions.getStore();
+    return transaction && transaction.sessionId === normalizeSessionId(sessionId) ? transaction : undefined;
+}
+
+// Query state storage functions. Pass recordRevision: false for bookkeeping that is not an edit of the query.
+export async function saveQueryState(
+    sessionId: string,
+    queryState: QueryState,
+    options: { recordRevision?: boolean } = {}
+): Promise<void> {
+    const transaction = activeTransaction(sessionId);
+    if (transaction) {
+        transaction.stage(queryState);
+        return;
+    }
+    await writeQueryState(sessionId, queryState);
+    if (options.recordRevision !== false) {
+        await recordQueryRevision(sessionId, queryState);
+    }
+}
+
+async function writeQueryState(sessionId: string, queryState: QueryState): Promise<void> {
     const serializableData = { ...queryState };
     const normalizedId = normalizeSessionId(sessionId);
-    await withRedisRetry('saveQueryState', async () => {
-        const sessionKey = `querystate:${normalizedId}`;
-        if (HAS_SESSION_TTL) {
-            await redis.setEx(sessionKey, SESSION_TTL_SECONDS, JSON.stringify(serializableData));
-        } else {
-            await redis.set(sessionKey, JSON.stringify(serializableData));
+    const store = getSessionStore();
+    await store.set(`querystate:${normalizedId}`, JSON.stringify(serializableData), SESSION_TTL_SECONDS);
+    console.log(`Session ${normalizedId} saved to ${store.kind} store`);
+    notifyQueryStateListeners(normalizedId);
+}
+
+// Listeners told the (normalized) ID of every session whose query state is written or deleted
+const queryStateListeners = new Set<(sessionId: string) => void>();
+
+/**
+ * Call listener with the session ID whenever a session's query state is
+ * written (including undo/redo and committed batches) or deleted. Returns a
+ * function that removes the listener.
+ */
+export function onQueryStateChange(listener: (sessionId: string) => void): () => void {
+    queryStateListeners.add(listener);
+    return () => {
+        queryStateListeners.delete(listener);
+    };
+}
+
+function notifyQueryStateListeners(sessionId: string): void {
+    for (const listener of queryStateListeners) {
+        try {
+            listener(sessionId);
+        } catch (error) {
+            console.warn('Query state listener failed:', error);
         }
-        console.log(`Session ${normalizedId} saved to Redis`);
-    });
+    }
+}
+
+// Compare a client-supplied session ID with the IDs passed to onQueryStateChange listeners
+export function isSameSession(sessionId: string, otherSessionId: string): boolean {
+    return normalizeSessionId(sessionId) === normalizeSessionId(otherSessionId);
 }
 
 export async function loadQueryState(sessionId: string): Promise<QueryState | null> {
+    const transaction = activeTransaction(sessionId);
+    if (transaction) {
+        return transaction.load();
+    }
+
     const normalizedId = normalizeSessionId(sessionId);
     const sessionKey = `querystate:${normalizedId}`;
-    return await withRedisRetry('loadQueryState', async () => {
-        const data = await redis.get(sessionKey);
-        if (!data) {
-            console.log(`Session ${normalizedId} not found in Redis`);
-            return null;
-        }
-        const jsonString = typeof data === 'string' ? data : (data as Buffer).toString();
-        const queryState = JSON.parse(jsonString);
-        console.log(`Session ${normalizedId} loaded from Redis`);
-        if (HAS_SESSION_TTL) {
-            try {
-                await redis.expire(sessionKey, SESSION_TTL_SECONDS);
-            } catch { }
-        }
-        return queryState;
-    });
+    const store = getSessionStore();
+    const data = await store.get(sessionKey);
+    if (!data) {
+        console.log(`Session ${normalizedId} not found in ${store.kind} store`);
+        return null;
+    }
+    const queryState = JSON.parse(data);
+    console.log(`Session ${normalizedId} loaded from ${store.kind} store`);
+    try {
+        await store.expire(sessionKey, SESSION_TTL_SECONDS);
+        await store.expire(`queryhistory:${normalizedId}`, SESSION_TTL_SECONDS);
+    } catch { }
+    return queryState;
 }
 
 export async function deleteQueryState(sessionId: string): Promise<boolean> {
     const normalizedId = normalizeSessionId(sessionId);
-    const sessionKey = `querystate:${normalizedId}`;
-    return await withRedisRetry('deleteQueryState', async () => {
-        const result = await redis.del(sessionKey);
-        return (result as number) > 0;
+    const store = getSessionStore();
+    await store.delete(`queryhistory:${normalizedId}`);
+    const deleted = await store.delete(`querystate:${normalizedId}`);
+    notifyQueryStateListeners(normalizedId);
+    return deleted;
+}
+
+export async function loadQueryHistory(sessionId: string): Promise<QueryHistory | null> {
+    const normalizedId = normalizeSessionId(sessionId);
+    const data = await getSessionStore().get(`queryhistory:${normalizedId}`);
+    return data ? JSON.parse(data) : null;
+}
+
+async function saveQueryHistory(sessionId: string, history: QueryHistory): Promise<void> {
+    const normalizedId = normalizeSessionId(sessionId);
+    await getSessionStore().set(`queryhistory:${normalizedId}`, JSON.stringify(history), SESSION_TTL_SECONDS);
+}
+
+async function recordQueryRevision(sessionId: string, queryState: QueryState): Promise<void> {
+    const history: QueryHistory = (await loadQueryHistory(sessionId)) || { revisions: [], cursor: -1, nextVersion: 1 };
+
+    // A new mutation after an undo discards the redo branch
+    history.revisions = history.revisions.slice(0, history.cursor + 1);
+
+    let query = '';
+    try {
+        query = buildQueryFromStructure(
+            queryState.queryStructure,
+            queryState.operationType,
+            queryState.variablesSchema,
+            queryState.operationName,
+            queryState.fragments,
+            queryState.operationDirectives,
+            queryState.variablesDefaults
+        );
+    } catch { }
+
+    history.revisions.push({
+        version: history.nextVersion++,
+        savedAt: new Date().toISOString(),
+        query,
+        state: JSON.parse(JSON.stringify(queryState))
     });
+
+    if (history.revisions.length > SESSION_HISTORY_LIMIT) {
+        history.revisions = history.revisions.slice(history.revisions.length - SESSION_HISTORY_LIMIT);
+    }
+    history.cursor = history.revisions.length - 1;
+
+    await saveQueryHistory(sessionId, history);
+}
+
+/**
+ * Move the session's history cursor by `steps` (negative = undo, positive = redo)
+ * and restore the query state recorded at the new position.
+ */
+export async function stepQueryHistory(
+    sessionId: string,
+    steps: number
+): Promise<{ revision?: QueryRevision; history?: QueryHistory; error?: string; code?: ToolErrorCode }> {
+    const history = await loadQueryHistory(sessionId);
+    if (!history || history.revisions.length === 0) {
+        return { error: steps < 0 ? 'Nothing to undo.' : 'Nothing to redo.', code: 'INVALID_INPUT' };
+    }
+
+    const target = history.cursor + steps;
+    if (target < 0) {
+        return { error: steps === -1 ? 'Nothing to undo.' : `Cannot undo ${-steps} steps; only ${history.cursor} available.`, code: 'INVALID_INPUT' };
+    }
+    if (target >= history.revisions.length) {
+        const available = history.revisions.length - 1 - history.cursor;
+        return { error: steps === 1 ? 'Nothing to redo.' : `Cannot redo ${steps} steps; only ${available} available.`, code: 'INVALID_INPUT' };
+    }
+
+    const revision = history.revisions[target];
+    await writeQueryState(sessionId, revision.state);
+    history.cursor = target;
+    await saveQueryHistory(sessionId, history);
+
+    return { revision, history };
 }
 
 // Export the raw schema cache for use in other tools
 export { rawSchemaJsonCache };
 
-// Generate example values for GraphQL types
-export function generateExampleValue(gqlType: any): any {
+// Settings and running counters of generateExampleValue, shared by all values of one result
+export interface ExampleValueContext {
+    // Seeded source (see createSeededRandom) that varies numbers, booleans, enum values and union members
+    random?: () => number;
+    // Items generated for each list; one by default
+    listLength?: number;
+    // Needed to pick a possible type of an interface or union
+    schema?: GraphQLSchema;
+    // Generation fails once more values than this would be produced
+    maxValues?: number;
+    valueCount?: number;
+    nextId?: number;
+}
+
+/**
+ * Generate an example value for a GraphQL input or output type. Lists hold
+ * listLength items, object types give an empty object whose fields are
+ * generated separately (mock-execute resolves them), and interfaces and unions
+ * give { __typename } of one of their possible types. IDs and strings are
+ * named after fieldName when it is given.
+ */
+export function generateExampleValue(gqlType: any, context: ExampleValueContext = {}, fieldName?: string): any {
     if (isNonNullType(gqlType)) {
-        return generateExampleValue(gqlType.ofType);
+        return generateExampleValue(gqlType.ofType, context, fieldName);
     }
 
+    context.valueCount = (context.valueCount || 0) + 1;
+    if (context.maxValues !== undefined && context.valueCount > context.maxValues) {
+        throw new Error(`Example value limit of ${context.maxValues} values exceeded.`);
+    }
+    const random = context.random;
+
     if (isListType(gqlType)) {
-        return generateExampleValue(gqlType.ofType);
+        return Array.from({ length: context.listLength ?? 1 }, () => generateExampleValue(gqlType.ofType, context, fieldName));
     }
 
     if (isScalarType(gqlType)) {
-        if (gqlType.name === "String") return "example_string";
-        if (gqlType.name === "Int") return 42;
-        if (gqlType.name === "Float") return 3.14;
-        if (gqlType.name === "Boolean") return true;
-        if (gqlType.name === "ID") return "example_id";
+        if (gqlType.name === "String") {
+            if (fieldName) return `${fieldName}_${random ? Math.floor(random() * 1000) : 1}`;
+            return "example_string";
+        }
+        if (gqlType.name === "Int") return random ? Math.floor(random() * 100) : 42;
+        if (gqlType.name === "Float") return random ? Math.round(random() * 10000) / 100 : 3.14;
+        if (gqlType.name === "Boolean") return random ? random() < 0.5 : true;
+        if (gqlType.name === "ID") {
+            if (fieldName) {
+                context.nextId = (context.nextId || 0) + 1;
+                return `${fieldName}_${context.nextId}`;
+            }
+            return "example_id";
+        }
         return "example_value";
     }
 
     if (isEnumType(gqlType)) {
         const enumValues = gqlType.getValues();
-        return enumValues.length > 0 ? enumValues[0].name : "ENUM_VALUE";
+        if (enumValues.length === 0) return "ENUM_VALUE";
+        return enumValues[random ? Math.floor(random() * enumValues.length) : 0].name;
     }
 
     if (isInputObjectType(gqlType)) {
         const nestedObj: any = {};
         const fields = gqlType.getFields();
-        Object.entries(fields).forEach(([fieldName, fieldDef]) => {
-            if (isNonNullType((fieldDef as any).type)) {
-                nestedObj[fieldName] = generateExampleValue((fieldDef as any).type.ofType);
-            } else {
-                nestedObj[fieldName] = generateExampleValue((fieldDef as any).type);
-            }
+        Object.entries(fields).forEach(([inputFieldName, fieldDef]) => {
+            nestedObj[inputFieldName] = generateExampleValue((fieldDef as any).type, context);
         });
         return nestedObj;
     }
 
+    if (isObjectType(gqlType)) {
+        return {};
+    }
+
+    if (isAbstractType(gqlType)) {
+        const possibleTypes = context.schema ? context.schema.getPossibleTypes(gqlType) : [];
+        if (possibleTypes.length === 0) return null;
+        return { __typename: possibleTypes[random ? Math.floor(random() * possibleTypes.length) : 0].name };
+    }
+
     return null;
 }
 
+// Deterministic pseudo-random numbers in [0, 1) (mulberry32), so the same seed gives the same sequence
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
 // Build query from structure
 export function buildQueryFromStructure(
     queryStructure: any,
@@ -1574,12 +1904,22 @@ export function buildQueryFromStructure(
         }).join(" ") + " ";
     }
 
-    const selectionSetString = buildSelectionSet(queryStructure.fields);
+    const selectionSetString = buildSelectionContent(
+        queryStructure.fields || {},
+        queryStructure.fragmentSpreads,
+        queryStructure.inlineFragments,
+        '  '
+    );
 
     // Properly serialize fragments
     const fragmentsString = Object.entries(fragments).map(([fragmentName, fragmentData]: [string, any]) => {
         if (fragmentData && fragmentData.onType && fragmentData.fields) {
-            const fragmentSelectionSet = buildSelectionSet(fragmentData.fields);
+            const fragmentSelectionSet = buildSelectionContent(
+                fragmentData.fields,
+                fragmentData.fragmentSpreads,
+                fragmentData.inlineFragments,
+                '  '
+            );
             return `fragment ${fragmentName} on ${fragmentData.onType} {\n${fragmentSelectionSet}\n}`;
         }
         return '';
@@ -1664,27 +2004,12 @@ export function buildSelectionSet(fields: Record<string, any>, indent = '  '): s
             fieldString += ` ${directives.join(' ')}`;
         }
 
-        let subSelectionContent = '';
-        if (fieldData.fields && Object.keys(fieldData.fields).length > 0) {
-            subSelectionContent += buildSelectionSet(fieldData.fields, indent + '  ');
-        }
-
-        if (fieldData.fragmentSpreads && Array.isArray(fieldData.fragmentSpreads) && fieldData.fragmentSpreads.length > 0) {
-            if (subSelectionContent && !subSelectionContent.endsWith('\n')) subSelectionContent += '\n';
-            subSelectionContent += fieldData.fragmentSpreads.map((s: string) => `${indent + '  '}...${s}`).join('\n');
-        }
-
-        if (fieldData.inlineFragments) {
-            fieldData.inlineFragments.forEach((inlineFrag: any) => {
-                if (inlineFrag.on_type && inlineFrag.selections && Object.keys(inlineFrag.selections).length > 0) {
-                    if (subSelectionContent && !subSelectionContent.endsWith('\n')) subSelectionContent += '\n';
-                    // Support primitive string fields inside inline fragments for nested syntax like "owner { login }"
-                    const selections = normalizeSelections(inlineFrag.selections);
-                    const inlineFragSelectionStr = buildSelectionSet(selections, indent + '    ');
-                    subSelectionContent += `${indent + '  '}... on ${inlineFrag.on_type} {\n${inlineFragSelectionStr}\n${indent + '  '}}`;
-                }
-            });
-        }
+        const subSelectionContent = buildSelectionContent(
+            fieldData.fields,
+            fieldData.fragmentSpreads,
+            fieldData.inlineFragments,
+            indent + '  '
+        );
 
         if (subSelectionContent) {
             fieldString += ` {\n${subSelectionContent}\n${indent}}`;
@@ -1694,6 +2019,44 @@ export function buildSelectionSet(fields: Record<string, any>, indent = '  '): s
     }).join('\n');
 }
 
+// Build the contents of a selection set: fields, then fragment spreads, then inline fragments
+function buildSelectionContent(
+    fields: Record<string, any> | undefined,
+    fragmentSpreads: string[] | undefined,
+    inlineFragments: any[] | undefined,
+    indent: string
+): string {
+    let content = '';
+    if (fields && Object.keys(fields).length > 0) {
+        content += buildSelectionSet(fields, indent);
+    }
+
+    if (fragmentSpreads && Array.isArray(fragmentSpreads) && fragmentSpreads.length > 0) {
+        if (content && !content.endsWith('\n')) content += '\n';
+        content += fragmentSpreads.map((s: string) => `${indent}...${s}`).join('\n');
+    }
+
+    if (inlineFragments && Array.isArray(inlineFragments)) {
+        inlineFragments.forEach((inlineFrag: any) => {
+            if (!inlineFrag.on_type) return;
+            // Support primitive string fields inside inline fragments for nested syntax like "owner { login }"
+            const selections = normalizeSelections(inlineFrag.selections || {});
+            const inlineFragSelectionStr = buildSelectionContent(
+                selections,
+                inlineFrag.fragmentSpreads,
+                inlineFrag.inlineFragments,
+                indent + '  '
+            );
+            if (inlineFragSelectionStr) {
+                if (content && !content.endsWith('\n')) content += '\n';
+                content += `${indent}... on ${inlineFrag.on_type} {\n${inlineFragSelectionStr}\n${indent}}`;
+            }
+        });
+    }
+
+    return content;
+}
+
 function normalizeSelections(selections: Record<string, any>): Record<string, any> {
     const normalized: Record<string, any> = {};
     for (const [key, val] of Object.entries(selections)) {
@@ -1734,16 +2097,73 @@ function normalizeSelections(selections: Record<string, any>): Record<string, an
     return normalized;
 }
 
+// Visit every selection container: the operation root, fields, inline fragments and named fragments
+export function visitSelectionNodes(queryState: QueryState, visitor: (node: any) => void): void {
+    const visit = (node: any) => {
+        if (!node || typeof node !== 'object') return;
+        visitor(node);
+        Object.values(node.fields || node.selections || {}).forEach(visit);
+        (node.inlineFragments || []).forEach(visit);
+    };
+
+    visit(queryState.queryStructure);
+    Object.values(queryState.fragments || {}).forEach(visit);
+}
+
+// Declared variables that no argument or directive references any more
+export function findUnusedVariables(queryState: QueryState): string[] {
+    const used = new Set<string>();
+    const collect = (value: any) => {
+        if (typeof value === 'string') {
+            if (value.startsWith('$')) used.add(value);
+            return;
+        }
+        if (!value || typeof value !== 'object' || '__graphqlString' in value) return;
+        Object.values(value).forEach(collect);
+    };
+    const collectDirectives = (directives: any[] | undefined) => {
+        (directives || []).forEach(directive => {
+            collect(directive.arguments);
+            collect(directive.args);
+        });
+    };
+
+    collectDirectives(queryState.operationDirectives);
+    visitSelectionNodes(queryState, node => {
+        collect(node.args);
+        collectDirectives(node.directives);
+    });
+
+    return Object.keys(queryState.variablesSchema || {}).filter(name => !used.has(name));
+}
+
+// Warning fields for tool results after a removal leaves variables dangling
+export function getUnusedVariablesWarning(queryState: QueryState): { unusedVariables?: string[]; warning?: string } {
+    const unusedVariables = findUnusedVariables(queryState);
+    if (unusedVariables.length === 0) {
+        return {};
+    }
+    return {
+        unusedVariables,
+        warning: `Variable(s) ${unusedVariables.join(', ')} are declared but no longer used. GraphQL rejects unused variables; remove them with rm-var or use them again.`
+    };
+}
+
 export const MAX_INPUT_COMPLEXITY = {
     DEPTH: 10,
     PROPERTIES: 1000,
 };
 
-// Query depth and complexity limits
-export const MAX_QUERY_COMPLEXITY = {
+// Query depth and complexity limits (endpoints can override them, see loadEndpointRegistry)
+export const MAX_QUERY_COMPLEXITY: QueryComplexityLimits = {
     DEPTH: 12, // Increased from 8 to allow more reasonable nesting
     FIELD_COUNT: 200, // Increased from 100 to allow more comprehensive queries
     TOTAL_COMPLEXITY_SCORE: 2500, // Increased from 1000 to allow realistic queries
+    // Schema-aware cost (see cost-analysis.ts); set MAX_QUERY_COST to match the gateway's limit
+    TOTAL_COST: (() => {
+        const v = parseInt(process.env.MAX_QUERY_COST || '5000', 10);
+        return isNaN(v) || v <= 0 ? 5000 : v;
+    })(),
 };
 
 export const QUERY_EXECUTION_TIMEOUT = {
@@ -1751,17 +2171,34 @@ export const QUERY_EXECUTION_TIMEOUT = {
     EXPENSIVE: 60000, // 60 seconds for expensive operations
 };
 
+// One field's share of the complexity score
+export interface FieldComplexity {
+    path: string;
+    depth: number;
+    // Depth factor applied to the field's own score
+    multiplier: number;
+    // Score of the field itself, after the multiplier
+    score: number;
+    // Score of the field plus everything selected beneath it
+    contribution: number;
+    // Named fragment the field was selected through, if any
+    fragment?: string;
+}
+
 /**
  * Analyze query depth and complexity
  */
 export function analyzeQueryComplexity(
     queryStructure: any,
-    operationType: string = 'query'
+    operationType: string = 'query',
+    fragments: Record<string, any> = {},
+    limits: QueryComplexityLimits = MAX_QUERY_COMPLEXITY
 ): {
     valid: boolean;
     depth: number;
     fieldCount: number;
     complexityScore: number;
+    breakdown: FieldComplexity[];
     errors: string[];
     warnings: string[];
 } {
@@ -1770,27 +2207,41 @@ export function analyzeQueryComplexity(
         depth: 0,
         fieldCount: 0,
         complexityScore: 0,
+        breakdown: [] as FieldComplexity[],
         errors: [] as string[],
         warnings: [] as string[],
     };
 
     const visited = new Set<string>();
+    const expandingFragments: string[] = [];
+    const reportedCycles = new Set<string>();
+    let truncated = false;
 
-    function analyzeNode(node: any, currentDepth: number, path: string = ''): void {
-        if (!node || !node.fields) return;
+    // Returns the score of everything selected in node
+    function analyzeNode(node: any, currentDepth: number, path: string = '', fragment?: string): number {
+        if (!node || !node.fields) return 0;
+
+        // Once the field limit is exceeded the query is rejected anyway; stop before
+        // repeatedly spread fragments can blow up the expansion
+        if (result.fieldCount > limits.FIELD_COUNT) {
+            truncated = true;
+            return 0;
+        }
 
         if (currentDepth > result.depth) {
             result.depth = currentDepth;
         }
 
-        if (currentDepth > MAX_QUERY_COMPLEXITY.DEPTH) {
+        if (currentDepth > limits.DEPTH) {
             result.valid = false;
             result.errors.push(
-                `Query depth ${currentDepth} exceeds maximum allowed depth of ${MAX_QUERY_COMPLEXITY.DEPTH} at path: ${path}`
+                `Query depth ${currentDepth} exceeds maximum allowed depth of ${limits.DEPTH} at path: ${path}`
             );
-            return; // Stop analyzing deeper to prevent excessive error messages
+            return 0; // Stop analyzing deeper to prevent excessive error messages
         }
 
+        let nodeScore = 0;
+
         // Analyze each field
         Object.entries(node.fields).forEach(([fieldKey, fieldData]: [string, any]) => {
             const fieldPath = path ? `${path}.${fieldKey}` : fieldKey;
@@ -1822,28 +2273,65 @@ export function analyzeQueryComplexity(
 
             // Multiply by depth factor (deeper fields are more expensive)
             // Reduced multiplier from 1.5 to 1.2 to be less aggressive
-            fieldComplexity *= Math.pow(1.2, currentDepth);
+            const multiplier = Math.pow(1.2, currentDepth);
+            fieldComplexity *= multiplier;
 
             result.complexityScore += fieldComplexity;
 
+            const entry: FieldComplexity = {
+                path: fieldPath,
+                depth: currentDepth,
+                multiplier: Math.round(multiplier * 1000) / 1000,
+                score: fieldComplexity,
+                contribution: fieldComplexity,
+                ...(fragment ? { fragment } : {})
+            };
+            result.breakdown.push(entry);
+
             // Prevent circular references in analysis
             if (!visited.has(fieldPath)) {
                 visited.add(fieldPath);
 
                 // Recursively analyze nested fields
-                if (fieldData.fields && Object.keys(fieldData.fields).length > 0) {
-                    analyzeNode(fieldData, currentDepth + 1, fieldPath);
+                if ((fieldData.fields && Object.keys(fieldData.fields).length > 0) ||
+                    (fieldData.fragmentSpreads && fieldData.fragmentSpreads.length > 0) ||
+                    (fieldData.inlineFragments && fieldData.inlineFragments.length > 0)) {
+                    entry.contribution += analyzeNode(
+                        { ...fieldData, fields: fieldData.fields || {} },
+                        currentDepth + 1,
+                        fieldPath,
+                        fragment
+                    );
                 }
 
                 visited.delete(fieldPath);
             }
+
+            nodeScore += entry.contribution;
         });
 
-        // Analyze fragment spreads
+        // Analyze fragment spreads: expand to the fragment's fields when its definition is known
         if (node.fragmentSpreads && Array.isArray(node.fragmentSpreads)) {
             node.fragmentSpreads.forEach((fragmentName: string) => {
-                result.fieldCount++;
-                result.complexityScore += 2; // Fragment spreads add complexity
+                const definition = fragments[fragmentName];
+                if (expandingFragments.includes(fragmentName)) {
+                    const cycle = [...expandingFragments.slice(expandingFragments.indexOf(fragmentName)), fragmentName].join(' -> ');
+                    if (!reportedCycles.has(cycle)) {
+                        reportedCycles.add(cycle);
+                        result.valid = false;
+                        result.errors.push(`Fragment cycle detected: ${cycle}`);
+                    }
+                } else if (definition && definition.fields) {
+                    // Fragment fields are selected at the spread's own level
+                    expandingFragments.push(fragmentName);
+                    nodeScore += analyzeNode(definition, currentDepth, path, fragmentName);
+                    expandingFragments.pop();
+                } else {
+                    // Unknown fragment: nothing to expand, keep the flat estimate
+                    result.fieldCount++;
+                    result.complexityScore += 2; // Fragment spreads add complexity
+                    nodeScore += 2;
+                }
             });
         }
 
@@ -1851,41 +2339,47 @@ export function analyzeQueryComplexity(
         if (node.inlineFragments && Array.isArray(node.inlineFragments)) {
             node.inlineFragments.forEach((inlineFragment: any, index: number) => {
                 const fragPath = `${path}...on${inlineFragment.on_type || 'Unknown'}[${index}]`;
-                if (inlineFragment.selections) {
-                    analyzeNode({ fields: inlineFragment.selections }, currentDepth + 1, fragPath);
-                }
+                // Inline fragment selections sit at the same level as their siblings
+                nodeScore += analyzeNode({
+                    fields: inlineFragment.selections || {},
+                    fragmentSpreads: inlineFragment.fragmentSpreads,
+                    inlineFragments: inlineFragment.inlineFragments
+                }, currentDepth, fragPath, fragment);
             });
         }
+
+        return nodeScore;
     }
 
     // Start analysis from root
     analyzeNode(queryStructure, 1);
 
     // Check overall limits
-    if (result.fieldCount > MAX_QUERY_COMPLEXITY.FIELD_COUNT) {
+    if (result.fieldCount > limits.FIELD_COUNT) {
         result.valid = false;
         result.errors.push(
-            `Query field count ${result.fieldCount} exceeds maximum allowed field count of ${MAX_QUERY_COMPLEXITY.FIELD_COUNT}`
+            `Query field count ${truncated ? `over ${limits.FIELD_COUNT}` : result.fieldCount} exceeds maximum allowed field count of ${limits.FIELD_COUNT}` +
+            (truncated ? ' (analysis stopped early; fragments expand to too many fields)' : '')
         );
     }
 
-    if (result.complexityScore > MAX_QUERY_COMPLEXITY.TOTAL_COMPLEXITY_SCORE) {
+    if (result.complexityScore > limits.TOTAL_COMPLEXITY_SCORE) {
         result.valid = false;
         result.errors.push(
-            `Query complexity score ${Math.round(result.complexityScore)} exceeds maximum allowed complexity of ${MAX_QUERY_COMPLEXITY.TOTAL_COMPLEXITY_SCORE}`
+            `Query complexity score ${Math.round(result.complexityScore)} exceeds maximum allowed complexity of ${limits.TOTAL_COMPLEXITY_SCORE}`
         );
     }
 
     // Add warnings for high complexity
-    if (result.complexityScore > MAX_QUERY_COMPLEXITY.TOTAL_COMPLEXITY_SCORE * 0.7) {
+    if (result.complexityScore > limits.TOTAL_COMPLEXITY_SCORE * 0.7) {
         result.warnings.push(
-            `Query complexity score ${Math.round(result.complexityScore)} is approaching the limit of ${MAX_QUERY_COMPLEXITY.TOTAL_COMPLEXITY_SCORE}. Consider simplifying the query.`
+            `Query complexity score ${Math.round(result.complexityScore)} is approaching the limit of ${limits.TOTAL_COMPLEXITY_SCORE}. Consider simplifying the query.`
         );
     }
 
-    if (result.depth > MAX_QUERY_COMPLEXITY.DEPTH * 0.8) {
+    if (result.depth > limits.DEPTH * 0.8) {
         result.warnings.push(
-            `Query depth ${result.depth} is approaching the limit of ${MAX_QUERY_COMPLEXITY.DEPTH}. Consider reducing nesting.`
+            `Query depth ${result.depth} is approaching the limit of ${limits.DEPTH}. Consider reducing nesting.`
         );
     }
 
@@ -9,32 +9,39 @@ import {
     QueryState,
     validateInputComplexity
 } from "./shared-utils.js";
+import { getSchemaFingerprint } from "./schema-drift.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
 
 // Core business logic - testable function
 export async function createQuerySession(
     operationType: string = "query",
     operationName?: string,
-    sessionHeaders?: Record<string, string>
+    sessionHeaders?: Record<string, string>,
+    endpoint?: string
 ): Promise<{
     sessionId?: string;
     operationType?: string;
     operationName?: string;
+    endpoint?: string;
     createdAt?: string;
     error?: string;
+    code?: ToolErrorCode;
 }> {
     // Validate operation name syntax
     const operationNameValidation = GraphQLValidationUtils.validateOperationName(operationName || null);
     if (!operationNameValidation.valid) {
         return {
-            error: operationNameValidation.error
+            error: operationNameValidation.error,
+            code: operationNameValidation.code
         };
     }
 
-    const { url: resolvedUrl, headers: envHeaders } = resolveEndpointAndHeaders();
+    const { url: resolvedUrl, headers: envHeaders, endpoint: endpointName, error: endpointError } = resolveEndpointAndHeaders(endpoint);
 
     if (!resolvedUrl) {
         return {
-            error: "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)"
+            error: endpointError || "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)",
+            code: 'ENDPOINT_NOT_FOUND'
         };
     }
 
@@ -44,12 +51,12 @@ export async function createQuerySession(
     // --- Input Validation ---
     const complexityError = validateInputComplexity(mergedHeaders, "headers");
     if (complexityError) {
-        return { sessionId: '', error: complexityError };
+        return { sessionId: '', error: complexityError, code: 'LIMIT_EXCEEDED' };
     }
     // --- End Input Validation ---
 
     try {
-        const schema = await fetchAndCacheSchema(mergedHeaders);
+        const schema = await fetchAndCacheSchema(mergedHeaders, endpointName);
 
         // Check if the operation type is supported by the schema
         let operationTypeName: string;
@@ -61,7 +68,8 @@ export async function createQuerySession(
             operationTypeName = schema.getSubscriptionType()!.name;
         } else {
             return {
-                error: `Operation type '${operationType}' not supported by schema or invalid`
+                error: `Operation type '${operationType}' not supported by schema or invalid`,
+                code: 'INVALID_INPUT'
             };
         }
 
@@ -69,6 +77,8 @@ export async function createQuerySession(
         const sessionId = generateSessionId();
         const queryState: QueryState = {
             headers: mergedHeaders,
+            endpoint: endpointName,
+            schemaFingerprint: getSchemaFingerprint(schema),
             operationType,
             operationTypeName,
             operationName: operationName || null,
@@ -92,6 +102,7 @@ export async function createQuerySession(
             sessionId: sessionId,
             operationType: operationType,
             operationName: operationName,
+            endpoint: endpointName,
             createdAt: queryState.createdAt
         };
     } catch (error) {
@@ -108,19 +119,24 @@ export const startQuerySessionTool = {
         operationType: z.enum(["query", "mutation", "subscription"]).default("query").describe('The type of GraphQL operation: query, mutation, or subscription.'),
         operationName: z.string().optional().describe('An optional name for the GraphQL operation (e.g., "MyQueryName").'),
         headers: z.record(z.string()).optional().describe('Optional: Custom HTTP headers for this session (e.g., for authentication).'),
+        endpoint: z.string().optional().describe('Optional: Name of the configured GraphQL endpoint the session targets (see list-endpoints). Defaults to the default endpoint.'),
     },
-    handler: async ({ operationType = "query", operationName, headers: sessionHeaders }: {
+    outputSchema: {
+        sessionId: z.string().optional(),
+        operationType: z.string().optional(),
+        operationName: z.string().optional(),
+        endpoint: z.string().optional(),
+        createdAt: z.string().optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ operationType = "query", operationName, headers: sessionHeaders, endpoint }: {
         operationType?: string,
         operationName?: string,
-        headers?: Record<string, string>
+        headers?: Record<string, string>,
+        endpoint?: string
     }) => {
-        const result = await createQuerySession(operationType, operationName, sessionHeaders);
+        const result = await createQuerySession(operationType, operationName, sessionHeaders, endpoint);
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file
@@ -0,0 +1,252 @@
+// Subscription execution over the graphql-ws WebSocket protocol
+// (https://github.com/enisdenjo/graphql-ws/blob/master/PROTOCOL.md) and
+// GraphQL over Server-Sent Events in distinct connections mode
+// (https://github.com/enisdenjo/graphql-sse/blob/master/PROTOCOL.md)
+
+export type SubscriptionTransport = 'graphql-ws' | 'sse';
+
+export interface SubscriptionEvent {
+    index: number;
+    // Milliseconds since the subscription was started
+    receivedAfterMs: number;
+    data?: any;
+    errors?: any[];
+}
+
+export interface SubscriptionResult {
+    transport: SubscriptionTransport;
+    events: SubscriptionEvent[];
+    // True when the server ended the subscription
+    completed: boolean;
+    stoppedReason: 'complete' | 'max_events' | 'duration' | 'error';
+    error?: string;
+}
+
+export interface SubscriptionRequest {
+    url: string;
+    headers: Record<string, string>;
+    body: { query: string; variables: Record<string, any>; operationName?: string | null };
+    transport: SubscriptionTransport;
+    maxEvents: number;
+    durationMs: number;
+}
+
+/**
+ * Gathers events until the first of: the server completing the
+ * subscription, maxEvents events, durationMs elapsing, or an error.
+ */
+class EventCollector {
+    readonly events: SubscriptionEvent[] = [];
+    readonly done: Promise<void>;
+    stoppedReason: SubscriptionResult['stoppedReason'] | null = null;
+    error?: string;
+    private readonly startedAt = Date.now();
+    private resolveDone!: () => void;
+
+    constructor(private readonly maxEvents: number) {
+        this.done = new Promise(resolve => {
+            this.resolveDone = resolve;
+        });
+    }
+
+    get finished(): boolean {
+        return this.stoppedReason !== null;
+    }
+
+    add(payload: { data?: any; errors?: any[] }): void {
+        if (this.finished) return;
+        this.events.push({
+            index: this.events.length,
+            receivedAfterMs: Date.now() - this.startedAt,
+            ...(payload?.data !== undefined ? { data: payload.data } : {}),
+            ...(payload?.errors ? { errors: payload.errors } : {})
+        });
+        if (this.events.length >= this.maxEvents) {
+            this.finish('max_events');
+        }
+    }
+
+    finish(reason: SubscriptionResult['stoppedReason'], error?: string): void {
+        if (this.finished) return;
+        this.stoppedReason = reason;
+        this.error = error;
+        this.resolveDone();
+    }
+}
+
+// ws:// or wss:// URL of the same endpoint
+function toWebSocketUrl(url: string): string {
+    return url.replace(/^http(s?):\/\//i, 'ws$1://');
+}
+
+// Non-standard init object accepted by Node's (undici) WebSocket, so auth headers reach the handshake
+interface NodeWebSocketInit {
+    protocols: string[];
+    headers: Record<string, string>;
+}
+
+// Starts the subscription and returns a function that closes the connection
+function subscribeOverGraphQLWs(request: SubscriptionRequest, collector: EventCollector): () => void {
+    const WebSocketImpl = globalThis.WebSocket as (typeof WebSocket & (new (url: string, init: NodeWebSocketInit) => WebSocket)) | undefined;
+    if (!WebSocketImpl) {
+        collector.finish('error', 'The graphql-ws transport needs a global WebSocket (Node.js 22 or later); use the sse transport instead.');
+        return () => {};
+    }
+
+    const operationId = '1';
+    let subscribed = false;
+    const socket = new WebSocketImpl(toWebSocketUrl(request.url), {
+        protocols: ['graphql-transport-ws'],
+        headers: request.headers
+    });
+    const send = (message: Record<string, any>) => socket.send(JSON.stringify(message));
+
+    socket.onopen = () => send({ type: 'connection_init', payload: { headers: request.headers } });
+    socket.onmessage = (event: MessageEvent) => {
+        let message: any;
+        try {
+            message = JSON.parse(String(event.data));
+        } catch {
+            collector.finish('error', 'Received a message that is not valid JSON.');
+            return;
+        }
+        switch (message.type) {
+            case 'connection_ack':
+                subscribed = true;
+                send({ id: operationId, type: 'subscribe', payload: request.body });
+                break;
+            case 'ping':
+                send({ type: 'pong' });
+                break;
+            case 'next':
+                collector.add(message.payload);
+                break;
+            case 'error':
+                subscribed = false;
+                collector.add({ errors: message.payload });
+                collector.finish('error', 'The server rejected the subscription.');
+                break;
+            case 'complete':
+                subscribed = false;
+                collector.finish('complete');
+                break;
+        }
+    };
+    socket.onerror = () => collector.finish('error', 'WebSocket connection failed.');
+    socket.onclose = (event: CloseEvent) => {
+        subscribed = false;
+        collector.finish('error', `Connection closed by the server (${event.code}${event.reason ? `: ${event.reason}` : ''}).`);
+    };
+
+    return () => {
+        if (subscribed && socket.readyState === WebSocketImpl.OPEN) {
+            send({ id: operationId, type: 'complete' });
+        }
+        socket.onclose = null;
+        socket.close(1000, 'Done');
+    };
+}
+
+// Feeds "event: next" / "event: complete" messages of an event stream to the collector
+async function readEventStream(body: ReadableStream<Uint8Array>, collector: EventCollector, setReader: (reader: ReadableStreamDefaultReader<Uint8Array>) => void): Promise<void> {
+    const reader = body.getReader();
+    setReader(reader);
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (!collector.finished) {
+        const { value, done } = await reader.read();
+        if (done) {
+            collector.finish('complete');
+            return;
+        }
+        buffer += decoder.decode(value, { stream: true });
+
+        const blocks = buffer.split(/\r?\n\r?\n/);
+        buffer = blocks.pop() || '';
+        for (const block of blocks) {
+            let eventName = 'message';
+            const dataLines: string[] = [];
+            block.split(/\r?\n/).forEach(line => {
+                if (line.startsWith('event:')) eventName = line.slice(6).trim();
+                if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''));
+            });
+
+            if (eventName === 'complete') {
+                collector.finish('complete');
+                return;
+            }
+            if ((eventName === 'next' || eventName === 'message') && dataLines.length > 0) {
+                try {
+                    collector.add(JSON.parse(dataLines.join('\n')));
+                } catch {
+                    collector.finish('error', 'Received an event whose data is not valid JSON.');
+                    return;
+                }
+            }
+        }
+    }
+}
+
+function subscribeOverSse(request: SubscriptionRequest, collector: EventCollector): () => void {
+    const controller = new AbortController();
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+
+    (async () => {
+        const response = await fetch(request.url, {
+            method: 'POST',
+            headers: {
+                ...request.headers,
+                'Content-Type': 'application/json',
+                Accept: 'text/event-stream'
+            },
+            body: JSON.stringify(request.body),
+            signal: controller.signal
+        });
+
+        if (!response.ok) {
+            collector.finish('error', `HTTP ${response.status}: ${response.statusText}`);
+            return;
+        }
+        const contentType = response.headers.get('content-type') || '';
+        if (!contentType.includes('text/event-stream') || !response.body) {
+            collector.finish('error', `Endpoint answered with '${contentType || 'no content type'}' instead of an event stream; it may not support GraphQL over SSE.`);
+            return;
+        }
+        await readEventStream(response.body, collector, streamReader => {
+            reader = streamReader;
+        });
+    })().catch(error => {
+        collector.finish('error', error instanceof Error ? error.message : String(error));
+    });
+
+    return () => {
+        controller.abort();
+        reader?.cancel().catch(() => {});
+    };
+}
+
+// graphql-ws needs a global WebSocket (Node.js 22 or later); SSE works on any runtime with fetch
+export function defaultSubscriptionTransport(): SubscriptionTransport {
+    return globalThis.WebSocket ? 'graphql-ws' : 'sse';
+}
+
+export async function collectSubscriptionEvents(request: SubscriptionRequest): Promise<SubscriptionResult> {
+    const collector = new EventCollector(request.maxEvents);
+    const close = request.transport === 'sse'
+        ? subscribeOverSse(request, collector)
+        : subscribeOverGraphQLWs(request, collector);
+    const timer = setTimeout(() => collector.finish('duration'), request.durationMs);
+
+    await collector.done;
+    clearTimeout(timer);
+    close();
+
+    return {
+        transport: request.transport,
+        events: collector.events,
+        completed: collector.stoppedReason === 'complete',
+        stoppedReason: collector.stoppedReason!,
+        ...(collector.error ? { error: collector.error } : {})
+    };
+}
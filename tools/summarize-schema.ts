@@ -0,0 +1,271 @@
+import { z } from "zod";
+import {
+    GraphQLSchema,
+    GraphQLNamedType,
+    getNamedType,
+    isObjectType,
+    isInterfaceType,
+    isUnionType,
+    isEnumType,
+    isInputObjectType,
+    isScalarType,
+    isLeafType,
+    isIntrospectionType,
+    isSpecifiedScalarType
+} from 'graphql';
+import { resolveEndpointAndHeaders, fetchAndCacheSchema } from "./shared-utils.js";
+import { getRootOperationTypes } from "./get-root-operation-types.js";
+import { getTypeInfo } from "./get-type-info.js";
+import { getConnectionInfo, getPaginationArguments } from "./connections.js";
+import { ToolErrorCode, toolResponse, toolErrorShape } from "./tool-output.js";
+
+const DEFAULT_MAX_TOKENS = 1500;
+const MIN_MAX_TOKENS = 100;
+const MAX_MAX_TOKENS = 20000;
+const DEFAULT_DEPTH = 1;
+const MAX_DEPTH = 3;
+const OFFSET_ARGUMENT_NAMES = ['limit', 'offset', 'skip', 'take', 'page', 'pageSize', 'perPage'];
+
+// Rough token count for English text and code; tokenizers average about four characters per token
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Collects summary lines until the token budget is spent, keeping count of
+ * what had to be left out.
+ */
+class SummaryBuilder {
+    private lines: string[] = [];
+    private tokens = 0;
+    private omitted = 0;
+
+    // Room for the line that reports omissions
+    private static readonly TRAILER_TOKENS = 30;
+
+    constructor(private readonly maxTokens: number) {}
+
+    private fits(line: string): boolean {
+        return this.tokens + estimateTokens(line) + 1 <= this.maxTokens - SummaryBuilder.TRAILER_TOKENS;
+    }
+
+    // Once a line is left out, later (lower priority) lines are left out too
+    add(line: string): void {
+        if (this.omitted > 0 || !this.fits(line)) {
+            this.omitted++;
+            return;
+        }
+        this.lines.push(line);
+        this.tokens += estimateTokens(line) + 1;
+    }
+
+    // Add as many list items as fit on one line, e.g. "Enums (12): A, B, +10 more"
+    addList(label: string, items: string[]): void {
+        if (items.length === 0) return;
+        const prefix = `${label} (${items.length}): `;
+        const full = prefix + items.join(', ');
+        if (this.omitted > 0 || this.fits(full)) {
+            this.add(full);
+            return;
+        }
+
+        const room = (this.maxTokens - SummaryBuilder.TRAILER_TOKENS - this.tokens - 1) * 4;
+        const suffix = `, +${items.length} more`;
+        let length = prefix.length + suffix.length;
+        let shown = 0;
+        while (shown < items.length && length + items[shown].length + 2 <= room) {
+            length += items[shown].length + 2;
+            shown++;
+        }
+        this.add(shown > 0 ? `${prefix}${items.slice(0, shown).join(', ')}, +${items.length - shown} more` : full);
+    }
+
+    build(): { summary: string; estimatedTokens: number; truncated: boolean } {
+        const lines = this.omitted > 0
+            ? [...this.lines, `... ${this.omitted} more line(s) omitted; raise maxTokens or use search-schema and get-type-info for details.`]
+            : this.lines;
+        const summary = lines.join('\n');
+        return { summary, estimatedTokens: estimateTokens(summary), truncated: this.omitted > 0 };
+    }
+}
+
+// "repository(owner: String!, name: String!; optional: followRenames): Repository"
+function formatSignature(field: { name: string; type: string; args: Array<{ name: string; type: string; defaultValue: string | null }> }): string {
+    const required = field.args.filter(arg => arg.type.endsWith('!') && arg.defaultValue === null);
+    const optional = field.args.filter(arg => !required.includes(arg));
+    const parts = [
+        required.map(arg => `${arg.name}: ${arg.type}`).join(', '),
+        optional.length > 0 ? `optional: ${optional.map(arg => arg.name).join(', ')}` : ''
+    ].filter(Boolean);
+    return `${field.name}${parts.length > 0 ? `(${parts.join('; ')})` : ''}: ${field.type}`;
+}
+
+// "Repository: id, name, owner: User, issues: IssueConnection"
+function formatTypeFields(type: GraphQLNamedType): string | null {
+    if (!isObjectType(type) && !isInterfaceType(type)) return null;
+    const fields = Object.values(type.getFields()).map(field => {
+        const namedType = getNamedType(field.type);
+        return isLeafType(namedType) ? field.name : `${field.name}: ${namedType.name}`;
+    });
+    return `${type.name}: ${fields.join(', ')}`;
+}
+
+function fieldTypesOf(type: GraphQLNamedType): GraphQLNamedType[] {
+    return isObjectType(type) || isInterfaceType(type)
+        ? Object.values(type.getFields()).map(field => getNamedType(field.type))
+        : [];
+}
+
+function groupTypesByKind(schema: GraphQLSchema, skip: Set<string>): Array<[string, string[]]> {
+    const groups: Array<[string, (type: GraphQLNamedType) => boolean]> = [
+        ['Objects', isObjectType],
+        ['Interfaces', isInterfaceType],
+        ['Unions', isUnionType],
+        ['Enums', isEnumType],
+        ['Input objects', isInputObjectType],
+        ['Custom scalars', type => isScalarType(type) && !isSpecifiedScalarType(type)]
+    ];
+    const types = Object.values(schema.getTypeMap())
+        .filter(type => !isIntrospectionType(type) && !skip.has(type.name));
+
+    return groups.map(([label, matches]) => [label, types.filter(matches).map(type => type.name)]);
+}
+
+// Core business logic - testable function
+export async function summarizeSchema(options: {
+    endpoint?: string;
+    maxTokens?: number;
+    depth?: number;
+} = {}): Promise<{
+    summary?: string;
+    estimatedTokens?: number;
+    truncated?: boolean;
+    error?: string;
+    code?: ToolErrorCode;
+}> {
+    const { url: resolvedUrl, headers, error: endpointError } = resolveEndpointAndHeaders(options.endpoint);
+
+    if (!resolvedUrl) {
+        return {
+            error: endpointError || "No default GraphQL endpoint configured in environment variables (DEFAULT_GRAPHQL_ENDPOINT)",
+            code: 'ENDPOINT_NOT_FOUND'
+        };
+    }
+
+    try {
+        const maxTokens = Math.min(Math.max(options.maxTokens ?? DEFAULT_MAX_TOKENS, MIN_MAX_TOKENS), MAX_MAX_TOKENS);
+        const depth = Math.min(Math.max(options.depth ?? DEFAULT_DEPTH, 1), MAX_DEPTH);
+
+        const rootOperations = await getRootOperationTypes(options.endpoint);
+        if (rootOperations.error) {
+            return { error: rootOperations.error, code: rootOperations.code };
+        }
+        const schema = await fetchAndCacheSchema(headers, options.endpoint);
+        const builder = new SummaryBuilder(maxTokens);
+
+        const roots = [
+            ['query', rootOperations.query_type],
+            ['mutation', rootOperations.mutation_type],
+            ['subscription', rootOperations.subscription_type]
+        ].filter((entry): entry is [string, string] => !!entry[1]);
+
+        // Root fields with signatures come first: they are where every operation starts
+        const rootTypeInfos = await Promise.all(roots.map(([, typeName]) => getTypeInfo(typeName, options.endpoint)));
+        roots.forEach(([operation, typeName], index) => {
+            const fields = rootTypeInfos[index].fields || [];
+            builder.add(`${operation} ${typeName} (${fields.length} fields):`);
+            fields.forEach(field => builder.add(`  ${formatSignature(field)}`));
+        });
+
+        // Connections, and list fields paged with offset-style arguments
+        const connectionTypes = new Set<string>();
+        const connectionLines: string[] = [];
+        const offsetFields: string[] = [];
+        Object.values(schema.getTypeMap())
+            .filter(type => !isIntrospectionType(type))
+            .forEach(type => {
+                if (!isObjectType(type) && !isInterfaceType(type)) return;
+                Object.values(type.getFields()).forEach(field => {
+                    const connection = getConnectionInfo(getNamedType(field.type));
+                    if (connection) {
+                        if (!connectionTypes.has(connection.connectionType)) {
+                            const { forward, backward } = getPaginationArguments(field);
+                            const directions = [forward ? 'first/after' : '', backward ? 'last/before' : ''].filter(Boolean).join(', ');
+                            connectionTypes.add(connection.connectionType);
+                            if (connection.edgeType) connectionTypes.add(connection.edgeType);
+                            connectionLines.push(`${connection.connectionType} -> ${connection.nodeType}${directions ? ` (${directions})` : ''}`);
+                        }
+                        return;
+                    }
+                    const offsetArgs = field.args
+                        .map(arg => arg.name)
+                        .filter(name => OFFSET_ARGUMENT_NAMES.includes(name));
+                    if (offsetArgs.length > 0) {
+                        offsetFields.push(`${type.name}.${field.name}(${offsetArgs.join(', ')})`);
+                    }
+                });
+            });
+
+        if (connectionLines.length > 0 || offsetFields.length > 0) {
+            builder.add('pagination:');
+            if (connectionLines.length > 0) {
+                builder.add(`  Relay connections (${connectionLines.length}), select edges { node } or nodes plus pageInfo { hasNextPage endCursor }:`);
+                connectionLines.forEach(line => builder.add(`    ${line}`));
+            }
+            builder.addList('  Offset-paged fields', offsetFields);
+        }
+
+        // Fields of the types reachable from the root fields, one level per extra depth
+        if (depth > 1) {
+            const seen = new Set<string>(roots.map(([, typeName]) => typeName));
+            let level = roots.flatMap(([, typeName]) => fieldTypesOf(schema.getType(typeName)!));
+            builder.add('types:');
+            for (let currentDepth = 2; currentDepth <= depth && level.length > 0; currentDepth++) {
+                const nextLevel: GraphQLNamedType[] = [];
+                level.forEach(type => {
+                    // Look through connections to the node type they page over
+                    const connection = getConnectionInfo(type);
+                    const summarized = connection ? schema.getType(connection.nodeType)! : type;
+                    const line = formatTypeFields(summarized);
+                    if (seen.has(summarized.name) || !line) return;
+                    seen.add(summarized.name);
+                    builder.add(`  ${line}`);
+                    nextLevel.push(...fieldTypesOf(summarized));
+                });
+                level = nextLevel;
+            }
+        }
+
+        const rootTypeNames = new Set(roots.map(([, typeName]) => typeName));
+        builder.add('type index:');
+        groupTypesByKind(schema, new Set([...rootTypeNames, ...connectionTypes]))
+            .forEach(([label, names]) => builder.addList(`  ${label}`, names));
+
+        return builder.build();
+    } catch (error) {
+        return {
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+export const summarizeSchemaTool = {
+    name: "summarize-schema",
+    description: "Compact, token-budgeted digest of a GraphQL schema: root fields with signatures and required arguments, pagination patterns, and type names grouped by kind, for orienting in one cheap call",
+    schema: {
+        maxTokens: z.number().int().min(MIN_MAX_TOKENS).max(MAX_MAX_TOKENS).optional().describe(`Optional: Approximate token budget for the summary (default ${DEFAULT_MAX_TOKENS}).`),
+        depth: z.number().int().min(1).max(MAX_DEPTH).optional().describe(`Optional: 1 summarizes root fields only; 2 and 3 also list the fields of types reachable from them (default ${DEFAULT_DEPTH}).`),
+        endpoint: z.string().optional().describe('Optional: Name of the configured GraphQL endpoint to use (see list-endpoints). Defaults to the default endpoint.'),
+    },
+    outputSchema: {
+        summary: z.string().optional(),
+        estimatedTokens: z.number().optional(),
+        truncated: z.boolean().optional(),
+        ...toolErrorShape,
+    },
+    handler: async ({ maxTokens, depth, endpoint }: { maxTokens?: number, depth?: number, endpoint?: string }) => {
+        const result = await summarizeSchema({ endpoint, maxTokens, depth });
+
+        return toolResponse(result);
+    }
+};
@@ -0,0 +1,103 @@
+import { z } from "zod";
+
+// Machine-readable error codes returned next to `error` in every tool result
+export const TOOL_ERROR_CODES = [
+    'SESSION_NOT_FOUND',
+    'ENDPOINT_NOT_FOUND',
+    'SCHEMA_UNAVAILABLE',
+    'TYPE_NOT_FOUND',
+    'FIELD_NOT_FOUND',
+    'ARGUMENT_NOT_FOUND',
+    'VARIABLE_NOT_FOUND',
+    'FRAGMENT_NOT_FOUND',
+    'DIRECTIVE_NOT_FOUND',
+    'ALREADY_EXISTS',
+    'INVALID_INPUT',
+    'VALIDATION_FAILED',
+    'LIMIT_EXCEEDED',
+    'RATE_LIMIT_EXCEEDED',
+    'UPSTREAM_ERROR',
+    'INTERNAL_ERROR',
+] as const;
+
+export type ToolErrorCode = typeof TOOL_ERROR_CODES[number];
+
+// Codes for messages of exceptions caught by a tool's catch-all; first matching pattern wins
+const EXCEPTION_CODE_PATTERNS: Array<[ToolErrorCode, RegExp]> = [
+    ['RATE_LIMIT_EXCEEDED', /rate limit exceeded/i],
+    ['ENDPOINT_NOT_FOUND', /^Unknown GraphQL endpoint|^No (default )?GraphQL endpoints? configured/],
+    ['SCHEMA_UNAVAILABLE', /^Error processing schema from|^(Unsupported|Cannot read|Invalid) schema file/],
+    ['LIMIT_EXCEEDED', /^Header \S+ exceeds/],
+    ['INVALID_INPUT', /^Headers must be|^Invalid header|^Prototype pollution/],
+    ['UPSTREAM_ERROR', /^HTTP \d{3}|^GraphQL errors:|fetch failed|aborted|timed out/i],
+];
+
+/**
+ * Pick the error code for a failed result that carries none. Tools return an
+ * explicit `code` for the failures they detect, so this only sees the messages
+ * of unexpected exceptions; anything unrecognised is INTERNAL_ERROR.
+ */
+export function classifyToolError(message: string): ToolErrorCode {
+    const match = EXCEPTION_CODE_PATTERNS.find(([, pattern]) => pattern.test(message));
+    return match ? match[0] : 'INTERNAL_ERROR';
+}
+
+// Error envelope shared by every tool's outputSchema
+export const toolErrorShape = {
+    error: z.string().optional().describe('Human-readable error message; present only when the call failed.'),
+    code: z.enum(TOOL_ERROR_CODES).optional().describe('Machine-readable error code; present whenever error is.'),
+    details: z.record(z.any()).optional().describe('Extra data for some errors, such as the limits and reset time of RATE_LIMIT_EXCEEDED.'),
+};
+
+// Fields of session-editing results that can leave declared variables unused
+export const unusedVariablesShape = {
+    unusedVariables: z.array(z.string()).optional(),
+    warning: z.string().optional(),
+};
+
+export const schemaDriftSchema = z.object({
+    previousFingerprint: z.string(),
+    currentFingerprint: z.string(),
+    comparedWithPreviousSchema: z.boolean(),
+    issues: z.array(z.object({ kind: z.string(), path: z.string(), message: z.string() })),
+});
+
+export const complexitySchema = z.object({
+    depth: z.number(),
+    fieldCount: z.number(),
+    complexityScore: z.number(),
+    warnings: z.array(z.string()),
+});
+
+// Value types accepted for arguments, variables and directive arguments
+export const scalarValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+/**
+ * MCP tool response for a core function result: the result as JSON text and as
+ * structuredContent, with a `code` added to failed results.
+ */
+export function toolResponse(result: { [key: string]: any; error?: string; code?: ToolErrorCode }) {
+    const structuredContent = result.error
+        ? { ...result, code: result.code || classifyToolError(result.error) }
+        : result;
+
+    return {
+        content: [{
+            type: "text" as const,
+            text: JSON.stringify(structuredContent, null, 2)
+        }],
+        structuredContent,
+        ...(result.error ? { isError: true } : {})
+    };
+}
+
+// MCP tool response for an exception thrown outside a tool's own error handling
+export function toolErrorResponse(error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    const explicitCode = (error as { code?: unknown })?.code;
+    return toolResponse({
+        error: message,
+        code: TOOL_ERROR_CODES.includes(explicitCode as ToolErrorCode) ? explicitCode as ToolErrorCode : undefined,
+        ...((error as { details?: unknown })?.details ? { details: (error as { details: unknown }).details } : {})
+    });
+}
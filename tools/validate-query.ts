@@ -1,38 +1,58 @@
 import { z } from "zod";
-import { QueryState, loadQueryState, buildQueryFromStructure, GraphQLValidationUtils, fetchAndCacheSchema, analyzeQueryComplexity } from "./shared-utils.js";
+import { QueryState, loadQueryState, buildQueryFromStructure, GraphQLValidationUtils, fetchAndCacheSchema, analyzeQueryComplexity, getEndpointLimits, saveQueryState } from "./shared-utils.js";
+import { getSessionSchemaDrift, getSchemaFingerprint, SchemaDrift } from "./schema-drift.js";
 import { parse } from 'graphql';
+import { ToolErrorCode, toolResponse, toolErrorShape, schemaDriftSchema, complexitySchema } from "./tool-output.js";
 
 // Core business logic - testable function
-export async function validateGraphQLQuery(sessionId: string): Promise<{
+export async function validateGraphQLQuery(sessionId: string, options: { acceptSchema?: boolean } = {}): Promise<{
     valid?: boolean;
     errors?: string[];
     warnings?: string[];
     query?: string;
     error?: string;
+    code?: ToolErrorCode;
     complexity?: {
         depth: number;
         fieldCount: number;
         complexityScore: number;
         warnings: string[];
     };
+    schemaDrift?: SchemaDrift;
+    schemaAccepted?: boolean;
 }> {
     try {
         // Load query state
         const queryState = await loadQueryState(sessionId);
         if (!queryState) {
             return {
-                error: 'Session not found.'
+                error: 'Session not found.',
+                code: 'SESSION_NOT_FOUND'
             };
         }
 
         // Use comprehensive query structure validation first
         try {
-            const schema = await fetchAndCacheSchema(queryState.headers);
+            const schema = await fetchAndCacheSchema(queryState.headers, queryState.endpoint);
             const validation = GraphQLValidationUtils.validateQueryStructure(schema, queryState);
 
+            // Explain failures caused by upstream schema changes since the session was built
+            const schemaDrift = getSessionSchemaDrift(queryState, schema);
+            const withDrift = <T extends { warnings?: string[] }>(result: T) => {
+                if (!schemaDrift) return result;
+                return {
+                    ...result,
+                    warnings: [
+                        ...(result.warnings || []),
+                        `The schema changed since this session was built (${schemaDrift.previousFingerprint} -> ${schemaDrift.currentFingerprint}); ${schemaDrift.issues.length} selection issue(s) found, see schemaDrift.`
+                    ],
+                    schemaDrift
+                };
+            };
+
             // If query structure validation fails, return early
             if (!validation.valid) {
-                return {
+                return withDrift({
                     valid: false,
                     errors: validation.errors,
                     warnings: validation.warnings,
@@ -43,7 +63,7 @@ export async function validateGraphQLQuery(sessionId: string): Promise<{
                         queryState.operationName,
                         queryState.fragments
                     )
-                };
+                });
             }
 
             // Build query string for GraphQL validation (include operation directives and variable defaults)
@@ -63,7 +83,9 @@ export async function validateGraphQLQuery(sessionId: string): Promise<{
             // Get complexity analysis first 
             const complexityAnalysis = analyzeQueryComplexity(
                 queryState.queryStructure,
-                queryState.operationType
+                queryState.operationType,
+                queryState.fragments,
+                getEndpointLimits(queryState.endpoint)
             );
 
             const allWarnings = [...(validation.warnings || []), ...(complexityAnalysis.warnings || [])];
@@ -82,7 +104,7 @@ export async function validateGraphQLQuery(sessionId: string): Promise<{
                     );
                     
                     if (!variableValidation.valid) {
-                        return {
+                        return withDrift({
                             valid: false,
                             errors: variableValidation.errors || ['Variable validation failed'],
                             warnings: allWarnings,
@@ -93,12 +115,12 @@ export async function validateGraphQLQuery(sessionId: string): Promise<{
                                 complexityScore: complexityAnalysis.complexityScore,
                                 warnings: complexityAnalysis.warnings,
                             }
-                        };
+                        });
                     }
                 } catch (parseError) {
                     // If parsing fails, the graphqlValidation above should have caught it
                     // This is a fallback for variable-specific parsing issues
-                    return {
+                    return withDrift({
                         valid: false,
                         errors: [`Variable validation parsing failed: ${parseError instanceof Error ? parseError.message : String(parseError)}`],
                         warnings: allWarnings,
@@ -109,12 +131,12 @@ export async function validateGraphQLQuery(sessionId: string): Promise<{
                             complexityScore: complexityAnalysis.complexityScore,
                             warnings: complexityAnalysis.warnings,
                         }
-                    };
+                    });
                 }
             }
 
             if (!graphqlValidation.valid) {
-                return {
+                return withDrift({
                     valid: false,
                     errors: graphqlValidation.errors || ['Unknown validation error'],
                     warnings: allWarnings,
@@ -125,10 +147,18 @@ export async function validateGraphQLQuery(sessionId: string): Promise<{
                         complexityScore: complexityAnalysis.complexityScore,
                         warnings: complexityAnalysis.warnings,
                     }
-                };
+                });
             }
 
-            return {
+            // Only on request: measure drift from now on against the schema this query is valid for
+            const currentFingerprint = getSchemaFingerprint(schema);
+            const schemaAccepted = options.acceptSchema === true && queryState.schemaFingerprint !== currentFingerprint;
+            if (schemaAccepted) {
+                await saveQueryState(sessionId, { ...queryState, schemaFingerprint: currentFingerprint });
+            }
+
+            return withDrift({
+                ...(schemaAccepted && { schemaAccepted }),
                 valid: true,
                 errors: [],
                 warnings: allWarnings,
@@ -139,7 +169,7 @@ export async function validateGraphQLQuery(sessionId: string): Promise<{
                     complexityScore: complexityAnalysis.complexityScore,
                     warnings: complexityAnalysis.warnings,
                 }
-            };
+            });
         } catch (schemaError) {
             return {
                 valid: false,
@@ -167,15 +197,21 @@ export const validateQueryTool = {
     description: "Validate the built GraphQL query against the schema for syntax and semantic correctness",
     schema: {
         sessionId: z.string().describe('The session ID from start-query-session.'),
+        acceptSchema: z.boolean().optional().describe('When the query is valid, record the current schema as the one this session is built against, so later drift is measured from it. Recorded in the session history.'),
+    },
+    outputSchema: {
+        schemaAccepted: z.boolean().optional(),
+        valid: z.boolean().optional(),
+        errors: z.array(z.string()).optional(),
+        warnings: z.array(z.string()).optional(),
+        query: z.string().optional(),
+        complexity: complexitySchema.optional(),
+        schemaDrift: schemaDriftSchema.optional(),
+        ...toolErrorShape,
     },
-    handler: async ({ sessionId }: { sessionId: string }) => {
-        const result = await validateGraphQLQuery(sessionId);
+    handler: async ({ sessionId, acceptSchema }: { sessionId: string, acceptSchema?: boolean }) => {
+        const result = await validateGraphQLQuery(sessionId, { acceptSchema });
 
-        return {
-            content: [{
-                type: "text",
-                text: JSON.stringify(result, null, 2)
-            }],
-        };
+        return toolResponse(result);
     }
 }; 
\ No newline at end of file